@@ -33,4 +33,13 @@ public class AffiliateAccessAttribute : AuthorizeAttribute
     {
         Policy = Policies.AffiliateAccess;
     }
-}
\ No newline at end of file
+}
+
+public class RequirePermissionAttribute : AuthorizeAttribute
+{
+    public RequirePermissionAttribute(string permission)
+    {
+        // Program registers one policy per permission, named after it
+        Policy = permission;
+    }
+}
@@ -0,0 +1,39 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.Extensions.Options;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models;
+using System.Security.Claims;
+
+namespace SmartUnderwrite.Api.Authorization;
+
+public class MfaVerifiedHandler : AuthorizationHandler<MfaVerifiedRequirement>
+{
+    private readonly MfaSettings _settings;
+    private readonly ILogger<MfaVerifiedHandler> _logger;
+
+    public MfaVerifiedHandler(IOptions<MfaSettings> settings, ILogger<MfaVerifiedHandler> logger)
+    {
+        _settings = settings.Value;
+        _logger = logger;
+    }
+
+    protected override Task HandleRequirementAsync(
+        AuthorizationHandlerContext context,
+        MfaVerifiedRequirement requirement)
+    {
+        var user = context.User;
+
+        var roles = user.FindAll(ClaimTypes.Role).Select(c => c.Value).ToList();
+        var mfaRequired = roles.Any(role => _settings.RequiredRoles.Contains(role));
+
+        if (!mfaRequired || user.HasClaim(AppClaimTypes.MfaVerified, "true"))
+        {
+            context.Succeed(requirement);
+            return Task.CompletedTask;
+        }
+
+        _logger.LogWarning("User {UserId} with roles [{Roles}] denied access without a verified second factor",
+            user.FindFirst(ClaimTypes.NameIdentifier)?.Value, string.Join(", ", roles));
+        return Task.CompletedTask;
+    }
+}
\ No newline at end of file
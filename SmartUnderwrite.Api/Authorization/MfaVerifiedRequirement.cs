@@ -0,0 +1,11 @@
+using Microsoft.AspNetCore.Authorization;
+
+namespace SmartUnderwrite.Api.Authorization;
+
+/// <summary>
+/// Users in the roles listed in MfaSettings.RequiredRoles must have passed a
+/// second factor in this session. Everyone else passes.
+/// </summary>
+public class MfaVerifiedRequirement : IAuthorizationRequirement
+{
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+namespace SmartUnderwrite.Api.Constants;
+
+public static class AppClaimTypes
+{
+    // Set on access tokens issued after the user passed a second factor
+    public const string MfaVerified = "mfa";
+
+    // Set on "view as user" tokens; holds the id of the admin behind them
+    public const string ImpersonatorId = "impersonatorId";
+
+    // The session (refresh token) an access token was issued for
+    public const string SessionId = "sessionId";
+}
@@ -0,0 +1,97 @@
+using System.Security.Claims;
+
+namespace SmartUnderwrite.Api.Constants;
+
+/// <summary>
+/// Named permissions checked by the API and sent to the client with the user,
+/// so neither side hard-codes which roles may do what
+/// </summary>
+public static class Permissions
+{
+    public const string ApplicationsCreate = "applications.create";
+    public const string DecisionsView = "decisions.view";
+    public const string DecisionsMake = "decisions.make";
+    public const string DecisionsApproveHighValue = "decisions.approve.highValue";
+    public const string RulesView = "rules.view";
+    public const string RulesEdit = "rules.edit";
+    public const string AffiliatesManage = "affiliates.manage";
+    public const string UsersManage = "users.manage";
+    public const string ReportsView = "reports.view";
+    public const string AuditView = "audit.view";
+    public const string AuditExport = "audit.export";
+    public const string PiiExport = "pii.export";
+
+    public static readonly IReadOnlyList<string> All = new[]
+    {
+        ApplicationsCreate, DecisionsView, DecisionsMake, DecisionsApproveHighValue,
+        RulesView, RulesEdit, AffiliatesManage, UsersManage, ReportsView, AuditView, AuditExport,
+        PiiExport
+    };
+
+    // The admin screens' permissions. Users in MfaSettings.RequiredRoles need a
+    // verified second factor to use them, as the client's requireMfa routes do.
+    public static readonly IReadOnlyList<string> MfaProtected = new[]
+    {
+        RulesView, RulesEdit, AffiliatesManage, UsersManage, ReportsView, AuditView, AuditExport
+    };
+}
+
+/// <summary>
+/// The policy table: which roles are granted which permissions
+/// </summary>
+public static class RolePermissions
+{
+    // Approving an application of this amount or more needs
+    // Permissions.DecisionsApproveHighValue
+    public const decimal HighValueAmount = 100_000m;
+
+    private static readonly IReadOnlyDictionary<string, string[]> ByRole = new Dictionary<string, string[]>
+    {
+        // Not ApplicationsCreate: an application belongs to the affiliate of the user who creates it
+        [Roles.Admin] = new[]
+        {
+            Permissions.DecisionsView,
+            Permissions.DecisionsMake,
+            Permissions.DecisionsApproveHighValue,
+            Permissions.RulesView,
+            Permissions.RulesEdit,
+            Permissions.AffiliatesManage,
+            Permissions.UsersManage,
+            Permissions.ReportsView,
+            Permissions.AuditView,
+            Permissions.AuditExport,
+            Permissions.PiiExport
+        },
+        [Roles.Underwriter] = new[]
+        {
+            Permissions.DecisionsView,
+            Permissions.DecisionsMake,
+            Permissions.RulesView,
+            Permissions.ReportsView,
+            Permissions.AuditView
+        },
+        [Roles.Affiliate] = new[]
+        {
+            Permissions.ApplicationsCreate
+        }
+    };
+
+    public static IReadOnlyList<string> ForRoles(IEnumerable<string> roles)
+    {
+        return roles
+            .SelectMany(role => ByRole.TryGetValue(role, out var permissions) ? permissions : Array.Empty<string>())
+            .Distinct()
+            .OrderBy(permission => permission, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    public static string[] RolesWith(string permission)
+    {
+        return ByRole.Where(entry => entry.Value.Contains(permission)).Select(entry => entry.Key).ToArray();
+    }
+
+    public static bool Grants(ClaimsPrincipal user, string permission)
+    {
+        return RolesWith(permission).Any(user.IsInRole);
+    }
+}
@@ -2,8 +2,10 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Api.Attributes;
 using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Affiliates;
+using SmartUnderwrite.Api.Services;
 using SmartUnderwrite.Core.Entities;
 using SmartUnderwrite.Infrastructure.Data;
 
@@ -11,20 +13,36 @@ namespace SmartUnderwrite.Api.Controllers;
 
 [ApiController]
 [Route("api/[controller]")]
-[Authorize(Roles = Roles.Admin)]
+[RequirePermission(Permissions.AffiliatesManage)]
 public class AffiliatesController : ControllerBase
 {
+    // Underwriters may be attached to an affiliate they specialise in; only
+    // Affiliate accounts are limited to its applications
+    private static readonly string[] AffiliateUserRoles = { Roles.Affiliate, Roles.Underwriter };
+
     private readonly SmartUnderwriteDbContext _context;
     private readonly UserManager<User> _userManager;
+    private readonly IJwtService _jwtService;
+    private readonly IAccountEmailService _accountEmailService;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly IAuditService _auditService;
     private readonly ILogger<AffiliatesController> _logger;
 
     public AffiliatesController(
         SmartUnderwriteDbContext context,
         UserManager<User> userManager,
+        IJwtService jwtService,
+        IAccountEmailService accountEmailService,
+        ICurrentUserService currentUserService,
+        IAuditService auditService,
         ILogger<AffiliatesController> logger)
     {
         _context = context ?? throw new ArgumentNullException(nameof(context));
         _userManager = userManager ?? throw new ArgumentNullException(nameof(userManager));
+        _jwtService = jwtService ?? throw new ArgumentNullException(nameof(jwtService));
+        _accountEmailService = accountEmailService ?? throw new ArgumentNullException(nameof(accountEmailService));
+        _currentUserService = currentUserService ?? throw new ArgumentNullException(nameof(currentUserService));
+        _auditService = auditService ?? throw new ArgumentNullException(nameof(auditService));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
     }
 
@@ -312,18 +330,17 @@ public class AffiliatesController : ControllerBase
 
             var users = await _context.Users
                 .Where(u => u.AffiliateId == id)
-                .Select(u => new AffiliateUserDto
-                {
-                    Id = u.Id,
-                    Email = u.Email ?? string.Empty,
-                    FirstName = u.FirstName,
-                    LastName = u.LastName,
-                    CreatedAt = u.CreatedAt,
-                    IsActive = !u.LockoutEnd.HasValue || u.LockoutEnd <= DateTimeOffset.UtcNow
-                })
+                .OrderBy(u => u.LastName)
+                .ThenBy(u => u.FirstName)
                 .ToListAsync();
 
-            return Ok(users);
+            var userDtos = new List<AffiliateUserDto>();
+            foreach (var user in users)
+            {
+                userDtos.Add(await ToAffiliateUserDtoAsync(user));
+            }
+
+            return Ok(userDtos);
         }
         catch (Exception ex)
         {
@@ -374,18 +391,8 @@ public class AffiliatesController : ControllerBase
                 return BadRequest(new { message = "Failed to assign user to affiliate", errors });
             }
 
-            var userDto = new AffiliateUserDto
-            {
-                Id = user.Id,
-                Email = user.Email ?? string.Empty,
-                FirstName = user.FirstName,
-                LastName = user.LastName,
-                CreatedAt = user.CreatedAt,
-                IsActive = !user.LockoutEnd.HasValue || user.LockoutEnd <= DateTimeOffset.UtcNow
-            };
-
             _logger.LogInformation("Assigned user {UserId} to affiliate {AffiliateId}", user.Id, id);
-            return Ok(userDto);
+            return Ok(await ToAffiliateUserDtoAsync(user));
         }
         catch (Exception ex)
         {
@@ -394,6 +401,119 @@ public class AffiliatesController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Creates an account for a new member of an affiliate and emails them a
+    /// link to choose their password
+    /// </summary>
+    [HttpPost("{id}/users/invite")]
+    [RequirePermission(Permissions.UsersManage)]
+    public async Task<ActionResult<AffiliateUserDto>> InviteAffiliateUser(int id, [FromBody] InviteAffiliateUserRequest request)
+    {
+        try
+        {
+            var affiliate = await _context.Affiliates.FindAsync(id);
+            if (affiliate == null)
+            {
+                return NotFound(new { message = "Affiliate not found" });
+            }
+
+            if (!affiliate.IsActive)
+            {
+                return BadRequest(new { message = "Users cannot be added to an inactive affiliate" });
+            }
+
+            if (!AffiliateUserRoles.Contains(request.Role))
+            {
+                return BadRequest(new { message = "Invalid role specified" });
+            }
+
+            if (await _userManager.FindByEmailAsync(request.Email) != null)
+            {
+                return BadRequest(new { message = "User with this email already exists" });
+            }
+
+            // The address is confirmed by following the emailed link, which
+            // is the only way to get a password
+            var user = new User
+            {
+                UserName = request.Email,
+                Email = request.Email,
+                FirstName = request.FirstName,
+                LastName = request.LastName,
+                AffiliateId = id,
+                EmailConfirmed = true
+            };
+
+            var result = await _userManager.CreateAsync(user);
+            if (!result.Succeeded)
+            {
+                var errors = result.Errors.Select(e => e.Description);
+                return BadRequest(new { message = "Failed to create user", errors });
+            }
+
+            // Without its role or the emailed link the account is unusable, so it is removed
+            // again and the invitation can simply be repeated
+            var roleResult = await _userManager.AddToRoleAsync(user, request.Role);
+            if (!roleResult.Succeeded)
+            {
+                await _userManager.DeleteAsync(user);
+                var errors = roleResult.Errors.Select(e => e.Description);
+                return BadRequest(new { message = "Failed to assign role", errors });
+            }
+
+            try
+            {
+                await _accountEmailService.SendAccountSetupEmailAsync(user, affiliate.Name);
+            }
+            catch
+            {
+                await _userManager.DeleteAsync(user);
+                throw;
+            }
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "INVITE",
+                new { user.Email, request.Role, AffiliateId = id }, _currentUserService.GetUserId());
+
+            _logger.LogInformation("Invited user {UserId} to affiliate {AffiliateId} with role {Role}", user.Id, id, request.Role);
+            return Ok(await ToAffiliateUserDtoAsync(user));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error inviting {Email} to affiliate {AffiliateId}", request.Email, id);
+            return StatusCode(500, new { message = "An error occurred while inviting the user" });
+        }
+    }
+
+    /// <summary>
+    /// Emails an affiliate user a password reset link
+    /// </summary>
+    [HttpPost("{id}/users/{userId}/reset-password")]
+    [RequirePermission(Permissions.UsersManage)]
+    public async Task<IActionResult> ResetAffiliateUserPassword(int id, int userId)
+    {
+        try
+        {
+            var user = await _userManager.FindByIdAsync(userId.ToString());
+            if (user == null || user.AffiliateId != id)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            await _accountEmailService.SendPasswordResetEmailAsync(user);
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "PASSWORD_RESET_REQUESTED",
+                new { user.Email }, _currentUserService.GetUserId());
+
+            _logger.LogInformation("Password reset sent to user {UserId} of affiliate {AffiliateId}", userId, id);
+            return Ok(new { message = $"A password reset link was sent to {user.Email}" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending password reset to user {UserId} of affiliate {AffiliateId}", userId, id);
+            return StatusCode(500, new { message = "An error occurred while sending the password reset" });
+        }
+    }
+
     /// <summary>
     /// Removes a user from an affiliate
     /// </summary>
@@ -428,6 +548,12 @@ public class AffiliatesController : ControllerBase
                 return BadRequest(new { message = "Failed to remove user from affiliate", errors });
             }
 
+            // Sessions carry the affiliate in their claims, so they end here
+            await _jwtService.RevokeAllRefreshTokensAsync(user.Id);
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "REMOVE_FROM_AFFILIATE",
+                new { user.Email, AffiliateId = id }, _currentUserService.GetUserId());
+
             _logger.LogInformation("Removed user {UserId} from affiliate {AffiliateId}", userId, id);
             return NoContent();
         }
@@ -437,4 +563,19 @@ public class AffiliatesController : ControllerBase
             return StatusCode(500, new { message = "An error occurred while removing the user from the affiliate" });
         }
     }
+
+    private async Task<AffiliateUserDto> ToAffiliateUserDtoAsync(User user)
+    {
+        return new AffiliateUserDto
+        {
+            Id = user.Id,
+            Email = user.Email ?? string.Empty,
+            FirstName = user.FirstName,
+            LastName = user.LastName,
+            Roles = (await _userManager.GetRolesAsync(user)).ToList(),
+            CreatedAt = user.CreatedAt,
+            LastLoginAt = user.LastLoginAt,
+            IsActive = !user.LockoutEnd.HasValue || user.LockoutEnd <= DateTimeOffset.UtcNow
+        };
+    }
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Api.Attributes;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Application;
+using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+using System.Text.Json;
+
+namespace SmartUnderwrite.Api.Controllers;
+
+/// <summary>
+/// Autosaved, unsubmitted applications of the signed-in user. A draft is
+/// submitted through <see cref="ApplicationsController.CreateApplication"/>
+/// with its id, which deletes it.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[RequirePermission(Permissions.ApplicationsCreate)]
+public class ApplicationDraftsController : ControllerBase
+{
+    private static readonly JsonSerializerOptions DataJsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly SmartUnderwriteDbContext _context;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ILogger<ApplicationDraftsController> _logger;
+
+    public ApplicationDraftsController(
+        SmartUnderwriteDbContext context,
+        ICurrentUserService currentUserService,
+        ILogger<ApplicationDraftsController> logger)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+        _currentUserService = currentUserService ?? throw new ArgumentNullException(nameof(currentUserService));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the user's drafts, most recently edited first
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<ApplicationDraftDto>>> GetDrafts()
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            var drafts = await _context.ApplicationDrafts
+                .Where(d => d.UserId == userId)
+                .OrderByDescending(d => d.UpdatedAt)
+                .ToListAsync();
+
+            return Ok(drafts.Select(MapToDto));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting application drafts");
+            return StatusCode(500, new { message = "An error occurred while getting drafts" });
+        }
+    }
+
+    /// <summary>
+    /// Gets one of the user's drafts
+    /// </summary>
+    [HttpGet("{id}")]
+    public async Task<ActionResult<ApplicationDraftDto>> GetDraft(int id)
+    {
+        try
+        {
+            var draft = await FindDraftAsync(id);
+            if (draft == null)
+            {
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            return Ok(MapToDto(draft));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting application draft {DraftId}", id);
+            return StatusCode(500, new { message = "An error occurred while getting the draft" });
+        }
+    }
+
+    /// <summary>
+    /// Starts a draft with what has been entered so far
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<ApplicationDraftDto>> CreateDraft([FromBody] SaveApplicationDraftRequest request)
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized();
+            }
+
+            var draft = new ApplicationDraft
+            {
+                UserId = userId.Value,
+                Step = request.Step,
+                Data = JsonSerializer.Serialize(request.Data, DataJsonOptions)
+            };
+
+            _context.ApplicationDrafts.Add(draft);
+            await _context.SaveChangesAsync();
+
+            return CreatedAtAction(nameof(GetDraft), new { id = draft.Id }, MapToDto(draft));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating application draft");
+            return StatusCode(500, new { message = "An error occurred while saving the draft" });
+        }
+    }
+
+    /// <summary>
+    /// Replaces a draft's fields and step; the wizard calls this as the user types
+    /// </summary>
+    [HttpPut("{id}")]
+    public async Task<ActionResult<ApplicationDraftDto>> UpdateDraft(int id, [FromBody] SaveApplicationDraftRequest request)
+    {
+        try
+        {
+            var draft = await FindDraftAsync(id);
+            if (draft == null)
+            {
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            draft.Step = request.Step;
+            draft.Data = JsonSerializer.Serialize(request.Data, DataJsonOptions);
+            draft.UpdatedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+
+            return Ok(MapToDto(draft));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating application draft {DraftId}", id);
+            return StatusCode(500, new { message = "An error occurred while saving the draft" });
+        }
+    }
+
+    /// <summary>
+    /// Discards a draft
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteDraft(int id)
+    {
+        try
+        {
+            var draft = await FindDraftAsync(id);
+            if (draft == null)
+            {
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            _context.ApplicationDrafts.Remove(draft);
+            await _context.SaveChangesAsync();
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting application draft {DraftId}", id);
+            return StatusCode(500, new { message = "An error occurred while discarding the draft" });
+        }
+    }
+
+    // Another user's draft is reported as missing rather than forbidden
+    private async Task<ApplicationDraft?> FindDraftAsync(int id)
+    {
+        var userId = _currentUserService.GetUserId();
+        return await _context.ApplicationDrafts
+            .FirstOrDefaultAsync(d => d.Id == id && d.UserId == userId);
+    }
+
+    private static ApplicationDraftDto MapToDto(ApplicationDraft draft) => new()
+    {
+        Id = draft.Id,
+        Step = draft.Step,
+        Data = JsonSerializer.Deserialize<ApplicationDraftData>(draft.Data, DataJsonOptions) ?? new(),
+        CreatedAt = draft.CreatedAt,
+        UpdatedAt = draft.UpdatedAt
+    };
+}
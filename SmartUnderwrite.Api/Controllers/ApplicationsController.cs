@@ -1,9 +1,12 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using SmartUnderwrite.Api.Attributes;
 using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Application;
 using SmartUnderwrite.Api.Models.Document;
+using SmartUnderwrite.Api.Models.Export;
 using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
 using SmartUnderwrite.Core.Enums;
 using System.Security.Claims;
 
@@ -17,17 +20,38 @@ public class ApplicationsController : ControllerBase
     private readonly IApplicationService _applicationService;
     private readonly IDecisionService _decisionService;
     private readonly IDocumentService _documentService;
+    private readonly IExportService _exportService;
     private readonly ILogger<ApplicationsController> _logger;
 
+    // The list's columns plus the applicant's contact details, which are masked by default
+    private static readonly IReadOnlyList<ExportColumn<LoanApplication>> ExportColumns = new List<ExportColumn<LoanApplication>>
+    {
+        new("id", "ID", la => la.Id),
+        new("applicant", "Applicant", la => $"{la.Applicant.FirstName} {la.Applicant.LastName}"),
+        new("email", "Email", la => la.Applicant.Email, ExportPii.Email),
+        new("phone", "Phone", la => la.Applicant.Phone, ExportPii.Phone),
+        new("ssnHash", "SSN Hash", la => la.Applicant.SsnHash, ExportPii.SsnHash),
+        new("productType", "Product", la => la.ProductType),
+        new("amount", "Amount", la => la.Amount),
+        new("incomeMonthly", "Monthly Income", la => la.IncomeMonthly),
+        new("employmentType", "Employment Type", la => la.EmploymentType),
+        new("creditScore", "Credit Score", la => la.CreditScore),
+        new("status", "Status", la => la.Status),
+        new("affiliate", "Affiliate", la => la.Affiliate.Name),
+        new("createdAt", "Created", la => la.CreatedAt)
+    };
+
     public ApplicationsController(
         IApplicationService applicationService,
         IDecisionService decisionService,
         IDocumentService documentService,
+        IExportService exportService,
         ILogger<ApplicationsController> logger)
     {
         _applicationService = applicationService ?? throw new ArgumentNullException(nameof(applicationService));
         _decisionService = decisionService ?? throw new ArgumentNullException(nameof(decisionService));
         _documentService = documentService ?? throw new ArgumentNullException(nameof(documentService));
+        _exportService = exportService ?? throw new ArgumentNullException(nameof(exportService));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
     }
 
@@ -35,7 +59,7 @@ public class ApplicationsController : ControllerBase
     /// Creates a new loan application
     /// </summary>
     [HttpPost]
-    [Authorize(Roles = Roles.Affiliate)]
+    [RequirePermission(Permissions.ApplicationsCreate)]
     public async Task<ActionResult<LoanApplicationDto>> CreateApplication([FromBody] CreateApplicationRequest request)
     {
         try
@@ -94,7 +118,7 @@ public class ApplicationsController : ControllerBase
     }
 
     /// <summary>
-    /// Gets a paginated list of loan applications with optional filtering
+    /// Gets a paginated list of loan applications with optional filtering, search and sorting
     /// </summary>
     [HttpGet]
     public async Task<ActionResult<PagedResult<LoanApplicationDto>>> GetApplications([FromQuery] ApplicationFilter filter)
@@ -104,6 +128,10 @@ public class ApplicationsController : ControllerBase
             var applications = await _applicationService.GetApplicationsAsync(filter, User);
             return Ok(applications);
         }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error retrieving applications");
@@ -111,11 +139,52 @@ public class ApplicationsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Exports every application matching the filter, not only one page, as CSV or XLSX
+    /// </summary>
+    [HttpGet("export")]
+    public async Task<IActionResult> ExportApplications([FromQuery] ApplicationFilter filter, [FromQuery] ExportRequest export)
+    {
+        try
+        {
+            var columns = _exportService.SelectColumns(ExportColumns, export);
+            var rows = _applicationService.StreamApplicationsAsync(filter, User);
+
+            Response.ContentType = _exportService.GetContentType(export.Format);
+            Response.Headers.ContentDisposition =
+                $"attachment; filename=\"{_exportService.GetFileName("applications", export.Format)}\"";
+            await _exportService.ExportAsync(Response.Body, "applications", export, columns, rows, filter, HttpContext.RequestAborted);
+            return new EmptyResult();
+        }
+        catch (ArgumentException ex) when (!Response.HasStarted)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex) when (!Response.HasStarted)
+        {
+            _logger.LogWarning(ex, "Unauthorized unmasked export of applications by user {UserId}", User.FindFirst(ClaimTypes.NameIdentifier)?.Value);
+            return Forbid();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error exporting applications");
+            // Part of the file is sent already, so the client can only be told by the broken download
+            if (Response.HasStarted)
+            {
+                HttpContext.Abort();
+                return new EmptyResult();
+            }
+
+            Response.Clear();
+            return StatusCode(500, new { message = "An error occurred while exporting applications" });
+        }
+    }
+
     /// <summary>
     /// Evaluates a loan application using the rules engine
     /// </summary>
     [HttpPost("{id}/evaluate")]
-    [Authorize(Roles = $"{Roles.Admin},{Roles.Underwriter}")]
+    [RequirePermission(Permissions.DecisionsMake)]
     public async Task<ActionResult<DecisionDto>> EvaluateApplication(int id)
     {
         try
@@ -159,7 +228,7 @@ public class ApplicationsController : ControllerBase
     /// Makes a manual decision on a loan application
     /// </summary>
     [HttpPost("{id}/decision")]
-    [Authorize(Roles = $"{Roles.Admin},{Roles.Underwriter}")]
+    [RequirePermission(Permissions.DecisionsMake)]
     public async Task<ActionResult<DecisionDto>> MakeManualDecision(int id, [FromBody] ManualDecisionRequest request)
     {
         try
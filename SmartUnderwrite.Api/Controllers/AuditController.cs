@@ -4,6 +4,7 @@ using SmartUnderwrite.Api.Attributes;
 using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Audit;
 using SmartUnderwrite.Api.Models.Application;
+using SmartUnderwrite.Api.Models.Export;
 using SmartUnderwrite.Api.Services;
 using SmartUnderwrite.Core.Entities;
 
@@ -15,11 +16,24 @@ namespace SmartUnderwrite.Api.Controllers;
 public class AuditController : ControllerBase
 {
     private readonly IAuditService _auditService;
+    private readonly IExportService _exportService;
     private readonly ILogger<AuditController> _logger;
 
-    public AuditController(IAuditService auditService, ILogger<AuditController> logger)
+    private static readonly IReadOnlyList<ExportColumn<AuditLog>> ExportColumns = new List<ExportColumn<AuditLog>>
+    {
+        new("id", "ID", a => a.Id),
+        new("timestamp", "Timestamp", a => a.Timestamp),
+        new("userId", "User ID", a => a.UserId),
+        new("action", "Action", a => a.Action),
+        new("entityType", "Entity", a => a.EntityType),
+        new("entityId", "Entity ID", a => a.EntityId),
+        new("changes", "Changes", a => a.Changes)
+    };
+
+    public AuditController(IAuditService auditService, IExportService exportService, ILogger<AuditController> logger)
     {
         _auditService = auditService;
+        _exportService = exportService;
         _logger = logger;
     }
 
@@ -29,7 +43,7 @@ public class AuditController : ControllerBase
     /// <param name="request">Filter parameters</param>
     /// <returns>Paginated list of audit logs</returns>
     [HttpGet]
-    [AuthorizeRoles(Roles.Admin, Roles.Underwriter)]
+    [RequirePermission(Permissions.AuditView)]
     public async Task<ActionResult<PagedResult<AuditLogDto>>> GetAuditLogs([FromQuery] AuditLogFilterRequest request)
     {
         try
@@ -41,18 +55,9 @@ public class AuditController : ControllerBase
                 request.EntityType,
                 request.EntityId,
                 request.FromDate,
-                request.ToDate);
-
-            // Apply additional filters
-            if (request.UserId.HasValue)
-            {
-                auditLogs = auditLogs.Where(a => a.UserId == request.UserId.ToString());
-            }
-
-            if (!string.IsNullOrEmpty(request.Action))
-            {
-                auditLogs = auditLogs.Where(a => a.Action.Contains(request.Action, StringComparison.OrdinalIgnoreCase));
-            }
+                request.ToDate,
+                request.UserId,
+                request.Action);
 
             // Apply pagination
             var totalCount = auditLogs.Count();
@@ -84,6 +89,55 @@ public class AuditController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Export every audit log entry matching the filters, not only one page, as CSV or XLSX
+    /// </summary>
+    /// <param name="request">Filter parameters; the page is ignored</param>
+    /// <param name="export">Format and columns</param>
+    /// <returns>The file</returns>
+    [HttpGet("export")]
+    [RequirePermission(Permissions.AuditExport)]
+    public async Task<IActionResult> ExportAuditLogs([FromQuery] AuditLogFilterRequest request, [FromQuery] ExportRequest export)
+    {
+        try
+        {
+            _logger.LogInformation("Exporting audit logs with filters: EntityType={EntityType}, EntityId={EntityId}, FromDate={FromDate}, ToDate={ToDate}, Format={Format}",
+                request.EntityType, request.EntityId, request.FromDate, request.ToDate, export.Format);
+
+            var columns = _exportService.SelectColumns(ExportColumns, export);
+            var rows = _auditService.StreamAuditLogsAsync(
+                request.EntityType,
+                request.EntityId,
+                request.FromDate,
+                request.ToDate,
+                request.UserId,
+                request.Action);
+
+            Response.ContentType = _exportService.GetContentType(export.Format);
+            Response.Headers.ContentDisposition =
+                $"attachment; filename=\"{_exportService.GetFileName("audit", export.Format)}\"";
+            await _exportService.ExportAsync(Response.Body, "audit", export, columns, rows, request, HttpContext.RequestAborted);
+            return new EmptyResult();
+        }
+        catch (ArgumentException ex) when (!Response.HasStarted)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error exporting audit logs");
+            // Part of the file is sent already, so the client can only be told by the broken download
+            if (Response.HasStarted)
+            {
+                HttpContext.Abort();
+                return new EmptyResult();
+            }
+
+            Response.Clear();
+            return StatusCode(500, "An error occurred while exporting audit logs");
+        }
+    }
+
     /// <summary>
     /// Get audit trail for a specific entity
     /// </summary>
@@ -91,7 +145,7 @@ public class AuditController : ControllerBase
     /// <param name="entityId">ID of the entity</param>
     /// <returns>Chronological audit trail for the entity</returns>
     [HttpGet("trail/{entityType}/{entityId}")]
-    [AuthorizeRoles(Roles.Admin, Roles.Underwriter)]
+    [RequirePermission(Permissions.AuditView)]
     public async Task<ActionResult<IEnumerable<AuditLogDto>>> GetEntityAuditTrail(string entityType, string entityId)
     {
         try
@@ -119,7 +173,7 @@ public class AuditController : ControllerBase
     /// <param name="id">Audit log ID</param>
     /// <returns>Audit log details</returns>
     [HttpGet("{id:int}")]
-    [AuthorizeRoles(Roles.Admin, Roles.Underwriter)]
+    [RequirePermission(Permissions.AuditView)]
     public async Task<ActionResult<AuditLogDto>> GetAuditLog(int id)
     {
         try
@@ -150,7 +204,7 @@ public class AuditController : ControllerBase
     /// <param name="toDate">End date for statistics</param>
     /// <returns>Audit statistics summary</returns>
     [HttpGet("summary")]
-    [AuthorizeRoles(Roles.Admin)]
+    [AdminOnly]
     public async Task<ActionResult<AuditSummaryDto>> GetAuditSummary([FromQuery] DateTime? fromDate, [FromQuery] DateTime? toDate)
     {
         try
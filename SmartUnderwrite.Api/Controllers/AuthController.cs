@@ -1,10 +1,17 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.ModelBinding;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+using SmartUnderwrite.Api.Models;
 using SmartUnderwrite.Api.Models.Auth;
 using SmartUnderwrite.Api.Services;
 using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Api.Attributes;
 using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Registrations;
+using SmartUnderwrite.Infrastructure.Data;
 using System.Security.Claims;
 
 namespace SmartUnderwrite.Api.Controllers;
@@ -13,25 +20,52 @@ namespace SmartUnderwrite.Api.Controllers;
 [Route("api/[controller]")]
 public class AuthController : ControllerBase
 {
+    // The refresh token is also issued as an httpOnly cookie so browser clients
+    // never have to keep it where scripts can read it
+    private const string RefreshTokenCookieName = "refreshToken";
+    private const string RefreshTokenCookiePath = "/api";
+    private const int RecoveryCodeCount = 10;
+
     private readonly UserManager<User> _userManager;
     private readonly SignInManager<User> _signInManager;
     private readonly IJwtService _jwtService;
+    private readonly IMfaService _mfaService;
+    private readonly IOidcService _oidcService;
+    private readonly JwtSettings _jwtSettings;
+    private readonly SmartUnderwriteDbContext _context;
+    private readonly IEmailService _emailService;
+    private readonly IAccountEmailService _accountEmailService;
+    private readonly IAuditService _auditService;
     private readonly ILogger<AuthController> _logger;
 
     public AuthController(
         UserManager<User> userManager,
         SignInManager<User> signInManager,
         IJwtService jwtService,
+        IMfaService mfaService,
+        IOidcService oidcService,
+        IOptions<JwtSettings> jwtSettings,
+        SmartUnderwriteDbContext context,
+        IEmailService emailService,
+        IAccountEmailService accountEmailService,
+        IAuditService auditService,
         ILogger<AuthController> logger)
     {
         _userManager = userManager;
         _signInManager = signInManager;
         _jwtService = jwtService;
+        _mfaService = mfaService;
+        _oidcService = oidcService;
+        _jwtSettings = jwtSettings.Value;
+        _context = context;
+        _emailService = emailService;
+        _accountEmailService = accountEmailService;
+        _auditService = auditService;
         _logger = logger;
     }
 
     [HttpPost("register")]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.UsersManage)]
     public async Task<ActionResult<LoginResponse>> Register([FromBody] RegisterRequest request)
     {
         try
@@ -111,6 +145,240 @@ public class AuthController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Self-service registration. The account stays inactive until the email
+    /// address is confirmed and an admin approves it.
+    /// </summary>
+    [HttpPost("signup")]
+    public async Task<ActionResult<SignUpResponse>> SignUp([FromBody] SignUpRequest request)
+    {
+        try
+        {
+            Invitation? invitation = null;
+            if (!string.IsNullOrWhiteSpace(request.InvitationCode))
+            {
+                invitation = await FindUsableInvitationAsync(request.InvitationCode);
+                if (invitation == null)
+                {
+                    return BadRequest(new { message = "Invitation code is invalid or has expired" });
+                }
+
+                if (invitation.Email != null &&
+                    !string.Equals(invitation.Email, request.Email, StringComparison.OrdinalIgnoreCase))
+                {
+                    return BadRequest(new { message = "Invitation code was issued for a different email address" });
+                }
+            }
+
+            var existingUser = await _userManager.FindByEmailAsync(request.Email);
+            if (existingUser != null)
+            {
+                return BadRequest(new { message = "User with this email already exists" });
+            }
+
+            // Affiliate staff join through an invitation; everyone else asks
+            // for underwriter access
+            var role = invitation != null ? Roles.Affiliate : Roles.Underwriter;
+
+            var user = new User
+            {
+                UserName = request.Email,
+                Email = request.Email,
+                FirstName = request.FirstName,
+                LastName = request.LastName,
+                AffiliateId = invitation?.AffiliateId,
+                EmailConfirmed = false,
+                IsApproved = false
+            };
+
+            var result = await _userManager.CreateAsync(user, request.Password);
+            if (!result.Succeeded)
+            {
+                var errors = string.Join(", ", result.Errors.Select(e => e.Description));
+                _logger.LogWarning("Failed to sign up user {Email}: {Errors}", request.Email, errors);
+                // Keyed by field like model validation errors so the form can
+                // show them next to the input
+                var fieldErrors = result.Errors
+                    .GroupBy(e => e.Code.StartsWith("Password") ? "Password" : "Email")
+                    .ToDictionary(g => g.Key, g => g.Select(e => e.Description).ToArray());
+                return BadRequest(new { message = "Failed to create account", errors = fieldErrors });
+            }
+
+            await _userManager.AddToRoleAsync(user, role);
+
+            if (invitation != null)
+            {
+                invitation.UsedAt = DateTime.UtcNow;
+                invitation.UsedByUserId = user.Id;
+                await _context.SaveChangesAsync();
+            }
+
+            await _accountEmailService.SendConfirmationEmailAsync(user);
+
+            _logger.LogInformation("User {Email} signed up with role {Role}", request.Email, role);
+            return Ok(new SignUpResponse
+            {
+                Email = request.Email,
+                Status = RegistrationStatus.PendingEmailConfirmation
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error during sign up for user: {Email}", request.Email);
+            return StatusCode(500, new { message = "An error occurred during sign up" });
+        }
+    }
+
+    [HttpPost("confirm-email")]
+    public async Task<ActionResult<SignUpResponse>> ConfirmEmail([FromBody] ConfirmEmailRequest request)
+    {
+        try
+        {
+            var user = await _userManager.FindByIdAsync(request.UserId.ToString());
+            if (user == null)
+            {
+                return BadRequest(new { message = "Invalid confirmation link" });
+            }
+
+            if (!user.EmailConfirmed)
+            {
+                var result = await _userManager.ConfirmEmailAsync(user, request.Token);
+                if (!result.Succeeded)
+                {
+                    return BadRequest(new { message = "Invalid or expired confirmation link" });
+                }
+
+                _logger.LogInformation("User {UserId} confirmed their email address", user.Id);
+            }
+
+            // The saved value, so the client is told what the database holds
+            var isApproved = await _context.Users
+                .Where(u => u.Id == user.Id)
+                .Select(u => u.IsApproved)
+                .SingleAsync();
+
+            return Ok(new SignUpResponse
+            {
+                Email = user.Email ?? string.Empty,
+                Status = isApproved ? RegistrationStatus.Active : RegistrationStatus.PendingApproval
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error confirming email for user {UserId}", request.UserId);
+            return StatusCode(500, new { message = "An error occurred while confirming the email address" });
+        }
+    }
+
+    /// <summary>
+    /// Lets the sign-up page show which affiliate an invitation code belongs to
+    /// </summary>
+    [HttpGet("invitations/{code}")]
+    public async Task<ActionResult<InvitationLookupDto>> GetInvitation(string code)
+    {
+        var invitation = await FindUsableInvitationAsync(code);
+        if (invitation == null)
+        {
+            return NotFound(new { message = "Invitation code is invalid or has expired" });
+        }
+
+        return Ok(new InvitationLookupDto
+        {
+            AffiliateName = invitation.Affiliate.Name,
+            Email = invitation.Email,
+            ExpiresAt = invitation.ExpiresAt
+        });
+    }
+
+    /// <summary>
+    /// Emails a password reset link. Always answers the same way so the
+    /// response does not reveal which addresses have an account.
+    /// </summary>
+    [HttpPost("forgot-password")]
+    public async Task<IActionResult> ForgotPassword([FromBody] ForgotPasswordRequest request)
+    {
+        try
+        {
+            var user = await _userManager.FindByEmailAsync(request.Email);
+
+            // An unconfirmed address may not belong to whoever signed up with it
+            if (user != null && user.EmailConfirmed)
+            {
+                await _accountEmailService.SendPasswordResetEmailAsync(user);
+                await _auditService.LogAsync(nameof(User), user.Id.ToString(), "PASSWORD_RESET_REQUESTED",
+                    new { user.Email }, user.Id);
+
+                _logger.LogInformation("Password reset requested for user {UserId}", user.Id);
+            }
+            else
+            {
+                _logger.LogWarning("Password reset requested for unknown or unconfirmed email: {Email}", request.Email);
+            }
+
+            return Ok(new { message = "If an account exists for this email address, a reset link is on its way" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error requesting password reset for: {Email}", request.Email);
+            return StatusCode(500, new { message = "An error occurred while requesting the password reset" });
+        }
+    }
+
+    /// <summary>
+    /// Sets a new password with the token from a reset link. The token expires
+    /// after an hour and stops working once it has been used.
+    /// </summary>
+    [HttpPost("reset-password")]
+    public async Task<IActionResult> ResetPassword([FromBody] ResetPasswordRequest request)
+    {
+        try
+        {
+            var user = await _userManager.FindByEmailAsync(request.Email);
+            if (user == null)
+            {
+                return BadRequest(new { message = "This password reset link is invalid or has expired" });
+            }
+
+            var result = await _userManager.ResetPasswordAsync(user, request.Token, request.NewPassword);
+            if (!result.Succeeded)
+            {
+                if (result.Errors.Any(e => e.Code == nameof(IdentityErrorDescriber.InvalidToken)))
+                {
+                    _logger.LogWarning("Invalid password reset token for user {UserId}", user.Id);
+                    return BadRequest(new { message = "This password reset link is invalid or has expired" });
+                }
+
+                var fieldErrors = new Dictionary<string, string[]>
+                {
+                    ["NewPassword"] = result.Errors.Select(e => e.Description).ToArray()
+                };
+                return BadRequest(new { message = "Failed to reset password", errors = fieldErrors });
+            }
+
+            // Sessions started with the old password end, and the failed
+            // attempts that led here no longer count towards a lockout
+            await _jwtService.RevokeAllRefreshTokensAsync(user.Id);
+            await _userManager.ResetAccessFailedCountAsync(user);
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "PASSWORD_RESET",
+                new { user.Email }, user.Id);
+
+            await _emailService.SendAsync(
+                user.Email!,
+                "Your SmartUnderwrite password was changed",
+                $"Hello {user.FirstName},\n\n" +
+                "Your password has just been reset. If you did not do this, contact your administrator immediately.");
+
+            _logger.LogInformation("Password reset for user {UserId}", user.Id);
+            return Ok(new { message = "Your password has been reset" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resetting password for: {Email}", request.Email);
+            return StatusCode(500, new { message = "An error occurred while resetting the password" });
+        }
+    }
+
     [HttpPost("login")]
     public async Task<ActionResult<LoginResponse>> Login([FromBody] LoginRequest request)
     {
@@ -140,27 +408,35 @@ public class AuthController : ControllerBase
                 return Unauthorized(new { message = "Invalid email or password" });
             }
 
-            var roles = await _userManager.GetRolesAsync(user);
-            var accessToken = await _jwtService.GenerateAccessTokenAsync(user, roles);
-            var refreshToken = _jwtService.GenerateRefreshToken();
-            
-            await _jwtService.SaveRefreshTokenAsync(user.Id, refreshToken);
+            if (!user.IsApproved)
+            {
+                return StatusCode(StatusCodes.Status403Forbidden, new
+                {
+                    message = user.EmailConfirmed
+                        ? "Your account is awaiting approval by an administrator"
+                        : "Please confirm your email address before signing in"
+                });
+            }
 
-            var response = new LoginResponse
+            if (await IsAccountDisabledAsync(user))
             {
-                AccessToken = accessToken,
-                RefreshToken = refreshToken,
-                ExpiresAt = DateTime.UtcNow.AddMinutes(15), // Should match JWT settings
-                User = new UserInfo
+                _logger.LogWarning("Login attempt for disabled account: {Email}", request.Email);
+                return AccountDisabled();
+            }
+
+            if (user.TwoFactorEnabled)
+            {
+                var roles = await _userManager.GetRolesAsync(user);
+                _logger.LogInformation("User {Email} passed the password step, awaiting second factor", request.Email);
+                return Ok(new LoginResponse
                 {
-                    Id = user.Id,
-                    Email = user.Email ?? string.Empty,
-                    FirstName = user.FirstName,
-                    LastName = user.LastName,
-                    Roles = roles.ToList(),
-                    AffiliateId = user.AffiliateId
-                }
-            };
+                    MfaChallengeToken = _mfaService.CreateChallengeToken(user),
+                    User = CreateUserInfo(user, roles, mfaVerified: false)
+                });
+            }
+
+            await RecordLoginAsync(user);
+            var response = await CreateSessionAsync(user, mfaVerified: false);
 
             _logger.LogInformation("User {Email} logged in successfully", request.Email);
             return Ok(response);
@@ -172,65 +448,231 @@ public class AuthController : ControllerBase
         }
     }
 
-    [HttpPost("refresh")]
-    public async Task<ActionResult<LoginResponse>> RefreshToken([FromBody] RefreshTokenRequest request)
+    /// <summary>
+    /// Completes a sign-in that was answered with an MFA challenge
+    /// </summary>
+    [HttpPost("login/mfa")]
+    public async Task<ActionResult<LoginResponse>> VerifyMfaLogin([FromBody] MfaLoginRequest request)
     {
         try
         {
-            var authHeader = Request.Headers.Authorization.FirstOrDefault();
-            if (authHeader == null || !authHeader.StartsWith("Bearer "))
+            var challenge = await _mfaService.ValidateChallengeTokenAsync(request.ChallengeToken);
+            if (challenge == null)
             {
-                return Unauthorized(new { message = "Invalid authorization header" });
+                return Unauthorized(new { message = "The sign-in attempt has expired. Please sign in again." });
             }
-            
-            var token = authHeader.Substring("Bearer ".Length).Trim();
-            var principal = _jwtService.GetPrincipalFromExpiredToken(token);
-            if (principal == null)
+
+            var user = challenge.User;
+
+            if (await _userManager.IsLockedOutAsync(user))
             {
-                return Unauthorized(new { message = "Invalid access token" });
+                return Unauthorized(new { message = "Account is locked due to multiple failed login attempts" });
             }
 
-            var userIdClaim = principal.FindFirst(ClaimTypes.NameIdentifier);
-            if (userIdClaim == null || !int.TryParse(userIdClaim.Value, out var userId))
+            if (await IsAccountDisabledAsync(user))
             {
-                return Unauthorized(new { message = "Invalid token claims" });
+                return AccountDisabled();
             }
 
-            var isValidRefreshToken = await _jwtService.ValidateRefreshTokenAsync(userId, request.RefreshToken);
-            if (!isValidRefreshToken)
+            if (!await _mfaService.VerifyCodeAsync(user, request.Code, request.UseRecoveryCode))
             {
-                return Unauthorized(new { message = "Invalid refresh token" });
+                await _userManager.AccessFailedAsync(user);
+                _logger.LogWarning("Invalid second factor for user {UserId}", user.Id);
+                return Unauthorized(new { message = "Invalid verification code" });
             }
 
-            var user = await _userManager.FindByIdAsync(userId.ToString());
+            await _userManager.ResetAccessFailedCountAsync(user);
+
+            if (request.UseRecoveryCode)
+            {
+                await _auditService.LogAsync(nameof(User), user.Id.ToString(), "MFA_RECOVERY_CODE_USED",
+                    new { RecoveryCodesLeft = await _userManager.CountRecoveryCodesAsync(user) }, user.Id);
+            }
+
+            if (challenge.SsoRoles != null)
+            {
+                await SyncOidcRolesAsync(user, challenge.SsoRoles);
+            }
+
+            await RecordLoginAsync(user);
+            var response = await CreateSessionAsync(user, mfaVerified: true);
+
+            _logger.LogInformation("User {UserId} logged in with a second factor", user.Id);
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error verifying second factor");
+            return StatusCode(500, new { message = "An error occurred during login" });
+        }
+    }
+
+    /// <summary>
+    /// Tells the sign-in page whether single sign-on is offered and where to
+    /// send the user for it
+    /// </summary>
+    [HttpGet("oidc")]
+    public async Task<ActionResult<OidcProviderResponse>> GetOidcProvider(CancellationToken cancellationToken)
+    {
+        try
+        {
+            return Ok(await _oidcService.GetProviderAsync(cancellationToken));
+        }
+        catch (Exception ex)
+        {
+            // An unreachable identity provider must not break password sign-in
+            _logger.LogWarning(ex, "Could not load the identity provider configuration");
+            return Ok(new OidcProviderResponse { Enabled = false });
+        }
+    }
+
+    /// <summary>
+    /// Completes a single sign-on: redeems the identity provider's authorization
+    /// code and signs in the matching user, creating the account on first use
+    /// </summary>
+    [HttpPost("oidc/login")]
+    public async Task<ActionResult<LoginResponse>> OidcLogin(
+        [FromBody] OidcLoginRequest request,
+        CancellationToken cancellationToken)
+    {
+        if (!_oidcService.IsEnabled)
+        {
+            return NotFound(new { message = "Single sign-on is not enabled" });
+        }
+
+        try
+        {
+            var identity = await _oidcService.ExchangeCodeAsync(request, cancellationToken);
+            // Not a 401: the caller has no session that a refresh could fix
+            if (identity == null)
+            {
+                return BadRequest(new { message = "Single sign-on failed. Please try again." });
+            }
+
+            if (identity.Roles.Count == 0)
+            {
+                _logger.LogWarning("Single sign-on by {Email}, who is in no mapped group", identity.Email);
+                return StatusCode(StatusCodes.Status403Forbidden, new
+                {
+                    message = "Your organization account has not been given access to SmartUnderwrite"
+                });
+            }
+
+            var user = await _userManager.FindByLoginAsync(OidcSettings.LoginProvider, identity.Subject);
             if (user == null)
             {
-                return Unauthorized(new { message = "User not found" });
+                user = await _userManager.FindByEmailAsync(identity.Email);
+
+                // Only an address the identity provider verified may take over an
+                // existing account, and never an affiliate's
+                if (user != null && (!identity.EmailVerified || user.AffiliateId.HasValue))
+                {
+                    return Conflict(new
+                    {
+                        message = "An account with this email address already exists. Sign in with your password."
+                    });
+                }
+
+                if (user == null)
+                {
+                    user = new User
+                    {
+                        UserName = identity.Email,
+                        Email = identity.Email,
+                        FirstName = identity.FirstName,
+                        LastName = identity.LastName,
+                        EmailConfirmed = true
+                    };
+
+                    var created = await _userManager.CreateAsync(user);
+                    if (!created.Succeeded)
+                    {
+                        return BadRequest(new { message = "Failed to create user", errors = created.Errors.Select(e => e.Description) });
+                    }
+
+                    await _auditService.LogAsync(nameof(User), user.Id.ToString(), "SSO_PROVISIONED",
+                        new { user.Email }, user.Id);
+                }
+
+                await _userManager.AddLoginAsync(user,
+                    new UserLoginInfo(OidcSettings.LoginProvider, identity.Subject, OidcSettings.LoginProvider));
             }
 
-            var roles = await _userManager.GetRolesAsync(user);
-            var newAccessToken = await _jwtService.GenerateAccessTokenAsync(user, roles);
-            var newRefreshToken = _jwtService.GenerateRefreshToken();
+            if (await IsAccountDisabledAsync(user))
+            {
+                _logger.LogWarning("Single sign-on for disabled account: {Email}", user.Email);
+                return AccountDisabled();
+            }
+
+            // The app's own second factor still applies to users who enrolled. The
+            // identity provider's roles are only taken over once it is verified.
+            if (user.TwoFactorEnabled)
+            {
+                return Ok(new LoginResponse
+                {
+                    MfaChallengeToken = _mfaService.CreateChallengeToken(user, identity.Roles),
+                    User = CreateUserInfo(user, identity.Roles, mfaVerified: false)
+                });
+            }
 
-            // Revoke old refresh token and save new one
-            await _jwtService.RevokeRefreshTokenAsync(userId, request.RefreshToken);
-            await _jwtService.SaveRefreshTokenAsync(userId, newRefreshToken);
+            await SyncOidcRolesAsync(user, identity.Roles);
+            await RecordLoginAsync(user);
+            var response = await CreateSessionAsync(user, mfaVerified: false);
 
-            var response = new LoginResponse
+            _logger.LogInformation("User {Email} logged in with single sign-on", user.Email);
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error during single sign-on");
+            return StatusCode(500, new { message = "An error occurred during login" });
+        }
+    }
+
+    [HttpPost("refresh")]
+    public async Task<ActionResult<LoginResponse>> RefreshToken(
+        [FromBody(EmptyBodyBehavior = EmptyBodyBehavior.Allow)] RefreshTokenRequest? request)
+    {
+        try
+        {
+            var refreshToken = GetRefreshToken(request);
+            var session = await _jwtService.FindRefreshTokenSessionAsync(refreshToken);
+            if (session == null)
             {
-                AccessToken = newAccessToken,
-                RefreshToken = newRefreshToken,
-                ExpiresAt = DateTime.UtcNow.AddMinutes(15),
-                User = new UserInfo
+                return Unauthorized(new { message = "Invalid refresh token" });
+            }
+
+            var userId = session.UserId;
+
+            // Clients holding the access token in memory lose it on reload and
+            // refresh with the cookie alone; a token that is sent must match
+            var authHeader = Request.Headers.Authorization.FirstOrDefault();
+            if (authHeader != null && authHeader.StartsWith("Bearer "))
+            {
+                var token = authHeader.Substring("Bearer ".Length).Trim();
+                var principal = _jwtService.GetPrincipalFromExpiredToken(token);
+                var userIdClaim = principal?.FindFirst(ClaimTypes.NameIdentifier);
+                if (userIdClaim == null || userIdClaim.Value != userId.ToString())
                 {
-                    Id = user.Id,
-                    Email = user.Email ?? string.Empty,
-                    FirstName = user.FirstName,
-                    LastName = user.LastName,
-                    Roles = roles.ToList(),
-                    AffiliateId = user.AffiliateId
+                    return Unauthorized(new { message = "Invalid access token" });
                 }
-            };
+            }
+
+            var user = await _userManager.FindByIdAsync(userId.ToString());
+            if (user == null)
+            {
+                return Unauthorized(new { message = "User not found" });
+            }
+
+            if (await IsAccountDisabledAsync(user))
+            {
+                await _jwtService.RevokeRefreshTokenAsync(userId, refreshToken);
+                return AccountDisabled();
+            }
+
+            // Replace the session's refresh token. The second factor carries
+            // over unless it has been switched off since.
+            var response = await CreateSessionAsync(user, session.MfaVerified && user.TwoFactorEnabled, session.SessionId);
 
             _logger.LogInformation("Token refreshed for user {UserId}", userId);
             return Ok(response);
@@ -244,17 +686,20 @@ public class AuthController : ControllerBase
 
     [HttpPost("logout")]
     [Authorize]
-    public async Task<IActionResult> Logout([FromBody] RefreshTokenRequest request)
+    public async Task<IActionResult> Logout(
+        [FromBody(EmptyBodyBehavior = EmptyBodyBehavior.Allow)] RefreshTokenRequest? request)
     {
         try
         {
             var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
             if (userIdClaim != null && int.TryParse(userIdClaim.Value, out var userId))
             {
-                await _jwtService.RevokeRefreshTokenAsync(userId, request.RefreshToken);
+                await _jwtService.RevokeRefreshTokenAsync(userId, GetRefreshToken(request));
                 _logger.LogInformation("User {UserId} logged out successfully", userId);
             }
 
+            Response.Cookies.Delete(RefreshTokenCookieName, new CookieOptions { Path = RefreshTokenCookiePath });
+
             return Ok(new { message = "Logged out successfully" });
         }
         catch (Exception ex)
@@ -264,35 +709,134 @@ public class AuthController : ControllerBase
         }
     }
 
-    [HttpGet("me")]
+    /// <summary>
+    /// Lists the devices the current user is signed in on, most recently used
+    /// first
+    /// </summary>
+    [HttpGet("sessions")]
     [Authorize]
-    public async Task<ActionResult<UserInfo>> GetCurrentUser()
+    public async Task<ActionResult<IEnumerable<SessionDto>>> GetSessions()
     {
         try
         {
-            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
-            if (userIdClaim == null || !int.TryParse(userIdClaim.Value, out var userId))
-            {
-                return Unauthorized(new { message = "Invalid token" });
-            }
-
-            var user = await _userManager.FindByIdAsync(userId.ToString());
+            var user = await FindCurrentUserAsync();
             if (user == null)
             {
-                return NotFound(new { message = "User not found" });
+                return Unauthorized(new { message = "Invalid token" });
             }
 
-            var roles = await _userManager.GetRolesAsync(user);
+            var currentSessionId = GetCurrentSessionId();
+            var sessions = await _jwtService.GetSessionsAsync(user.Id);
 
-            var userInfo = new UserInfo
-            {
-                Id = user.Id,
-                Email = user.Email ?? string.Empty,
-                FirstName = user.FirstName,
-                LastName = user.LastName,
-                Roles = roles.ToList(),
-                AffiliateId = user.AffiliateId
-            };
+            return Ok(sessions.Select(session => MapToSessionDto(session, currentSessionId)));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting sessions");
+            return StatusCode(500, new { message = "An error occurred while getting sessions" });
+        }
+    }
+
+    /// <summary>
+    /// Signs out one of the current user's devices. Its access token stays
+    /// valid until it expires, which is minutes at most.
+    /// </summary>
+    [HttpDelete("sessions/{id}")]
+    [Authorize]
+    public async Task<IActionResult> RevokeSession(int id)
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            if (!await _jwtService.RevokeSessionAsync(user.Id, id))
+            {
+                return NotFound(new { message = "Session not found" });
+            }
+
+            if (id == GetCurrentSessionId())
+            {
+                Response.Cookies.Delete(RefreshTokenCookieName, new CookieOptions { Path = RefreshTokenCookiePath });
+            }
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "SESSION_REVOKED",
+                new { SessionId = id }, user.Id);
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error revoking session {SessionId}", id);
+            return StatusCode(500, new { message = "An error occurred while signing out the session" });
+        }
+    }
+
+    /// <summary>
+    /// Signs out every device of the current user, this one included
+    /// </summary>
+    [HttpDelete("sessions")]
+    [Authorize]
+    public async Task<IActionResult> RevokeAllSessions()
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            var count = await _jwtService.RevokeAllRefreshTokensAsync(user.Id);
+            Response.Cookies.Delete(RefreshTokenCookieName, new CookieOptions { Path = RefreshTokenCookiePath });
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "SESSIONS_REVOKED",
+                new { Count = count }, user.Id);
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error revoking sessions");
+            return StatusCode(500, new { message = "An error occurred while signing out your sessions" });
+        }
+    }
+
+    [HttpGet("me")]
+    [Authorize]
+    public async Task<ActionResult<UserInfo>> GetCurrentUser()
+    {
+        try
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            if (userIdClaim == null || !int.TryParse(userIdClaim.Value, out var userId))
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            var user = await _userManager.FindByIdAsync(userId.ToString());
+            if (user == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            if (await IsAccountDisabledAsync(user))
+            {
+                return AccountDisabled();
+            }
+
+            var roles = await _userManager.GetRolesAsync(user);
+            var mfaVerified = user.TwoFactorEnabled && User.HasClaim(AppClaimTypes.MfaVerified, "true");
+
+            var userInfo = CreateUserInfo(user, roles, mfaVerified);
+            if (int.TryParse(User.FindFirst(AppClaimTypes.ImpersonatorId)?.Value, out var impersonatorId))
+            {
+                var impersonator = await _userManager.FindByIdAsync(impersonatorId.ToString());
+                userInfo.Impersonator = impersonator != null ? CreateImpersonatorInfo(impersonator) : null;
+            }
 
             return Ok(userInfo);
         }
@@ -302,4 +846,454 @@ public class AuthController : ControllerBase
             return StatusCode(500, new { message = "An error occurred while getting user information" });
         }
     }
+
+    /// <summary>
+    /// Starts a read-only session as another user, so an admin can see the app
+    /// the way they do. The admin's own session is left as it is.
+    /// </summary>
+    [HttpPost("impersonation")]
+    [RequirePermission(Permissions.UsersManage)]
+    public async Task<ActionResult<ImpersonationResponse>> StartImpersonation([FromBody] StartImpersonationRequest request)
+    {
+        try
+        {
+            var admin = await FindCurrentUserAsync();
+            if (admin == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            var adminRoles = await _userManager.GetRolesAsync(admin);
+            if (_mfaService.IsRequiredFor(adminRoles) && !User.HasClaim(AppClaimTypes.MfaVerified, "true"))
+            {
+                return StatusCode(StatusCodes.Status403Forbidden, new
+                {
+                    message = "Sign in with two-step verification to view the app as another user"
+                });
+            }
+
+            var user = await _userManager.FindByIdAsync(request.UserId.ToString());
+            if (user == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            var roles = await _userManager.GetRolesAsync(user);
+
+            // Another admin's view is no different from the caller's own
+            if (user.Id == admin.Id || roles.Contains(Roles.Admin))
+            {
+                return BadRequest(new { message = "Administrators cannot be viewed as another user" });
+            }
+
+            if (!user.IsApproved || await IsAccountDisabledAsync(user))
+            {
+                return BadRequest(new { message = "This account cannot sign in, so it cannot be viewed either" });
+            }
+
+            var userInfo = CreateUserInfo(user, roles, mfaVerified: false);
+            userInfo.Impersonator = CreateImpersonatorInfo(admin);
+
+            var response = new ImpersonationResponse
+            {
+                AccessToken = await _jwtService.GenerateAccessTokenAsync(user, roles, impersonatorId: admin.Id),
+                ExpiresAt = DateTime.UtcNow.AddMinutes(_jwtSettings.ExpirationMinutes),
+                User = userInfo
+            };
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "IMPERSONATION_STARTED",
+                new { user.Email, request.Reason }, admin.Id);
+
+            _logger.LogInformation("Admin {AdminId} started viewing the app as user {UserId}", admin.Id, user.Id);
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error starting impersonation of user {UserId}", request.UserId);
+            return StatusCode(500, new { message = "An error occurred while starting the session" });
+        }
+    }
+
+    /// <summary>
+    /// Ends a session started with POST impersonation. Called with the
+    /// impersonation token, which the client then discards.
+    /// </summary>
+    [HttpDelete("impersonation")]
+    [Authorize]
+    public async Task<IActionResult> EndImpersonation()
+    {
+        try
+        {
+            if (!int.TryParse(User.FindFirst(AppClaimTypes.ImpersonatorId)?.Value, out var impersonatorId))
+            {
+                return BadRequest(new { message = "This session is not viewing the app as another user" });
+            }
+
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? string.Empty;
+            await _auditService.LogAsync(nameof(User), userId, "IMPERSONATION_ENDED",
+                new { Email = User.FindFirst(ClaimTypes.Email)?.Value }, impersonatorId);
+
+            _logger.LogInformation("Admin {AdminId} stopped viewing the app as user {UserId}", impersonatorId, userId);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error ending impersonation");
+            return StatusCode(500, new { message = "An error occurred while ending the session" });
+        }
+    }
+
+    /// <summary>
+    /// Gets the MFA state of the current user
+    /// </summary>
+    [HttpGet("mfa")]
+    [Authorize]
+    public async Task<ActionResult<MfaStatusResponse>> GetMfaStatus()
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            return Ok(new MfaStatusResponse
+            {
+                Enabled = user.TwoFactorEnabled,
+                Required = _mfaService.IsRequiredFor(await _userManager.GetRolesAsync(user)),
+                RecoveryCodesLeft = user.TwoFactorEnabled ? await _userManager.CountRecoveryCodesAsync(user) : 0
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting MFA status");
+            return StatusCode(500, new { message = "An error occurred while getting the MFA status" });
+        }
+    }
+
+    /// <summary>
+    /// Gets the authenticator key to enroll with, creating one if needed
+    /// </summary>
+    [HttpPost("mfa/setup")]
+    [Authorize]
+    public async Task<ActionResult<MfaSetupResponse>> SetupMfa()
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            if (user.TwoFactorEnabled)
+            {
+                return BadRequest(new { message = "Multi-factor authentication is already enabled" });
+            }
+
+            return Ok(await _mfaService.GetSetupAsync(user));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error setting up MFA");
+            return StatusCode(500, new { message = "An error occurred while setting up multi-factor authentication" });
+        }
+    }
+
+    /// <summary>
+    /// Turns MFA on after checking a code from the authenticator app
+    /// </summary>
+    [HttpPost("mfa/enable")]
+    [Authorize]
+    public async Task<ActionResult<MfaEnableResponse>> EnableMfa([FromBody] MfaCodeRequest request)
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            if (user.TwoFactorEnabled)
+            {
+                return BadRequest(new { message = "Multi-factor authentication is already enabled" });
+            }
+
+            if (!await _mfaService.VerifyCodeAsync(user, request.Code, useRecoveryCode: false))
+            {
+                return BadRequest(new
+                {
+                    message = "Invalid verification code",
+                    errors = new Dictionary<string, string[]> { ["Code"] = ["The code does not match your authenticator app"] }
+                });
+            }
+
+            await _userManager.SetTwoFactorEnabledAsync(user, true);
+            var recoveryCodes = await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, RecoveryCodeCount);
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "MFA_ENABLED", null, user.Id);
+
+            _logger.LogInformation("User {UserId} enabled MFA", user.Id);
+            return Ok(new MfaEnableResponse
+            {
+                RecoveryCodes = recoveryCodes?.ToList() ?? new List<string>(),
+                Session = await CreateSessionAsync(user, mfaVerified: true)
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error enabling MFA");
+            return StatusCode(500, new { message = "An error occurred while enabling multi-factor authentication" });
+        }
+    }
+
+    /// <summary>
+    /// Turns MFA off; not allowed for roles that require it
+    /// </summary>
+    [HttpPost("mfa/disable")]
+    [Authorize]
+    public async Task<IActionResult> DisableMfa([FromBody] MfaCodeRequest request)
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            if (!user.TwoFactorEnabled)
+            {
+                return BadRequest(new { message = "Multi-factor authentication is not enabled" });
+            }
+
+            if (_mfaService.IsRequiredFor(await _userManager.GetRolesAsync(user)))
+            {
+                return BadRequest(new { message = "Multi-factor authentication is required for your role" });
+            }
+
+            if (!await _mfaService.VerifyCodeAsync(user, request.Code, useRecoveryCode: false))
+            {
+                return BadRequest(new { message = "Invalid verification code" });
+            }
+
+            await _userManager.SetTwoFactorEnabledAsync(user, false);
+            await _userManager.ResetAuthenticatorKeyAsync(user);
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "MFA_DISABLED", null, user.Id);
+
+            _logger.LogInformation("User {UserId} disabled MFA", user.Id);
+            return Ok(new { message = "Multi-factor authentication disabled" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error disabling MFA");
+            return StatusCode(500, new { message = "An error occurred while disabling multi-factor authentication" });
+        }
+    }
+
+    /// <summary>
+    /// Replaces the recovery codes; the old ones stop working
+    /// </summary>
+    [HttpPost("mfa/recovery-codes")]
+    [Authorize]
+    public async Task<ActionResult<RecoveryCodesResponse>> RegenerateRecoveryCodes([FromBody] MfaCodeRequest request)
+    {
+        try
+        {
+            var user = await FindCurrentUserAsync();
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Invalid token" });
+            }
+
+            if (!user.TwoFactorEnabled)
+            {
+                return BadRequest(new { message = "Multi-factor authentication is not enabled" });
+            }
+
+            if (!await _mfaService.VerifyCodeAsync(user, request.Code, useRecoveryCode: false))
+            {
+                return BadRequest(new { message = "Invalid verification code" });
+            }
+
+            var recoveryCodes = await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, RecoveryCodeCount);
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "MFA_RECOVERY_CODES_REGENERATED", null, user.Id);
+
+            return Ok(new RecoveryCodesResponse { RecoveryCodes = recoveryCodes?.ToList() ?? new List<string>() });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error regenerating recovery codes");
+            return StatusCode(500, new { message = "An error occurred while regenerating recovery codes" });
+        }
+    }
+
+    private async Task<Invitation?> FindUsableInvitationAsync(string code)
+    {
+        var normalizedCode = code.Trim().ToUpperInvariant();
+        var invitation = await _context.Invitations
+            .Include(i => i.Affiliate)
+            .FirstOrDefaultAsync(i => i.Code == normalizedCode);
+
+        return invitation != null && invitation.IsUsable(DateTime.UtcNow) && invitation.Affiliate.IsActive
+            ? invitation
+            : null;
+    }
+
+    // Only interactive sign-ins count; refreshing a session does not
+    private async Task RecordLoginAsync(User user)
+    {
+        user.LastLoginAt = DateTime.UtcNow;
+        await _userManager.UpdateAsync(user);
+    }
+
+    // The identity provider's groups decide the roles of single sign-on users
+    private async Task SyncOidcRolesAsync(User user, IList<string> roles)
+    {
+        var currentRoles = await _userManager.GetRolesAsync(user);
+        var added = roles.Except(currentRoles).ToList();
+        var removed = currentRoles.Except(roles).ToList();
+
+        if (added.Count == 0 && removed.Count == 0)
+        {
+            return;
+        }
+
+        await _userManager.RemoveFromRolesAsync(user, removed);
+        await _userManager.AddToRolesAsync(user, added);
+
+        await _auditService.LogAsync(nameof(User), user.Id.ToString(), "SSO_ROLES_SYNCED",
+            new { Added = added, Removed = removed }, user.Id);
+    }
+
+    // Access tokens stay valid until they expire, so unapproved users and users
+    // of a deactivated affiliate are turned away here as well as at login. A
+    // lockout is not a reason: anyone can cause one by failing the password, so
+    // it only blocks new password sign-ins and leaves existing sessions alone.
+    private async Task<bool> IsAccountDisabledAsync(User user)
+    {
+        if (!user.IsApproved)
+        {
+            return true;
+        }
+
+        if (!user.AffiliateId.HasValue)
+        {
+            return false;
+        }
+
+        var affiliate = await _userManager.Users
+            .Where(u => u.Id == user.Id)
+            .Select(u => u.Affiliate)
+            .FirstOrDefaultAsync();
+
+        return affiliate != null && !affiliate.IsActive;
+    }
+
+    private ObjectResult AccountDisabled() =>
+        StatusCode(StatusCodes.Status403Forbidden, new { message = "Account is disabled" });
+
+    // The body wins so existing clients that send the token keep working
+    private string GetRefreshToken(RefreshTokenRequest? request)
+    {
+        if (!string.IsNullOrEmpty(request?.RefreshToken))
+        {
+            return request.RefreshToken;
+        }
+
+        return Request.Cookies[RefreshTokenCookieName] ?? string.Empty;
+    }
+
+    // Issues an access and refresh token pair; the refresh token also goes out
+    // as the httpOnly cookie. Refreshing passes the existing session, which
+    // keeps it and only replaces its refresh token.
+    private async Task<LoginResponse> CreateSessionAsync(User user, bool mfaVerified, int? sessionId = null)
+    {
+        var roles = await _userManager.GetRolesAsync(user);
+        var refreshToken = _jwtService.GenerateRefreshToken();
+
+        if (sessionId.HasValue)
+        {
+            await _jwtService.RotateRefreshTokenAsync(sessionId.Value, refreshToken, mfaVerified, GetSessionClient());
+        }
+        else
+        {
+            sessionId = await _jwtService.SaveRefreshTokenAsync(user.Id, refreshToken, mfaVerified, GetSessionClient());
+        }
+
+        var accessToken = await _jwtService.GenerateAccessTokenAsync(user, roles, mfaVerified, sessionId: sessionId);
+        SetRefreshTokenCookie(refreshToken);
+
+        return new LoginResponse
+        {
+            AccessToken = accessToken,
+            RefreshToken = refreshToken,
+            ExpiresAt = DateTime.UtcNow.AddMinutes(_jwtSettings.ExpirationMinutes),
+            User = CreateUserInfo(user, roles, mfaVerified)
+        };
+    }
+
+    private UserInfo CreateUserInfo(User user, IList<string> roles, bool mfaVerified) => new()
+    {
+        Id = user.Id,
+        Email = user.Email ?? string.Empty,
+        FirstName = user.FirstName,
+        LastName = user.LastName,
+        Roles = roles.ToList(),
+        Permissions = RolePermissions.ForRoles(roles).ToList(),
+        AffiliateId = user.AffiliateId,
+        MfaEnabled = user.TwoFactorEnabled,
+        MfaRequired = _mfaService.IsRequiredFor(roles),
+        MfaVerified = mfaVerified
+    };
+
+    private static ImpersonatorInfo CreateImpersonatorInfo(User admin) => new()
+    {
+        Id = admin.Id,
+        Email = admin.Email ?? string.Empty,
+        FirstName = admin.FirstName,
+        LastName = admin.LastName
+    };
+
+    private SessionClient GetSessionClient() => new(
+        Request.Headers.UserAgent.ToString() is { Length: > 0 } userAgent ? userAgent : null,
+        HttpContext.Connection.RemoteIpAddress?.ToString());
+
+    private int? GetCurrentSessionId() =>
+        int.TryParse(User.FindFirst(AppClaimTypes.SessionId)?.Value, out var sessionId) ? sessionId : null;
+
+    private static SessionDto MapToSessionDto(UserSession session, int? currentSessionId) => new()
+    {
+        Id = session.Id,
+        UserAgent = session.UserAgent,
+        IpAddress = session.IpAddress,
+        CreatedAt = session.CreatedAt,
+        LastUsedAt = session.LastUsedAt,
+        ExpiresAt = session.ExpiresAt,
+        IsCurrent = session.Id == currentSessionId
+    };
+
+    private async Task<User?> FindCurrentUserAsync()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+        return userIdClaim != null && int.TryParse(userIdClaim.Value, out var userId)
+            ? await _userManager.FindByIdAsync(userId.ToString())
+            : null;
+    }
+
+    private void SetRefreshTokenCookie(string refreshToken)
+    {
+        Response.Cookies.Append(RefreshTokenCookieName, refreshToken, new CookieOptions
+        {
+            HttpOnly = true,
+            Secure = Request.IsHttps,
+            SameSite = SameSiteMode.Strict,
+            Path = RefreshTokenCookiePath,
+            Expires = DateTimeOffset.UtcNow.AddDays(_jwtSettings.RefreshTokenExpirationDays)
+        });
+    }
 }
\ No newline at end of file
@@ -1,7 +1,11 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using SmartUnderwrite.Api.Attributes;
+using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Application;
+using SmartUnderwrite.Api.Models.Export;
 using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
 using System.Security.Claims;
 
 namespace SmartUnderwrite.Api.Controllers;
@@ -12,11 +16,25 @@ namespace SmartUnderwrite.Api.Controllers;
 public class DecisionController : ControllerBase
 {
     private readonly IDecisionService _decisionService;
+    private readonly IExportService _exportService;
     private readonly ILogger<DecisionController> _logger;
 
-    public DecisionController(IDecisionService decisionService, ILogger<DecisionController> logger)
+    private static readonly IReadOnlyList<ExportColumn<Decision>> ExportColumns = new List<ExportColumn<Decision>>
+    {
+        new("id", "Decision ID", d => d.Id),
+        new("applicationId", "Application ID", d => d.LoanApplicationId),
+        new("outcome", "Outcome", d => d.Outcome),
+        new("score", "Score", d => d.Score),
+        new("type", "Type", d => d.DecidedByUserId.HasValue ? "Manual" : "Automated"),
+        new("decidedBy", "Decided By", d => d.DecidedByUser != null ? $"{d.DecidedByUser.FirstName} {d.DecidedByUser.LastName}" : "System"),
+        new("decidedAt", "Date", d => d.DecidedAt),
+        new("reasons", "Reasons", d => string.Join("; ", d.Reasons))
+    };
+
+    public DecisionController(IDecisionService decisionService, IExportService exportService, ILogger<DecisionController> logger)
     {
         _decisionService = decisionService;
+        _exportService = exportService;
         _logger = logger;
     }
 
@@ -26,7 +44,7 @@ public class DecisionController : ControllerBase
     /// <param name="request">The decision request</param>
     /// <returns>The created decision</returns>
     [HttpPost]
-    [Authorize(Policy = "UnderwriterOrAdmin")]
+    [RequirePermission(Permissions.DecisionsMake)]
     public async Task<ActionResult<DecisionDto>> CreateDecision([FromBody] DecisionRequest request)
     {
         try
@@ -72,7 +90,7 @@ public class DecisionController : ControllerBase
     /// <param name="applicationId">The ID of the application to evaluate</param>
     /// <returns>The automated decision result</returns>
     [HttpPost("{applicationId}/evaluate")]
-    [Authorize(Policy = "UnderwriterOrAdmin")]
+    [RequirePermission(Permissions.DecisionsMake)]
     public async Task<ActionResult<DecisionDto>> EvaluateApplication(int applicationId)
     {
         try
@@ -105,7 +123,7 @@ public class DecisionController : ControllerBase
     /// <param name="request">The manual decision request</param>
     /// <returns>The manual decision result</returns>
     [HttpPost("{applicationId}/manual-decision")]
-    [Authorize(Policy = "UnderwriterOrAdmin")]
+    [RequirePermission(Permissions.DecisionsMake)]
     public async Task<ActionResult<DecisionDto>> MakeManualDecision(int applicationId, [FromBody] ManualDecisionRequest request)
     {
         try
@@ -199,19 +217,16 @@ public class DecisionController : ControllerBase
     /// <summary>
     /// Gets a paginated list of decisions
     /// </summary>
-    /// <param name="pageNumber">Page number (default: 1)</param>
-    /// <param name="pageSize">Page size (default: 10)</param>
+    /// <param name="filter">Outcome, type, date range and page (default: page 1 of 10)</param>
     /// <returns>Paginated list of decisions</returns>
     [HttpGet]
     [Authorize(Policy = "AllRoles")]
-    public async Task<ActionResult<PagedResult<DecisionDto>>> GetDecisions(
-        [FromQuery] int pageNumber = 1, 
-        [FromQuery] int pageSize = 10)
+    public async Task<ActionResult<PagedResult<DecisionDto>>> GetDecisions([FromQuery] DecisionFilter filter)
     {
         try
         {
-            _logger.LogDebug("Getting decisions with pagination: page {PageNumber}, size {PageSize}", pageNumber, pageSize);
-            var decisions = await _decisionService.GetDecisionsAsync(pageNumber, pageSize, User);
+            _logger.LogDebug("Getting decisions with pagination: page {PageNumber}, size {PageSize}", filter.PageNumber, filter.PageSize);
+            var decisions = await _decisionService.GetDecisionsAsync(filter, User);
             return Ok(decisions);
         }
         catch (UnauthorizedAccessException ex)
@@ -226,6 +241,47 @@ public class DecisionController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Exports every decision matching the filter, not only one page, as CSV or XLSX
+    /// </summary>
+    /// <param name="filter">Outcome, type and date range</param>
+    /// <param name="export">Format and columns</param>
+    /// <returns>The file</returns>
+    [HttpGet("export")]
+    [Authorize(Policy = "AllRoles")]
+    public async Task<IActionResult> ExportDecisions([FromQuery] DecisionFilter filter, [FromQuery] ExportRequest export)
+    {
+        try
+        {
+            var columns = _exportService.SelectColumns(ExportColumns, export);
+            var rows = _decisionService.StreamDecisionsAsync(filter, User, HttpContext.RequestAborted);
+
+            Response.ContentType = _exportService.GetContentType(export.Format);
+            Response.Headers.ContentDisposition =
+                $"attachment; filename=\"{_exportService.GetFileName("decisions", export.Format)}\"";
+            await _exportService.ExportAsync(Response.Body, "decisions", export, columns, rows, filter, HttpContext.RequestAborted);
+            return new EmptyResult();
+        }
+        catch (ArgumentException ex) when (!Response.HasStarted)
+        {
+            _logger.LogWarning("Invalid export request: {Message}", ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error exporting decisions");
+            // Part of the file is sent already, so the client can only be told by the broken download
+            if (Response.HasStarted)
+            {
+                HttpContext.Abort();
+                return new EmptyResult();
+            }
+
+            Response.Clear();
+            return StatusCode(500, new { message = "An error occurred while exporting decisions" });
+        }
+    }
+
     /// <summary>
     /// Gets a summary of decision statistics
     /// </summary>
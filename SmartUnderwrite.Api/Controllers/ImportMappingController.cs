@@ -0,0 +1,112 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Api.Attributes;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Application;
+using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+using System.Text.Json;
+
+namespace SmartUnderwrite.Api.Controllers;
+
+/// <summary>
+/// The column mapping the bulk import uses for the signed-in user's
+/// affiliate. The applications themselves are created one by one through
+/// <see cref="ApplicationsController.CreateApplication"/>.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[RequirePermission(Permissions.ApplicationsCreate)]
+public class ImportMappingController : ControllerBase
+{
+    private readonly SmartUnderwriteDbContext _context;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ILogger<ImportMappingController> _logger;
+
+    public ImportMappingController(
+        SmartUnderwriteDbContext context,
+        ICurrentUserService currentUserService,
+        ILogger<ImportMappingController> logger)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+        _currentUserService = currentUserService ?? throw new ArgumentNullException(nameof(currentUserService));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the affiliate's saved mapping; it has no columns until one is saved
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<ImportMappingDto>> GetImportMapping()
+    {
+        try
+        {
+            var affiliateId = _currentUserService.GetAffiliateId();
+            if (affiliateId == null)
+            {
+                return BadRequest(new { message = "Invalid affiliate user" });
+            }
+
+            var mapping = await _context.ImportMappings
+                .FirstOrDefaultAsync(m => m.AffiliateId == affiliateId.Value);
+
+            return Ok(mapping == null ? new ImportMappingDto() : MapToDto(mapping));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting the import mapping");
+            return StatusCode(500, new { message = "An error occurred while getting the import mapping" });
+        }
+    }
+
+    /// <summary>
+    /// Replaces the affiliate's mapping for all of its users
+    /// </summary>
+    [HttpPut]
+    public async Task<ActionResult<ImportMappingDto>> SaveImportMapping([FromBody] SaveImportMappingRequest request)
+    {
+        try
+        {
+            var affiliateId = _currentUserService.GetAffiliateId();
+            if (affiliateId == null)
+            {
+                return BadRequest(new { message = "Invalid affiliate user" });
+            }
+
+            if (request.Columns.Count > ImportMappingDto.MaxColumns ||
+                request.Columns.Any(c => c.Key.Length > ImportMappingDto.MaxLength || c.Value.Length > ImportMappingDto.MaxLength))
+            {
+                return BadRequest(new
+                {
+                    message = $"A mapping has at most {ImportMappingDto.MaxColumns} columns of up to {ImportMappingDto.MaxLength} characters"
+                });
+            }
+
+            var mapping = await _context.ImportMappings
+                .FirstOrDefaultAsync(m => m.AffiliateId == affiliateId.Value);
+            if (mapping == null)
+            {
+                mapping = new ImportMapping { AffiliateId = affiliateId.Value };
+                _context.ImportMappings.Add(mapping);
+            }
+
+            mapping.Columns = JsonSerializer.Serialize(request.Columns);
+            mapping.UpdatedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+
+            return Ok(MapToDto(mapping));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving the import mapping");
+            return StatusCode(500, new { message = "An error occurred while saving the import mapping" });
+        }
+    }
+
+    private static ImportMappingDto MapToDto(ImportMapping mapping) => new()
+    {
+        Columns = JsonSerializer.Deserialize<Dictionary<string, string>>(mapping.Columns) ?? new(),
+        UpdatedAt = mapping.UpdatedAt
+    };
+}
@@ -0,0 +1,290 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Api.Attributes;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Registrations;
+using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+using System.Security.Cryptography;
+
+namespace SmartUnderwrite.Api.Controllers;
+
+/// <summary>
+/// Admin review of self-service registrations and the invitation codes
+/// affiliate staff register with
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[RequirePermission(Permissions.UsersManage)]
+public class RegistrationsController : ControllerBase
+{
+    // No 0/O or 1/I so codes can be read out over the phone
+    private const string InvitationCodeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+    private const int InvitationCodeLength = 10;
+
+    private readonly SmartUnderwriteDbContext _context;
+    private readonly UserManager<User> _userManager;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly IAuditService _auditService;
+    private readonly IEmailService _emailService;
+    private readonly ILogger<RegistrationsController> _logger;
+
+    public RegistrationsController(
+        SmartUnderwriteDbContext context,
+        UserManager<User> userManager,
+        ICurrentUserService currentUserService,
+        IAuditService auditService,
+        IEmailService emailService,
+        ILogger<RegistrationsController> logger)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+        _userManager = userManager ?? throw new ArgumentNullException(nameof(userManager));
+        _currentUserService = currentUserService ?? throw new ArgumentNullException(nameof(currentUserService));
+        _auditService = auditService ?? throw new ArgumentNullException(nameof(auditService));
+        _emailService = emailService ?? throw new ArgumentNullException(nameof(emailService));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets registrations waiting for approval, oldest first
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<PendingRegistrationDto>>> GetPendingRegistrations()
+    {
+        try
+        {
+            var users = await _context.Users
+                .Include(u => u.Affiliate)
+                .Where(u => !u.IsApproved)
+                .OrderBy(u => u.CreatedAt)
+                .ToListAsync();
+
+            var registrations = new List<PendingRegistrationDto>();
+            foreach (var user in users)
+            {
+                registrations.Add(new PendingRegistrationDto
+                {
+                    Id = user.Id,
+                    Email = user.Email ?? string.Empty,
+                    FirstName = user.FirstName,
+                    LastName = user.LastName,
+                    Roles = (await _userManager.GetRolesAsync(user)).ToList(),
+                    AffiliateId = user.AffiliateId,
+                    AffiliateName = user.Affiliate?.Name,
+                    EmailConfirmed = user.EmailConfirmed,
+                    CreatedAt = user.CreatedAt
+                });
+            }
+
+            return Ok(registrations);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving pending registrations");
+            return StatusCode(500, new { message = "An error occurred while retrieving pending registrations" });
+        }
+    }
+
+    /// <summary>
+    /// Activates a registration whose email address has been confirmed
+    /// </summary>
+    [HttpPost("{userId}/approve")]
+    public async Task<IActionResult> ApproveRegistration(int userId)
+    {
+        try
+        {
+            var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId && !u.IsApproved);
+            if (user == null)
+            {
+                return NotFound(new { message = "Pending registration not found" });
+            }
+
+            if (!user.EmailConfirmed)
+            {
+                return BadRequest(new { message = "The email address has not been confirmed yet" });
+            }
+
+            user.IsApproved = true;
+            user.UpdatedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+
+            await _auditService.LogAsync(nameof(User), user.Id.ToString(), "APPROVE",
+                new { user.Email }, _currentUserService.GetUserId());
+
+            await _emailService.SendAsync(
+                user.Email!,
+                "Your SmartUnderwrite account is active",
+                $"Hello {user.FirstName},\n\nYour registration has been approved. You can now sign in.");
+
+            _logger.LogInformation("Registration of user {UserId} approved", userId);
+            return Ok(new { message = "Registration approved" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error approving registration of user {UserId}", userId);
+            return StatusCode(500, new { message = "An error occurred while approving the registration" });
+        }
+    }
+
+    /// <summary>
+    /// Rejects a registration and deletes the account
+    /// </summary>
+    [HttpPost("{userId}/reject")]
+    public async Task<IActionResult> RejectRegistration(int userId)
+    {
+        try
+        {
+            var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId && !u.IsApproved);
+            if (user == null)
+            {
+                return NotFound(new { message = "Pending registration not found" });
+            }
+
+            var result = await _userManager.DeleteAsync(user);
+            if (!result.Succeeded)
+            {
+                return BadRequest(new { message = "Failed to reject registration", errors = result.Errors.Select(e => e.Description) });
+            }
+
+            await _auditService.LogAsync(nameof(User), userId.ToString(), "REJECT",
+                new { user.Email }, _currentUserService.GetUserId());
+
+            _logger.LogInformation("Registration of user {UserId} rejected", userId);
+            return Ok(new { message = "Registration rejected" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error rejecting registration of user {UserId}", userId);
+            return StatusCode(500, new { message = "An error occurred while rejecting the registration" });
+        }
+    }
+
+    /// <summary>
+    /// Gets invitation codes, newest first
+    /// </summary>
+    [HttpGet("invitations")]
+    public async Task<ActionResult<IEnumerable<InvitationDto>>> GetInvitations()
+    {
+        try
+        {
+            var invitations = await _context.Invitations
+                .Include(i => i.Affiliate)
+                .OrderByDescending(i => i.CreatedAt)
+                .Select(i => new InvitationDto
+                {
+                    Id = i.Id,
+                    Code = i.Code,
+                    AffiliateId = i.AffiliateId,
+                    AffiliateName = i.Affiliate.Name,
+                    Email = i.Email,
+                    ExpiresAt = i.ExpiresAt,
+                    UsedAt = i.UsedAt,
+                    CreatedAt = i.CreatedAt
+                })
+                .ToListAsync();
+
+            return Ok(invitations);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving invitations");
+            return StatusCode(500, new { message = "An error occurred while retrieving invitations" });
+        }
+    }
+
+    /// <summary>
+    /// Issues an invitation code for staff of an affiliate
+    /// </summary>
+    [HttpPost("invitations")]
+    public async Task<ActionResult<InvitationDto>> CreateInvitation([FromBody] CreateInvitationRequest request)
+    {
+        try
+        {
+            var affiliate = await _context.Affiliates.FindAsync(request.AffiliateId);
+            if (affiliate == null)
+            {
+                return BadRequest(new { message = "Affiliate not found" });
+            }
+
+            if (!affiliate.IsActive)
+            {
+                return BadRequest(new { message = "Cannot invite users to an inactive affiliate" });
+            }
+
+            var invitation = new Invitation
+            {
+                Code = RandomNumberGenerator.GetString(InvitationCodeAlphabet, InvitationCodeLength),
+                AffiliateId = affiliate.Id,
+                Email = string.IsNullOrWhiteSpace(request.Email) ? null : request.Email.Trim(),
+                ExpiresAt = DateTime.UtcNow.AddDays(request.ExpiresInDays),
+                CreatedByUserId = _currentUserService.GetUserId() ?? 0,
+                CreatedAt = DateTime.UtcNow
+            };
+
+            _context.Invitations.Add(invitation);
+            await _context.SaveChangesAsync();
+
+            if (invitation.Email != null)
+            {
+                await _emailService.SendAsync(
+                    invitation.Email,
+                    $"You are invited to SmartUnderwrite by {affiliate.Name}",
+                    $"Use invitation code {invitation.Code} to create your account before " +
+                    $"{invitation.ExpiresAt:yyyy-MM-dd}.");
+            }
+
+            _logger.LogInformation("Invitation {InvitationId} created for affiliate {AffiliateId}", invitation.Id, affiliate.Id);
+
+            return Ok(new InvitationDto
+            {
+                Id = invitation.Id,
+                Code = invitation.Code,
+                AffiliateId = affiliate.Id,
+                AffiliateName = affiliate.Name,
+                Email = invitation.Email,
+                ExpiresAt = invitation.ExpiresAt,
+                UsedAt = invitation.UsedAt,
+                CreatedAt = invitation.CreatedAt
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating invitation for affiliate {AffiliateId}", request.AffiliateId);
+            return StatusCode(500, new { message = "An error occurred while creating the invitation" });
+        }
+    }
+
+    /// <summary>
+    /// Revokes an invitation code that has not been used yet
+    /// </summary>
+    [HttpDelete("invitations/{id}")]
+    public async Task<IActionResult> RevokeInvitation(int id)
+    {
+        try
+        {
+            var invitation = await _context.Invitations.FindAsync(id);
+            if (invitation == null)
+            {
+                return NotFound(new { message = "Invitation not found" });
+            }
+
+            if (invitation.UsedAt != null)
+            {
+                return BadRequest(new { message = "The invitation has already been used" });
+            }
+
+            _context.Invitations.Remove(invitation);
+            await _context.SaveChangesAsync();
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error revoking invitation {InvitationId}", id);
+            return StatusCode(500, new { message = "An error occurred while revoking the invitation" });
+        }
+    }
+}
@@ -1,5 +1,7 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using SmartUnderwrite.Api.Attributes;
+using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Reports;
 using SmartUnderwrite.Api.Services;
 using System.Security.Claims;
@@ -27,7 +29,7 @@ public class ReportsController : ControllerBase
     /// <param name="toDate">End date for the report (optional)</param>
     /// <returns>Dashboard report data</returns>
     [HttpGet("dashboard")]
-    [Authorize(Policy = "UnderwriterOrAdmin")]
+    [RequirePermission(Permissions.ReportsView)]
     public async Task<ActionResult<ReportDataDto>> GetDashboardReport(
         [FromQuery] DateTime? fromDate = null,
         [FromQuery] DateTime? toDate = null)
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using SmartUnderwrite.Api.Attributes;
 using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Rules;
 using SmartUnderwrite.Core.RulesEngine.Interfaces;
@@ -8,7 +9,7 @@ namespace SmartUnderwrite.Api.Controllers;
 
 [ApiController]
 [Route("api/[controller]")]
-[Authorize(Roles = $"{Roles.Admin},{Roles.Underwriter}")]
+[RequirePermission(Permissions.RulesView)]
 public class RulesController : ControllerBase
 {
     private readonly IRuleService _ruleService;
@@ -119,7 +120,7 @@ public class RulesController : ControllerBase
     /// Creates a new rule
     /// </summary>
     [HttpPost]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.RulesEdit)]
     public async Task<ActionResult<RuleDto>> CreateRule([FromBody] CreateRuleRequest request)
     {
         try
@@ -161,7 +162,7 @@ public class RulesController : ControllerBase
     /// Updates an existing rule
     /// </summary>
     [HttpPut("{id}")]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.RulesEdit)]
     public async Task<ActionResult<RuleDto>> UpdateRule(int id, [FromBody] UpdateRuleRequest request)
     {
         try
@@ -209,7 +210,7 @@ public class RulesController : ControllerBase
     /// Activates a rule
     /// </summary>
     [HttpPost("{id}/activate")]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.RulesEdit)]
     public async Task<ActionResult<RuleDto>> ActivateRule(int id)
     {
         try
@@ -247,7 +248,7 @@ public class RulesController : ControllerBase
     /// Deactivates a rule
     /// </summary>
     [HttpPost("{id}/deactivate")]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.RulesEdit)]
     public async Task<ActionResult<RuleDto>> DeactivateRule(int id)
     {
         try
@@ -285,7 +286,7 @@ public class RulesController : ControllerBase
     /// Deletes a rule permanently
     /// </summary>
     [HttpDelete("{id}")]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.RulesEdit)]
     public async Task<IActionResult> DeleteRule(int id)
     {
         try
@@ -369,7 +370,7 @@ public class RulesController : ControllerBase
     /// Creates a new version of an existing rule
     /// </summary>
     [HttpPost("{id}/version")]
-    [Authorize(Roles = Roles.Admin)]
+    [RequirePermission(Permissions.RulesEdit)]
     public async Task<ActionResult<RuleDto>> CreateRuleVersion(int id, [FromBody] UpdateRuleRequest request)
     {
         try
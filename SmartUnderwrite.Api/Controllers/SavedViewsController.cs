@@ -0,0 +1,305 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.SavedViews;
+using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+
+namespace SmartUnderwrite.Api.Controllers;
+
+/// <summary>
+/// Named filter, sort and column choices for the client's lists. Users see
+/// their own views and the views their team shares; only the owner may
+/// change or delete a view, while anyone who sees it may open their list
+/// with it by default.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize(Policy = Policies.AllRoles)]
+public class SavedViewsController : ControllerBase
+{
+    private readonly SmartUnderwriteDbContext _context;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ILogger<SavedViewsController> _logger;
+
+    public SavedViewsController(
+        SmartUnderwriteDbContext context,
+        ICurrentUserService currentUserService,
+        ILogger<SavedViewsController> logger)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+        _currentUserService = currentUserService ?? throw new ArgumentNullException(nameof(currentUserService));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the views of a list the user can open, their own first, each by name
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<SavedViewDto>>> GetSavedViews([FromQuery] string list)
+    {
+        try
+        {
+            if (!SavedViewDto.Lists.Contains(list))
+            {
+                return BadRequest(new { message = $"Unknown list '{list}'" });
+            }
+
+            var userId = _currentUserService.GetUserId();
+            var views = await VisibleViews()
+                .Where(v => v.List == list)
+                .OrderByDescending(v => v.UserId == userId)
+                .ThenBy(v => v.Name)
+                .ToListAsync();
+
+            var defaultId = await _context.DefaultSavedViews
+                .Where(d => d.UserId == userId && d.List == list)
+                .Select(d => (int?)d.SavedViewId)
+                .FirstOrDefaultAsync();
+
+            return Ok(views.Select(v => MapToDto(v, userId, defaultId)));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting saved views for {List}", list);
+            return StatusCode(500, new { message = "An error occurred while getting saved views" });
+        }
+    }
+
+    /// <summary>
+    /// Saves the current state of a list under a name
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<SavedViewDto>> CreateSavedView([FromBody] CreateSavedViewRequest request)
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized();
+            }
+
+            if (!SavedViewDto.Lists.Contains(request.List))
+            {
+                return BadRequest(new { message = $"Unknown list '{request.List}'" });
+            }
+
+            var name = request.Name.Trim();
+            if (name.Length == 0)
+            {
+                return BadRequest(new { message = "A view needs a name" });
+            }
+
+            if (await NameTakenAsync(userId.Value, request.List, name, null))
+            {
+                return Conflict(new { message = $"You already have a view named '{name}'" });
+            }
+
+            var view = new SavedView
+            {
+                UserId = userId.Value,
+                List = request.List,
+                Name = name,
+                Query = request.Query,
+                IsShared = request.IsShared
+            };
+
+            _context.SavedViews.Add(view);
+            await _context.SaveChangesAsync();
+            await _context.Entry(view).Reference(v => v.User).LoadAsync();
+
+            return CreatedAtAction(nameof(GetSavedViews), new { list = view.List }, MapToDto(view, userId, null));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating a saved view");
+            return StatusCode(500, new { message = "An error occurred while saving the view" });
+        }
+    }
+
+    /// <summary>
+    /// Renames, overwrites or shares one of the user's views
+    /// </summary>
+    [HttpPut("{id}")]
+    public async Task<ActionResult<SavedViewDto>> UpdateSavedView(int id, [FromBody] UpdateSavedViewRequest request)
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            var view = await VisibleViews().FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+            if (view == null)
+            {
+                return NotFound(new { message = "Saved view not found" });
+            }
+
+            var name = request.Name.Trim();
+            if (name.Length == 0)
+            {
+                return BadRequest(new { message = "A view needs a name" });
+            }
+
+            if (await NameTakenAsync(view.UserId, view.List, name, view.Id))
+            {
+                return Conflict(new { message = $"You already have a view named '{name}'" });
+            }
+
+            view.Name = name;
+            view.Query = request.Query;
+            view.IsShared = request.IsShared;
+            view.UpdatedAt = DateTime.UtcNow;
+
+            // Teammates can no longer see an unshared view, so it stops being their default
+            if (!view.IsShared)
+            {
+                _context.DefaultSavedViews.RemoveRange(
+                    _context.DefaultSavedViews.Where(d => d.SavedViewId == id && d.UserId != userId));
+            }
+
+            await _context.SaveChangesAsync();
+
+            var isDefault = await _context.DefaultSavedViews
+                .AnyAsync(d => d.UserId == userId && d.SavedViewId == id);
+
+            return Ok(MapToDto(view, userId, isDefault ? id : null));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating saved view {SavedViewId}", id);
+            return StatusCode(500, new { message = "An error occurred while saving the view" });
+        }
+    }
+
+    /// <summary>
+    /// Deletes one of the user's views, including for teammates it is shared with
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteSavedView(int id)
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            var view = await _context.SavedViews.FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+            if (view == null)
+            {
+                return NotFound(new { message = "Saved view not found" });
+            }
+
+            _context.SavedViews.Remove(view);
+            await _context.SaveChangesAsync();
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting saved view {SavedViewId}", id);
+            return StatusCode(500, new { message = "An error occurred while deleting the view" });
+        }
+    }
+
+    /// <summary>
+    /// Opens the view's list with it from now on, in place of any other default
+    /// </summary>
+    [HttpPut("{id}/default")]
+    public async Task<IActionResult> SetDefaultSavedView(int id)
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            if (userId == null)
+            {
+                return Unauthorized();
+            }
+
+            var view = await VisibleViews().FirstOrDefaultAsync(v => v.Id == id);
+            if (view == null)
+            {
+                return NotFound(new { message = "Saved view not found" });
+            }
+
+            var current = await _context.DefaultSavedViews
+                .FirstOrDefaultAsync(d => d.UserId == userId && d.List == view.List);
+            if (current == null)
+            {
+                _context.DefaultSavedViews.Add(new DefaultSavedView
+                {
+                    UserId = userId.Value,
+                    List = view.List,
+                    SavedViewId = view.Id
+                });
+            }
+            else
+            {
+                current.SavedViewId = view.Id;
+            }
+
+            await _context.SaveChangesAsync();
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error setting saved view {SavedViewId} as default", id);
+            return StatusCode(500, new { message = "An error occurred while setting the default view" });
+        }
+    }
+
+    /// <summary>
+    /// Stops opening the view's list with it
+    /// </summary>
+    [HttpDelete("{id}/default")]
+    public async Task<IActionResult> ClearDefaultSavedView(int id)
+    {
+        try
+        {
+            var userId = _currentUserService.GetUserId();
+            var current = await _context.DefaultSavedViews
+                .FirstOrDefaultAsync(d => d.UserId == userId && d.SavedViewId == id);
+            if (current != null)
+            {
+                _context.DefaultSavedViews.Remove(current);
+                await _context.SaveChangesAsync();
+            }
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error clearing default saved view {SavedViewId}", id);
+            return StatusCode(500, new { message = "An error occurred while clearing the default view" });
+        }
+    }
+
+    // The user's own views and the ones shared by users of the same affiliate,
+    // or by other internal staff when the user has no affiliate. Views out of
+    // reach are reported as missing rather than forbidden.
+    private IQueryable<SavedView> VisibleViews()
+    {
+        var userId = _currentUserService.GetUserId();
+        var affiliateId = _currentUserService.GetAffiliateId();
+        return _context.SavedViews
+            .Include(v => v.User)
+            .Where(v => v.UserId == userId || (v.IsShared && v.User.AffiliateId == affiliateId));
+    }
+
+    private async Task<bool> NameTakenAsync(int userId, string list, string name, int? exceptId)
+    {
+        return await _context.SavedViews.AnyAsync(v =>
+            v.UserId == userId && v.List == list && v.Name == name && v.Id != exceptId);
+    }
+
+    private static SavedViewDto MapToDto(SavedView view, int? userId, int? defaultId) => new()
+    {
+        Id = view.Id,
+        List = view.List,
+        Name = view.Name,
+        Query = view.Query,
+        IsShared = view.IsShared,
+        IsOwner = view.UserId == userId,
+        OwnerName = $"{view.User.FirstName} {view.User.LastName}".Trim(),
+        IsDefault = view.Id == defaultId,
+        UpdatedAt = view.UpdatedAt
+    };
+}
\ No newline at end of file
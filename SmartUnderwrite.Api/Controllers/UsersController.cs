@@ -0,0 +1,130 @@
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc;
+using SmartUnderwrite.Api.Attributes;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Auth;
+using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
+
+namespace SmartUnderwrite.Api.Controllers;
+
+/// <summary>
+/// Admin management of another user's signed-in devices, e.g. after a
+/// password or laptop has been compromised
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[RequirePermission(Permissions.UsersManage)]
+public class UsersController : ControllerBase
+{
+    private readonly UserManager<User> _userManager;
+    private readonly IJwtService _jwtService;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly IAuditService _auditService;
+    private readonly ILogger<UsersController> _logger;
+
+    public UsersController(
+        UserManager<User> userManager,
+        IJwtService jwtService,
+        ICurrentUserService currentUserService,
+        IAuditService auditService,
+        ILogger<UsersController> logger)
+    {
+        _userManager = userManager ?? throw new ArgumentNullException(nameof(userManager));
+        _jwtService = jwtService ?? throw new ArgumentNullException(nameof(jwtService));
+        _currentUserService = currentUserService ?? throw new ArgumentNullException(nameof(currentUserService));
+        _auditService = auditService ?? throw new ArgumentNullException(nameof(auditService));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Lists the devices a user is signed in on, most recently used first
+    /// </summary>
+    [HttpGet("{userId}/sessions")]
+    public async Task<ActionResult<IEnumerable<SessionDto>>> GetSessions(int userId)
+    {
+        try
+        {
+            if (await _userManager.FindByIdAsync(userId.ToString()) == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            var currentSessionId = _currentUserService.GetSessionId();
+            var sessions = await _jwtService.GetSessionsAsync(userId);
+
+            return Ok(sessions.Select(session => MapToDto(session, currentSessionId)));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting sessions of user {UserId}", userId);
+            return StatusCode(500, new { message = "An error occurred while getting sessions" });
+        }
+    }
+
+    /// <summary>
+    /// Signs out one of a user's devices
+    /// </summary>
+    [HttpDelete("{userId}/sessions/{sessionId}")]
+    public async Task<IActionResult> RevokeSession(int userId, int sessionId)
+    {
+        try
+        {
+            if (!await _jwtService.RevokeSessionAsync(userId, sessionId))
+            {
+                return NotFound(new { message = "Session not found" });
+            }
+
+            await _auditService.LogAsync(nameof(User), userId.ToString(), "SESSION_REVOKED",
+                new { SessionId = sessionId }, _currentUserService.GetUserId());
+
+            _logger.LogInformation("Session {SessionId} of user {UserId} revoked by an admin", sessionId, userId);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error revoking session {SessionId} of user {UserId}", sessionId, userId);
+            return StatusCode(500, new { message = "An error occurred while signing out the session" });
+        }
+    }
+
+    /// <summary>
+    /// Signs out every device of a user. Their access tokens stay valid until
+    /// they expire, which is minutes at most.
+    /// </summary>
+    [HttpDelete("{userId}/sessions")]
+    public async Task<IActionResult> RevokeAllSessions(int userId)
+    {
+        try
+        {
+            if (await _userManager.FindByIdAsync(userId.ToString()) == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            var count = await _jwtService.RevokeAllRefreshTokensAsync(userId);
+
+            await _auditService.LogAsync(nameof(User), userId.ToString(), "SESSIONS_REVOKED",
+                new { Count = count }, _currentUserService.GetUserId());
+
+            _logger.LogInformation("All {Count} sessions of user {UserId} revoked by an admin", count, userId);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error revoking sessions of user {UserId}", userId);
+            return StatusCode(500, new { message = "An error occurred while signing out the user's sessions" });
+        }
+    }
+
+    private static SessionDto MapToDto(UserSession session, int? currentSessionId) => new()
+    {
+        Id = session.Id,
+        UserAgent = session.UserAgent,
+        IpAddress = session.IpAddress,
+        CreatedAt = session.CreatedAt,
+        LastUsedAt = session.LastUsedAt,
+        ExpiresAt = session.ExpiresAt,
+        IsCurrent = session.Id == currentSessionId
+    };
+}
@@ -0,0 +1,49 @@
+using SmartUnderwrite.Api.Constants;
+
+namespace SmartUnderwrite.Api.Middleware;
+
+/// <summary>
+/// Keeps "view as user" sessions read-only: only safe methods get through,
+/// apart from the request that ends the session
+/// </summary>
+public class ImpersonationMiddleware
+{
+    private const string EndImpersonationPath = "/api/auth/impersonation";
+
+    private readonly RequestDelegate _next;
+    private readonly ILogger<ImpersonationMiddleware> _logger;
+
+    public ImpersonationMiddleware(RequestDelegate next, ILogger<ImpersonationMiddleware> logger)
+    {
+        _next = next;
+        _logger = logger;
+    }
+
+    public async Task InvokeAsync(HttpContext context)
+    {
+        var impersonatorId = context.User.FindFirst(AppClaimTypes.ImpersonatorId)?.Value;
+        if (impersonatorId == null || IsAllowed(context.Request))
+        {
+            await _next(context);
+            return;
+        }
+
+        _logger.LogWarning("Blocked {Method} {Path} during impersonation by admin {ImpersonatorId}",
+            context.Request.Method, context.Request.Path, impersonatorId);
+
+        context.Response.StatusCode = StatusCodes.Status403Forbidden;
+        await context.Response.WriteAsJsonAsync(new
+        {
+            message = "Changes are not allowed while viewing the app as another user"
+        });
+    }
+
+    private static bool IsAllowed(HttpRequest request)
+    {
+        return HttpMethods.IsGet(request.Method)
+            || HttpMethods.IsHead(request.Method)
+            || HttpMethods.IsOptions(request.Method)
+            || (HttpMethods.IsDelete(request.Method)
+                && request.Path.Equals(EndImpersonationPath, StringComparison.OrdinalIgnoreCase));
+    }
+}
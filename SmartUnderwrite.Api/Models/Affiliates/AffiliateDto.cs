@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace SmartUnderwrite.Api.Models.Affiliates;
 
 public class AffiliateDto
@@ -32,11 +34,29 @@ public class AffiliateUserDto
     public string FirstName { get; set; } = string.Empty;
     public string LastName { get; set; } = string.Empty;
     public string FullName => $"{FirstName} {LastName}";
+    public List<string> Roles { get; set; } = new();
     public DateTime CreatedAt { get; set; }
+    public DateTime? LastLoginAt { get; set; }
     public bool IsActive { get; set; }
 }
 
 public class AssignUserToAffiliateRequest
 {
     public int UserId { get; set; }
+}
+
+public class InviteAffiliateUserRequest
+{
+    [Required]
+    [EmailAddress]
+    public string Email { get; set; } = string.Empty;
+
+    [Required]
+    public string FirstName { get; set; } = string.Empty;
+
+    [Required]
+    public string LastName { get; set; } = string.Empty;
+
+    [Required]
+    public string Role { get; set; } = string.Empty;
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Application;
+
+/// <summary>
+/// The wizard's fields as typed, so every value is optional text. There is
+/// deliberately no SSN: it is entered again before submitting.
+/// </summary>
+public class ApplicationDraftData
+{
+    [Required]
+    public DraftApplicant Applicant { get; set; } = new();
+
+    [Required]
+    public DraftAddress Address { get; set; } = new();
+
+    [Required]
+    public DraftEmployment Employment { get; set; } = new();
+
+    [Required]
+    public DraftLoan Loan { get; set; } = new();
+}
+
+public class DraftApplicant
+{
+    [StringLength(100)]
+    public string? FirstName { get; set; }
+
+    [StringLength(100)]
+    public string? LastName { get; set; }
+
+    [StringLength(10)]
+    public string? DateOfBirth { get; set; }
+
+    [StringLength(256)]
+    public string? Email { get; set; }
+
+    [StringLength(30)]
+    public string? Phone { get; set; }
+}
+
+public class DraftAddress
+{
+    [StringLength(200)]
+    public string? Street { get; set; }
+
+    [StringLength(100)]
+    public string? City { get; set; }
+
+    [StringLength(50)]
+    public string? State { get; set; }
+
+    [StringLength(10)]
+    public string? ZipCode { get; set; }
+}
+
+public class DraftEmployment
+{
+    [StringLength(100)]
+    public string? EmploymentType { get; set; }
+
+    [StringLength(20)]
+    public string? IncomeMonthly { get; set; }
+
+    [StringLength(10)]
+    public string? CreditScore { get; set; }
+}
+
+public class DraftLoan
+{
+    [StringLength(100)]
+    public string? ProductType { get; set; }
+
+    [StringLength(20)]
+    public string? Amount { get; set; }
+}
+
+public class SaveApplicationDraftRequest
+{
+    [Range(0, ApplicationDraftDto.LastStep)]
+    public int Step { get; set; }
+
+    [Required]
+    public ApplicationDraftData Data { get; set; } = new();
+}
+
+public class ApplicationDraftDto
+{
+    // Applicant, address, employment, loan, documents, review
+    public const int LastStep = 5;
+
+    public int Id { get; set; }
+    public int Step { get; set; }
+    public ApplicationDraftData Data { get; set; } = new();
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
@@ -11,8 +11,21 @@ public class ApplicationFilter
     public decimal? MinAmount { get; set; }
     public decimal? MaxAmount { get; set; }
     public string? ProductType { get; set; }
+    public string? EmploymentType { get; set; }
+    public int? MinCreditScore { get; set; }
+    public int? MaxCreditScore { get; set; }
+    // Part of the applicant's name or email, or the application id
+    public string? Search { get; set; }
+    // One of SortFields; newest first when not set
+    public string? SortBy { get; set; }
+    public string? SortDirection { get; set; } // "asc" or "desc" (default)
     public int Page { get; set; } = 1;
     public int PageSize { get; set; } = 20;
+
+    public static readonly string[] SortFields =
+    {
+        "id", "applicant", "productType", "amount", "creditScore", "status", "createdAt"
+    };
 }
 
 public class PagedResult<T>
@@ -48,6 +48,9 @@ public class CreateApplicationRequest
 
     [Range(300, 850)]
     public int? CreditScore { get; set; }
+
+    // The draft this application was completed from; it is deleted on submit
+    public int? DraftId { get; set; }
 }
 
 public class AddressDto
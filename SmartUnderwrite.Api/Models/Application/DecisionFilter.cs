@@ -0,0 +1,15 @@
+using SmartUnderwrite.Core.Enums;
+
+namespace SmartUnderwrite.Api.Models.Application;
+
+public class DecisionFilter
+{
+    public DecisionOutcome? Outcome { get; set; }
+    // Manual decisions were made by a user, the others by the rules engine
+    public bool? IsManual { get; set; }
+    // Both days are included
+    public DateTime? FromDate { get; set; }
+    public DateTime? ToDate { get; set; }
+    public int PageNumber { get; set; } = 1;
+    public int PageSize { get; set; } = 10;
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Application;
+
+public class SaveImportMappingRequest
+{
+    // Field path, e.g. "applicant.firstName", to the column title in the file
+    [Required]
+    public Dictionary<string, string> Columns { get; set; } = new();
+}
+
+public class ImportMappingDto
+{
+    public const int MaxColumns = 50;
+    public const int MaxLength = 200;
+
+    public Dictionary<string, string> Columns { get; set; } = new();
+    public DateTime? UpdatedAt { get; set; } // Null until the affiliate saves a mapping
+}
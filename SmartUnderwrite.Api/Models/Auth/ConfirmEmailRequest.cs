@@ -0,0 +1,12 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Auth;
+
+public class ConfirmEmailRequest
+{
+    [Required]
+    public int UserId { get; set; }
+
+    [Required]
+    public string Token { get; set; } = string.Empty;
+}
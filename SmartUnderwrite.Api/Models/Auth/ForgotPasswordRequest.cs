@@ -0,0 +1,10 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Auth;
+
+public class ForgotPasswordRequest
+{
+    [Required]
+    [EmailAddress]
+    public string Email { get; set; } = string.Empty;
+}
@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Auth;
+
+public class StartImpersonationRequest
+{
+    [Required]
+    public int UserId { get; set; }
+
+    // Recorded in the audit log, e.g. the support ticket being investigated
+    [Required]
+    [MaxLength(500)]
+    public string Reason { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// A read-only session as another user. It has no refresh token and ends when
+/// the access token expires, leaving the admin's own session untouched.
+/// </summary>
+public class ImpersonationResponse
+{
+    public string AccessToken { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+    public UserInfo User { get; set; } = new();
+}
+
+public class ImpersonatorInfo
+{
+    public int Id { get; set; }
+    public string Email { get; set; } = string.Empty;
+    public string FirstName { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
+}
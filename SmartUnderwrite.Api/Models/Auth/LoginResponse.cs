@@ -6,6 +6,10 @@ public class LoginResponse
     public string RefreshToken { get; set; } = string.Empty;
     public DateTime ExpiresAt { get; set; }
     public UserInfo User { get; set; } = new();
+
+    // Set instead of the tokens when the user still has to enter a second
+    // factor; pass it to POST /api/auth/login/mfa
+    public string? MfaChallengeToken { get; set; }
 }
 
 public class UserInfo
@@ -15,5 +19,18 @@ public class UserInfo
     public string FirstName { get; set; } = string.Empty;
     public string LastName { get; set; } = string.Empty;
     public List<string> Roles { get; set; } = new();
+
+    // Granted through the roles; see RolePermissions
+    public List<string> Permissions { get; set; } = new();
     public int? AffiliateId { get; set; }
+    public bool MfaEnabled { get; set; }
+
+    // One of the user's roles requires a second factor
+    public bool MfaRequired { get; set; }
+
+    // The current session was signed in with a second factor
+    public bool MfaVerified { get; set; }
+
+    // The admin viewing the app as this user, when the session is one
+    public ImpersonatorInfo? Impersonator { get; set; }
 }
\ No newline at end of file
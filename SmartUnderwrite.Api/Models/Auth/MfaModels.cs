@@ -0,0 +1,52 @@
+using SmartUnderwrite.Core.Entities;
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Auth;
+
+public class MfaLoginRequest
+{
+    [Required]
+    public string ChallengeToken { get; set; } = string.Empty;
+
+    [Required]
+    public string Code { get; set; } = string.Empty;
+
+    // The code is one of the recovery codes rather than an authenticator code
+    public bool UseRecoveryCode { get; set; }
+}
+
+// A sign-in waiting for its second factor. SsoRoles holds the identity
+// provider's roles of a single sign-on, which apply only once it is verified.
+public record MfaChallenge(User User, IList<string>? SsoRoles);
+
+public class MfaCodeRequest
+{
+    [Required]
+    public string Code { get; set; } = string.Empty;
+}
+
+public class MfaStatusResponse
+{
+    public bool Enabled { get; set; }
+    public bool Required { get; set; }
+    public int RecoveryCodesLeft { get; set; }
+}
+
+public class MfaSetupResponse
+{
+    public string SharedKey { get; set; } = string.Empty;
+    public string AuthenticatorUri { get; set; } = string.Empty;
+}
+
+public class MfaEnableResponse
+{
+    public List<string> RecoveryCodes { get; set; } = new();
+
+    // Enrolling proves the second factor, so the session is upgraded
+    public LoginResponse Session { get; set; } = new();
+}
+
+public class RecoveryCodesResponse
+{
+    public List<string> RecoveryCodes { get; set; } = new();
+}
@@ -0,0 +1,48 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Auth;
+
+/// <summary>
+/// What the browser needs to send the user to the identity provider
+/// </summary>
+public class OidcProviderResponse
+{
+    public bool Enabled { get; set; }
+    public string? DisplayName { get; set; }
+    public string? AuthorizationEndpoint { get; set; }
+    public string? ClientId { get; set; }
+    public string? Scope { get; set; }
+}
+
+public class OidcLoginRequest
+{
+    // The authorization code the identity provider returned
+    [Required]
+    public string Code { get; set; } = string.Empty;
+
+    // The PKCE verifier whose challenge was sent with the authorization request
+    [Required]
+    public string CodeVerifier { get; set; } = string.Empty;
+
+    // Must match the redirect URI of the authorization request
+    [Required]
+    public string RedirectUri { get; set; } = string.Empty;
+
+    // Must match the nonce claim of the ID token
+    [Required]
+    public string Nonce { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// The user an identity provider vouched for, with their groups already
+/// mapped to SmartUnderwrite roles
+/// </summary>
+public class OidcIdentity
+{
+    public string Subject { get; set; } = string.Empty;
+    public string Email { get; set; } = string.Empty;
+    public bool EmailVerified { get; set; }
+    public string FirstName { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
+    public List<string> Roles { get; set; } = new();
+}
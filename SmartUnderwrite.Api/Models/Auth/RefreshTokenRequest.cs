@@ -1,9 +1,7 @@
-using System.ComponentModel.DataAnnotations;
-
 namespace SmartUnderwrite.Api.Models.Auth;
 
 public class RefreshTokenRequest
 {
-    [Required]
+    // May be left empty when the refresh token cookie is sent instead
     public string RefreshToken { get; set; } = string.Empty;
 }
\ No newline at end of file
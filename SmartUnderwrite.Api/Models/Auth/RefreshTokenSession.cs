@@ -0,0 +1,6 @@
+namespace SmartUnderwrite.Api.Models.Auth;
+
+/// <summary>
+/// The session a stored refresh token belongs to
+/// </summary>
+public record RefreshTokenSession(int SessionId, int UserId, bool MfaVerified);
@@ -0,0 +1,19 @@
+namespace SmartUnderwrite.Api.Models.Auth;
+
+/// <summary>
+/// The device a session is used from, as last seen by the API
+/// </summary>
+public record SessionClient(string? UserAgent, string? IpAddress);
+
+public class SessionDto
+{
+    public int Id { get; set; }
+    public string? UserAgent { get; set; }
+    public string? IpAddress { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime LastUsedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+
+    // The session the request was made with
+    public bool IsCurrent { get; set; }
+}
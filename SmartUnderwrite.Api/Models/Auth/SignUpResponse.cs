@@ -0,0 +1,14 @@
+namespace SmartUnderwrite.Api.Models.Auth;
+
+public class SignUpResponse
+{
+    public string Email { get; set; } = string.Empty;
+    public string Status { get; set; } = RegistrationStatus.PendingEmailConfirmation;
+}
+
+public static class RegistrationStatus
+{
+    public const string PendingEmailConfirmation = "PendingEmailConfirmation";
+    public const string PendingApproval = "PendingApproval";
+    public const string Active = "Active";
+}
@@ -0,0 +1,19 @@
+namespace SmartUnderwrite.Api.Models;
+
+public class EmailSettings
+{
+    public const string SectionName = "Email";
+
+    public string FromAddress { get; set; } = "no-reply@smartunderwrite.local";
+    public string FromName { get; set; } = "SmartUnderwrite";
+
+    // Base URL of the frontend, used to build links in emails
+    public string AppBaseUrl { get; set; } = "http://localhost:3000";
+
+    // Without an SMTP host emails are only written to the log
+    public string? SmtpHost { get; set; }
+    public int SmtpPort { get; set; } = 25;
+    public bool SmtpUseSsl { get; set; }
+    public string? SmtpUserName { get; set; }
+    public string? SmtpPassword { get; set; }
+}
@@ -0,0 +1,36 @@
+namespace SmartUnderwrite.Api.Models.Export;
+
+/// <summary>
+/// How a list is exported; the list's own filter parameters choose the rows
+/// </summary>
+public class ExportRequest
+{
+    public static readonly string[] Formats = { "csv", "xlsx" };
+
+    // One of Formats
+    public string Format { get; set; } = "csv";
+
+    // Keys of the list's export columns; every column when empty
+    public List<string> Columns { get; set; } = new();
+
+    // Personal data is masked unless the caller turns it off, which needs Permissions.PiiExport
+    public bool MaskSsnHash { get; set; } = true;
+    public bool MaskPhone { get; set; } = true;
+    public bool MaskEmail { get; set; } = true;
+}
+
+/// <summary>
+/// Personal data that an export masks unless asked not to
+/// </summary>
+public enum ExportPii
+{
+    SsnHash,
+    Phone,
+    Email
+}
+
+/// <summary>
+/// A column of an export: its key in ExportRequest.Columns, its title, how a row's value is read
+/// and the personal data it holds, if any
+/// </summary>
+public record ExportColumn<T>(string Key, string Header, Func<T, object?> Value, ExportPii? Pii = null);
\ No newline at end of file
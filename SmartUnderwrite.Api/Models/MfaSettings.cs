@@ -0,0 +1,15 @@
+namespace SmartUnderwrite.Api.Models;
+
+public class MfaSettings
+{
+    public const string SectionName = "Mfa";
+
+    // Shown as the account name's issuer in authenticator apps
+    public string Issuer { get; set; } = "SmartUnderwrite";
+
+    // Users in these roles must enroll before they can use admin screens
+    public List<string> RequiredRoles { get; set; } = new();
+
+    // How long the second sign-in step may take after the password was accepted
+    public int ChallengeMinutes { get; set; } = 5;
+}
@@ -0,0 +1,34 @@
+namespace SmartUnderwrite.Api.Models;
+
+public class OidcSettings
+{
+    public const string SectionName = "Oidc";
+
+    // The provider name stored with each linked Identity login
+    public const string LoginProvider = "Oidc";
+
+    // Without an authority and client id single sign-on is off
+    public string? Authority { get; set; }
+    public string? ClientId { get; set; }
+
+    // Only for identity providers that require confidential clients; PKCE
+    // protects the code exchange either way
+    public string? ClientSecret { get; set; }
+
+    public string Scope { get; set; } = "openid profile email";
+
+    // Shown on the sign-in button
+    public string DisplayName { get; set; } = "Single Sign-On";
+
+    // Name of the ID token claim listing the user's groups
+    public string GroupsClaim { get; set; } = "groups";
+
+    // IdP group name to SmartUnderwrite role. Affiliate accounts belong to an
+    // affiliate and are invited instead, so that role cannot be mapped.
+    public Dictionary<string, string> GroupRoles { get; set; } = new();
+
+    // Only turn off for a local mock identity provider
+    public bool RequireHttpsMetadata { get; set; } = true;
+
+    public bool IsEnabled => !string.IsNullOrEmpty(Authority) && !string.IsNullOrEmpty(ClientId);
+}
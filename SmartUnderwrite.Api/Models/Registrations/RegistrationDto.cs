@@ -0,0 +1,50 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.Registrations;
+
+public class PendingRegistrationDto
+{
+    public int Id { get; set; }
+    public string Email { get; set; } = string.Empty;
+    public string FirstName { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
+    public List<string> Roles { get; set; } = new();
+    public int? AffiliateId { get; set; }
+    public string? AffiliateName { get; set; }
+    public bool EmailConfirmed { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+public class InvitationDto
+{
+    public int Id { get; set; }
+    public string Code { get; set; } = string.Empty;
+    public int AffiliateId { get; set; }
+    public string AffiliateName { get; set; } = string.Empty;
+    public string? Email { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? UsedAt { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+public class CreateInvitationRequest
+{
+    [Required]
+    public int AffiliateId { get; set; }
+
+    [EmailAddress]
+    public string? Email { get; set; }
+
+    [Range(1, 90)]
+    public int ExpiresInDays { get; set; } = 7;
+}
+
+/// <summary>
+/// What an anonymous visitor learns about an invitation code
+/// </summary>
+public class InvitationLookupDto
+{
+    public string AffiliateName { get; set; } = string.Empty;
+    public string? Email { get; set; }
+    public DateTime ExpiresAt { get; set; }
+}
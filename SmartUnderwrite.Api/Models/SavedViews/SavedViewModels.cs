@@ -0,0 +1,47 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartUnderwrite.Api.Models.SavedViews;
+
+public class CreateSavedViewRequest
+{
+    // One of SavedViewDto.Lists
+    [Required]
+    public string List { get; set; } = string.Empty;
+
+    [Required]
+    [StringLength(100, MinimumLength = 1)]
+    public string Name { get; set; } = string.Empty;
+
+    [StringLength(2000)]
+    public string Query { get; set; } = string.Empty;
+
+    public bool IsShared { get; set; }
+}
+
+public class UpdateSavedViewRequest
+{
+    [Required]
+    [StringLength(100, MinimumLength = 1)]
+    public string Name { get; set; } = string.Empty;
+
+    [StringLength(2000)]
+    public string Query { get; set; } = string.Empty;
+
+    public bool IsShared { get; set; }
+}
+
+public class SavedViewDto
+{
+    // The client's lists that views can be saved for
+    public static readonly string[] Lists = { "applications", "decisions" };
+
+    public int Id { get; set; }
+    public string List { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string Query { get; set; } = string.Empty;
+    public bool IsShared { get; set; }
+    public bool IsOwner { get; set; } // Only the owner may change or delete it
+    public string OwnerName { get; set; } = string.Empty;
+    public bool IsDefault { get; set; } // The view the user's list opens with
+    public DateTime UpdatedAt { get; set; }
+}
\ No newline at end of file
@@ -59,9 +59,13 @@ builder.Services.AddIdentity<User, Role>(options =>
     // User settings
     options.User.AllowedUserNameCharacters = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789-._@+";
     options.User.RequireUniqueEmail = true;
+
+    // Password reset links expire sooner than email confirmation links
+    options.Tokens.PasswordResetTokenProvider = PasswordResetTokenProvider<User>.ProviderName;
 })
 .AddEntityFrameworkStores<SmartUnderwriteDbContext>()
-.AddDefaultTokenProviders();
+.AddDefaultTokenProviders()
+.AddTokenProvider<PasswordResetTokenProvider<User>>(PasswordResetTokenProvider<User>.ProviderName);
 
 // Configure JWT settings
 builder.Services.Configure<JwtSettings>(builder.Configuration.GetSection(JwtSettings.SectionName));
@@ -109,7 +113,10 @@ builder.Services.AddAuthorization(options =>
 {
     // Admin only policy
     options.AddPolicy(Policies.AdminOnly, policy =>
-        policy.RequireRole(Roles.Admin));
+    {
+        policy.RequireRole(Roles.Admin);
+        policy.Requirements.Add(new MfaVerifiedRequirement());
+    });
 
     // Underwriter or Admin policy
     options.AddPolicy(Policies.UnderwriterOrAdmin, policy =>
@@ -122,10 +129,24 @@ builder.Services.AddAuthorization(options =>
     // All roles policy
     options.AddPolicy(Policies.AllRoles, policy =>
         policy.RequireRole(Roles.Admin, Roles.Underwriter, Roles.Affiliate));
+
+    // One policy per permission, granted to the roles in RolePermissions
+    foreach (var permission in Permissions.All)
+    {
+        options.AddPolicy(permission, policy =>
+        {
+            policy.RequireRole(RolePermissions.RolesWith(permission));
+            if (Permissions.MfaProtected.Contains(permission))
+            {
+                policy.Requirements.Add(new MfaVerifiedRequirement());
+            }
+        });
+    }
 });
 
 // Register authorization handlers
 builder.Services.AddScoped<IAuthorizationHandler, AffiliateAccessHandler>();
+builder.Services.AddScoped<IAuthorizationHandler, MfaVerifiedHandler>();
 
 // Configure MinIO
 builder.Services.AddMinio(configureClient => configureClient
@@ -138,13 +159,29 @@ builder.Services.AddMinio(configureClient => configureClient
 // Register application services
 builder.Services.AddHttpContextAccessor();
 builder.Services.AddScoped<IJwtService, JwtService>();
+builder.Services.Configure<MfaSettings>(builder.Configuration.GetSection(MfaSettings.SectionName));
+builder.Services.AddScoped<IMfaService, MfaService>();
+builder.Services.Configure<OidcSettings>(builder.Configuration.GetSection(OidcSettings.SectionName));
+builder.Services.AddHttpClient(OidcService.HttpClientName);
+builder.Services.AddSingleton<IOidcService, OidcService>();
 builder.Services.AddScoped<ICurrentUserService, CurrentUserService>();
 builder.Services.AddScoped<IApplicationService, ApplicationService>();
 builder.Services.AddScoped<IStorageService, MinioStorageService>();
 builder.Services.AddScoped<IDocumentService, DocumentService>();
 builder.Services.AddScoped<IDecisionService, DecisionService>();
 builder.Services.AddScoped<IAuditService, AuditService>();
+builder.Services.AddScoped<IExportService, ExportService>();
 builder.Services.AddScoped<IReportsService, ReportsService>();
+builder.Services.Configure<EmailSettings>(builder.Configuration.GetSection(EmailSettings.SectionName));
+if (string.IsNullOrEmpty(builder.Configuration[$"{EmailSettings.SectionName}:SmtpHost"]))
+{
+    builder.Services.AddScoped<IEmailService, LoggingEmailService>();
+}
+else
+{
+    builder.Services.AddScoped<IEmailService, SmtpEmailService>();
+}
+builder.Services.AddScoped<IAccountEmailService, AccountEmailService>();
 
 // Register Rules Engine services
 builder.Services.AddScoped<SmartUnderwrite.Core.RulesEngine.Interfaces.IRulesEngine, SmartUnderwrite.Core.RulesEngine.Engine.RulesEngine>();
@@ -205,6 +242,9 @@ app.UseMiddleware<AuditMiddleware>();
 
 // Add authentication and authorization middleware
 app.UseAuthentication();
+
+// Runs once the token is read so it can see the impersonation claim
+app.UseMiddleware<ImpersonationMiddleware>();
 app.UseAuthorization();
 
 // Add Serilog request logging
@@ -0,0 +1,70 @@
+using Microsoft.AspNetCore.Identity;
+using Microsoft.Extensions.Options;
+using SmartUnderwrite.Api.Models;
+using SmartUnderwrite.Core.Entities;
+
+namespace SmartUnderwrite.Api.Services;
+
+/// <summary>
+/// Emails that carry an Identity token in a link back to the frontend
+/// </summary>
+public class AccountEmailService : IAccountEmailService
+{
+    private readonly UserManager<User> _userManager;
+    private readonly IEmailService _emailService;
+    private readonly EmailSettings _settings;
+
+    public AccountEmailService(
+        UserManager<User> userManager,
+        IEmailService emailService,
+        IOptions<EmailSettings> settings)
+    {
+        _userManager = userManager;
+        _emailService = emailService;
+        _settings = settings.Value;
+    }
+
+    public async Task SendConfirmationEmailAsync(User user)
+    {
+        var token = await _userManager.GenerateEmailConfirmationTokenAsync(user);
+        var link = $"{_settings.AppBaseUrl.TrimEnd('/')}/confirm-email" +
+            $"?userId={user.Id}&token={Uri.EscapeDataString(token)}";
+
+        await _emailService.SendAsync(
+            user.Email!,
+            "Confirm your SmartUnderwrite account",
+            $"Hello {user.FirstName},\n\n" +
+            $"Please confirm your email address by opening the link below:\n{link}\n\n" +
+            "Once confirmed, an administrator will review your registration.");
+    }
+
+    public async Task SendPasswordResetEmailAsync(User user)
+    {
+        await _emailService.SendAsync(
+            user.Email!,
+            "Reset your SmartUnderwrite password",
+            $"Hello {user.FirstName},\n\n" +
+            $"Open the link below within the next hour to choose a new password:\n{await CreateResetLinkAsync(user)}\n\n" +
+            "If you did not ask for this, you can ignore this email.");
+    }
+
+    // Accounts created by an administrator have no password until the user
+    // sets one through a reset link
+    public async Task SendAccountSetupEmailAsync(User user, string affiliateName)
+    {
+        await _emailService.SendAsync(
+            user.Email!,
+            "Your SmartUnderwrite account",
+            $"Hello {user.FirstName},\n\n" +
+            $"An administrator has created a SmartUnderwrite account for you at {affiliateName}.\n" +
+            $"Open the link below within the next hour to choose your password:\n{await CreateResetLinkAsync(user)}\n\n" +
+            "If the link has expired, use \"Forgot password\" on the sign-in page to get a new one.");
+    }
+
+    private async Task<string> CreateResetLinkAsync(User user)
+    {
+        var token = await _userManager.GeneratePasswordResetTokenAsync(user);
+        return $"{_settings.AppBaseUrl.TrimEnd('/')}/reset-password" +
+            $"?email={Uri.EscapeDataString(user.Email!)}&token={Uri.EscapeDataString(token)}";
+    }
+}
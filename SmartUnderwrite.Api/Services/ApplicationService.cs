@@ -6,6 +6,7 @@ using SmartUnderwrite.Core.Entities;
 using SmartUnderwrite.Core.Enums;
 using SmartUnderwrite.Core.ValueObjects;
 using SmartUnderwrite.Infrastructure.Data;
+using System.Linq.Expressions;
 using System.Security.Claims;
 using System.Security.Cryptography;
 using System.Text;
@@ -76,6 +77,19 @@ public class ApplicationService : IApplicationService
         };
 
         _context.LoanApplications.Add(loanApplication);
+
+        // Saved in the same transaction, so a submitted draft cannot linger
+        if (request.DraftId.HasValue)
+        {
+            var userId = _currentUserService.GetUserId();
+            var draft = await _context.ApplicationDrafts
+                .FirstOrDefaultAsync(d => d.Id == request.DraftId.Value && d.UserId == userId);
+            if (draft != null)
+            {
+                _context.ApplicationDrafts.Remove(draft);
+            }
+        }
+
         await _context.SaveChangesAsync();
 
         _logger.LogInformation("Created loan application {ApplicationId} for affiliate {AffiliateId}", 
@@ -113,6 +127,53 @@ public class ApplicationService : IApplicationService
     {
         _logger.LogDebug("Getting applications with filter for user {UserId}", _currentUserService.GetUserId());
 
+        var query = ApplyFilter(_context.LoanApplications
+            .Include(la => la.Affiliate)
+            .Include(la => la.Applicant)
+            .Include(la => la.Documents)
+            .Include(la => la.Decisions)
+                .ThenInclude(d => d.DecidedByUser), filter, user);
+
+        // Get total count before pagination
+        var totalCount = await query.CountAsync();
+
+        // Apply sorting and pagination
+        var applications = await ApplySorting(query, filter)
+            .Skip((filter.Page - 1) * filter.PageSize)
+            .Take(filter.PageSize)
+            .ToListAsync();
+
+        var dtos = new List<LoanApplicationDto>();
+        foreach (var app in applications)
+        {
+            dtos.Add(await MapToDto(app));
+        }
+
+        return new PagedResult<LoanApplicationDto>
+        {
+            Items = dtos,
+            TotalCount = totalCount,
+            Page = filter.Page,
+            PageSize = filter.PageSize
+        };
+    }
+
+    public IAsyncEnumerable<LoanApplication> StreamApplicationsAsync(ApplicationFilter filter, ClaimsPrincipal user)
+    {
+        _logger.LogDebug("Streaming applications for export for user {UserId}", _currentUserService.GetUserId());
+
+        var query = ApplyFilter(_context.LoanApplications
+            .AsNoTracking()
+            .Include(la => la.Affiliate)
+            .Include(la => la.Applicant), filter, user);
+
+        return ApplySorting(query, filter).AsAsyncEnumerable();
+    }
+
+    public async Task<LoanApplicationDto?> UpdateApplicationStatusAsync(int id, ApplicationStatus status, ClaimsPrincipal user)
+    {
+        _logger.LogInformation("Updating application {ApplicationId} status to {Status}", id, status);
+
         var query = _context.LoanApplications
             .Include(la => la.Affiliate)
             .Include(la => la.Applicant)
@@ -124,6 +185,29 @@ public class ApplicationService : IApplicationService
         // Apply role-based filtering
         query = ApplyRoleBasedFiltering(query, user);
 
+        var application = await query.FirstOrDefaultAsync(la => la.Id == id);
+        
+        if (application == null)
+        {
+            return null;
+        }
+
+        application.Status = status;
+        application.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Updated application {ApplicationId} status to {Status}", id, status);
+
+        return await MapToDto(application);
+    }
+
+    // The list's role-based access and filters, shared by the list and its export
+    private IQueryable<LoanApplication> ApplyFilter(IQueryable<LoanApplication> query, ApplicationFilter filter, ClaimsPrincipal user)
+    {
+        // Apply role-based filtering
+        query = ApplyRoleBasedFiltering(query, user);
+
         // Apply filters
         if (filter.Status.HasValue)
         {
@@ -160,61 +244,57 @@ public class ApplicationService : IApplicationService
             query = query.Where(la => la.ProductType.Contains(filter.ProductType));
         }
 
-        // Get total count before pagination
-        var totalCount = await query.CountAsync();
+        if (!string.IsNullOrWhiteSpace(filter.EmploymentType))
+        {
+            query = query.Where(la => la.EmploymentType == filter.EmploymentType);
+        }
 
-        // Apply pagination
-        var applications = await query
-            .OrderByDescending(la => la.CreatedAt)
-            .Skip((filter.Page - 1) * filter.PageSize)
-            .Take(filter.PageSize)
-            .ToListAsync();
+        // Applications without a credit score never match a credit score range
+        if (filter.MinCreditScore.HasValue)
+        {
+            query = query.Where(la => la.CreditScore >= filter.MinCreditScore.Value);
+        }
 
-        var dtos = new List<LoanApplicationDto>();
-        foreach (var app in applications)
+        if (filter.MaxCreditScore.HasValue)
         {
-            dtos.Add(await MapToDto(app));
+            query = query.Where(la => la.CreditScore <= filter.MaxCreditScore.Value);
         }
 
-        return new PagedResult<LoanApplicationDto>
+        if (!string.IsNullOrWhiteSpace(filter.Search))
         {
-            Items = dtos,
-            TotalCount = totalCount,
-            Page = filter.Page,
-            PageSize = filter.PageSize
-        };
+            var term = filter.Search.Trim().ToLower();
+            int? id = int.TryParse(term.TrimStart('#'), out var parsedId) ? parsedId : null;
+            query = query.Where(la =>
+                (la.Applicant.FirstName + " " + la.Applicant.LastName).ToLower().Contains(term) ||
+                la.Applicant.Email.ToLower().Contains(term) ||
+                la.Id == id);
+        }
+
+        return query;
     }
 
-    public async Task<LoanApplicationDto?> UpdateApplicationStatusAsync(int id, ApplicationStatus status, ClaimsPrincipal user)
+    // The id breaks ties, so pages never overlap
+    private static IQueryable<LoanApplication> ApplySorting(IQueryable<LoanApplication> query, ApplicationFilter filter)
     {
-        _logger.LogInformation("Updating application {ApplicationId} status to {Status}", id, status);
-
-        var query = _context.LoanApplications
-            .Include(la => la.Affiliate)
-            .Include(la => la.Applicant)
-            .Include(la => la.Documents)
-            .Include(la => la.Decisions)
-                .ThenInclude(d => d.DecidedByUser)
-            .AsQueryable();
+        var descending = !string.Equals(filter.SortDirection, "asc", StringComparison.OrdinalIgnoreCase);
 
-        // Apply role-based filtering
-        query = ApplyRoleBasedFiltering(query, user);
+        IOrderedQueryable<LoanApplication> Sort<TKey>(Expression<Func<LoanApplication, TKey>> key) =>
+            descending ? query.OrderByDescending(key) : query.OrderBy(key);
 
-        var application = await query.FirstOrDefaultAsync(la => la.Id == id);
-        
-        if (application == null)
+        var sorted = (filter.SortBy ?? "createdAt").ToLowerInvariant() switch
         {
-            return null;
-        }
-
-        application.Status = status;
-        application.UpdatedAt = DateTime.UtcNow;
-
-        await _context.SaveChangesAsync();
-
-        _logger.LogInformation("Updated application {ApplicationId} status to {Status}", id, status);
+            "id" => Sort(la => la.Id),
+            "applicant" => Sort(la => la.Applicant.LastName + " " + la.Applicant.FirstName),
+            "producttype" => Sort(la => la.ProductType),
+            "amount" => Sort(la => la.Amount),
+            "creditscore" => Sort(la => la.CreditScore),
+            "status" => Sort(la => la.Status),
+            "createdat" => Sort(la => la.CreatedAt),
+            _ => throw new ArgumentException(
+                $"Applications cannot be sorted by '{filter.SortBy}'. Use one of: {string.Join(", ", ApplicationFilter.SortFields)}")
+        };
 
-        return await MapToDto(application);
+        return descending ? sorted.ThenByDescending(la => la.Id) : sorted.ThenBy(la => la.Id);
     }
 
     private IQueryable<LoanApplication> ApplyRoleBasedFiltering(IQueryable<LoanApplication> query, ClaimsPrincipal user)
@@ -50,39 +50,21 @@ public class AuditService : IAuditService
         string? entityType = null, 
         string? entityId = null, 
         DateTime? fromDate = null, 
-        DateTime? toDate = null)
+        DateTime? toDate = null,
+        int? userId = null,
+        string? action = null)
     {
         try
         {
-            var query = _context.AuditLogs.AsQueryable();
-
-            if (!string.IsNullOrEmpty(entityType))
-            {
-                query = query.Where(a => a.EntityType == entityType);
-            }
-
-            if (!string.IsNullOrEmpty(entityId))
-            {
-                query = query.Where(a => a.EntityId == entityId);
-            }
-
-            if (fromDate.HasValue)
-            {
-                query = query.Where(a => a.Timestamp >= fromDate.Value);
-            }
-
-            if (toDate.HasValue)
-            {
-                query = query.Where(a => a.Timestamp <= toDate.Value);
-            }
+            var query = ApplyFilter(_context.AuditLogs, entityType, entityId, fromDate, toDate, userId, action);
 
             var results = await query
                 .OrderByDescending(a => a.Timestamp)
                 .Take(1000) // Limit results for performance
                 .ToListAsync();
 
-            _logger.LogDebug("Retrieved {Count} audit logs with filters: EntityType={EntityType}, EntityId={EntityId}, FromDate={FromDate}, ToDate={ToDate}",
-                results.Count, entityType, entityId, fromDate, toDate);
+            _logger.LogDebug("Retrieved {Count} audit logs with filters: EntityType={EntityType}, EntityId={EntityId}, FromDate={FromDate}, ToDate={ToDate}, UserId={UserId}, Action={Action}",
+                results.Count, entityType, entityId, fromDate, toDate, userId, action);
 
             return results;
         }
@@ -93,6 +75,24 @@ public class AuditService : IAuditService
         }
     }
 
+    public IAsyncEnumerable<AuditLog> StreamAuditLogsAsync(
+        string? entityType = null,
+        string? entityId = null,
+        DateTime? fromDate = null,
+        DateTime? toDate = null,
+        int? userId = null,
+        string? action = null)
+    {
+        var query = ApplyFilter(_context.AuditLogs.AsNoTracking(), entityType, entityId, fromDate, toDate, userId, action);
+
+        _logger.LogDebug("Streaming audit logs with filters: EntityType={EntityType}, EntityId={EntityId}, FromDate={FromDate}, ToDate={ToDate}, UserId={UserId}, Action={Action}",
+            entityType, entityId, fromDate, toDate, userId, action);
+
+        return query
+            .OrderByDescending(a => a.Timestamp)
+            .AsAsyncEnumerable();
+    }
+
     public async Task<IEnumerable<AuditLog>> GetEntityAuditTrailAsync(string entityType, string entityId)
     {
         try
@@ -138,4 +138,48 @@ public class AuditService : IAuditService
             throw;
         }
     }
+
+    private static IQueryable<AuditLog> ApplyFilter(
+        IQueryable<AuditLog> query,
+        string? entityType,
+        string? entityId,
+        DateTime? fromDate,
+        DateTime? toDate,
+        int? userId,
+        string? action)
+    {
+        if (!string.IsNullOrEmpty(entityType))
+        {
+            query = query.Where(a => a.EntityType == entityType);
+        }
+
+        if (!string.IsNullOrEmpty(entityId))
+        {
+            query = query.Where(a => a.EntityId == entityId);
+        }
+
+        if (fromDate.HasValue)
+        {
+            query = query.Where(a => a.Timestamp >= fromDate.Value);
+        }
+
+        if (toDate.HasValue)
+        {
+            query = query.Where(a => a.Timestamp <= toDate.Value);
+        }
+
+        if (userId.HasValue)
+        {
+            var userIdText = userId.Value.ToString();
+            query = query.Where(a => a.UserId == userIdText);
+        }
+
+        if (!string.IsNullOrEmpty(action))
+        {
+            var actionText = action.ToLower();
+            query = query.Where(a => a.Action.ToLower().Contains(actionText));
+        }
+
+        return query;
+    }
 }
\ No newline at end of file
@@ -39,6 +39,17 @@ public class CurrentUserService : ICurrentUserService
         return null;
     }
 
+    // Set on tokens issued with a refresh token; not on impersonation tokens
+    public int? GetSessionId()
+    {
+        var sessionIdClaim = GetUser().FindFirst(AppClaimTypes.SessionId);
+        if (sessionIdClaim != null && int.TryParse(sessionIdClaim.Value, out var sessionId))
+        {
+            return sessionId;
+        }
+        return null;
+    }
+
     public List<string> GetRoles()
     {
         return GetUser().FindAll(ClaimTypes.Role).Select(c => c.Value).ToList();
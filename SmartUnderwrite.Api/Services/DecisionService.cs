@@ -1,10 +1,12 @@
 using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Application;
 using SmartUnderwrite.Api.Services;
 using SmartUnderwrite.Core.Entities;
 using SmartUnderwrite.Core.Enums;
 using SmartUnderwrite.Core.RulesEngine.Interfaces;
 using SmartUnderwrite.Infrastructure.Data;
+using System.Runtime.CompilerServices;
 using System.Security.Claims;
 
 namespace SmartUnderwrite.Api.Services;
@@ -117,6 +119,14 @@ public class DecisionService : IDecisionService
             throw new UnauthorizedAccessException("User does not have permission to make decisions on this application");
         }
 
+        if (request.Outcome == DecisionOutcome.Approve &&
+            application.Amount >= RolePermissions.HighValueAmount &&
+            !RolePermissions.Grants(user, Permissions.DecisionsApproveHighValue))
+        {
+            throw new UnauthorizedAccessException(
+                $"Approving applications of {RolePermissions.HighValueAmount:N0} or more requires the {Permissions.DecisionsApproveHighValue} permission");
+        }
+
         // Check if application allows manual decisions
         if (application.Status == ApplicationStatus.Approved || application.Status == ApplicationStatus.Rejected)
         {
@@ -205,16 +215,55 @@ public class DecisionService : IDecisionService
         return decisions.Select(MapToDto).ToList();
     }
 
-    public async Task<PagedResult<DecisionDto>> GetDecisionsAsync(int pageNumber, int pageSize, ClaimsPrincipal user)
+    public async Task<PagedResult<DecisionDto>> GetDecisionsAsync(DecisionFilter filter, ClaimsPrincipal user)
     {
-        _logger.LogDebug("Getting paginated decisions: page {PageNumber}, size {PageSize}", pageNumber, pageSize);
+        _logger.LogDebug("Getting paginated decisions: page {PageNumber}, size {PageSize}", filter.PageNumber, filter.PageSize);
 
-        var userRoles = user.FindAll(ClaimTypes.Role).Select(c => c.Value).ToList();
-        var query = _context.Decisions
+        var query = await ApplyFilterAsync(_context.Decisions
             .Include(d => d.LoanApplication)
             .ThenInclude(la => la.Affiliate)
-            .Include(d => d.DecidedByUser)
-            .AsQueryable();
+            .Include(d => d.DecidedByUser), filter, user);
+
+        var totalCount = await query.CountAsync();
+        var decisions = await query
+            .OrderByDescending(d => d.DecidedAt)
+            .Skip((filter.PageNumber - 1) * filter.PageSize)
+            .Take(filter.PageSize)
+            .ToListAsync();
+
+        return new PagedResult<DecisionDto>
+        {
+            Items = decisions.Select(MapToDto).ToList(),
+            TotalCount = totalCount,
+            Page = filter.PageNumber,
+            PageSize = filter.PageSize
+        };
+    }
+
+    public async IAsyncEnumerable<Decision> StreamDecisionsAsync(
+        DecisionFilter filter,
+        ClaimsPrincipal user,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        _logger.LogDebug("Streaming decisions for export for user {UserId}", _currentUserService.GetUserId());
+
+        var query = await ApplyFilterAsync(_context.Decisions
+            .AsNoTracking()
+            .Include(d => d.DecidedByUser), filter, user);
+
+        await foreach (var decision in query
+            .OrderByDescending(d => d.DecidedAt)
+            .AsAsyncEnumerable()
+            .WithCancellation(cancellationToken))
+        {
+            yield return decision;
+        }
+    }
+
+    // The list's role-based access and filters, shared by the list and its export
+    private async Task<IQueryable<Decision>> ApplyFilterAsync(IQueryable<Decision> query, DecisionFilter filter, ClaimsPrincipal user)
+    {
+        var userRoles = user.FindAll(ClaimTypes.Role).Select(c => c.Value).ToList();
 
         // Apply role-based filtering
         if (userRoles.Contains("Affiliate"))
@@ -225,38 +274,38 @@ public class DecisionService : IDecisionService
                 .Select(u => u.AffiliateId)
                 .FirstOrDefaultAsync();
 
-            if (userAffiliate.HasValue)
-            {
-                query = query.Where(d => d.LoanApplication.AffiliateId == userAffiliate.Value);
-            }
-            else
-            {
-                // Affiliate user without affiliate assignment - return empty result
-                return new PagedResult<DecisionDto>
-                {
-                    Items = new List<DecisionDto>(),
-                    TotalCount = 0,
-                    Page = pageNumber,
-                    PageSize = pageSize
-                };
-            }
+            // Affiliate user without affiliate assignment - nothing to see
+            query = userAffiliate.HasValue
+                ? query.Where(d => d.LoanApplication.AffiliateId == userAffiliate.Value)
+                : query.Where(d => false);
         }
         // Admins and underwriters can see all decisions
 
-        var totalCount = await query.CountAsync();
-        var decisions = await query
-            .OrderByDescending(d => d.DecidedAt)
-            .Skip((pageNumber - 1) * pageSize)
-            .Take(pageSize)
-            .ToListAsync();
+        if (filter.Outcome.HasValue)
+        {
+            query = query.Where(d => d.Outcome == filter.Outcome.Value);
+        }
 
-        return new PagedResult<DecisionDto>
+        if (filter.IsManual.HasValue)
         {
-            Items = decisions.Select(MapToDto).ToList(),
-            TotalCount = totalCount,
-            Page = pageNumber,
-            PageSize = pageSize
-        };
+            query = filter.IsManual.Value
+                ? query.Where(d => d.DecidedByUserId != null)
+                : query.Where(d => d.DecidedByUserId == null);
+        }
+
+        if (filter.FromDate.HasValue)
+        {
+            var from = DateTime.SpecifyKind(filter.FromDate.Value.Date, DateTimeKind.Utc);
+            query = query.Where(d => d.DecidedAt >= from);
+        }
+
+        if (filter.ToDate.HasValue)
+        {
+            var before = DateTime.SpecifyKind(filter.ToDate.Value.Date.AddDays(1), DateTimeKind.Utc);
+            query = query.Where(d => d.DecidedAt < before);
+        }
+
+        return query;
     }
 
     private async Task<bool> CanUserViewApplicationAsync(int applicationId, ClaimsPrincipal user)
@@ -294,10 +343,7 @@ public class DecisionService : IDecisionService
 
     private Task<bool> CanUserMakeDecisionAsync(int applicationId, ClaimsPrincipal user)
     {
-        var userRoles = user.FindAll(ClaimTypes.Role).Select(c => c.Value).ToList();
-        
-        // Only admins and underwriters can make manual decisions
-        return Task.FromResult(userRoles.Contains("Admin") || userRoles.Contains("Underwriter"));
+        return Task.FromResult(RolePermissions.Grants(user, Permissions.DecisionsMake));
     }
 
     public async Task<DecisionSummaryDto> GetDecisionSummaryAsync(ClaimsPrincipal user)
@@ -0,0 +1,304 @@
+using Microsoft.AspNetCore.WebUtilities;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Export;
+using System.Globalization;
+using System.IO.Compression;
+using System.Runtime.CompilerServices;
+using System.Text;
+using System.Text.RegularExpressions;
+using System.Xml;
+
+namespace SmartUnderwrite.Api.Services;
+
+public class ExportService : IExportService
+{
+    private const string SpreadsheetNamespace = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+    private const string Masked = "***";
+
+    // Characters that make a spreadsheet read a CSV field as a formula
+    private static readonly char[] FormulaPrefixes = { '=', '+', '-', '@', '\t', '\r' };
+
+    // Control characters XML cannot hold
+    private static readonly Regex InvalidXmlCharacters = new(@"[\x00-\x08\x0B\x0C\x0E-\x1F]", RegexOptions.Compiled);
+
+    private readonly IAuditService _auditService;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ILogger<ExportService> _logger;
+
+    public ExportService(
+        IAuditService auditService,
+        ICurrentUserService currentUserService,
+        ILogger<ExportService> logger)
+    {
+        _auditService = auditService;
+        _currentUserService = currentUserService;
+        _logger = logger;
+    }
+
+    public IReadOnlyList<ExportColumn<T>> SelectColumns<T>(IReadOnlyList<ExportColumn<T>> columns, ExportRequest request)
+    {
+        if (!ExportRequest.Formats.Contains(request.Format))
+        {
+            throw new ArgumentException(
+                $"'{request.Format}' is not an export format. Use one of: {string.Join(", ", ExportRequest.Formats)}");
+        }
+
+        var unknown = request.Columns.Where(key => columns.All(column => column.Key != key)).ToList();
+        if (unknown.Count > 0)
+        {
+            throw new ArgumentException(
+                $"Unknown export columns: {string.Join(", ", unknown)}. Use any of: {string.Join(", ", columns.Select(c => c.Key))}");
+        }
+
+        var selected = request.Columns.Count == 0
+            ? columns
+            : columns.Where(column => request.Columns.Contains(column.Key)).ToList();
+
+        var unmasked = selected.Where(column => column.Pii != null && !IsMasked(column, request)).ToList();
+        if (unmasked.Count > 0 && !RolePermissions.Grants(_currentUserService.GetUser(), Permissions.PiiExport))
+        {
+            throw new UnauthorizedAccessException(
+                $"Exporting {string.Join(", ", unmasked.Select(column => column.Key))} unmasked needs the {Permissions.PiiExport} permission");
+        }
+
+        return selected;
+    }
+
+    public async Task<int> ExportAsync<T>(
+        Stream output,
+        string list,
+        ExportRequest request,
+        IReadOnlyList<ExportColumn<T>> columns,
+        IAsyncEnumerable<T> rows,
+        object filter,
+        CancellationToken cancellationToken = default)
+    {
+        var masked = columns.Select(column => MaskValue(column, request)).ToList();
+        var unmasked = columns.Where(column => column.Pii != null && !IsMasked(column, request)).ToList();
+        var rowCount = 0;
+        var completed = false;
+
+        async IAsyncEnumerable<T> CountRows([EnumeratorCancellation] CancellationToken token = default)
+        {
+            await foreach (var row in rows.WithCancellation(token))
+            {
+                rowCount++;
+                yield return row;
+            }
+        }
+
+        try
+        {
+            if (request.Format == "xlsx")
+            {
+                await WriteXlsxAsync(output, list, masked, CountRows(cancellationToken), cancellationToken);
+            }
+            else
+            {
+                await WriteCsvAsync(output, masked, CountRows(cancellationToken), cancellationToken);
+            }
+
+            completed = true;
+            _logger.LogInformation("Exported {RowCount} {List} as {Format}", rowCount, list, request.Format);
+            return rowCount;
+        }
+        finally
+        {
+            // Rows already sent have left the system even when the export did not finish.
+            // Unmasked personal data gets its own action so it can be found in the log.
+            await _auditService.LogAsync("Export", list, unmasked.Count > 0 ? "EXPORT_UNMASKED" : "EXPORT", new
+            {
+                request.Format,
+                Columns = columns.Select(column => column.Key),
+                MaskedColumns = columns.Where(column => IsMasked(column, request)).Select(column => column.Key),
+                UnmaskedColumns = unmasked.Select(column => column.Key),
+                Filter = filter,
+                RowCount = rowCount,
+                Completed = completed
+            }, _currentUserService.GetUserId());
+        }
+    }
+
+    public string GetContentType(string format) => format == "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8";
+
+    public string GetFileName(string list, string format) =>
+        $"{list}-{DateTime.UtcNow:yyyyMMdd-HHmm}.{format}";
+
+    /// <summary>
+    /// Keeps the first letter and the domain of an email address
+    /// </summary>
+    public static string MaskEmail(string email)
+    {
+        var at = email.IndexOf('@');
+        return at > 0 ? $"{email[0]}{Masked}{email[at..]}" : Masked;
+    }
+
+    /// <summary>
+    /// Keeps the last four digits of a phone number
+    /// </summary>
+    public static string MaskPhone(string phone)
+    {
+        var digits = new string(phone.Where(char.IsDigit).ToArray());
+        return digits.Length > 4 ? $"{Masked}-{Masked}-{digits[^4..]}" : Masked;
+    }
+
+    /// <summary>
+    /// Hides an SSN hash completely: the salt is known and SSNs are few enough to try every one,
+    /// so any part of the hash narrows down the SSN
+    /// </summary>
+    public static string MaskSsnHash(string ssnHash) => Masked;
+
+    private static bool IsMasked<T>(ExportColumn<T> column, ExportRequest request) => column.Pii switch
+    {
+        ExportPii.SsnHash => request.MaskSsnHash,
+        ExportPii.Phone => request.MaskPhone,
+        ExportPii.Email => request.MaskEmail,
+        _ => false
+    };
+
+    private static ExportColumn<T> MaskValue<T>(ExportColumn<T> column, ExportRequest request)
+    {
+        if (!IsMasked(column, request))
+        {
+            return column;
+        }
+
+        Func<string, string> mask = column.Pii switch
+        {
+            ExportPii.SsnHash => MaskSsnHash,
+            ExportPii.Phone => MaskPhone,
+            _ => MaskEmail
+        };
+
+        return column with
+        {
+            Value = row => column.Value(row) is string { Length: > 0 } value ? mask(value) : null
+        };
+    }
+
+    private static async Task WriteCsvAsync<T>(
+        Stream output,
+        IReadOnlyList<ExportColumn<T>> columns,
+        IAsyncEnumerable<T> rows,
+        CancellationToken cancellationToken)
+    {
+        // The byte order mark makes Excel read the file as UTF-8
+        await using var writer = new StreamWriter(output, new UTF8Encoding(true), leaveOpen: true) { NewLine = "\r\n" };
+
+        await writer.WriteLineAsync(string.Join(",", columns.Select(column => CsvField(column.Header))));
+        await foreach (var row in rows.WithCancellation(cancellationToken))
+        {
+            await writer.WriteLineAsync(string.Join(",", columns.Select(column => CsvField(column.Value(row)))));
+        }
+
+        await writer.FlushAsync(cancellationToken);
+    }
+
+    private static string CsvField(object? value)
+    {
+        var text = FormatValue(value);
+        if (value is string && text.Length > 0 && FormulaPrefixes.Contains(text[0]))
+        {
+            text = "'" + text;
+        }
+
+        return text.IndexOfAny(new[] { ',', '"', '\r', '\n' }) >= 0
+            ? $"\"{text.Replace("\"", "\"\"")}\""
+            : text;
+    }
+
+    private static async Task WriteXlsxAsync<T>(
+        Stream output,
+        string list,
+        IReadOnlyList<ExportColumn<T>> columns,
+        IAsyncEnumerable<T> rows,
+        CancellationToken cancellationToken)
+    {
+        // ZipArchive writes synchronously, which the response body does not allow, so the
+        // workbook is built in a buffer that moves to a temporary file once it grows large
+        await using var buffer = new FileBufferingWriteStream();
+
+        using (var archive = new ZipArchive(buffer, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            AddEntry(archive, "[Content_Types].xml",
+                "<Types xmlns=\"http://schemas.openxmlformats.org/package/2006/content-types\">" +
+                "<Default Extension=\"rels\" ContentType=\"application/vnd.openxmlformats-package.relationships+xml\"/>" +
+                "<Default Extension=\"xml\" ContentType=\"application/xml\"/>" +
+                "<Override PartName=\"/xl/workbook.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml\"/>" +
+                "<Override PartName=\"/xl/worksheets/sheet1.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml\"/>" +
+                "</Types>");
+            AddEntry(archive, "_rels/.rels",
+                "<Relationships xmlns=\"http://schemas.openxmlformats.org/package/2006/relationships\">" +
+                "<Relationship Id=\"rId1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument\" Target=\"xl/workbook.xml\"/>" +
+                "</Relationships>");
+            AddEntry(archive, "xl/workbook.xml",
+                $"<workbook xmlns=\"{SpreadsheetNamespace}\" xmlns:r=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships\">" +
+                $"<sheets><sheet name=\"{CultureInfo.InvariantCulture.TextInfo.ToTitleCase(list)}\" sheetId=\"1\" r:id=\"rId1\"/></sheets>" +
+                "</workbook>");
+            AddEntry(archive, "xl/_rels/workbook.xml.rels",
+                "<Relationships xmlns=\"http://schemas.openxmlformats.org/package/2006/relationships\">" +
+                "<Relationship Id=\"rId1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet\" Target=\"worksheets/sheet1.xml\"/>" +
+                "</Relationships>");
+
+            var sheet = archive.CreateEntry("xl/worksheets/sheet1.xml", CompressionLevel.Fastest);
+            using var sheetStream = sheet.Open();
+            using var xml = XmlWriter.Create(sheetStream, new XmlWriterSettings { Encoding = new UTF8Encoding(false) });
+
+            xml.WriteStartDocument(true);
+            xml.WriteStartElement("worksheet", SpreadsheetNamespace);
+            xml.WriteStartElement("sheetData", SpreadsheetNamespace);
+            WriteXlsxRow(xml, columns.Select(column => (object?)column.Header));
+            await foreach (var row in rows.WithCancellation(cancellationToken))
+            {
+                WriteXlsxRow(xml, columns.Select(column => column.Value(row)));
+            }
+            xml.WriteEndElement();
+            xml.WriteEndElement();
+            xml.WriteEndDocument();
+        }
+
+        await buffer.DrainBufferAsync(output, cancellationToken);
+    }
+
+    private static void AddEntry(ZipArchive archive, string name, string content)
+    {
+        var entry = archive.CreateEntry(name, CompressionLevel.Fastest);
+        using var writer = new StreamWriter(entry.Open(), new UTF8Encoding(false));
+        writer.Write("<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>");
+        writer.Write(content);
+    }
+
+    private static void WriteXlsxRow(XmlWriter xml, IEnumerable<object?> values)
+    {
+        xml.WriteStartElement("row", SpreadsheetNamespace);
+        foreach (var value in values)
+        {
+            xml.WriteStartElement("c", SpreadsheetNamespace);
+            if (value is int or long or decimal or double)
+            {
+                xml.WriteElementString("v", SpreadsheetNamespace, FormatValue(value));
+            }
+            else if (value != null)
+            {
+                xml.WriteAttributeString("t", "inlineStr");
+                xml.WriteStartElement("is", SpreadsheetNamespace);
+                xml.WriteElementString("t", SpreadsheetNamespace, InvalidXmlCharacters.Replace(FormatValue(value), ""));
+                xml.WriteEndElement();
+            }
+            xml.WriteEndElement();
+        }
+        xml.WriteEndElement();
+    }
+
+    // Dates are UTC, written the same way in both formats so they sort as text
+    private static string FormatValue(object? value) => value switch
+    {
+        null => string.Empty,
+        DateTime date => date.ToString("yyyy-MM-dd HH:mm:ss", CultureInfo.InvariantCulture),
+        bool flag => flag ? "Yes" : "No",
+        IFormattable formattable => formattable.ToString(null, CultureInfo.InvariantCulture),
+        _ => value.ToString() ?? string.Empty
+    };
+}
\ No newline at end of file
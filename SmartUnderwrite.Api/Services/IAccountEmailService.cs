@@ -0,0 +1,10 @@
+using SmartUnderwrite.Core.Entities;
+
+namespace SmartUnderwrite.Api.Services;
+
+public interface IAccountEmailService
+{
+    Task SendConfirmationEmailAsync(User user);
+    Task SendPasswordResetEmailAsync(User user);
+    Task SendAccountSetupEmailAsync(User user, string affiliateName);
+}
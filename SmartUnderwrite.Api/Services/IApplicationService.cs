@@ -1,4 +1,5 @@
 using SmartUnderwrite.Api.Models.Application;
+using SmartUnderwrite.Core.Entities;
 using System.Security.Claims;
 
 namespace SmartUnderwrite.Api.Services;
@@ -8,5 +9,7 @@ public interface IApplicationService
     Task<LoanApplicationDto> CreateApplicationAsync(CreateApplicationRequest request, int affiliateId);
     Task<LoanApplicationDto?> GetApplicationAsync(int id, ClaimsPrincipal user);
     Task<PagedResult<LoanApplicationDto>> GetApplicationsAsync(ApplicationFilter filter, ClaimsPrincipal user);
+    // Every application matching the filter, sorted but not paged, with its applicant and affiliate
+    IAsyncEnumerable<LoanApplication> StreamApplicationsAsync(ApplicationFilter filter, ClaimsPrincipal user);
     Task<LoanApplicationDto?> UpdateApplicationStatusAsync(int id, Core.Enums.ApplicationStatus status, ClaimsPrincipal user);
 }
\ No newline at end of file
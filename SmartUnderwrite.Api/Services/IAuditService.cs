@@ -5,7 +5,9 @@ namespace SmartUnderwrite.Api.Services;
 public interface IAuditService
 {
     Task LogAsync(string entityType, string entityId, string action, object changes, int? userId = null);
-    Task<IEnumerable<AuditLog>> GetAuditLogsAsync(string? entityType = null, string? entityId = null, DateTime? fromDate = null, DateTime? toDate = null);
+    Task<IEnumerable<AuditLog>> GetAuditLogsAsync(string? entityType = null, string? entityId = null, DateTime? fromDate = null, DateTime? toDate = null, int? userId = null, string? action = null);
+    // Every matching entry, newest first; unlike GetAuditLogsAsync it is not limited to 1000
+    IAsyncEnumerable<AuditLog> StreamAuditLogsAsync(string? entityType = null, string? entityId = null, DateTime? fromDate = null, DateTime? toDate = null, int? userId = null, string? action = null);
     Task<IEnumerable<AuditLog>> GetEntityAuditTrailAsync(string entityType, string entityId);
     Task<AuditLog?> GetAuditLogAsync(int id);
 }
\ No newline at end of file
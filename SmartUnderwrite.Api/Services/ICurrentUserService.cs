@@ -6,6 +6,7 @@ public interface ICurrentUserService
 {
     int? GetUserId();
     int? GetAffiliateId();
+    int? GetSessionId();
     List<string> GetRoles();
     bool IsInRole(string role);
     bool CanAccessAffiliate(int affiliateId);
@@ -41,11 +41,19 @@ public interface IDecisionService
     /// <summary>
     /// Gets a paginated list of decisions
     /// </summary>
-    /// <param name="pageNumber">Page number</param>
-    /// <param name="pageSize">Page size</param>
+    /// <param name="filter">Outcome, type, date range and page</param>
     /// <param name="user">The requesting user</param>
     /// <returns>Paginated list of decisions</returns>
-    Task<PagedResult<DecisionDto>> GetDecisionsAsync(int pageNumber, int pageSize, ClaimsPrincipal user);
+    Task<PagedResult<DecisionDto>> GetDecisionsAsync(DecisionFilter filter, ClaimsPrincipal user);
+
+    /// <summary>
+    /// Gets every decision matching the filter, newest first and not paged, with the user who made it
+    /// </summary>
+    /// <param name="filter">Outcome, type and date range; the page is ignored</param>
+    /// <param name="user">The requesting user</param>
+    /// <param name="cancellationToken">Stops reading decisions</param>
+    /// <returns>The decisions, read one at a time</returns>
+    IAsyncEnumerable<Decision> StreamDecisionsAsync(DecisionFilter filter, ClaimsPrincipal user, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Gets a summary of decision statistics
@@ -0,0 +1,6 @@
+namespace SmartUnderwrite.Api.Services;
+
+public interface IEmailService
+{
+    Task SendAsync(string toAddress, string subject, string body);
+}
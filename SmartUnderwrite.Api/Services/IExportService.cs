@@ -0,0 +1,49 @@
+using SmartUnderwrite.Api.Models.Export;
+
+namespace SmartUnderwrite.Api.Services;
+
+public interface IExportService
+{
+    /// <summary>
+    /// Picks the requested columns of a list, in the list's order
+    /// </summary>
+    /// <param name="columns">Every column the list can export</param>
+    /// <param name="request">The export request</param>
+    /// <returns>The columns to write</returns>
+    /// <exception cref="ArgumentException">The format or a column is unknown</exception>
+    /// <exception cref="UnauthorizedAccessException">
+    /// Personal data would be exported unmasked by a user without Permissions.PiiExport
+    /// </exception>
+    IReadOnlyList<ExportColumn<T>> SelectColumns<T>(IReadOnlyList<ExportColumn<T>> columns, ExportRequest request);
+
+    /// <summary>
+    /// Writes the rows as CSV or XLSX and records the export in the audit log, also when
+    /// writing fails part way. Exports with unmasked personal data are logged as EXPORT_UNMASKED.
+    /// </summary>
+    /// <param name="output">The stream written to, usually the response body</param>
+    /// <param name="list">The exported list, e.g. "applications"</param>
+    /// <param name="request">The export request</param>
+    /// <param name="columns">The columns returned by SelectColumns</param>
+    /// <param name="rows">The rows, read one at a time</param>
+    /// <param name="filter">The list's filter, recorded in the audit log</param>
+    /// <param name="cancellationToken">Stops reading rows</param>
+    /// <returns>The number of rows written</returns>
+    Task<int> ExportAsync<T>(
+        Stream output,
+        string list,
+        ExportRequest request,
+        IReadOnlyList<ExportColumn<T>> columns,
+        IAsyncEnumerable<T> rows,
+        object filter,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets the content type of an export format
+    /// </summary>
+    string GetContentType(string format);
+
+    /// <summary>
+    /// Gets the file name of an export, e.g. applications-20240131-0930.csv
+    /// </summary>
+    string GetFileName(string list, string format);
+}
\ No newline at end of file
@@ -1,3 +1,4 @@
+using SmartUnderwrite.Api.Models.Auth;
 using SmartUnderwrite.Core.Entities;
 using System.Security.Claims;
 
@@ -5,10 +6,15 @@ namespace SmartUnderwrite.Api.Services;
 
 public interface IJwtService
 {
-    Task<string> GenerateAccessTokenAsync(User user, IList<string> roles);
+    Task<string> GenerateAccessTokenAsync(User user, IList<string> roles, bool mfaVerified = false, int? impersonatorId = null, int? sessionId = null);
     string GenerateRefreshToken();
     ClaimsPrincipal? GetPrincipalFromExpiredToken(string token);
     Task<bool> ValidateRefreshTokenAsync(int userId, string refreshToken);
-    Task SaveRefreshTokenAsync(int userId, string refreshToken);
+    Task<RefreshTokenSession?> FindRefreshTokenSessionAsync(string refreshToken);
+    Task<int> SaveRefreshTokenAsync(int userId, string refreshToken, bool mfaVerified = false, SessionClient? client = null);
+    Task RotateRefreshTokenAsync(int sessionId, string refreshToken, bool mfaVerified, SessionClient? client = null);
     Task RevokeRefreshTokenAsync(int userId, string refreshToken);
+    Task<int> RevokeAllRefreshTokensAsync(int userId);
+    Task<List<UserSession>> GetSessionsAsync(int userId);
+    Task<bool> RevokeSessionAsync(int userId, int sessionId);
 }
\ No newline at end of file
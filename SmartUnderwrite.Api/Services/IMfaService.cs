@@ -0,0 +1,13 @@
+using SmartUnderwrite.Api.Models.Auth;
+using SmartUnderwrite.Core.Entities;
+
+namespace SmartUnderwrite.Api.Services;
+
+public interface IMfaService
+{
+    bool IsRequiredFor(IEnumerable<string> roles);
+    string CreateChallengeToken(User user, IEnumerable<string>? ssoRoles = null);
+    Task<MfaChallenge?> ValidateChallengeTokenAsync(string challengeToken);
+    Task<bool> VerifyCodeAsync(User user, string code, bool useRecoveryCode);
+    Task<MfaSetupResponse> GetSetupAsync(User user);
+}
@@ -0,0 +1,10 @@
+using SmartUnderwrite.Api.Models.Auth;
+
+namespace SmartUnderwrite.Api.Services;
+
+public interface IOidcService
+{
+    bool IsEnabled { get; }
+    Task<OidcProviderResponse> GetProviderAsync(CancellationToken cancellationToken = default);
+    Task<OidcIdentity?> ExchangeCodeAsync(OidcLoginRequest request, CancellationToken cancellationToken = default);
+}
@@ -1,6 +1,9 @@
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Options;
 using Microsoft.IdentityModel.Tokens;
+using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models;
+using SmartUnderwrite.Api.Models.Auth;
 using SmartUnderwrite.Core.Entities;
 using SmartUnderwrite.Infrastructure.Data;
 using System.IdentityModel.Tokens.Jwt;
@@ -12,6 +15,9 @@ namespace SmartUnderwrite.Api.Services;
 
 public class JwtService : IJwtService
 {
+    // Longer user agents are cut to the column size
+    private const int MaxUserAgentLength = 512;
+
     private readonly JwtSettings _jwtSettings;
     private readonly SmartUnderwriteDbContext _context;
     private readonly ILogger<JwtService> _logger;
@@ -26,7 +32,12 @@ public class JwtService : IJwtService
         _logger = logger;
     }
 
-    public Task<string> GenerateAccessTokenAsync(User user, IList<string> roles)
+    public Task<string> GenerateAccessTokenAsync(
+        User user,
+        IList<string> roles,
+        bool mfaVerified = false,
+        int? impersonatorId = null,
+        int? sessionId = null)
     {
         var claims = new List<Claim>
         {
@@ -51,6 +62,21 @@ public class JwtService : IJwtService
             claims.Add(new Claim("affiliateId", user.AffiliateId.Value.ToString()));
         }
 
+        if (mfaVerified)
+        {
+            claims.Add(new Claim(AppClaimTypes.MfaVerified, "true"));
+        }
+
+        if (impersonatorId.HasValue)
+        {
+            claims.Add(new Claim(AppClaimTypes.ImpersonatorId, impersonatorId.Value.ToString()));
+        }
+
+        if (sessionId.HasValue)
+        {
+            claims.Add(new Claim(AppClaimTypes.SessionId, sessionId.Value.ToString()));
+        }
+
         var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_jwtSettings.SecretKey));
         var credentials = new SigningCredentials(key, SecurityAlgorithms.HmacSha256);
 
@@ -104,38 +130,134 @@ public class JwtService : IJwtService
         }
     }
 
-    public Task<bool> ValidateRefreshTokenAsync(int userId, string refreshToken)
+    public async Task<bool> ValidateRefreshTokenAsync(int userId, string refreshToken)
     {
-        // In a production system, you would store refresh tokens in the database
-        // For this MVP, we'll implement a simple in-memory validation
-        // This should be replaced with proper database storage for production
-        
-        // For now, we'll just check if the refresh token format is valid
-        try
+        var session = await FindSessionAsync(refreshToken);
+        return session != null && session.UserId == userId;
+    }
+
+    public async Task<RefreshTokenSession?> FindRefreshTokenSessionAsync(string refreshToken)
+    {
+        var session = await FindSessionAsync(refreshToken);
+        return session == null
+            ? null
+            : new RefreshTokenSession(session.Id, session.UserId, session.MfaVerified);
+    }
+
+    public async Task<int> SaveRefreshTokenAsync(int userId, string refreshToken, bool mfaVerified = false, SessionClient? client = null)
+    {
+        // One row per signed-in device. Only a hash of the token is kept so a
+        // database leak does not expose sessions.
+        var session = new UserSession
         {
-            var bytes = Convert.FromBase64String(refreshToken);
-            return Task.FromResult(bytes.Length == 64);
+            UserId = userId,
+            TokenHash = HashRefreshToken(refreshToken),
+            MfaVerified = mfaVerified,
+            ExpiresAt = DateTime.UtcNow.AddDays(_jwtSettings.RefreshTokenExpirationDays)
+        };
+        SetClient(session, client);
+
+        _context.UserSessions.Add(session);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Refresh token generated for user {UserId}", userId);
+        return session.Id;
+    }
+
+    public async Task RotateRefreshTokenAsync(int sessionId, string refreshToken, bool mfaVerified, SessionClient? client = null)
+    {
+        var session = await _context.UserSessions.FindAsync(sessionId)
+            ?? throw new InvalidOperationException($"Session {sessionId} not found");
+
+        session.TokenHash = HashRefreshToken(refreshToken);
+        session.MfaVerified = mfaVerified;
+        session.LastUsedAt = DateTime.UtcNow;
+        session.ExpiresAt = DateTime.UtcNow.AddDays(_jwtSettings.RefreshTokenExpirationDays);
+        SetClient(session, client);
+
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task RevokeRefreshTokenAsync(int userId, string refreshToken)
+    {
+        var hash = HashRefreshToken(refreshToken);
+        var session = await _context.UserSessions.FirstOrDefaultAsync(s => s.UserId == userId && s.TokenHash == hash);
+
+        if (session != null)
+        {
+            _context.UserSessions.Remove(session);
+            await _context.SaveChangesAsync();
+        }
+
+        _logger.LogInformation("Refresh token revoked for user {UserId}", userId);
+    }
+
+    public async Task<int> RevokeAllRefreshTokensAsync(int userId)
+    {
+        var sessions = await _context.UserSessions
+            .Where(s => s.UserId == userId)
+            .ToListAsync();
+
+        _context.UserSessions.RemoveRange(sessions);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("{Count} refresh tokens revoked for user {UserId}", sessions.Count, userId);
+        return sessions.Count;
+    }
+
+    public async Task<List<UserSession>> GetSessionsAsync(int userId)
+    {
+        var now = DateTime.UtcNow;
+        return await _context.UserSessions
+            .Where(s => s.UserId == userId && s.ExpiresAt > now)
+            .OrderByDescending(s => s.LastUsedAt)
+            .ToListAsync();
+    }
+
+    public async Task<bool> RevokeSessionAsync(int userId, int sessionId)
+    {
+        var session = await _context.UserSessions.FirstOrDefaultAsync(s => s.UserId == userId && s.Id == sessionId);
+        if (session == null)
+        {
+            return false;
         }
-        catch
+
+        _context.UserSessions.Remove(session);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Session {SessionId} revoked for user {UserId}", sessionId, userId);
+        return true;
+    }
+
+    private async Task<UserSession?> FindSessionAsync(string refreshToken)
+    {
+        if (string.IsNullOrEmpty(refreshToken))
         {
-            return Task.FromResult(false);
+            return null;
         }
+
+        var hash = HashRefreshToken(refreshToken);
+        var session = await _context.UserSessions.FirstOrDefaultAsync(s => s.TokenHash == hash);
+
+        return session != null && session.ExpiresAt > DateTime.UtcNow ? session : null;
     }
 
-    public async Task SaveRefreshTokenAsync(int userId, string refreshToken)
+    private static void SetClient(UserSession session, SessionClient? client)
     {
-        // In a production system, you would save the refresh token to the database
-        // with an expiration date and associate it with the user
-        // For this MVP, we'll skip database storage
-        _logger.LogInformation("Refresh token generated for user {UserId}", userId);
-        await Task.CompletedTask;
+        if (client == null)
+        {
+            return;
+        }
+
+        session.UserAgent = client.UserAgent is { Length: > MaxUserAgentLength }
+            ? client.UserAgent[..MaxUserAgentLength]
+            : client.UserAgent;
+        session.IpAddress = client.IpAddress;
     }
 
-    public async Task RevokeRefreshTokenAsync(int userId, string refreshToken)
+    private static string HashRefreshToken(string refreshToken)
     {
-        // In a production system, you would mark the refresh token as revoked in the database
-        // For this MVP, we'll just log the revocation
-        _logger.LogInformation("Refresh token revoked for user {UserId}", userId);
-        await Task.CompletedTask;
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(refreshToken));
+        return Convert.ToBase64String(hash);
     }
 }
\ No newline at end of file
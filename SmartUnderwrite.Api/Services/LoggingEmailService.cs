@@ -0,0 +1,26 @@
+using Microsoft.Extensions.Options;
+using SmartUnderwrite.Api.Models;
+
+namespace SmartUnderwrite.Api.Services;
+
+/// <summary>
+/// Writes outgoing emails to the log instead of sending them
+/// </summary>
+public class LoggingEmailService : IEmailService
+{
+    private readonly EmailSettings _settings;
+    private readonly ILogger<LoggingEmailService> _logger;
+
+    public LoggingEmailService(IOptions<EmailSettings> settings, ILogger<LoggingEmailService> logger)
+    {
+        _settings = settings.Value;
+        _logger = logger;
+    }
+
+    public Task SendAsync(string toAddress, string subject, string body)
+    {
+        _logger.LogInformation("Email from {From} to {To}: {Subject}\n{Body}",
+            _settings.FromAddress, toAddress, subject, body);
+        return Task.CompletedTask;
+    }
+}
@@ -0,0 +1,174 @@
+using Microsoft.Extensions.Options;
+using Microsoft.IdentityModel.JsonWebTokens;
+using Microsoft.IdentityModel.Protocols;
+using Microsoft.IdentityModel.Protocols.OpenIdConnect;
+using Microsoft.IdentityModel.Tokens;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models;
+using SmartUnderwrite.Api.Models.Auth;
+using System.Security.Claims;
+using System.Text.Json;
+
+namespace SmartUnderwrite.Api.Services;
+
+/// <summary>
+/// OpenID Connect sign-in with the authorization code flow. The browser runs
+/// the PKCE half of the flow; the API redeems the code, validates the ID token
+/// against the provider's published keys and maps its groups to roles.
+/// </summary>
+public class OidcService : IOidcService
+{
+    public const string HttpClientName = "Oidc";
+
+    private readonly OidcSettings _settings;
+    private readonly IHttpClientFactory _httpClientFactory;
+    private readonly ILogger<OidcService> _logger;
+    private readonly Lazy<ConfigurationManager<OpenIdConnectConfiguration>> _configurationManager;
+
+    public OidcService(
+        IOptions<OidcSettings> settings,
+        IHttpClientFactory httpClientFactory,
+        ILogger<OidcService> logger)
+    {
+        _settings = settings.Value;
+        _httpClientFactory = httpClientFactory;
+        _logger = logger;
+
+        // Caches the discovery document and signing keys, refreshing them
+        // when the provider rotates its keys
+        _configurationManager = new Lazy<ConfigurationManager<OpenIdConnectConfiguration>>(() =>
+            new ConfigurationManager<OpenIdConnectConfiguration>(
+                $"{_settings.Authority!.TrimEnd('/')}/.well-known/openid-configuration",
+                new OpenIdConnectConfigurationRetriever(),
+                new HttpDocumentRetriever(_httpClientFactory.CreateClient(HttpClientName))
+                {
+                    RequireHttps = _settings.RequireHttpsMetadata
+                }));
+    }
+
+    public bool IsEnabled => _settings.IsEnabled;
+
+    public async Task<OidcProviderResponse> GetProviderAsync(CancellationToken cancellationToken = default)
+    {
+        if (!IsEnabled)
+        {
+            return new OidcProviderResponse { Enabled = false };
+        }
+
+        var configuration = await _configurationManager.Value.GetConfigurationAsync(cancellationToken);
+
+        return new OidcProviderResponse
+        {
+            Enabled = true,
+            DisplayName = _settings.DisplayName,
+            AuthorizationEndpoint = configuration.AuthorizationEndpoint,
+            ClientId = _settings.ClientId,
+            Scope = _settings.Scope
+        };
+    }
+
+    public async Task<OidcIdentity?> ExchangeCodeAsync(OidcLoginRequest request, CancellationToken cancellationToken = default)
+    {
+        var configuration = await _configurationManager.Value.GetConfigurationAsync(cancellationToken);
+
+        var idToken = await RedeemCodeAsync(configuration, request, cancellationToken);
+        if (idToken == null)
+        {
+            return null;
+        }
+
+        var result = await new JsonWebTokenHandler().ValidateTokenAsync(idToken, new TokenValidationParameters
+        {
+            ValidIssuer = configuration.Issuer,
+            ValidAudience = _settings.ClientId,
+            IssuerSigningKeys = configuration.SigningKeys
+        });
+
+        if (!result.IsValid)
+        {
+            _logger.LogWarning(result.Exception, "Rejected an ID token from the identity provider");
+            return null;
+        }
+
+        var claims = result.ClaimsIdentity;
+        if (claims.FindFirst("nonce")?.Value != request.Nonce)
+        {
+            _logger.LogWarning("Rejected an ID token issued for another sign-in attempt");
+            return null;
+        }
+
+        var subject = claims.FindFirst(JwtRegisteredClaimNames.Sub)?.Value;
+        var email = claims.FindFirst(JwtRegisteredClaimNames.Email)?.Value;
+        if (string.IsNullOrEmpty(subject) || string.IsNullOrEmpty(email))
+        {
+            _logger.LogWarning("The identity provider did not return a subject and email address");
+            return null;
+        }
+
+        return new OidcIdentity
+        {
+            Subject = subject,
+            Email = email,
+            EmailVerified = bool.TryParse(claims.FindFirst("email_verified")?.Value, out var verified) && verified,
+            FirstName = claims.FindFirst(JwtRegisteredClaimNames.GivenName)?.Value ?? string.Empty,
+            LastName = claims.FindFirst(JwtRegisteredClaimNames.FamilyName)?.Value ?? string.Empty,
+            Roles = MapRoles(GetValues(claims, _settings.GroupsClaim)).ToList()
+        };
+    }
+
+    /// <summary>
+    /// The roles granted by the given IdP groups. Unknown groups grant nothing.
+    /// </summary>
+    public IReadOnlyList<string> MapRoles(IEnumerable<string> groups)
+    {
+        return groups
+            .Select(group => _settings.GroupRoles.TryGetValue(group, out var role) ? role : null)
+            .OfType<string>()
+            .Where(role => role is Roles.Admin or Roles.Underwriter)
+            .Distinct()
+            .OrderBy(role => role, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    private async Task<string?> RedeemCodeAsync(
+        OpenIdConnectConfiguration configuration,
+        OidcLoginRequest request,
+        CancellationToken cancellationToken)
+    {
+        var form = new Dictionary<string, string>
+        {
+            ["grant_type"] = "authorization_code",
+            ["code"] = request.Code,
+            ["redirect_uri"] = request.RedirectUri,
+            ["client_id"] = _settings.ClientId!,
+            ["code_verifier"] = request.CodeVerifier
+        };
+
+        if (!string.IsNullOrEmpty(_settings.ClientSecret))
+        {
+            form["client_secret"] = _settings.ClientSecret;
+        }
+
+        var client = _httpClientFactory.CreateClient(HttpClientName);
+        using var response = await client.PostAsync(
+            configuration.TokenEndpoint, new FormUrlEncodedContent(form), cancellationToken);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            _logger.LogWarning("The identity provider refused the authorization code: {StatusCode} {Body}",
+                (int)response.StatusCode, await response.Content.ReadAsStringAsync(cancellationToken));
+            return null;
+        }
+
+        using var body = await JsonDocument.ParseAsync(
+            await response.Content.ReadAsStreamAsync(cancellationToken), cancellationToken: cancellationToken);
+
+        return body.RootElement.TryGetProperty("id_token", out var idToken) ? idToken.GetString() : null;
+    }
+
+    // Multi-valued claims such as groups arrive as one claim per value
+    private static IEnumerable<string> GetValues(ClaimsIdentity claims, string type)
+    {
+        return claims.FindAll(type).Select(claim => claim.Value);
+    }
+}
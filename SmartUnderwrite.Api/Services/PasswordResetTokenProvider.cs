@@ -0,0 +1,32 @@
+using Microsoft.AspNetCore.DataProtection;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.Extensions.Options;
+
+namespace SmartUnderwrite.Api.Services;
+
+/// <summary>
+/// Issues password reset tokens with a shorter lifetime than the default
+/// provider, which email confirmation links keep using. Tokens include the
+/// security stamp, so resetting the password invalidates the link.
+/// </summary>
+public class PasswordResetTokenProvider<TUser> : DataProtectorTokenProvider<TUser> where TUser : class
+{
+    public const string ProviderName = "PasswordReset";
+
+    public PasswordResetTokenProvider(
+        IDataProtectionProvider dataProtectionProvider,
+        IOptions<PasswordResetTokenProviderOptions> options,
+        ILogger<DataProtectorTokenProvider<TUser>> logger)
+        : base(dataProtectionProvider, options, logger)
+    {
+    }
+}
+
+public class PasswordResetTokenProviderOptions : DataProtectionTokenProviderOptions
+{
+    public PasswordResetTokenProviderOptions()
+    {
+        Name = "PasswordResetDataProtectorTokenProvider";
+        TokenLifespan = TimeSpan.FromHours(1);
+    }
+}
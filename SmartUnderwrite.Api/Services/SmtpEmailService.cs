@@ -0,0 +1,46 @@
+using Microsoft.Extensions.Options;
+using SmartUnderwrite.Api.Models;
+using System.Net;
+using System.Net.Mail;
+
+namespace SmartUnderwrite.Api.Services;
+
+/// <summary>
+/// Sends emails through the SMTP server configured in <see cref="EmailSettings"/>
+/// </summary>
+public class SmtpEmailService : IEmailService
+{
+    private readonly EmailSettings _settings;
+    private readonly ILogger<SmtpEmailService> _logger;
+
+    public SmtpEmailService(IOptions<EmailSettings> settings, ILogger<SmtpEmailService> logger)
+    {
+        _settings = settings.Value;
+        _logger = logger;
+    }
+
+    public async Task SendAsync(string toAddress, string subject, string body)
+    {
+        using var message = new MailMessage
+        {
+            From = new MailAddress(_settings.FromAddress, _settings.FromName),
+            Subject = subject,
+            Body = body
+        };
+        message.To.Add(toAddress);
+
+        using var client = new SmtpClient(_settings.SmtpHost, _settings.SmtpPort)
+        {
+            EnableSsl = _settings.SmtpUseSsl
+        };
+
+        if (!string.IsNullOrEmpty(_settings.SmtpUserName))
+        {
+            client.Credentials = new NetworkCredential(_settings.SmtpUserName, _settings.SmtpPassword);
+        }
+
+        await client.SendMailAsync(message);
+
+        _logger.LogInformation("Email sent to {To}: {Subject}", toAddress, subject);
+    }
+}
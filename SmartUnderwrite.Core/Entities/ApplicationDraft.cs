@@ -0,0 +1,18 @@
+namespace SmartUnderwrite.Core.Entities;
+
+/// <summary>
+/// An application an affiliate user has started but not submitted. Only its
+/// author sees it, and it never holds the applicant's SSN.
+/// </summary>
+public class ApplicationDraft
+{
+    public int Id { get; set; }
+    public int UserId { get; set; }
+    public int Step { get; set; } // The wizard step to resume at
+    public string Data { get; set; } = string.Empty; // JSON of the fields entered so far
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public User User { get; set; } = null!;
+}
@@ -0,0 +1,17 @@
+namespace SmartUnderwrite.Core.Entities;
+
+/// <summary>
+/// Which spreadsheet column holds each application field when an affiliate
+/// imports applications in bulk. Shared by the affiliate's users, so the next
+/// file in the same layout is mapped without asking.
+/// </summary>
+public class ImportMapping
+{
+    public int Id { get; set; }
+    public int AffiliateId { get; set; }
+    public string Columns { get; set; } = string.Empty; // JSON of field path to column title
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public Affiliate Affiliate { get; set; } = null!;
+}
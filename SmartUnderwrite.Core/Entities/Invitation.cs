@@ -0,0 +1,19 @@
+namespace SmartUnderwrite.Core.Entities;
+
+public class Invitation
+{
+    public int Id { get; set; }
+    public string Code { get; set; } = string.Empty;
+    public int AffiliateId { get; set; }
+    public string? Email { get; set; } // When set, only this address may use the code
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? UsedAt { get; set; }
+    public int? UsedByUserId { get; set; }
+    public int CreatedByUserId { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public Affiliate Affiliate { get; set; } = null!;
+
+    public bool IsUsable(DateTime now) => UsedAt == null && ExpiresAt > now;
+}
@@ -0,0 +1,35 @@
+namespace SmartUnderwrite.Core.Entities;
+
+/// <summary>
+/// A named set of filters, sorting, page size and visible columns for one of
+/// the client's lists. Its owner may share it with their team: the users of
+/// the same affiliate, or all internal staff when the owner has none.
+/// </summary>
+public class SavedView
+{
+    public int Id { get; set; }
+    public int UserId { get; set; }
+    public string List { get; set; } = string.Empty; // Which list it applies to, e.g. "applications"
+    public string Name { get; set; } = string.Empty;
+    public string Query { get; set; } = string.Empty; // The list's query string, without the page number
+    public bool IsShared { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public User User { get; set; } = null!;
+}
+
+/// <summary>
+/// The view a user's list opens with. It may be a teammate's shared view.
+/// </summary>
+public class DefaultSavedView
+{
+    public int UserId { get; set; }
+    public string List { get; set; } = string.Empty;
+    public int SavedViewId { get; set; }
+
+    // Navigation properties
+    public User User { get; set; } = null!;
+    public SavedView SavedView { get; set; } = null!;
+}
\ No newline at end of file
@@ -7,8 +7,10 @@ public class User : IdentityUser<int>
     public string FirstName { get; set; } = string.Empty;
     public string LastName { get; set; } = string.Empty;
     public int? AffiliateId { get; set; }
+    public bool IsApproved { get; set; } = true; // Self-registered accounts wait for an admin
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime? UpdatedAt { get; set; }
+    public DateTime? LastLoginAt { get; set; }
 
     // Navigation properties
     public Affiliate? Affiliate { get; set; }
@@ -0,0 +1,21 @@
+namespace SmartUnderwrite.Core.Entities;
+
+/// <summary>
+/// A signed-in device. Refreshing replaces its refresh token but keeps the
+/// session, so the user sees one entry per device.
+/// </summary>
+public class UserSession
+{
+    public int Id { get; set; }
+    public int UserId { get; set; }
+    public string TokenHash { get; set; } = string.Empty; // SHA-256 of the current refresh token
+    public bool MfaVerified { get; set; }
+    public string? UserAgent { get; set; }
+    public string? IpAddress { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime LastUsedAt { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAt { get; set; }
+
+    // Navigation properties
+    public User User { get; set; } = null!;
+}
@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+
+/**
+ * API client generator
+ *
+ * Reads the OpenAPI specification at the repository root and emits:
+ *   - src/api/models.ts  typed request/response models for every schema
+ *   - src/api/client.ts  one class per tag wrapping the ApiClient interface
+ *
+ * Run with `npm run generate:api` whenever openapi-spec.json changes and
+ * commit the output alongside the spec.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const specPath = path.resolve(__dirname, "../../openapi-spec.json");
+const outDir = path.resolve(__dirname, "../src/api");
+
+// The API serializes enums with JsonStringEnumConverter, but the exported
+// spec only describes them as integers. Members mirror SmartUnderwrite.Core/Enums.
+const STRING_ENUMS = {
+  ApplicationStatus: [
+    "Submitted",
+    "InReview",
+    "Evaluated",
+    "Approved",
+    "Rejected",
+    "ManualReview",
+  ],
+  DecisionOutcome: ["Approve", "Reject", "ManualReview"],
+};
+
+const HEADER = [
+  "// This file is generated by scripts/generate-api.mjs from openapi-spec.json.",
+  "// Do not edit it by hand; run `npm run generate:api` instead.",
+  "",
+].join("\n");
+
+const HTTP_METHODS = ["get", "post", "put", "delete"];
+
+const pascalCase = (value) =>
+  value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+
+const camelCase = (value) => {
+  const pascal = pascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+const refName = (ref) => ref.split("/").pop();
+
+const isValidIdentifier = (name) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+
+const propertyKey = (name) =>
+  isValidIdentifier(name) ? name : JSON.stringify(name);
+
+/**
+ * Converts a schema object to a TypeScript type expression.
+ * `prefix` is prepended to referenced model names.
+ */
+const toType = (schema, prefix = "") => {
+  if (!schema) return "unknown";
+
+  let type;
+  if (schema.$ref) {
+    type = `${prefix}${refName(schema.$ref)}`;
+  } else if (schema.allOf) {
+    type = schema.allOf.map((part) => toType(part, prefix)).join(" & ");
+  } else if (schema.enum) {
+    type = schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  } else {
+    switch (schema.type) {
+      case "string":
+        type = schema.format === "binary" ? "Blob" : "string";
+        break;
+      case "integer":
+      case "number":
+        type = "number";
+        break;
+      case "boolean":
+        type = "boolean";
+        break;
+      case "array":
+        type = `${wrapArrayItem(toType(schema.items, prefix))}[]`;
+        break;
+      case "object":
+        type = toObjectType(schema, prefix);
+        break;
+      default:
+        type = "unknown";
+    }
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const wrapArrayItem = (type) => (/[|&]/.test(type) ? `(${type})` : type);
+
+const toObjectType = (schema, prefix) => {
+  if (schema.properties) {
+    const members = renderProperties(schema, prefix, "");
+    return `{ ${members.join(" ")} }`;
+  }
+  if (schema.additionalProperties) {
+    return `Record<string, ${toType(schema.additionalProperties, prefix)}>`;
+  }
+  return "Record<string, unknown>";
+};
+
+/**
+ * Response DTOs carry no `required` list but always serialize every property,
+ * so properties are only optional when the schema lists required ones.
+ */
+const renderProperties = (schema, prefix, indent) => {
+  const required = schema.required ? new Set(schema.required) : null;
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const optional = required && !required.has(name) ? "?" : "";
+    return `${indent}${propertyKey(name)}${optional}: ${toType(
+      property,
+      prefix
+    )};`;
+  });
+};
+
+const renderModel = (name, schema) => {
+  if (STRING_ENUMS[name]) {
+    const members = STRING_ENUMS[name]
+      .map((member) => `  ${member} = ${JSON.stringify(member)},`)
+      .join("\n");
+    return `export enum ${name} {\n${members}\n}\n`;
+  }
+
+  if (schema.type === "object" && schema.properties) {
+    const members = renderProperties(schema, "", "  ").join("\n");
+    return `export interface ${name} {\n${members}\n}\n`;
+  }
+
+  return `export type ${name} = ${toType(schema)};\n`;
+};
+
+const renderModels = (spec) => {
+  const schemas = spec.components?.schemas ?? {};
+  const models = Object.entries(schemas)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, schema]) => renderModel(name, schema));
+
+  return `${HEADER}\n${models.join("\n")}`;
+};
+
+/**
+ * Derives a method name from the HTTP verb and the path below the tag,
+ * e.g. GET /api/Rules/{id}/history -> getByIdHistory.
+ */
+const operationName = (method, apiPath) => {
+  const segments = apiPath.split("/").filter(Boolean).slice(2);
+  const suffix = segments
+    .map((segment) => {
+      const param = segment.match(/^\{(.+)\}$/);
+      return param ? `By${pascalCase(param[1])}` : pascalCase(segment);
+    })
+    .join("");
+  return `${method}${suffix}`;
+};
+
+const jsonSchema = (content) =>
+  content?.["application/json"]?.schema ?? content?.["text/json"]?.schema;
+
+const responseType = (method, operation) => {
+  const success = operation.responses?.["200"] ?? operation.responses?.["201"];
+  const schema = jsonSchema(success?.content);
+  if (schema) return toType(schema, "Models.");
+  return method === "delete" ? "void" : "unknown";
+};
+
+const requestBodyType = (operation) => {
+  const content = operation.requestBody?.content;
+  if (!content) return null;
+  const schema = jsonSchema(content);
+  return schema ? toType(schema, "Models.") : "FormData";
+};
+
+const renderOperation = (apiPath, method, operation) => {
+  const parameters = operation.parameters ?? [];
+  const pathParams = parameters.filter((param) => param.in === "path");
+  const queryParams = parameters.filter((param) => param.in === "query");
+  const bodyType = requestBodyType(operation);
+  const returnType = responseType(method, operation);
+
+  const args = pathParams.map(
+    (param) => `${camelCase(param.name)}: ${toType(param.schema, "Models.")}`
+  );
+  if (bodyType) {
+    args.push(`body${operation.requestBody.required ? "" : "?"}: ${bodyType}`);
+  }
+  if (queryParams.length > 0) {
+    const fields = queryParams
+      .map(
+        (param) =>
+          `${propertyKey(param.name)}${param.required ? "" : "?"}: ${toType(
+            param.schema,
+            "Models."
+          )}`
+      )
+      .join("; ");
+    args.push(`query: { ${fields} } = {}`);
+  }
+
+  // ApiClient is rooted at /api, so the spec's /api prefix is dropped.
+  const relativePath = apiPath
+    .replace(/^\/api/, "")
+    .replace(
+      /\{(.+?)\}/g,
+      (_, name) => `\${encodeURIComponent(${camelCase(name)})}`
+    );
+  const url = queryParams.length
+    ? `\`${relativePath}\${buildQuery(query)}\``
+    : `\`${relativePath}\``;
+
+  args.push(`options?: RequestOptions<${returnType}>`);
+
+  const callArgs = [url];
+  if (bodyType) callArgs.push("body");
+  else if (method === "post" || method === "put") callArgs.push("undefined");
+  callArgs.push("options");
+
+  return [
+    `  /** ${method.toUpperCase()} ${apiPath} */`,
+    `  ${operationName(method, apiPath)}(${args.join(", ")}): Promise<${returnType}> {`,
+    `    return this.client.${method}<${returnType}>(${callArgs.join(", ")});`,
+    `  }`,
+  ].join("\n");
+};
+
+const renderClient = (spec) => {
+  const groups = new Map();
+
+  for (const [apiPath, pathItem] of Object.entries(spec.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      const tag = operation.tags?.[0] ?? apiPath.split("/")[2];
+      if (!groups.has(tag)) groups.set(tag, []);
+      groups.get(tag).push(renderOperation(apiPath, method, operation));
+    }
+  }
+
+  const tags = [...groups.keys()].sort((a, b) => a.localeCompare(b));
+
+  const classes = tags.map((tag) =>
+    [
+      `export class ${pascalCase(tag)}Api {`,
+      `  private client: ApiClient;`,
+      ``,
+      `  constructor(client: ApiClient) {`,
+      `    this.client = client;`,
+      `  }`,
+      ``,
+      groups.get(tag).join("\n\n"),
+      `}`,
+      ``,
+    ].join("\n")
+  );
+
+  const factory = [
+    `export const createApi = (client: ApiClient) => ({`,
+    ...tags.map((tag) => `  ${camelCase(tag)}: new ${pascalCase(tag)}Api(client),`),
+    `});`,
+    ``,
+    `export type Api = ReturnType<typeof createApi>;`,
+    ``,
+  ].join("\n");
+
+  return [
+    HEADER,
+    `import type { ApiClient, RequestOptions } from "@/types/api";`,
+    `import type * as Models from "./models";`,
+    ``,
+    `type QueryScalar = string | number | boolean | null | undefined;`,
+    `type QueryValue = QueryScalar | QueryScalar[];`,
+    ``,
+    `// Array values repeat the key, e.g. ?Columns=id&Columns=amount`,
+    `const buildQuery = (query: Record<string, QueryValue>): string => {`,
+    `  const params = new URLSearchParams();`,
+    `  Object.entries(query).forEach(([key, value]) => {`,
+    `    (Array.isArray(value) ? value : [value]).forEach((item) => {`,
+    `      if (item !== undefined && item !== null && item !== "") {`,
+    `        params.append(key, String(item));`,
+    `      }`,
+    `    });`,
+    `  });`,
+    `  const queryString = params.toString();`,
+    `  return queryString ? \`?\${queryString}\` : "";`,
+    `};`,
+    ``,
+    classes.join("\n"),
+    factory,
+  ].join("\n");
+};
+
+const main = () => {
+  const spec = JSON.parse(fs.readFileSync(specPath, "utf8"));
+
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, "models.ts"), renderModels(spec));
+  fs.writeFileSync(path.join(outDir, "client.ts"), renderClient(spec));
+
+  console.log(`Generated API client from ${path.relative(process.cwd(), specPath)}`);
+};
+
+main();
@@ -12,18 +12,28 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { LoginPage } from "@/pages/auth/LoginPage";
+import { RegisterPage } from "@/pages/auth/RegisterPage";
+import { ConfirmEmailPage } from "@/pages/auth/ConfirmEmailPage";
+import { ForgotPasswordPage } from "@/pages/auth/ForgotPasswordPage";
+import { ResetPasswordPage } from "@/pages/auth/ResetPasswordPage";
+import { OidcCallbackPage } from "@/pages/auth/OidcCallbackPage";
 import { DashboardPage } from "@/pages/DashboardPage";
 import { UnauthorizedPage } from "@/pages/UnauthorizedPage";
 import { ApplicationsPage } from "@/pages/applications/ApplicationsPage";
 import { ApplicationDetailPage } from "@/pages/applications/ApplicationDetailPage";
 import { CreateApplicationPage } from "@/pages/applications/CreateApplicationPage";
+import { ImportApplicationsPage } from "@/pages/applications/ImportApplicationsPage";
 import { DecisionsPage } from "@/pages/decisions/DecisionsPage";
 import { PendingDecisionsPage } from "@/pages/decisions/PendingDecisionsPage";
 import { AdminPage } from "@/pages/admin/AdminPage";
 import { AffiliatesPage } from "@/pages/admin/AffiliatesPage";
 import { ReportsPage } from "@/pages/admin/ReportsPage";
 import { AuditLogsPage } from "@/pages/admin/AuditLogsPage";
-import { UserRole } from "@/types/auth";
+import { RegistrationsPage } from "@/pages/admin/RegistrationsPage";
+import { SecurityPage } from "@/pages/account/SecurityPage";
+import { SessionsPage } from "@/pages/account/SessionsPage";
+import { OIDC_CALLBACK_PATH } from "@/services/oidc";
+import { Permission } from "@/types/auth";
 
 function App() {
   return (
@@ -33,6 +43,11 @@ function App() {
         <Router>
           <Routes>
             <Route path="/login" element={<LoginPage />} />
+            <Route path="/register" element={<RegisterPage />} />
+            <Route path="/confirm-email" element={<ConfirmEmailPage />} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
+            <Route path={OIDC_CALLBACK_PATH} element={<OidcCallbackPage />} />
             <Route path="/unauthorized" element={<UnauthorizedPage />} />
             <Route
               path="/dashboard"
@@ -57,13 +72,23 @@ function App() {
             <Route
               path="/applications/create"
               element={
-                <ProtectedRoute requiredRoles={[UserRole.Affiliate]}>
+                <ProtectedRoute permission={Permission.ApplicationsCreate}>
                   <AppLayout>
                     <CreateApplicationPage />
                   </AppLayout>
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/applications/import"
+              element={
+                <ProtectedRoute permission={Permission.ApplicationsCreate}>
+                  <AppLayout>
+                    <ImportApplicationsPage />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/applications/:id"
               element={
@@ -77,9 +102,7 @@ function App() {
             <Route
               path="/decisions"
               element={
-                <ProtectedRoute
-                  requiredRoles={[UserRole.Underwriter, UserRole.Admin]}
-                >
+                <ProtectedRoute permission={Permission.DecisionsView}>
                   <AppLayout>
                     <DecisionsPage />
                   </AppLayout>
@@ -89,19 +112,37 @@ function App() {
             <Route
               path="/decisions/pending"
               element={
-                <ProtectedRoute
-                  requiredRoles={[UserRole.Underwriter, UserRole.Admin]}
-                >
+                <ProtectedRoute permission={Permission.DecisionsView}>
                   <AppLayout>
                     <PendingDecisionsPage />
                   </AppLayout>
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/account/security"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <SecurityPage />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/account/sessions"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <SessionsPage />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/admin/rules"
               element={
-                <ProtectedRoute requiredRoles={[UserRole.Admin]}>
+                <ProtectedRoute permission={Permission.RulesView} requireMfa>
                   <AppLayout>
                     <AdminPage />
                   </AppLayout>
@@ -111,17 +152,30 @@ function App() {
             <Route
               path="/admin/affiliates"
               element={
-                <ProtectedRoute requiredRoles={[UserRole.Admin]}>
+                <ProtectedRoute
+                  permission={Permission.AffiliatesManage}
+                  requireMfa
+                >
                   <AppLayout>
                     <AffiliatesPage />
                   </AppLayout>
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/registrations"
+              element={
+                <ProtectedRoute permission={Permission.UsersManage} requireMfa>
+                  <AppLayout>
+                    <RegistrationsPage />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/admin/reports"
               element={
-                <ProtectedRoute requiredRoles={[UserRole.Admin]}>
+                <ProtectedRoute permission={Permission.ReportsView} requireMfa>
                   <AppLayout>
                     <ReportsPage />
                   </AppLayout>
@@ -131,7 +185,7 @@ function App() {
             <Route
               path="/admin/audit"
               element={
-                <ProtectedRoute requiredRoles={[UserRole.Admin]}>
+                <ProtectedRoute permission={Permission.AuditView} requireMfa>
                   <AppLayout>
                     <AuditLogsPage />
                   </AppLayout>
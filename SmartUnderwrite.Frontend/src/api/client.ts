@@ -0,0 +1,605 @@
+// This file is generated by scripts/generate-api.mjs from openapi-spec.json.
+// Do not edit it by hand; run `npm run generate:api` instead.
+
+import type { ApiClient, RequestOptions } from "@/types/api";
+import type * as Models from "./models";
+
+type QueryScalar = string | number | boolean | null | undefined;
+type QueryValue = QueryScalar | QueryScalar[];
+
+// Array values repeat the key, e.g. ?Columns=id&Columns=amount
+const buildQuery = (query: Record<string, QueryValue>): string => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) => {
+      if (item !== undefined && item !== null && item !== "") {
+        params.append(key, String(item));
+      }
+    });
+  });
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : "";
+};
+
+export class AffiliatesApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Affiliates */
+  get(options?: RequestOptions<Models.AffiliateDto[]>): Promise<Models.AffiliateDto[]> {
+    return this.client.get<Models.AffiliateDto[]>(`/Affiliates`, options);
+  }
+
+  /** POST /api/Affiliates */
+  post(body: Models.CreateAffiliateRequest, options?: RequestOptions<Models.AffiliateDto>): Promise<Models.AffiliateDto> {
+    return this.client.post<Models.AffiliateDto>(`/Affiliates`, body, options);
+  }
+
+  /** GET /api/Affiliates/{id} */
+  getById(id: number, options?: RequestOptions<Models.AffiliateDto>): Promise<Models.AffiliateDto> {
+    return this.client.get<Models.AffiliateDto>(`/Affiliates/${encodeURIComponent(id)}`, options);
+  }
+
+  /** PUT /api/Affiliates/{id} */
+  putById(id: number, body: Models.UpdateAffiliateRequest, options?: RequestOptions<Models.AffiliateDto>): Promise<Models.AffiliateDto> {
+    return this.client.put<Models.AffiliateDto>(`/Affiliates/${encodeURIComponent(id)}`, body, options);
+  }
+
+  /** POST /api/Affiliates/{id}/deactivate */
+  postByIdDeactivate(id: number, options?: RequestOptions<Models.AffiliateDto>): Promise<Models.AffiliateDto> {
+    return this.client.post<Models.AffiliateDto>(`/Affiliates/${encodeURIComponent(id)}/deactivate`, undefined, options);
+  }
+
+  /** POST /api/Affiliates/{id}/activate */
+  postByIdActivate(id: number, options?: RequestOptions<Models.AffiliateDto>): Promise<Models.AffiliateDto> {
+    return this.client.post<Models.AffiliateDto>(`/Affiliates/${encodeURIComponent(id)}/activate`, undefined, options);
+  }
+
+  /** GET /api/Affiliates/{id}/users */
+  getByIdUsers(id: number, options?: RequestOptions<Models.AffiliateUserDto[]>): Promise<Models.AffiliateUserDto[]> {
+    return this.client.get<Models.AffiliateUserDto[]>(`/Affiliates/${encodeURIComponent(id)}/users`, options);
+  }
+
+  /** POST /api/Affiliates/{id}/users */
+  postByIdUsers(id: number, body: Models.AssignUserToAffiliateRequest, options?: RequestOptions<Models.AffiliateUserDto>): Promise<Models.AffiliateUserDto> {
+    return this.client.post<Models.AffiliateUserDto>(`/Affiliates/${encodeURIComponent(id)}/users`, body, options);
+  }
+
+  /** DELETE /api/Affiliates/{id}/users/{userId} */
+  deleteByIdUsersByUserId(id: number, userId: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Affiliates/${encodeURIComponent(id)}/users/${encodeURIComponent(userId)}`, options);
+  }
+
+  /** POST /api/Affiliates/{id}/users/invite */
+  postByIdUsersInvite(id: number, body: Models.InviteAffiliateUserRequest, options?: RequestOptions<Models.AffiliateUserDto>): Promise<Models.AffiliateUserDto> {
+    return this.client.post<Models.AffiliateUserDto>(`/Affiliates/${encodeURIComponent(id)}/users/invite`, body, options);
+  }
+
+  /** POST /api/Affiliates/{id}/users/{userId}/reset-password */
+  postByIdUsersByUserIdResetPassword(id: number, userId: number, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Affiliates/${encodeURIComponent(id)}/users/${encodeURIComponent(userId)}/reset-password`, undefined, options);
+  }
+}
+
+export class ApplicationDraftsApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/ApplicationDrafts */
+  get(options?: RequestOptions<Models.ApplicationDraftDto[]>): Promise<Models.ApplicationDraftDto[]> {
+    return this.client.get<Models.ApplicationDraftDto[]>(`/ApplicationDrafts`, options);
+  }
+
+  /** POST /api/ApplicationDrafts */
+  post(body: Models.SaveApplicationDraftRequest, options?: RequestOptions<Models.ApplicationDraftDto>): Promise<Models.ApplicationDraftDto> {
+    return this.client.post<Models.ApplicationDraftDto>(`/ApplicationDrafts`, body, options);
+  }
+
+  /** GET /api/ApplicationDrafts/{id} */
+  getById(id: number, options?: RequestOptions<Models.ApplicationDraftDto>): Promise<Models.ApplicationDraftDto> {
+    return this.client.get<Models.ApplicationDraftDto>(`/ApplicationDrafts/${encodeURIComponent(id)}`, options);
+  }
+
+  /** PUT /api/ApplicationDrafts/{id} */
+  putById(id: number, body: Models.SaveApplicationDraftRequest, options?: RequestOptions<Models.ApplicationDraftDto>): Promise<Models.ApplicationDraftDto> {
+    return this.client.put<Models.ApplicationDraftDto>(`/ApplicationDrafts/${encodeURIComponent(id)}`, body, options);
+  }
+
+  /** DELETE /api/ApplicationDrafts/{id} */
+  deleteById(id: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/ApplicationDrafts/${encodeURIComponent(id)}`, options);
+  }
+}
+
+export class ApplicationsApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Applications */
+  get(query: { Status?: string; AffiliateId?: number; CreatedAfter?: string; CreatedBefore?: string; MinAmount?: number; MaxAmount?: number; ProductType?: string; EmploymentType?: string; MinCreditScore?: number; MaxCreditScore?: number; Search?: string; SortBy?: string; SortDirection?: string; Page?: number; PageSize?: number } = {}, options?: RequestOptions<Models.PagedResultOfLoanApplicationDto>): Promise<Models.PagedResultOfLoanApplicationDto> {
+    return this.client.get<Models.PagedResultOfLoanApplicationDto>(`/Applications${buildQuery(query)}`, options);
+  }
+
+  /** POST /api/Applications */
+  post(body: Models.CreateApplicationRequest, options?: RequestOptions<Models.LoanApplicationDto>): Promise<Models.LoanApplicationDto> {
+    return this.client.post<Models.LoanApplicationDto>(`/Applications`, body, options);
+  }
+
+  /** GET /api/Applications/export */
+  getExport(query: { Status?: string; AffiliateId?: number; CreatedAfter?: string; CreatedBefore?: string; MinAmount?: number; MaxAmount?: number; ProductType?: string; EmploymentType?: string; MinCreditScore?: number; MaxCreditScore?: number; Search?: string; SortBy?: string; SortDirection?: string; Format?: string; Columns?: string[]; MaskSsnHash?: boolean; MaskPhone?: boolean; MaskEmail?: boolean } = {}, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Applications/export${buildQuery(query)}`, options);
+  }
+
+  /** GET /api/Applications/{id} */
+  getById(id: number, options?: RequestOptions<Models.LoanApplicationDto>): Promise<Models.LoanApplicationDto> {
+    return this.client.get<Models.LoanApplicationDto>(`/Applications/${encodeURIComponent(id)}`, options);
+  }
+
+  /** POST /api/Applications/{id}/evaluate */
+  postByIdEvaluate(id: number, options?: RequestOptions<Models.DecisionDto>): Promise<Models.DecisionDto> {
+    return this.client.post<Models.DecisionDto>(`/Applications/${encodeURIComponent(id)}/evaluate`, undefined, options);
+  }
+
+  /** POST /api/Applications/{id}/decision */
+  postByIdDecision(id: number, body: Models.ManualDecisionRequest, options?: RequestOptions<Models.DecisionDto>): Promise<Models.DecisionDto> {
+    return this.client.post<Models.DecisionDto>(`/Applications/${encodeURIComponent(id)}/decision`, body, options);
+  }
+
+  /** POST /api/Applications/{id}/documents */
+  postByIdDocuments(id: number, body: FormData, options?: RequestOptions<Models.DocumentUploadResponse>): Promise<Models.DocumentUploadResponse> {
+    return this.client.post<Models.DocumentUploadResponse>(`/Applications/${encodeURIComponent(id)}/documents`, body, options);
+  }
+
+  /** GET /api/Applications/{applicationId}/documents */
+  getByApplicationIdDocuments(applicationId: number, options?: RequestOptions<Models.DocumentUploadResponse[]>): Promise<Models.DocumentUploadResponse[]> {
+    return this.client.get<Models.DocumentUploadResponse[]>(`/Applications/${encodeURIComponent(applicationId)}/documents`, options);
+  }
+
+  /** GET /api/Applications/{applicationId}/documents/{documentId} */
+  getByApplicationIdDocumentsByDocumentId(applicationId: number, documentId: number, options?: RequestOptions<Models.DocumentUploadResponse>): Promise<Models.DocumentUploadResponse> {
+    return this.client.get<Models.DocumentUploadResponse>(`/Applications/${encodeURIComponent(applicationId)}/documents/${encodeURIComponent(documentId)}`, options);
+  }
+
+  /** DELETE /api/Applications/{applicationId}/documents/{documentId} */
+  deleteByApplicationIdDocumentsByDocumentId(applicationId: number, documentId: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Applications/${encodeURIComponent(applicationId)}/documents/${encodeURIComponent(documentId)}`, options);
+  }
+
+  /** GET /api/Applications/{applicationId}/documents/{documentId}/download */
+  getByApplicationIdDocumentsByDocumentIdDownload(applicationId: number, documentId: number, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Applications/${encodeURIComponent(applicationId)}/documents/${encodeURIComponent(documentId)}/download`, options);
+  }
+}
+
+export class AuditApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Audit */
+  get(query: { EntityType?: string; EntityId?: string; FromDate?: string; ToDate?: string } = {}, options?: RequestOptions<Models.AuditLogDto[]>): Promise<Models.AuditLogDto[]> {
+    return this.client.get<Models.AuditLogDto[]>(`/Audit${buildQuery(query)}`, options);
+  }
+
+  /** GET /api/Audit/export */
+  getExport(query: { EntityType?: string; EntityId?: string; FromDate?: string; ToDate?: string; UserId?: number; Action?: string; Format?: string; Columns?: string[]; MaskSsnHash?: boolean; MaskPhone?: boolean; MaskEmail?: boolean } = {}, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Audit/export${buildQuery(query)}`, options);
+  }
+
+  /** GET /api/Audit/trail/{entityType}/{entityId} */
+  getTrailByEntityTypeByEntityId(entityType: string, entityId: string, options?: RequestOptions<Models.AuditLogDto[]>): Promise<Models.AuditLogDto[]> {
+    return this.client.get<Models.AuditLogDto[]>(`/Audit/trail/${encodeURIComponent(entityType)}/${encodeURIComponent(entityId)}`, options);
+  }
+
+  /** GET /api/Audit/{id} */
+  getById(id: number, options?: RequestOptions<Models.AuditLogDto>): Promise<Models.AuditLogDto> {
+    return this.client.get<Models.AuditLogDto>(`/Audit/${encodeURIComponent(id)}`, options);
+  }
+
+  /** GET /api/Audit/summary */
+  getSummary(query: { fromDate?: string; toDate?: string } = {}, options?: RequestOptions<Models.AuditSummaryDto>): Promise<Models.AuditSummaryDto> {
+    return this.client.get<Models.AuditSummaryDto>(`/Audit/summary${buildQuery(query)}`, options);
+  }
+}
+
+export class AuthApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** POST /api/Auth/register */
+  postRegister(body: Models.RegisterRequest, options?: RequestOptions<Models.LoginResponse>): Promise<Models.LoginResponse> {
+    return this.client.post<Models.LoginResponse>(`/Auth/register`, body, options);
+  }
+
+  /** POST /api/Auth/login */
+  postLogin(body: Models.LoginRequest, options?: RequestOptions<Models.LoginResponse>): Promise<Models.LoginResponse> {
+    return this.client.post<Models.LoginResponse>(`/Auth/login`, body, options);
+  }
+
+  /** POST /api/Auth/refresh */
+  postRefresh(body?: Models.RefreshTokenRequest, options?: RequestOptions<Models.LoginResponse>): Promise<Models.LoginResponse> {
+    return this.client.post<Models.LoginResponse>(`/Auth/refresh`, body, options);
+  }
+
+  /** POST /api/Auth/logout */
+  postLogout(body?: Models.RefreshTokenRequest, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Auth/logout`, body, options);
+  }
+
+  /** GET /api/Auth/me */
+  getMe(options?: RequestOptions<Models.UserInfo>): Promise<Models.UserInfo> {
+    return this.client.get<Models.UserInfo>(`/Auth/me`, options);
+  }
+
+  /** POST /api/Auth/signup */
+  postSignup(body: Models.SignUpRequest, options?: RequestOptions<Models.SignUpResponse>): Promise<Models.SignUpResponse> {
+    return this.client.post<Models.SignUpResponse>(`/Auth/signup`, body, options);
+  }
+
+  /** POST /api/Auth/confirm-email */
+  postConfirmEmail(body: Models.ConfirmEmailRequest, options?: RequestOptions<Models.SignUpResponse>): Promise<Models.SignUpResponse> {
+    return this.client.post<Models.SignUpResponse>(`/Auth/confirm-email`, body, options);
+  }
+
+  /** GET /api/Auth/invitations/{code} */
+  getInvitationsByCode(code: string, options?: RequestOptions<Models.InvitationLookupDto>): Promise<Models.InvitationLookupDto> {
+    return this.client.get<Models.InvitationLookupDto>(`/Auth/invitations/${encodeURIComponent(code)}`, options);
+  }
+
+  /** POST /api/Auth/forgot-password */
+  postForgotPassword(body: Models.ForgotPasswordRequest, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Auth/forgot-password`, body, options);
+  }
+
+  /** POST /api/Auth/reset-password */
+  postResetPassword(body: Models.ResetPasswordRequest, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Auth/reset-password`, body, options);
+  }
+
+  /** POST /api/Auth/login/mfa */
+  postLoginMfa(body: Models.MfaLoginRequest, options?: RequestOptions<Models.LoginResponse>): Promise<Models.LoginResponse> {
+    return this.client.post<Models.LoginResponse>(`/Auth/login/mfa`, body, options);
+  }
+
+  /** GET /api/Auth/mfa */
+  getMfa(options?: RequestOptions<Models.MfaStatusResponse>): Promise<Models.MfaStatusResponse> {
+    return this.client.get<Models.MfaStatusResponse>(`/Auth/mfa`, options);
+  }
+
+  /** POST /api/Auth/mfa/setup */
+  postMfaSetup(options?: RequestOptions<Models.MfaSetupResponse>): Promise<Models.MfaSetupResponse> {
+    return this.client.post<Models.MfaSetupResponse>(`/Auth/mfa/setup`, undefined, options);
+  }
+
+  /** POST /api/Auth/mfa/enable */
+  postMfaEnable(body: Models.MfaCodeRequest, options?: RequestOptions<Models.MfaEnableResponse>): Promise<Models.MfaEnableResponse> {
+    return this.client.post<Models.MfaEnableResponse>(`/Auth/mfa/enable`, body, options);
+  }
+
+  /** POST /api/Auth/mfa/disable */
+  postMfaDisable(body: Models.MfaCodeRequest, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Auth/mfa/disable`, body, options);
+  }
+
+  /** POST /api/Auth/mfa/recovery-codes */
+  postMfaRecoveryCodes(body: Models.MfaCodeRequest, options?: RequestOptions<Models.RecoveryCodesResponse>): Promise<Models.RecoveryCodesResponse> {
+    return this.client.post<Models.RecoveryCodesResponse>(`/Auth/mfa/recovery-codes`, body, options);
+  }
+
+  /** POST /api/Auth/impersonation */
+  postImpersonation(body: Models.StartImpersonationRequest, options?: RequestOptions<Models.ImpersonationResponse>): Promise<Models.ImpersonationResponse> {
+    return this.client.post<Models.ImpersonationResponse>(`/Auth/impersonation`, body, options);
+  }
+
+  /** DELETE /api/Auth/impersonation */
+  deleteImpersonation(options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Auth/impersonation`, options);
+  }
+
+  /** GET /api/Auth/oidc */
+  getOidc(options?: RequestOptions<Models.OidcProviderResponse>): Promise<Models.OidcProviderResponse> {
+    return this.client.get<Models.OidcProviderResponse>(`/Auth/oidc`, options);
+  }
+
+  /** POST /api/Auth/oidc/login */
+  postOidcLogin(body: Models.OidcLoginRequest, options?: RequestOptions<Models.LoginResponse>): Promise<Models.LoginResponse> {
+    return this.client.post<Models.LoginResponse>(`/Auth/oidc/login`, body, options);
+  }
+
+  /** GET /api/Auth/sessions */
+  getSessions(options?: RequestOptions<Models.SessionDto[]>): Promise<Models.SessionDto[]> {
+    return this.client.get<Models.SessionDto[]>(`/Auth/sessions`, options);
+  }
+
+  /** DELETE /api/Auth/sessions */
+  deleteSessions(options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Auth/sessions`, options);
+  }
+
+  /** DELETE /api/Auth/sessions/{id} */
+  deleteSessionsById(id: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Auth/sessions/${encodeURIComponent(id)}`, options);
+  }
+}
+
+export class DecisionApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** POST /api/decisions/{applicationId}/evaluate */
+  postByApplicationIdEvaluate(applicationId: number, options?: RequestOptions<Models.DecisionDto>): Promise<Models.DecisionDto> {
+    return this.client.post<Models.DecisionDto>(`/decisions/${encodeURIComponent(applicationId)}/evaluate`, undefined, options);
+  }
+
+  /** POST /api/decisions/{applicationId}/manual-decision */
+  postByApplicationIdManualDecision(applicationId: number, body: Models.ManualDecisionRequest, options?: RequestOptions<Models.DecisionDto>): Promise<Models.DecisionDto> {
+    return this.client.post<Models.DecisionDto>(`/decisions/${encodeURIComponent(applicationId)}/manual-decision`, body, options);
+  }
+
+  /** GET /api/decisions/{applicationId}/latest */
+  getByApplicationIdLatest(applicationId: number, options?: RequestOptions<Models.DecisionDto>): Promise<Models.DecisionDto> {
+    return this.client.get<Models.DecisionDto>(`/decisions/${encodeURIComponent(applicationId)}/latest`, options);
+  }
+
+  /** GET /api/decisions/{applicationId}/history */
+  getByApplicationIdHistory(applicationId: number, options?: RequestOptions<Models.DecisionDto[]>): Promise<Models.DecisionDto[]> {
+    return this.client.get<Models.DecisionDto[]>(`/decisions/${encodeURIComponent(applicationId)}/history`, options);
+  }
+}
+
+export class HealthApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Health/healthz */
+  getHealthz(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/healthz`, options);
+  }
+
+  /** GET /api/Health/readyz */
+  getReadyz(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/readyz`, options);
+  }
+
+  /** GET /api/Health/protected */
+  getProtected(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/protected`, options);
+  }
+
+  /** GET /api/Health/admin-only */
+  getAdminOnly(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/admin-only`, options);
+  }
+
+  /** GET /api/Health/metrics */
+  getMetrics(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/metrics`, options);
+  }
+
+  /** GET /api/Health/info */
+  getInfo(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/info`, options);
+  }
+
+  /** GET /api/Health/detailed */
+  getDetailed(options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.get<unknown>(`/Health/detailed`, options);
+  }
+}
+
+export class ImportMappingApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/ImportMapping */
+  get(options?: RequestOptions<Models.ImportMappingDto>): Promise<Models.ImportMappingDto> {
+    return this.client.get<Models.ImportMappingDto>(`/ImportMapping`, options);
+  }
+
+  /** PUT /api/ImportMapping */
+  put(body: Models.SaveImportMappingRequest, options?: RequestOptions<Models.ImportMappingDto>): Promise<Models.ImportMappingDto> {
+    return this.client.put<Models.ImportMappingDto>(`/ImportMapping`, body, options);
+  }
+}
+
+export class RegistrationsApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Registrations */
+  get(options?: RequestOptions<Models.PendingRegistrationDto[]>): Promise<Models.PendingRegistrationDto[]> {
+    return this.client.get<Models.PendingRegistrationDto[]>(`/Registrations`, options);
+  }
+
+  /** POST /api/Registrations/{userId}/approve */
+  postByUserIdApprove(userId: number, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Registrations/${encodeURIComponent(userId)}/approve`, undefined, options);
+  }
+
+  /** POST /api/Registrations/{userId}/reject */
+  postByUserIdReject(userId: number, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.post<unknown>(`/Registrations/${encodeURIComponent(userId)}/reject`, undefined, options);
+  }
+
+  /** GET /api/Registrations/invitations */
+  getInvitations(options?: RequestOptions<Models.InvitationDto[]>): Promise<Models.InvitationDto[]> {
+    return this.client.get<Models.InvitationDto[]>(`/Registrations/invitations`, options);
+  }
+
+  /** POST /api/Registrations/invitations */
+  postInvitations(body: Models.CreateInvitationRequest, options?: RequestOptions<Models.InvitationDto>): Promise<Models.InvitationDto> {
+    return this.client.post<Models.InvitationDto>(`/Registrations/invitations`, body, options);
+  }
+
+  /** DELETE /api/Registrations/invitations/{id} */
+  deleteInvitationsById(id: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Registrations/invitations/${encodeURIComponent(id)}`, options);
+  }
+}
+
+export class RulesApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Rules */
+  get(options?: RequestOptions<Models.RuleDto[]>): Promise<Models.RuleDto[]> {
+    return this.client.get<Models.RuleDto[]>(`/Rules`, options);
+  }
+
+  /** POST /api/Rules */
+  post(body: Models.CreateRuleRequest, options?: RequestOptions<Models.RuleDto>): Promise<Models.RuleDto> {
+    return this.client.post<Models.RuleDto>(`/Rules`, body, options);
+  }
+
+  /** GET /api/Rules/active */
+  getActive(options?: RequestOptions<Models.RuleDto[]>): Promise<Models.RuleDto[]> {
+    return this.client.get<Models.RuleDto[]>(`/Rules/active`, options);
+  }
+
+  /** GET /api/Rules/{id} */
+  getById(id: number, options?: RequestOptions<Models.RuleDto>): Promise<Models.RuleDto> {
+    return this.client.get<Models.RuleDto>(`/Rules/${encodeURIComponent(id)}`, options);
+  }
+
+  /** PUT /api/Rules/{id} */
+  putById(id: number, body: Models.UpdateRuleRequest, options?: RequestOptions<Models.RuleDto>): Promise<Models.RuleDto> {
+    return this.client.put<Models.RuleDto>(`/Rules/${encodeURIComponent(id)}`, body, options);
+  }
+
+  /** DELETE /api/Rules/{id} */
+  deleteById(id: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Rules/${encodeURIComponent(id)}`, options);
+  }
+
+  /** POST /api/Rules/{id}/activate */
+  postByIdActivate(id: number, options?: RequestOptions<Models.RuleDto>): Promise<Models.RuleDto> {
+    return this.client.post<Models.RuleDto>(`/Rules/${encodeURIComponent(id)}/activate`, undefined, options);
+  }
+
+  /** POST /api/Rules/{id}/deactivate */
+  postByIdDeactivate(id: number, options?: RequestOptions<Models.RuleDto>): Promise<Models.RuleDto> {
+    return this.client.post<Models.RuleDto>(`/Rules/${encodeURIComponent(id)}/deactivate`, undefined, options);
+  }
+
+  /** POST /api/Rules/validate */
+  postValidate(body: Models.ValidateRuleRequest, options?: RequestOptions<Models.RuleValidationResponse>): Promise<Models.RuleValidationResponse> {
+    return this.client.post<Models.RuleValidationResponse>(`/Rules/validate`, body, options);
+  }
+
+  /** GET /api/Rules/{id}/history */
+  getByIdHistory(id: number, options?: RequestOptions<Models.RuleVersionDto[]>): Promise<Models.RuleVersionDto[]> {
+    return this.client.get<Models.RuleVersionDto[]>(`/Rules/${encodeURIComponent(id)}/history`, options);
+  }
+
+  /** POST /api/Rules/{id}/version */
+  postByIdVersion(id: number, body: Models.UpdateRuleRequest, options?: RequestOptions<Models.RuleDto>): Promise<Models.RuleDto> {
+    return this.client.post<Models.RuleDto>(`/Rules/${encodeURIComponent(id)}/version`, body, options);
+  }
+}
+
+export class SavedViewsApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/SavedViews */
+  get(query: { list?: string } = {}, options?: RequestOptions<Models.SavedViewDto[]>): Promise<Models.SavedViewDto[]> {
+    return this.client.get<Models.SavedViewDto[]>(`/SavedViews${buildQuery(query)}`, options);
+  }
+
+  /** POST /api/SavedViews */
+  post(body: Models.CreateSavedViewRequest, options?: RequestOptions<Models.SavedViewDto>): Promise<Models.SavedViewDto> {
+    return this.client.post<Models.SavedViewDto>(`/SavedViews`, body, options);
+  }
+
+  /** PUT /api/SavedViews/{id} */
+  putById(id: number, body: Models.UpdateSavedViewRequest, options?: RequestOptions<Models.SavedViewDto>): Promise<Models.SavedViewDto> {
+    return this.client.put<Models.SavedViewDto>(`/SavedViews/${encodeURIComponent(id)}`, body, options);
+  }
+
+  /** DELETE /api/SavedViews/{id} */
+  deleteById(id: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/SavedViews/${encodeURIComponent(id)}`, options);
+  }
+
+  /** PUT /api/SavedViews/{id}/default */
+  putByIdDefault(id: number, options?: RequestOptions<unknown>): Promise<unknown> {
+    return this.client.put<unknown>(`/SavedViews/${encodeURIComponent(id)}/default`, undefined, options);
+  }
+
+  /** DELETE /api/SavedViews/{id}/default */
+  deleteByIdDefault(id: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/SavedViews/${encodeURIComponent(id)}/default`, options);
+  }
+}
+
+export class UsersApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** GET /api/Users/{userId}/sessions */
+  getByUserIdSessions(userId: number, options?: RequestOptions<Models.SessionDto[]>): Promise<Models.SessionDto[]> {
+    return this.client.get<Models.SessionDto[]>(`/Users/${encodeURIComponent(userId)}/sessions`, options);
+  }
+
+  /** DELETE /api/Users/{userId}/sessions */
+  deleteByUserIdSessions(userId: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Users/${encodeURIComponent(userId)}/sessions`, options);
+  }
+
+  /** DELETE /api/Users/{userId}/sessions/{sessionId} */
+  deleteByUserIdSessionsBySessionId(userId: number, sessionId: number, options?: RequestOptions<void>): Promise<void> {
+    return this.client.delete<void>(`/Users/${encodeURIComponent(userId)}/sessions/${encodeURIComponent(sessionId)}`, options);
+  }
+}
+
+export const createApi = (client: ApiClient) => ({
+  affiliates: new AffiliatesApi(client),
+  applicationDrafts: new ApplicationDraftsApi(client),
+  applications: new ApplicationsApi(client),
+  audit: new AuditApi(client),
+  auth: new AuthApi(client),
+  decision: new DecisionApi(client),
+  health: new HealthApi(client),
+  importMapping: new ImportMappingApi(client),
+  registrations: new RegistrationsApi(client),
+  rules: new RulesApi(client),
+  savedViews: new SavedViewsApi(client),
+  users: new UsersApi(client),
+});
+
+export type Api = ReturnType<typeof createApi>;
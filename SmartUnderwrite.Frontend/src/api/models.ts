@@ -0,0 +1,489 @@
+// This file is generated by scripts/generate-api.mjs from openapi-spec.json.
+// Do not edit it by hand; run `npm run generate:api` instead.
+
+export interface AddressDto {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+export interface AffiliateDto {
+  id: number;
+  name: string;
+  externalId: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+  userCount: number;
+  applicationCount: number;
+}
+
+export interface AffiliateUserDto {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  fullName: string | null;
+  roles: string[];
+  createdAt: string;
+  lastLoginAt: string | null;
+  isActive: boolean;
+}
+
+export interface ApplicantDto {
+  id: number;
+  firstName: string;
+  lastName: string;
+  fullName: string | null;
+  dateOfBirth: string;
+  phone: string;
+  email: string;
+  address: AddressDto;
+}
+
+export interface ApplicationDraftData {
+  applicant: DraftApplicant;
+  address: DraftAddress;
+  employment: DraftEmployment;
+  loan: DraftLoan;
+}
+
+export interface ApplicationDraftDto {
+  id: number;
+  step: number;
+  data: ApplicationDraftData;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export enum ApplicationStatus {
+  Submitted = "Submitted",
+  InReview = "InReview",
+  Evaluated = "Evaluated",
+  Approved = "Approved",
+  Rejected = "Rejected",
+  ManualReview = "ManualReview",
+}
+
+export interface AssignUserToAffiliateRequest {
+  userId: number;
+}
+
+export interface AuditLogDto {
+  id: number;
+  entityType: string;
+  entityId: string;
+  action: string;
+  changes: string;
+  userId: string | null;
+  timestamp: string;
+}
+
+export interface AuditSummaryDto {
+  totalEntries: number;
+  dateRange: DateRangeDto;
+  actionCounts: Record<string, number>;
+  entityTypeCounts: Record<string, number>;
+  userActivityCounts: Record<string, number>;
+}
+
+export interface ConfirmEmailRequest {
+  userId: number;
+  token: string;
+}
+
+export interface CreateAffiliateRequest {
+  name: string;
+  externalId: string;
+}
+
+export interface CreateApplicationRequest {
+  firstName: string;
+  lastName: string;
+  ssn: string;
+  dateOfBirth: string;
+  phone: string;
+  email: string;
+  address: AddressDto;
+  productType: string;
+  amount: number;
+  incomeMonthly: number;
+  employmentType: string;
+  creditScore?: number | null;
+  draftId?: number | null;
+}
+
+export interface CreateInvitationRequest {
+  affiliateId: number;
+  email?: string | null;
+  expiresInDays?: number;
+}
+
+export interface CreateRuleRequest {
+  name: string;
+  description: string;
+  ruleDefinition: string;
+  priority: number;
+}
+
+export interface CreateSavedViewRequest {
+  list: string;
+  name: string;
+  query?: string;
+  isShared?: boolean;
+}
+
+export interface DateRangeDto {
+  fromDate: string | null;
+  toDate: string | null;
+}
+
+export interface DecisionDto {
+  id: number;
+  loanApplicationId: number;
+  outcome: DecisionOutcome;
+  score: number;
+  reasons: string[];
+  decidedByUserId: number | null;
+  decidedByUserName: string | null;
+  decidedAt: string;
+  isAutomated: boolean;
+}
+
+export enum DecisionOutcome {
+  Approve = "Approve",
+  Reject = "Reject",
+  ManualReview = "ManualReview",
+}
+
+export interface DocumentDto {
+  id: number;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  uploadedAt: string;
+}
+
+export interface DocumentUploadResponse {
+  id: number;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  uploadedAt: string;
+  description: string | null;
+}
+
+export interface DraftAddress {
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+}
+
+export interface DraftApplicant {
+  firstName: string | null;
+  lastName: string | null;
+  dateOfBirth: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface DraftEmployment {
+  employmentType: string | null;
+  incomeMonthly: string | null;
+  creditScore: string | null;
+}
+
+export interface DraftLoan {
+  productType: string | null;
+  amount: string | null;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ImpersonationResponse {
+  accessToken: string;
+  expiresAt: string;
+  user: UserInfo;
+}
+
+export interface ImpersonatorInfo {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ImportMappingDto {
+  columns: Record<string, string>;
+  updatedAt: string | null;
+}
+
+export interface InvitationDto {
+  id: number;
+  code: string;
+  affiliateId: number;
+  affiliateName: string;
+  email: string | null;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+export interface InvitationLookupDto {
+  affiliateName: string;
+  email: string | null;
+  expiresAt: string;
+}
+
+export interface InviteAffiliateUserRequest {
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+export interface LoanApplicationDto {
+  id: number;
+  affiliateId: number;
+  affiliateName: string;
+  applicant: ApplicantDto;
+  productType: string;
+  amount: number;
+  incomeMonthly: number;
+  employmentType: string;
+  creditScore: number | null;
+  status: ApplicationStatus;
+  createdAt: string;
+  updatedAt: string | null;
+  documents: DocumentDto[];
+  decisions: DecisionDto[];
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+  user: UserInfo;
+  mfaChallengeToken: string | null;
+}
+
+export interface ManualDecisionRequest {
+  outcome: DecisionOutcome;
+  reasons: string[];
+  justification?: string | null;
+}
+
+export interface MfaCodeRequest {
+  code: string;
+}
+
+export interface MfaEnableResponse {
+  recoveryCodes: string[];
+  session: LoginResponse;
+}
+
+export interface MfaLoginRequest {
+  challengeToken: string;
+  code: string;
+  useRecoveryCode?: boolean;
+}
+
+export interface MfaSetupResponse {
+  sharedKey: string;
+  authenticatorUri: string;
+}
+
+export interface MfaStatusResponse {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface OidcLoginRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+export interface OidcProviderResponse {
+  enabled: boolean;
+  displayName: string | null;
+  authorizationEndpoint: string | null;
+  clientId: string | null;
+  scope: string | null;
+}
+
+export interface PagedResultOfLoanApplicationDto {
+  items: LoanApplicationDto[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface PendingRegistrationDto {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  roles: string[];
+  affiliateId: number | null;
+  affiliateName: string | null;
+  emailConfirmed: boolean;
+  createdAt: string;
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  confirmPassword: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  affiliateId?: number | null;
+}
+
+export interface ResetPasswordRequest {
+  email: string;
+  token: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface RuleDto {
+  id: number;
+  name: string;
+  description: string;
+  ruleDefinition: string;
+  priority: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface RuleValidationResponse {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RuleVersionDto {
+  id: number;
+  originalRuleId: number;
+  name: string;
+  description: string;
+  ruleDefinition: string;
+  priority: number;
+  isActive: boolean;
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  changeReason: string;
+}
+
+export interface SaveApplicationDraftRequest {
+  step?: number;
+  data: ApplicationDraftData;
+}
+
+export interface SavedViewDto {
+  id: number;
+  list: string;
+  name: string;
+  query: string;
+  isShared: boolean;
+  isOwner: boolean;
+  ownerName: string;
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+export interface SaveImportMappingRequest {
+  columns: Record<string, string>;
+}
+
+export interface SessionDto {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface SignUpRequest {
+  email: string;
+  password: string;
+  confirmPassword: string;
+  firstName: string;
+  lastName: string;
+  invitationCode?: string | null;
+}
+
+export interface SignUpResponse {
+  email: string;
+  status: "PendingEmailConfirmation" | "PendingApproval" | "Active";
+}
+
+export interface StartImpersonationRequest {
+  userId: number;
+  reason: string;
+}
+
+export interface UpdateAffiliateRequest {
+  name: string;
+  externalId: string;
+  isActive: boolean;
+}
+
+export interface UpdateRuleRequest {
+  name: string;
+  description: string;
+  ruleDefinition: string;
+  priority: number;
+}
+
+export interface UpdateSavedViewRequest {
+  name: string;
+  query?: string;
+  isShared?: boolean;
+}
+
+export interface UserInfo {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  roles: string[];
+  permissions: string[];
+  affiliateId: number | null;
+  mfaEnabled: boolean;
+  mfaRequired: boolean;
+  mfaVerified: boolean;
+  impersonator: ImpersonatorInfo | null;
+}
+
+export interface ValidateRuleRequest {
+  ruleDefinition: string;
+}
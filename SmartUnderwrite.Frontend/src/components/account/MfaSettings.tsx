@@ -0,0 +1,361 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+} from "@mui/material";
+import { QRCodeSVG } from "qrcode.react";
+import { MfaSetup } from "@/types/auth";
+import { useAuth } from "@/contexts/AuthContext";
+import { authService } from "@/services/authService";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
+
+// Authenticator apps accept the key with or without spaces; groups of four
+// are easier to type
+const formatSharedKey = (key: string) => key.match(/.{1,4}/g)?.join(" ") ?? key;
+
+interface CodeDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  onClose: () => void;
+  onConfirm: (code: string) => Promise<void>;
+}
+
+// Changes to an enrolled second factor are confirmed with a current code
+const CodeDialog: React.FC<CodeDialogProps> = ({
+  open,
+  title,
+  description,
+  confirmLabel,
+  onClose,
+  onConfirm,
+}) => {
+  const { error, handleError, clearError } = useErrorHandler();
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setCode("");
+    clearError();
+  }, [open, clearError]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm(code);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary">
+          {description}
+        </Typography>
+        <TextField
+          margin="normal"
+          fullWidth
+          autoFocus
+          label="Verification Code"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          slotProps={{ htmlInput: { inputMode: "numeric", maxLength: 7 } }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleConfirm}
+          disabled={!code.trim() || isSubmitting}
+        >
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface RecoveryCodesDialogProps {
+  codes: string[];
+  onClose: () => void;
+}
+
+const RecoveryCodesDialog: React.FC<RecoveryCodesDialogProps> = ({
+  codes,
+  onClose,
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+  };
+
+  return (
+    <Dialog open={codes.length > 0} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Save Your Recovery Codes</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          These codes are shown only once. Each one signs you in a single time
+          if you lose access to your authenticator app.
+        </Alert>
+        <Box
+          component="ul"
+          sx={{
+            display: "grid",
+            gridTemplateColumns: "1fr 1fr",
+            gap: 1,
+            listStyle: "none",
+            p: 0,
+            m: 0,
+            fontFamily: "monospace",
+          }}
+        >
+          {codes.map((code) => (
+            <li key={code}>{code}</li>
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleCopy}>{copied ? "Copied" : "Copy"}</Button>
+        <Button variant="contained" onClick={onClose}>
+          I have saved them
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface MfaSettingsProps {
+  // Called after enrolling, once the recovery codes have been dismissed
+  onEnabled?: () => void;
+}
+
+export const MfaSettings: React.FC<MfaSettingsProps> = ({ onEnabled }) => {
+  const { enableMfa, disableMfa } = useAuth();
+  const { error, fieldErrors, handleError, clearError } = useErrorHandler();
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [justEnabled, setJustEnabled] = useState(false);
+  const [dialog, setDialog] = useState<"disable" | "regenerate" | null>(null);
+
+  const {
+    data: status,
+    error: statusError,
+    isLoading,
+  } = useApiQuery(queryKeys.account.mfa(), (signal) =>
+    authService.getMfaStatus({ signal })
+  );
+
+  const startSetup = useApiMutation(() => authService.setupMfa());
+
+  const enable = useApiMutation((code: string) => enableMfa(code), {
+    invalidates: [queryKeys.account.all],
+  });
+
+  const disable = useApiMutation((code: string) => disableMfa(code), {
+    invalidates: [queryKeys.account.all],
+  });
+
+  const regenerate = useApiMutation(
+    (code: string) => authService.regenerateRecoveryCodes(code),
+    { invalidates: [queryKeys.account.all] }
+  );
+
+  const handleStartSetup = async () => {
+    try {
+      clearError();
+      setSetup(await startSetup.mutate(undefined));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      clearError();
+      setRecoveryCodes(await enable.mutate(code));
+      setJustEnabled(true);
+      setSetup(null);
+      setCode("");
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  // Errors are shown inside the dialog, so they are rethrown to it
+  const handleDisable = async (code: string) => {
+    await disable.mutate(code);
+    setDialog(null);
+  };
+
+  const handleRegenerate = async (code: string) => {
+    setRecoveryCodes(await regenerate.mutate(code));
+    setDialog(null);
+  };
+
+  const handleRecoveryCodesClose = () => {
+    setRecoveryCodes([]);
+    if (justEnabled) {
+      setJustEnabled(false);
+      onEnabled?.();
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading security settings..." />;
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" alignItems="center" gap={2} mb={1}>
+        <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+          Two-Step Verification
+        </Typography>
+        {status && (
+          <Chip
+            label={status.enabled ? "On" : "Off"}
+            color={status.enabled ? "success" : "default"}
+            size="small"
+          />
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        After your password, sign-in asks for a code from an authenticator app
+        such as Google Authenticator, Microsoft Authenticator or 1Password.
+      </Typography>
+
+      {(error || statusError) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || statusError?.message}
+        </Alert>
+      )}
+
+      {status?.required && !status.enabled && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Your role requires two-step verification. Set it up to use the admin
+          pages.
+        </Alert>
+      )}
+
+      {status?.enabled ? (
+        <>
+          <Typography variant="body2" paragraph>
+            Recovery codes left: {status.recoveryCodesLeft}
+          </Typography>
+          <Box display="flex" gap={2}>
+            <Button variant="outlined" onClick={() => setDialog("regenerate")}>
+              New Recovery Codes
+            </Button>
+            <Button
+              color="error"
+              onClick={() => setDialog("disable")}
+              disabled={status.required}
+              title={status.required ? "Required for your role" : "Turn off"}
+            >
+              Turn Off
+            </Button>
+          </Box>
+        </>
+      ) : setup ? (
+        <Box component="form" onSubmit={handleEnable} noValidate>
+          <Typography variant="body2" paragraph>
+            Scan the QR code with your authenticator app, or enter the key by
+            hand. Then enter the 6-digit code the app shows.
+          </Typography>
+          <Box display="flex" gap={3} alignItems="center" flexWrap="wrap">
+            <Box sx={{ p: 1, bgcolor: "common.white" }}>
+              <QRCodeSVG value={setup.authenticatorUri} size={160} />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Key
+              </Typography>
+              <Typography sx={{ fontFamily: "monospace" }}>
+                {formatSharedKey(setup.sharedKey)}
+              </Typography>
+            </Box>
+          </Box>
+          <TextField
+            margin="normal"
+            required
+            label="Verification Code"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            error={!!fieldErrors.code}
+            helperText={fieldErrors.code}
+            slotProps={{ htmlInput: { inputMode: "numeric", maxLength: 7 } }}
+          />
+          <Box display="flex" gap={2}>
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={!code.trim() || enable.isPending}
+            >
+              Turn On
+            </Button>
+            <Button onClick={() => setSetup(null)}>Cancel</Button>
+          </Box>
+        </Box>
+      ) : (
+        <Button
+          variant="contained"
+          onClick={handleStartSetup}
+          disabled={startSetup.isPending}
+        >
+          Set Up
+        </Button>
+      )}
+
+      <CodeDialog
+        open={dialog === "regenerate"}
+        title="New Recovery Codes"
+        description="Your current recovery codes stop working. Enter a code from your authenticator app to continue."
+        confirmLabel="Generate"
+        onClose={() => setDialog(null)}
+        onConfirm={handleRegenerate}
+      />
+      <CodeDialog
+        open={dialog === "disable"}
+        title="Turn Off Two-Step Verification"
+        description="Sign-in will only ask for your password. Enter a code from your authenticator app to continue."
+        confirmLabel="Turn Off"
+        onClose={() => setDialog(null)}
+        onConfirm={handleDisable}
+      />
+      <RecoveryCodesDialog
+        codes={recoveryCodes}
+        onClose={handleRecoveryCodesClose}
+      />
+    </Paper>
+  );
+};
@@ -0,0 +1,113 @@
+import React from "react";
+import {
+  Button,
+  Chip,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import {
+  Computer as DesktopIcon,
+  PhoneAndroid as MobileIcon,
+} from "@mui/icons-material";
+import { Session } from "@/types/auth";
+
+interface Device {
+  name: string;
+  mobile: boolean;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Enough to tell a user's own devices apart, not a full user agent parser
+const describeDevice = (userAgent: string | null): Device => {
+  if (!userAgent) {
+    return { name: "Unknown device", mobile: false };
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return {
+    name:
+      browser && platform
+        ? `${browser} on ${platform}`
+        : (browser ?? platform ?? "Unknown device"),
+    mobile: /Mobile|iPhone|Android/.test(userAgent),
+  };
+};
+
+interface SessionListProps {
+  sessions: Session[];
+  onRevoke: (session: Session) => void;
+  disabled?: boolean;
+}
+
+export const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  onRevoke,
+  disabled,
+}) => {
+  if (sessions.length === 0) {
+    return (
+      <Typography color="text.secondary" sx={{ py: 4 }} align="center">
+        No devices are signed in
+      </Typography>
+    );
+  }
+
+  return (
+    <List disablePadding>
+      {sessions.map((session) => {
+        const device = describeDevice(session.userAgent);
+        return (
+          <ListItem
+            key={session.id}
+            divider
+            secondaryAction={
+              session.isCurrent ? (
+                <Chip label="This device" color="primary" size="small" />
+              ) : (
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => onRevoke(session)}
+                  disabled={disabled}
+                >
+                  Sign Out
+                </Button>
+              )
+            }
+          >
+            <ListItemIcon>
+              {device.mobile ? <MobileIcon /> : <DesktopIcon />}
+            </ListItemIcon>
+            <ListItemText
+              primary={device.name}
+              secondary={`${session.ipAddress ?? "Unknown IP address"} · last active ${new Date(
+                session.lastUsedAt
+              ).toLocaleString()}`}
+              title={session.userAgent ?? undefined}
+            />
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+};
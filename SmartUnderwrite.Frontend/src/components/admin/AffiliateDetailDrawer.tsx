@@ -0,0 +1,652 @@
+import React, { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import {
+  Box,
+  Typography,
+  Button,
+  Drawer,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Alert,
+} from "@mui/material";
+import {
+  Close as CloseIcon,
+  Devices as SessionsIcon,
+  LockReset as ResetPasswordIcon,
+  PersonAdd as InviteIcon,
+  PersonRemove as RemoveIcon,
+  Visibility as ViewAsIcon,
+} from "@mui/icons-material";
+import {
+  Affiliate,
+  AffiliateUser,
+  InviteAffiliateUserRequest,
+} from "@/types/admin";
+import { Permission, Session, UserRole } from "@/types/auth";
+import { adminService } from "@/services/adminService";
+import { useAuth } from "@/contexts/AuthContext";
+import { Can } from "@/components/auth/Can";
+import { SessionList } from "@/components/account/SessionList";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
+
+// Matches AffiliateUserRoles in the API; only Affiliate accounts are limited
+// to the affiliate's own applications
+const INVITE_ROLES = [UserRole.Affiliate, UserRole.Underwriter];
+
+const EMPTY_INVITE: InviteAffiliateUserRequest = {
+  email: "",
+  firstName: "",
+  lastName: "",
+  role: UserRole.Affiliate,
+};
+
+interface InviteUserDialogProps {
+  open: boolean;
+  affiliateName: string;
+  onClose: () => void;
+  onInvite: (request: InviteAffiliateUserRequest) => Promise<void>;
+}
+
+const InviteUserDialog: React.FC<InviteUserDialogProps> = ({
+  open,
+  affiliateName,
+  onClose,
+  onInvite,
+}) => {
+  const { error, fieldErrors, handleError, clearError, clearFieldError } =
+    useErrorHandler();
+  const [formData, setFormData] = useState(EMPTY_INVITE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setFormData(EMPTY_INVITE);
+    clearError();
+  }, [open, clearError]);
+
+  const handleChange =
+    (field: keyof InviteAffiliateUserRequest) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setFormData((prev) => ({ ...prev, [field]: event.target.value }));
+      clearFieldError(field);
+    };
+
+  const handleInvite = async () => {
+    setIsSubmitting(true);
+    try {
+      await onInvite({ ...formData, email: formData.email.trim() });
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Invite User to {affiliateName}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary">
+          We create the account and email a link for the user to choose their
+          password.
+        </Typography>
+
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2, mt: 2 }}>
+          <TextField
+            required
+            fullWidth
+            type="email"
+            label="Email Address"
+            value={formData.email}
+            onChange={handleChange("email")}
+            error={!!fieldErrors.email}
+            helperText={fieldErrors.email}
+          />
+          <Box display="flex" gap={2}>
+            <TextField
+              required
+              fullWidth
+              label="First Name"
+              value={formData.firstName}
+              onChange={handleChange("firstName")}
+              error={!!fieldErrors.firstName}
+              helperText={fieldErrors.firstName}
+            />
+            <TextField
+              required
+              fullWidth
+              label="Last Name"
+              value={formData.lastName}
+              onChange={handleChange("lastName")}
+              error={!!fieldErrors.lastName}
+              helperText={fieldErrors.lastName}
+            />
+          </Box>
+          <TextField
+            select
+            required
+            fullWidth
+            label="Role"
+            value={formData.role}
+            onChange={handleChange("role")}
+            error={!!fieldErrors.role}
+            helperText={
+              fieldErrors.role ||
+              (formData.role === UserRole.Affiliate
+                ? "Submits and tracks this affiliate's applications"
+                : "Reviews applications from every affiliate")
+            }
+          >
+            {INVITE_ROLES.map((role) => (
+              <MenuItem key={role} value={role}>
+                {role}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleInvite}
+          disabled={
+            !formData.email.trim() ||
+            !formData.firstName.trim() ||
+            !formData.lastName.trim() ||
+            isSubmitting
+          }
+        >
+          Send Invitation
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface ViewAsDialogProps {
+  user: AffiliateUser | null;
+  onClose: () => void;
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+// The reason is recorded in the audit log with the start of the session
+const ViewAsDialog: React.FC<ViewAsDialogProps> = ({
+  user,
+  onClose,
+  onConfirm,
+}) => {
+  const { error, fieldErrors, handleError, clearError } = useErrorHandler();
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason("");
+    clearError();
+  }, [user, clearError]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm(reason.trim());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>View as {user?.email}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary">
+          You see the app exactly as this user does, but cannot change anything.
+          The session is recorded in the audit log and ends when you return to
+          your account or reload the page.
+        </Typography>
+        <TextField
+          margin="normal"
+          required
+          fullWidth
+          autoFocus
+          multiline
+          minRows={2}
+          label="Reason"
+          placeholder="e.g. Support ticket 1234: application missing from list"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          error={!!fieldErrors.reason}
+          helperText={fieldErrors.reason}
+          slotProps={{ htmlInput: { maxLength: 500 } }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleConfirm}
+          disabled={!reason.trim() || isSubmitting}
+        >
+          View as User
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface UserSessionsDialogProps {
+  user: AffiliateUser | null;
+  onClose: () => void;
+}
+
+// For a lost laptop or leaked password: signs the user out of any device
+const UserSessionsDialog: React.FC<UserSessionsDialogProps> = ({
+  user,
+  onClose,
+}) => {
+  const { error, handleError, clearError } = useErrorHandler();
+  const userId = user?.id ?? 0;
+
+  useEffect(() => {
+    clearError();
+  }, [user, clearError]);
+
+  const {
+    data: sessions = [],
+    error: loadError,
+    isLoading,
+  } = useApiQuery(
+    queryKeys.users.sessions(userId),
+    (signal) => adminService.getUserSessions(userId, { signal }),
+    { enabled: !!user }
+  );
+
+  const revoke = useApiMutation(
+    (sessionId: number) => adminService.revokeUserSession(userId, sessionId),
+    { invalidates: [queryKeys.users.sessions(userId)] }
+  );
+
+  const revokeAll = useApiMutation(
+    () => adminService.revokeAllUserSessions(userId),
+    { invalidates: [queryKeys.users.sessions(userId)] }
+  );
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      clearError();
+      await revoke.mutate(session.id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    try {
+      clearError();
+      await revokeAll.mutate(undefined);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Sessions of {user?.email}</DialogTitle>
+      <DialogContent>
+        {(error || loadError) && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error || loadError?.message}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary">
+          A signed-out device cannot refresh its session, so it is signed out
+          within minutes.
+        </Typography>
+        {isLoading ? (
+          <LoadingSpinner message="Loading sessions..." />
+        ) : (
+          <SessionList
+            sessions={sessions}
+            onRevoke={handleRevoke}
+            disabled={revoke.isPending || revokeAll.isPending}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          color="error"
+          onClick={handleRevokeAll}
+          disabled={sessions.length === 0 || revokeAll.isPending}
+        >
+          Sign Out Everywhere
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const formatLastLogin = (lastLoginAt: string | null) =>
+  lastLoginAt ? new Date(lastLoginAt).toLocaleString() : "Never";
+
+interface AffiliateDetailDrawerProps {
+  affiliate: Affiliate | null;
+  onClose: () => void;
+}
+
+export const AffiliateDetailDrawer: React.FC<AffiliateDetailDrawerProps> = ({
+  affiliate,
+  onClose,
+}) => {
+  const { impersonate } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { error, handleError, clearError } = useErrorHandler();
+  const [notice, setNotice] = useState("");
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [userToRemove, setUserToRemove] = useState<AffiliateUser | null>(null);
+  const [userToViewAs, setUserToViewAs] = useState<AffiliateUser | null>(null);
+  const [userSessions, setUserSessions] = useState<AffiliateUser | null>(null);
+
+  const affiliateId = affiliate?.id ?? 0;
+
+  useEffect(() => {
+    setNotice("");
+    clearError();
+  }, [affiliateId, clearError]);
+
+  const {
+    data: users = [],
+    error: loadError,
+    isLoading,
+  } = useApiQuery(
+    queryKeys.affiliates.users(affiliateId),
+    (signal) => adminService.getAffiliateUsers(affiliateId, { signal }),
+    { enabled: !!affiliate }
+  );
+
+  // The affiliate list shows a user count, so it is refreshed too
+  const invite = useApiMutation(
+    (request: InviteAffiliateUserRequest) =>
+      adminService.inviteAffiliateUser(affiliateId, request),
+    { invalidates: [queryKeys.affiliates.all] }
+  );
+
+  const remove = useApiMutation(
+    (userId: number) => adminService.removeAffiliateUser(affiliateId, userId),
+    { invalidates: [queryKeys.affiliates.all] }
+  );
+
+  const resetPassword = useApiMutation((userId: number) =>
+    adminService.resetAffiliateUserPassword(affiliateId, userId)
+  );
+
+  // Errors are shown inside the dialog, so they are rethrown to it
+  const handleInvite = async (request: InviteAffiliateUserRequest) => {
+    const user = await invite.mutate(request);
+    setInviteOpen(false);
+    setNotice(`An invitation was sent to ${user.email}`);
+  };
+
+  // Errors are shown inside the dialog, so they are rethrown to it
+  const handleViewAs = async (reason: string) => {
+    if (!userToViewAs) return;
+
+    await impersonate(
+      { userId: userToViewAs.id, reason },
+      `${location.pathname}${location.search}`
+    );
+    setUserToViewAs(null);
+    onClose();
+    navigate("/dashboard");
+  };
+
+  const handleResetPassword = async (user: AffiliateUser) => {
+    try {
+      clearError();
+      setNotice("");
+      await resetPassword.mutate(user.id);
+      setNotice(`A password reset link was sent to ${user.email}`);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const confirmRemove = async () => {
+    if (!userToRemove) return;
+
+    try {
+      clearError();
+      setNotice("");
+      await remove.mutate(userToRemove.id);
+      setUserToRemove(null);
+    } catch (err) {
+      setUserToRemove(null);
+      handleError(err);
+    }
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={!!affiliate}
+      onClose={onClose}
+      slotProps={{ paper: { sx: { width: { xs: "100%", md: 720 } } } }}
+    >
+      {affiliate && (
+        <Box sx={{ p: 3 }}>
+          <Box display="flex" alignItems="flex-start" gap={2}>
+            <Box sx={{ flexGrow: 1 }}>
+              <Typography variant="h5" component="h2">
+                {affiliate.name}
+              </Typography>
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ fontFamily: "monospace" }}
+              >
+                {affiliate.externalId}
+              </Typography>
+            </Box>
+            <Chip
+              label={affiliate.isActive ? "Active" : "Inactive"}
+              color={affiliate.isActive ? "success" : "default"}
+              size="small"
+            />
+            <IconButton onClick={onClose} title="Close" size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            {affiliate.applicationCount} applications · created{" "}
+            {new Date(affiliate.createdAt).toLocaleDateString()}
+          </Typography>
+
+          <Divider sx={{ my: 3 }} />
+
+          <Box display="flex" alignItems="center" mb={2}>
+            <Typography variant="h6" component="h3" sx={{ flexGrow: 1 }}>
+              Users
+            </Typography>
+            <Can permission={Permission.UsersManage}>
+              <Button
+                variant="contained"
+                startIcon={<InviteIcon />}
+                onClick={() => setInviteOpen(true)}
+                disabled={!affiliate.isActive}
+                title={
+                  affiliate.isActive
+                    ? "Invite User"
+                    : "Activate the affiliate to add users"
+                }
+              >
+                Invite User
+              </Button>
+            </Can>
+          </Box>
+
+          {notice && (
+            <Alert
+              severity="success"
+              sx={{ mb: 2 }}
+              onClose={() => setNotice("")}
+            >
+              {notice}
+            </Alert>
+          )}
+          {(error || loadError) && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error || loadError?.message}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <LoadingSpinner message="Loading users..." />
+          ) : users.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4 }} align="center">
+              No users belong to this affiliate yet
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell>Last Login</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">
+                        {user.fullName ?? `${user.firstName} ${user.lastName}`}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {user.email}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{user.roles.join(", ")}</TableCell>
+                    <TableCell>{formatLastLogin(user.lastLoginAt)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={user.isActive ? "Active" : "Locked"}
+                        color={user.isActive ? "success" : "warning"}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: "nowrap" }}>
+                      <Can permission={Permission.UsersManage}>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleResetPassword(user)}
+                          disabled={resetPassword.isPending}
+                          title="Send Password Reset"
+                        >
+                          <ResetPasswordIcon />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => setUserSessions(user)}
+                          title="Manage Sessions"
+                        >
+                          <SessionsIcon />
+                        </IconButton>
+                        {/* Admins cannot be impersonated */}
+                        {!user.roles.includes(UserRole.Admin) && (
+                          <IconButton
+                            size="small"
+                            onClick={() => setUserToViewAs(user)}
+                            disabled={!user.isActive || !affiliate.isActive}
+                            title="View as User"
+                          >
+                            <ViewAsIcon />
+                          </IconButton>
+                        )}
+                      </Can>
+                      <IconButton
+                        size="small"
+                        onClick={() => setUserToRemove(user)}
+                        title="Remove from Affiliate"
+                        color="error"
+                      >
+                        <RemoveIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      )}
+
+      <InviteUserDialog
+        open={inviteOpen}
+        affiliateName={affiliate?.name ?? ""}
+        onClose={() => setInviteOpen(false)}
+        onInvite={handleInvite}
+      />
+
+      <ViewAsDialog
+        user={userToViewAs}
+        onClose={() => setUserToViewAs(null)}
+        onConfirm={handleViewAs}
+      />
+
+      <UserSessionsDialog
+        user={userSessions}
+        onClose={() => setUserSessions(null)}
+      />
+
+      <Dialog open={!!userToRemove} onClose={() => setUserToRemove(null)}>
+        <DialogTitle>Remove User</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Remove {userToRemove?.email} from {affiliate?.name}? Their sessions
+            end and they lose access to the affiliate's applications.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setUserToRemove(null)}>Cancel</Button>
+          <Button
+            onClick={confirmRemove}
+            color="error"
+            variant="contained"
+            disabled={remove.isPending}
+          >
+            Remove
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Drawer>
+  );
+};
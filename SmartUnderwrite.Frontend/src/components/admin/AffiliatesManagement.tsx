@@ -27,6 +27,7 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Business as BusinessIcon,
+  People as PeopleIcon,
 } from "@mui/icons-material";
 import {
   Affiliate,
@@ -34,8 +35,12 @@ import {
   UpdateAffiliateRequest,
 } from "@/types/admin";
 import { adminService } from "@/services/adminService";
+import { AffiliateDetailDrawer } from "@/components/admin/AffiliateDetailDrawer";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
 
 interface AffiliateDialogProps {
   open: boolean;
@@ -156,8 +161,6 @@ const AffiliateDialog: React.FC<AffiliateDialogProps> = ({
 
 export const AffiliatesManagement: React.FC = () => {
   const { error, handleError, clearError } = useErrorHandler();
-  const [affiliates, setAffiliates] = useState<Affiliate[]>([]);
-  const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedAffiliate, setSelectedAffiliate] = useState<
     Affiliate | undefined
@@ -166,23 +169,34 @@ export const AffiliatesManagement: React.FC = () => {
   const [affiliateToDelete, setAffiliateToDelete] = useState<Affiliate | null>(
     null
   );
+  const [detailAffiliateId, setDetailAffiliateId] = useState<number | null>(
+    null
+  );
 
-  const loadAffiliates = async () => {
-    try {
-      setLoading(true);
-      clearError();
-      const result = await adminService.getAffiliates();
-      setAffiliates(result);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const {
+    data: affiliates = [],
+    error: loadError,
+    isLoading: loading,
+  } = useApiQuery(queryKeys.affiliates.list(), (signal) =>
+    adminService.getAffiliates({ signal })
+  );
 
-  useEffect(() => {
-    loadAffiliates();
-  }, []);
+  // Looked up from the list so the drawer shows the refetched counts
+  const detailAffiliate =
+    affiliates.find((affiliate) => affiliate.id === detailAffiliateId) ?? null;
+
+  const saveAffiliate = useApiMutation(
+    (affiliateData: CreateAffiliateRequest | UpdateAffiliateRequest) =>
+      "id" in affiliateData
+        ? adminService.updateAffiliate(affiliateData)
+        : adminService.createAffiliate(affiliateData),
+    { invalidates: [queryKeys.affiliates.all] }
+  );
+
+  const deleteAffiliate = useApiMutation(
+    (id: number) => adminService.deleteAffiliate(id),
+    { invalidates: [queryKeys.affiliates.all] }
+  );
 
   const handleCreateAffiliate = () => {
     setSelectedAffiliate(undefined);
@@ -204,13 +218,8 @@ export const AffiliatesManagement: React.FC = () => {
   ) => {
     try {
       clearError();
-      if ("id" in affiliateData) {
-        await adminService.updateAffiliate(affiliateData);
-      } else {
-        await adminService.createAffiliate(affiliateData);
-      }
+      await saveAffiliate.mutate(affiliateData);
       setDialogOpen(false);
-      await loadAffiliates();
     } catch (err) {
       handleError(err);
     }
@@ -221,10 +230,9 @@ export const AffiliatesManagement: React.FC = () => {
 
     try {
       clearError();
-      await adminService.deleteAffiliate(affiliateToDelete.id);
+      await deleteAffiliate.mutate(affiliateToDelete.id);
       setDeleteConfirmOpen(false);
       setAffiliateToDelete(null);
-      await loadAffiliates();
     } catch (err) {
       handleError(err);
     }
@@ -253,9 +261,9 @@ export const AffiliatesManagement: React.FC = () => {
         </Button>
       </Toolbar>
 
-      {error && (
+      {(error || loadError) && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {error}
+          {error || loadError?.message}
         </Alert>
       )}
 
@@ -299,6 +307,13 @@ export const AffiliatesManagement: React.FC = () => {
                 </TableCell>
                 <TableCell>{formatDate(affiliate.createdAt)}</TableCell>
                 <TableCell>
+                  <IconButton
+                    size="small"
+                    onClick={() => setDetailAffiliateId(affiliate.id)}
+                    title="Manage Users"
+                  >
+                    <PeopleIcon />
+                  </IconButton>
                   <IconButton
                     size="small"
                     onClick={() => handleEditAffiliate(affiliate)}
@@ -333,6 +348,11 @@ export const AffiliatesManagement: React.FC = () => {
         onSave={handleSaveAffiliate}
       />
 
+      <AffiliateDetailDrawer
+        affiliate={detailAffiliate}
+        onClose={() => setDetailAffiliateId(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={deleteConfirmOpen}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React from "react";
 import {
   Box,
   Paper,
@@ -27,42 +27,65 @@ import {
 } from "@mui/icons-material";
 import { AuditLog, AuditLogFilter } from "@/types/admin";
 import { PagedResult } from "@/types/api";
+import { Permission } from "@/types/auth";
+import { ExportColumn } from "@/types/export";
 import { adminService } from "@/services/adminService";
+import { Can } from "@/components/auth/Can";
+import { ExportButton } from "@/components/common/ExportButton";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
-import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useUrlFilter } from "@/hooks/useUrlFilter";
+import { queryKeys } from "@/services/queryKeys";
+import { ParamSchema, param } from "@/utils/queryParams";
 
-export const AuditLogs: React.FC = () => {
-  const { error, handleError, clearError } = useErrorHandler();
+const PAGE_SIZES = [10, 25, 50, 100];
 
-  const [logs, setLogs] = useState<PagedResult<AuditLog>>({
-    items: [],
-    totalCount: 0,
-    pageNumber: 1,
-    pageSize: 25,
-    totalPages: 0,
-  });
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<AuditLogFilter>({
-    pageNumber: 1,
-    pageSize: 25,
-  });
+const FILTER_PARAMS: ParamSchema<AuditLogFilter> = {
+  userId: param.integer(1),
+  action: param.string,
+  entityType: param.string,
+  fromDate: param.dateTime,
+  toDate: param.dateTime,
+  pageNumber: param.integer(1),
+  pageSize: param.oneOf(PAGE_SIZES),
+};
 
-  const loadLogs = async () => {
-    try {
-      setLoading(true);
-      clearError();
-      const result = await adminService.getAuditLogs(filter);
-      setLogs(result);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+const DEFAULT_FILTER: AuditLogFilter = { pageNumber: 1, pageSize: 25 };
 
-  useEffect(() => {
-    loadLogs();
-  }, [filter]);
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "ID" },
+  { key: "timestamp", label: "Timestamp" },
+  { key: "userId", label: "User ID" },
+  { key: "action", label: "Action" },
+  { key: "entityType", label: "Entity Type" },
+  { key: "entityId", label: "Entity ID" },
+  { key: "changes", label: "Changes" },
+];
+
+const emptyPage: PagedResult<AuditLog> = {
+  items: [],
+  totalCount: 0,
+  page: 1,
+  pageSize: 25,
+  totalPages: 0,
+  hasNextPage: false,
+  hasPreviousPage: false,
+};
+
+export const AuditLogs: React.FC = () => {
+  const [filter, setFilter] = useUrlFilter(FILTER_PARAMS, DEFAULT_FILTER);
+
+  const {
+    data: logs = emptyPage,
+    error,
+    isLoading: loading,
+    isFetching,
+    refetch: loadLogs,
+  } = useApiQuery(
+    queryKeys.auditLogs.list(filter),
+    (signal) => adminService.getAuditLogs(filter, { signal }),
+    { keepPreviousData: true }
+  );
 
   const handlePageChange = (event: unknown, newPage: number) => {
     setFilter((prev) => ({ ...prev, pageNumber: newPage + 1 }));
@@ -78,15 +101,20 @@ export const AuditLogs: React.FC = () => {
     }));
   };
 
+  // Typing narrows the list in place rather than leaving a history entry
+  // per keystroke
   const handleFilterChange =
-    (field: keyof AuditLogFilter) =>
+    (field: "action" | "entityType") =>
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const value = event.target.value;
-      setFilter((prev) => ({
-        ...prev,
-        [field]: value || undefined,
-        pageNumber: 1,
-      }));
+      setFilter(
+        (prev) => ({
+          ...prev,
+          [field]: value || undefined,
+          pageNumber: 1,
+        }),
+        { replace: true }
+      );
     };
 
   const handleDateFilterChange =
@@ -150,11 +178,22 @@ export const AuditLogs: React.FC = () => {
         <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
           Audit Logs
         </Typography>
+        <Can permission={Permission.AuditExport}>
+          <ExportButton
+            list="audit-logs"
+            title="Export Audit Logs"
+            columns={EXPORT_COLUMNS}
+            onExport={(request) =>
+              adminService.exportAuditLogs(filter, request)
+            }
+          />
+        </Can>
         <Button
+          sx={{ ml: 1 }}
           variant="outlined"
           startIcon={<RefreshIcon />}
           onClick={loadLogs}
-          disabled={loading}
+          disabled={isFetching}
         >
           Refresh
         </Button>
@@ -211,7 +250,7 @@ export const AuditLogs: React.FC = () => {
             variant="outlined"
             startIcon={<SearchIcon />}
             onClick={loadLogs}
-            disabled={loading}
+            disabled={isFetching}
           >
             Search
           </Button>
@@ -220,7 +259,7 @@ export const AuditLogs: React.FC = () => {
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {error}
+          {error.message}
         </Alert>
       )}
 
@@ -317,11 +356,11 @@ export const AuditLogs: React.FC = () => {
           </Box>
         )}
         <TablePagination
-          rowsPerPageOptions={[10, 25, 50, 100]}
+          rowsPerPageOptions={PAGE_SIZES}
           component="div"
           count={logs.totalCount}
           rowsPerPage={logs.pageSize}
-          page={logs.pageNumber - 1}
+          page={logs.page - 1}
           onPageChange={handlePageChange}
           onRowsPerPageChange={handleRowsPerPageChange}
         />
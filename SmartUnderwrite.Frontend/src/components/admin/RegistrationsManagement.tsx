@@ -0,0 +1,446 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Alert,
+  Toolbar,
+} from "@mui/material";
+import {
+  Add as AddIcon,
+  Check as ApproveIcon,
+  Close as RejectIcon,
+  Delete as DeleteIcon,
+} from "@mui/icons-material";
+import {
+  CreateInvitationRequest,
+  Invitation,
+  PendingRegistration,
+} from "@/types/admin";
+import { adminService } from "@/services/adminService";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
+
+const DEFAULT_EXPIRES_IN_DAYS = 7;
+
+interface InvitationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCreate: (request: CreateInvitationRequest) => Promise<void>;
+}
+
+const InvitationDialog: React.FC<InvitationDialogProps> = ({
+  open,
+  onClose,
+  onCreate,
+}) => {
+  const { error, fieldErrors, handleError, clearError, clearFieldError } =
+    useErrorHandler();
+  const [formData, setFormData] = useState({
+    affiliateId: "",
+    email: "",
+    expiresInDays: String(DEFAULT_EXPIRES_IN_DAYS),
+  });
+
+  const { data: affiliates = [] } = useApiQuery(
+    queryKeys.affiliates.list(),
+    (signal) => adminService.getAffiliates({ signal }),
+    { enabled: open }
+  );
+
+  useEffect(() => {
+    setFormData({
+      affiliateId: "",
+      email: "",
+      expiresInDays: String(DEFAULT_EXPIRES_IN_DAYS),
+    });
+    clearError();
+  }, [open, clearError]);
+
+  const handleChange =
+    (field: string) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      setFormData((prev) => ({ ...prev, [field]: event.target.value }));
+      clearFieldError(field);
+    };
+
+  const handleCreate = async () => {
+    try {
+      await onCreate({
+        affiliateId: Number(formData.affiliateId),
+        email: formData.email.trim() || null,
+        expiresInDays: Number(formData.expiresInDays),
+      });
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Invite Affiliate Staff</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2, mt: 1 }}>
+          <TextField
+            select
+            required
+            fullWidth
+            label="Affiliate"
+            value={formData.affiliateId}
+            onChange={handleChange("affiliateId")}
+            error={!!fieldErrors.affiliateId}
+            helperText={fieldErrors.affiliateId}
+          >
+            {affiliates
+              .filter((affiliate) => affiliate.isActive)
+              .map((affiliate) => (
+                <MenuItem key={affiliate.id} value={String(affiliate.id)}>
+                  {affiliate.name}
+                </MenuItem>
+              ))}
+          </TextField>
+
+          <TextField
+            fullWidth
+            label="Email"
+            type="email"
+            value={formData.email}
+            onChange={handleChange("email")}
+            error={!!fieldErrors.email}
+            helperText={
+              fieldErrors.email ||
+              "Optional: the code is emailed and only works for this address"
+            }
+          />
+
+          <TextField
+            fullWidth
+            label="Expires In (days)"
+            type="number"
+            value={formData.expiresInDays}
+            onChange={handleChange("expiresInDays")}
+            error={!!fieldErrors.expiresInDays}
+            helperText={fieldErrors.expiresInDays}
+            inputProps={{ min: 1, max: 90 }}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleCreate}
+          disabled={!formData.affiliateId}
+        >
+          Create
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const invitationStatus = (invitation: Invitation) => {
+  if (invitation.usedAt) return { label: "Used", color: "success" as const };
+  if (new Date(invitation.expiresAt) < new Date()) {
+    return { label: "Expired", color: "default" as const };
+  }
+  return { label: "Open", color: "primary" as const };
+};
+
+export const RegistrationsManagement: React.FC = () => {
+  const { error, handleError, clearError } = useErrorHandler();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [registrationToReject, setRegistrationToReject] =
+    useState<PendingRegistration | null>(null);
+
+  const {
+    data: registrations = [],
+    error: registrationsError,
+    isLoading: registrationsLoading,
+  } = useApiQuery(queryKeys.registrations.pending(), (signal) =>
+    adminService.getPendingRegistrations({ signal })
+  );
+
+  const {
+    data: invitations = [],
+    error: invitationsError,
+    isLoading: invitationsLoading,
+  } = useApiQuery(queryKeys.registrations.invitations(), (signal) =>
+    adminService.getInvitations({ signal })
+  );
+
+  // Approved affiliate staff count towards the affiliate's users
+  const approveRegistration = useApiMutation(
+    (userId: number) => adminService.approveRegistration(userId),
+    { invalidates: [queryKeys.registrations.all, queryKeys.affiliates.all] }
+  );
+
+  const rejectRegistration = useApiMutation(
+    (userId: number) => adminService.rejectRegistration(userId),
+    { invalidates: [queryKeys.registrations.all] }
+  );
+
+  const createInvitation = useApiMutation(
+    (request: CreateInvitationRequest) =>
+      adminService.createInvitation(request),
+    { invalidates: [queryKeys.registrations.all] }
+  );
+
+  const revokeInvitation = useApiMutation(
+    (id: number) => adminService.revokeInvitation(id),
+    { invalidates: [queryKeys.registrations.all] }
+  );
+
+  const handleApprove = async (registration: PendingRegistration) => {
+    try {
+      clearError();
+      await approveRegistration.mutate(registration.id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const confirmReject = async () => {
+    if (!registrationToReject) return;
+
+    try {
+      clearError();
+      await rejectRegistration.mutate(registrationToReject.id);
+      setRegistrationToReject(null);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  // Errors are shown inside the dialog, so they are rethrown to it
+  const handleCreateInvitation = async (request: CreateInvitationRequest) => {
+    await createInvitation.mutate(request);
+    setDialogOpen(false);
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      clearError();
+      await revokeInvitation.mutate(invitation.id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  if (registrationsLoading || invitationsLoading) {
+    return <LoadingSpinner message="Loading registrations..." />;
+  }
+
+  const loadError = registrationsError || invitationsError;
+
+  return (
+    <Box>
+      {(error || loadError) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || loadError?.message}
+        </Alert>
+      )}
+
+      <Toolbar sx={{ pl: 0, pr: 0 }}>
+        <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+          Pending Registrations
+        </Typography>
+      </Toolbar>
+
+      <TableContainer component={Paper} sx={{ mb: 4 }}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Email</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Affiliate</TableCell>
+              <TableCell>Email Status</TableCell>
+              <TableCell>Registered</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {registrations.map((registration) => (
+              <TableRow key={registration.id} hover>
+                <TableCell>
+                  {registration.firstName} {registration.lastName}
+                </TableCell>
+                <TableCell>{registration.email}</TableCell>
+                <TableCell>{registration.roles.join(", ")}</TableCell>
+                <TableCell>{registration.affiliateName ?? "—"}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={
+                      registration.emailConfirmed ? "Confirmed" : "Unconfirmed"
+                    }
+                    color={registration.emailConfirmed ? "success" : "warning"}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell>{formatDate(registration.createdAt)}</TableCell>
+                <TableCell>
+                  <IconButton
+                    size="small"
+                    onClick={() => handleApprove(registration)}
+                    title={
+                      registration.emailConfirmed
+                        ? "Approve"
+                        : "Waiting for email confirmation"
+                    }
+                    color="success"
+                    disabled={
+                      !registration.emailConfirmed ||
+                      approveRegistration.isPending
+                    }
+                  >
+                    <ApproveIcon />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={() => setRegistrationToReject(registration)}
+                    title="Reject"
+                    color="error"
+                  >
+                    <RejectIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {registrations.length === 0 && (
+          <Box sx={{ p: 4, textAlign: "center" }}>
+            <Typography color="text.secondary">
+              No registrations are waiting for approval
+            </Typography>
+          </Box>
+        )}
+      </TableContainer>
+
+      <Toolbar sx={{ pl: 0, pr: 0 }}>
+        <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+          Invitations
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          Invite
+        </Button>
+      </Toolbar>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Code</TableCell>
+              <TableCell>Affiliate</TableCell>
+              <TableCell>Email</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Expires</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {invitations.map((invitation) => {
+              const status = invitationStatus(invitation);
+              return (
+                <TableRow key={invitation.id} hover>
+                  <TableCell>
+                    <Typography
+                      variant="body2"
+                      sx={{ fontFamily: "monospace" }}
+                    >
+                      {invitation.code}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{invitation.affiliateName}</TableCell>
+                  <TableCell>{invitation.email ?? "Anyone"}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={status.label}
+                      color={status.color}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell>{formatDate(invitation.expiresAt)}</TableCell>
+                  <TableCell>
+                    {!invitation.usedAt && (
+                      <IconButton
+                        size="small"
+                        onClick={() => handleRevoke(invitation)}
+                        title="Revoke Invitation"
+                        color="error"
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        {invitations.length === 0 && (
+          <Box sx={{ p: 4, textAlign: "center" }}>
+            <Typography color="text.secondary">No invitations yet</Typography>
+          </Box>
+        )}
+      </TableContainer>
+
+      <InvitationDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        onCreate={handleCreateInvitation}
+      />
+
+      <Dialog
+        open={!!registrationToReject}
+        onClose={() => setRegistrationToReject(null)}
+      >
+        <DialogTitle>Reject Registration</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Reject the registration of {registrationToReject?.email}? The
+            account will be deleted.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRegistrationToReject(null)}>Cancel</Button>
+          <Button onClick={confirmReject} color="error" variant="contained">
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   Box,
   Paper,
@@ -23,7 +23,9 @@ import {
   TrendingUp as TrendingUpIcon,
 } from "@mui/icons-material";
 import { ReportData } from "@/types/admin";
+import { RetryState } from "@/types/api";
 import { adminService } from "@/services/adminService";
+import { isCancelledRequest } from "@/services/apiClient";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 
@@ -38,24 +40,39 @@ export const Reports: React.FC = () => {
     toDate: new Date().toISOString().split("T")[0], // today
   });
 
+  const [retryState, setRetryState] = useState<RetryState | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
   const loadReportData = async () => {
+    // A newer refresh supersedes any report still loading
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     try {
       setLoading(true);
       clearError();
       const result = await adminService.getReportData(
         dateRange.fromDate,
-        dateRange.toDate
+        dateRange.toDate,
+        { signal: controller.signal, onRetry: setRetryState }
       );
       setReportData(result);
     } catch (err) {
-      handleError(err);
+      if (!isCancelledRequest(err)) {
+        handleError(err);
+      }
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        setRetryState(null);
+      }
     }
   };
 
   useEffect(() => {
     loadReportData();
+    return () => requestRef.current?.abort();
   }, []);
 
   const handleDateChange =
@@ -89,8 +106,12 @@ export const Reports: React.FC = () => {
     return `${(hours / 24).toFixed(1)} days`;
   };
 
+  const retryMessage =
+    retryState &&
+    `Server unavailable, retrying… (attempt ${retryState.attempt} of ${retryState.maxRetries})`;
+
   if (loading && !reportData) {
-    return <LoadingSpinner message="Loading reports..." />;
+    return <LoadingSpinner message={retryMessage || "Loading reports..."} />;
   }
 
   return (
@@ -145,6 +166,12 @@ export const Reports: React.FC = () => {
         </Box>
       </Paper>
 
+      {retryMessage && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {retryMessage}
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
           {error}
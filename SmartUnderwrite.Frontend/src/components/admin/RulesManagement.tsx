@@ -28,18 +28,48 @@ import {
   Delete as DeleteIcon,
   Code as CodeIcon,
 } from "@mui/icons-material";
-import { Rule, CreateRuleRequest, UpdateRuleRequest } from "@/types/admin";
+import {
+  Rule,
+  CreateRuleRequest,
+  UpdateRuleRequest,
+  RuleValidationResult,
+} from "@/types/admin";
+import { Permission } from "@/types/auth";
 import { adminService } from "@/services/adminService";
+import { Can } from "@/components/auth/Can";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
 
 interface RuleDialogProps {
   open: boolean;
   rule?: Rule;
   onClose: () => void;
-  onSave: (rule: CreateRuleRequest | UpdateRuleRequest) => void;
+  onSave: (
+    rule: CreateRuleRequest | UpdateRuleRequest,
+    isActive: boolean
+  ) => void;
 }
 
+const ruleDefinitionPlaceholder = `{
+  "name": "Basic Credit & DTI",
+  "priority": 10,
+  "clauses": [
+    { "if": "CreditScore < 550", "then": "REJECT", "reason": "Low credit score" }
+  ],
+  "score": { "base": 600, "add": [{ "when": "CreditScore >= 720", "points": 50 }] }
+}`;
+
+const formatRuleDefinition = (ruleDefinition: string) => {
+  try {
+    return JSON.stringify(JSON.parse(ruleDefinition), null, 2);
+  } catch {
+    return ruleDefinition;
+  }
+};
+
 const RuleDialog: React.FC<RuleDialogProps> = ({
   open,
   rule,
@@ -51,24 +81,20 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
   const [formData, setFormData] = useState({
     name: "",
     description: "",
-    conditions: "",
-    actions: "",
+    ruleDefinition: "",
     isActive: true,
     priority: 1,
   });
   const [validating, setValidating] = useState(false);
-  const [validationResult, setValidationResult] = useState<{
-    isValid: boolean;
-    errors: string[];
-  } | null>(null);
+  const [validationResult, setValidationResult] =
+    useState<RuleValidationResult | null>(null);
 
   useEffect(() => {
     if (rule) {
       setFormData({
         name: rule.name,
         description: rule.description,
-        conditions: rule.conditions,
-        actions: rule.actions,
+        ruleDefinition: formatRuleDefinition(rule.ruleDefinition),
         isActive: rule.isActive,
         priority: rule.priority,
       });
@@ -76,8 +102,7 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
       setFormData({
         name: "",
         description: "",
-        conditions: "",
-        actions: "",
+        ruleDefinition: "",
         isActive: true,
         priority: 1,
       });
@@ -101,10 +126,7 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
     try {
       setValidating(true);
       clearError();
-      const result = await adminService.validateRule(
-        formData.conditions,
-        formData.actions
-      );
+      const result = await adminService.validateRule(formData.ruleDefinition);
       setValidationResult(result);
     } catch (err) {
       handleError(err);
@@ -114,10 +136,17 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
   };
 
   const handleSave = () => {
+    const request: CreateRuleRequest = {
+      name: formData.name,
+      description: formData.description,
+      ruleDefinition: formData.ruleDefinition,
+      priority: Number(formData.priority),
+    };
+
     if (rule) {
-      onSave({ ...formData, id: rule.id } as UpdateRuleRequest);
+      onSave({ ...request, id: rule.id }, formData.isActive);
     } else {
-      onSave(formData as CreateRuleRequest);
+      onSave(request, formData.isActive);
     }
   };
 
@@ -181,32 +210,17 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
             required
             fullWidth
             multiline
-            rows={4}
-            label="Conditions (JSON)"
-            value={formData.conditions}
-            onChange={handleChange("conditions")}
-            error={!!fieldErrors.conditions}
+            rows={12}
+            label="Rule Definition (JSON)"
+            value={formData.ruleDefinition}
+            onChange={handleChange("ruleDefinition")}
+            error={!!fieldErrors.ruleDefinition}
             helperText={
-              fieldErrors.conditions ||
-              "JSON object defining when this rule applies"
+              fieldErrors.ruleDefinition ||
+              "Clauses (if/then/reason) and optional score adjustments"
             }
-            placeholder='{"creditScore": {"$gte": 650}, "incomeMonthly": {"$gte": 3000}}'
-          />
-
-          <TextField
-            required
-            fullWidth
-            multiline
-            rows={4}
-            label="Actions (JSON)"
-            value={formData.actions}
-            onChange={handleChange("actions")}
-            error={!!fieldErrors.actions}
-            helperText={
-              fieldErrors.actions ||
-              "JSON object defining what happens when rule matches"
-            }
-            placeholder='{"outcome": "Approve", "score": 85, "reasons": ["Good credit score"]}'
+            placeholder={ruleDefinitionPlaceholder}
+            InputProps={{ sx: { fontFamily: "monospace", fontSize: 13 } }}
           />
 
           <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
@@ -214,7 +228,7 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
               variant="outlined"
               startIcon={<CodeIcon />}
               onClick={handleValidate}
-              disabled={validating || !formData.conditions || !formData.actions}
+              disabled={validating || !formData.ruleDefinition}
             >
               {validating ? "Validating..." : "Validate JSON"}
             </Button>
@@ -237,6 +251,17 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
               </ul>
             </Alert>
           )}
+
+          {validationResult && validationResult.warnings.length > 0 && (
+            <Alert severity="warning">
+              <Typography variant="subtitle2">Warnings:</Typography>
+              <ul>
+                {validationResult.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </Alert>
+          )}
         </Box>
       </DialogContent>
       <DialogActions>
@@ -244,7 +269,7 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
         <Button
           variant="contained"
           onClick={handleSave}
-          disabled={!formData.name || !formData.conditions || !formData.actions}
+          disabled={!formData.name || !formData.ruleDefinition}
         >
           {rule ? "Update" : "Create"}
         </Button>
@@ -255,29 +280,48 @@ const RuleDialog: React.FC<RuleDialogProps> = ({
 
 export const RulesManagement: React.FC = () => {
   const { error, handleError, clearError } = useErrorHandler();
-  const [rules, setRules] = useState<Rule[]>([]);
-  const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedRule, setSelectedRule] = useState<Rule | undefined>();
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [ruleToDelete, setRuleToDelete] = useState<Rule | null>(null);
 
-  const loadRules = async () => {
-    try {
-      setLoading(true);
-      clearError();
-      const result = await adminService.getRules();
-      setRules(result);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const {
+    data: rules = [],
+    error: loadError,
+    isLoading: loading,
+  } = useApiQuery(queryKeys.rules.list(), (signal) =>
+    adminService.getRules({ signal })
+  );
 
-  useEffect(() => {
-    loadRules();
-  }, []);
+  const saveRule = useApiMutation(
+    async ({
+      ruleData,
+      isActive,
+    }: {
+      ruleData: CreateRuleRequest | UpdateRuleRequest;
+      isActive: boolean;
+    }) => {
+      const saved =
+        "id" in ruleData
+          ? await adminService.updateRule(ruleData)
+          : await adminService.createRule(ruleData);
+
+      // Activation has dedicated endpoints rather than a field on the rule
+      if (saved.isActive !== isActive) {
+        if (isActive) {
+          await adminService.activateRule(saved.id);
+        } else {
+          await adminService.deactivateRule(saved.id);
+        }
+      }
+    },
+    { invalidates: [queryKeys.rules.all] }
+  );
+
+  const deleteRule = useApiMutation(
+    (id: number) => adminService.deleteRule(id),
+    { invalidates: [queryKeys.rules.all] }
+  );
 
   const handleCreateRule = () => {
     setSelectedRule(undefined);
@@ -295,17 +339,13 @@ export const RulesManagement: React.FC = () => {
   };
 
   const handleSaveRule = async (
-    ruleData: CreateRuleRequest | UpdateRuleRequest
+    ruleData: CreateRuleRequest | UpdateRuleRequest,
+    isActive: boolean
   ) => {
     try {
       clearError();
-      if ("id" in ruleData) {
-        await adminService.updateRule(ruleData);
-      } else {
-        await adminService.createRule(ruleData);
-      }
+      await saveRule.mutate({ ruleData, isActive });
       setDialogOpen(false);
-      await loadRules();
     } catch (err) {
       handleError(err);
     }
@@ -316,10 +356,9 @@ export const RulesManagement: React.FC = () => {
 
     try {
       clearError();
-      await adminService.deleteRule(ruleToDelete.id);
+      await deleteRule.mutate(ruleToDelete.id);
       setDeleteConfirmOpen(false);
       setRuleToDelete(null);
-      await loadRules();
     } catch (err) {
       handleError(err);
     }
@@ -339,18 +378,20 @@ export const RulesManagement: React.FC = () => {
         <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
           Rules Management
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={handleCreateRule}
-        >
-          Create Rule
-        </Button>
+        <Can permission={Permission.RulesEdit}>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateRule}
+          >
+            Create Rule
+          </Button>
+        </Can>
       </Toolbar>
 
-      {error && (
+      {(error || loadError) && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {error}
+          {error || loadError?.message}
         </Alert>
       )}
 
@@ -363,7 +404,7 @@ export const RulesManagement: React.FC = () => {
               <TableCell>Priority</TableCell>
               <TableCell>Status</TableCell>
               <TableCell>Created</TableCell>
-              <TableCell>Created By</TableCell>
+              <TableCell>Updated</TableCell>
               <TableCell>Actions</TableCell>
             </TableRow>
           </TableHead>
@@ -387,23 +428,27 @@ export const RulesManagement: React.FC = () => {
                   />
                 </TableCell>
                 <TableCell>{formatDate(rule.createdAt)}</TableCell>
-                <TableCell>{rule.createdBy}</TableCell>
                 <TableCell>
-                  <IconButton
-                    size="small"
-                    onClick={() => handleEditRule(rule)}
-                    title="Edit Rule"
-                  >
-                    <EditIcon />
-                  </IconButton>
-                  <IconButton
-                    size="small"
-                    onClick={() => handleDeleteRule(rule)}
-                    title="Delete Rule"
-                    color="error"
-                  >
-                    <DeleteIcon />
-                  </IconButton>
+                  {rule.updatedAt ? formatDate(rule.updatedAt) : "—"}
+                </TableCell>
+                <TableCell>
+                  <Can permission={Permission.RulesEdit}>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleEditRule(rule)}
+                      title="Edit Rule"
+                    >
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDeleteRule(rule)}
+                      title="Delete Rule"
+                      color="error"
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </Can>
                 </TableCell>
               </TableRow>
             ))}
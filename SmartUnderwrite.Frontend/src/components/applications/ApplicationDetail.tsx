@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React from "react";
 import {
   Box,
   Typography,
@@ -34,23 +34,23 @@ import {
   Work as WorkIcon,
   AttachMoney as MoneyIcon,
 } from "@mui/icons-material";
-import { useParams, useNavigate } from "react-router-dom";
-import {
-  LoanApplication,
-  ApplicationStatus,
-  DecisionOutcome,
-} from "@/types/application";
+import { useLocation, useParams, useNavigate } from "react-router-dom";
+import { ApplicationStatus, DecisionOutcome } from "@/types/application";
 import { applicationService } from "@/services/applicationService";
 import { useAuth } from "@/contexts/AuthContext";
-import { UserRole } from "@/types/auth";
+import { Permission } from "@/types/auth";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
 
 const statusColors: Record<
   ApplicationStatus,
   "default" | "primary" | "secondary" | "error" | "info" | "success" | "warning"
 > = {
   [ApplicationStatus.Submitted]: "info",
+  [ApplicationStatus.InReview]: "info",
   [ApplicationStatus.Evaluated]: "primary",
   [ApplicationStatus.Approved]: "success",
   [ApplicationStatus.Rejected]: "error",
@@ -68,47 +68,44 @@ const outcomeColors: Record<
 
 export const ApplicationDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const location = useLocation();
   const navigate = useNavigate();
-  const { hasRole } = useAuth();
+  const { hasPermission } = useAuth();
   const { error, handleError, clearError } = useErrorHandler();
 
-  const [application, setApplication] = useState<LoanApplication | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [evaluating, setEvaluating] = useState(false);
+  const applicationId = Number(id);
+  const {
+    data: application,
+    error: loadError,
+    isLoading: loading,
+  } = useApiQuery(
+    queryKeys.applications.detail(applicationId),
+    (signal) => applicationService.getApplication(applicationId, { signal }),
+    { enabled: !!id }
+  );
 
-  const loadApplication = async () => {
-    if (!id) return;
+  const evaluate = useApiMutation(
+    (applicationId: number) =>
+      applicationService.evaluateApplication(applicationId),
+    { invalidates: [queryKeys.applications.all, queryKeys.decisions.all] }
+  );
+  const evaluating = evaluate.isPending;
 
-    try {
-      setLoading(true);
-      clearError();
-      const result = await applicationService.getApplication(parseInt(id));
-      setApplication(result);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
+  // Back to the filtered page of the list this was opened from, if any
+  const handleBack = () => {
+    const listSearch = (location.state as { listSearch?: string } | null)
+      ?.listSearch;
+    navigate(`/applications${listSearch ?? ""}`);
   };
 
-  useEffect(() => {
-    loadApplication();
-  }, [id]);
-
   const handleEvaluate = async () => {
     if (!application) return;
 
     try {
-      setEvaluating(true);
       clearError();
-      const result = await applicationService.evaluateApplication(
-        application.id
-      );
-      setApplication(result);
+      await evaluate.mutate(application.id);
     } catch (err) {
       handleError(err);
-    } finally {
-      setEvaluating(false);
     }
   };
 
@@ -117,7 +114,11 @@ export const ApplicationDetail: React.FC = () => {
     fileName: string
   ) => {
     try {
-      const blob = await applicationService.downloadDocument(documentId);
+      if (!application) return;
+      const blob = await applicationService.downloadDocument(
+        application.id,
+        documentId
+      );
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
@@ -150,19 +151,18 @@ export const ApplicationDetail: React.FC = () => {
     return (
       <Box sx={{ p: 2 }}>
         <Typography variant="h6" color="error">
-          Application not found
+          {loadError && loadError.statusCode !== 404
+            ? loadError.message
+            : "Application not found"}
         </Typography>
-        <Button
-          startIcon={<BackIcon />}
-          onClick={() => navigate("/applications")}
-        >
+        <Button startIcon={<BackIcon />} onClick={handleBack}>
           Back to Applications
         </Button>
       </Box>
     );
   }
 
-  const canEvaluate = hasRole(UserRole.Admin) || hasRole(UserRole.Underwriter);
+  const canEvaluate = hasPermission(Permission.DecisionsMake);
   const needsEvaluation = application.status === ApplicationStatus.Submitted;
 
   return (
@@ -194,7 +194,7 @@ export const ApplicationDetail: React.FC = () => {
             <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2 }}>
               <Button
                 startIcon={<BackIcon />}
-                onClick={() => navigate("/applications")}
+                onClick={handleBack}
                 sx={{
                   color: "white",
                   borderColor: "rgba(255, 255, 255, 0.3)",
@@ -510,8 +510,8 @@ export const ApplicationDetail: React.FC = () => {
                           application.creditScore >= 700
                             ? "success"
                             : application.creditScore >= 600
-                            ? "warning"
-                            : "error"
+                              ? "warning"
+                              : "error"
                         }
                       />
                     </Box>
@@ -539,7 +539,9 @@ export const ApplicationDetail: React.FC = () => {
                       Updated:
                     </Typography>
                     <Typography variant="body2" sx={{ fontWeight: 500 }}>
-                      {formatDate(application.updatedAt)}
+                      {application.updatedAt
+                        ? formatDate(application.updatedAt)
+                        : "—"}
                     </Typography>
                   </Box>
                 </Box>
@@ -719,7 +721,7 @@ export const ApplicationDetail: React.FC = () => {
                                     variant="outlined"
                                     color="primary"
                                   />
-                                  {decision.isManual && (
+                                  {!decision.isAutomated && (
                                     <Chip
                                       label="Manual Decision"
                                       size="small"
@@ -740,7 +742,7 @@ export const ApplicationDetail: React.FC = () => {
                                       }}
                                     />
                                     {formatDate(decision.decidedAt)}
-                                    {decision.decidedByUser && (
+                                    {decision.decidedByUserName && (
                                       <span style={{ marginLeft: 8 }}>
                                         <PersonIcon
                                           sx={{
@@ -749,7 +751,7 @@ export const ApplicationDetail: React.FC = () => {
                                             verticalAlign: "middle",
                                           }}
                                         />
-                                        by {decision.decidedByUser}
+                                        by {decision.decidedByUserName}
                                       </span>
                                     )}
                                   </Typography>
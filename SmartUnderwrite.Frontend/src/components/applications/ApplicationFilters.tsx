@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  InputAdornment,
+  MenuItem,
+  Paper,
+  TextField,
+} from "@mui/material";
+import {
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+} from "@mui/icons-material";
+import { ApplicationFilter, ApplicationStatus } from "@/types/application";
+import { EMPLOYMENT_TYPES, PRODUCT_TYPES } from "@/validation/application";
+
+// Typing waits this long before the list is searched again
+const INPUT_DELAY = 400;
+
+type FilterPatch = Partial<ApplicationFilter>;
+
+type RangeField =
+  "minAmount" | "maxAmount" | "minCreditScore" | "maxCreditScore";
+
+// The criteria that narrow the list, as opposed to paging and sorting
+const CRITERIA: (keyof ApplicationFilter)[] = [
+  "search",
+  "status",
+  "productType",
+  "employmentType",
+  "minAmount",
+  "maxAmount",
+  "minCreditScore",
+  "maxCreditScore",
+];
+
+const hasCriteria = (filter: ApplicationFilter) =>
+  CRITERIA.some((key) => filter[key] !== undefined);
+
+interface DelayedTextFieldProps extends Omit<
+  React.ComponentProps<typeof TextField>,
+  "onChange"
+> {
+  value: string;
+  onCommit: (value: string) => void;
+}
+
+// Reports its value once the user pauses typing; follows outside changes
+// such as Clear
+const DelayedTextField: React.FC<DelayedTextFieldProps> = ({
+  value,
+  onCommit,
+  ...props
+}) => {
+  const [text, setText] = useState(value);
+
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (text === value) return;
+    const timer = setTimeout(() => onCommit(text), INPUT_DELAY);
+    return () => clearTimeout(timer);
+  }, [text, value, onCommit]);
+
+  return (
+    <TextField
+      {...props}
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+    />
+  );
+};
+
+interface ApplicationFiltersProps {
+  filter: ApplicationFilter;
+  // Changes to the criteria go back to the first page
+  onChange: (patch: FilterPatch) => void;
+  onRefresh: () => void;
+  refreshing: boolean;
+}
+
+export const ApplicationFilters: React.FC<ApplicationFiltersProps> = ({
+  filter,
+  onChange,
+  onRefresh,
+  refreshing,
+}) => {
+  const select =
+    (key: "status" | "productType" | "employmentType") =>
+    (event: React.ChangeEvent<HTMLInputElement>) =>
+      onChange({ [key]: event.target.value || undefined });
+
+  const range = (key: RangeField) => (value: string) =>
+    onChange({ [key]: value === "" ? undefined : Number(value) });
+
+  const rangeValue = (key: RangeField) =>
+    filter[key] === undefined ? "" : String(filter[key]);
+
+  const handleClear = () =>
+    onChange(
+      Object.fromEntries(CRITERIA.map((key) => [key, undefined])) as FilterPatch
+    );
+
+  return (
+    <Paper sx={{ mb: 2, p: 2 }}>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+        <DelayedTextField
+          label="Search"
+          placeholder="Applicant name, email or application #"
+          size="small"
+          value={filter.search ?? ""}
+          onCommit={(value) => onChange({ search: value.trim() || undefined })}
+          sx={{ flex: "2 1 280px" }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <TextField
+          select
+          label="Status"
+          size="small"
+          value={filter.status ?? ""}
+          onChange={select("status")}
+          sx={{ flex: "1 1 150px" }}
+        >
+          <MenuItem value="">All Statuses</MenuItem>
+          {Object.values(ApplicationStatus).map((status) => (
+            <MenuItem key={status} value={status}>
+              {status}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Product"
+          size="small"
+          value={filter.productType ?? ""}
+          onChange={select("productType")}
+          sx={{ flex: "1 1 150px" }}
+        >
+          <MenuItem value="">All Products</MenuItem>
+          {PRODUCT_TYPES.map((type) => (
+            <MenuItem key={type} value={type}>
+              {type}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Employment"
+          size="small"
+          value={filter.employmentType ?? ""}
+          onChange={select("employmentType")}
+          sx={{ flex: "1 1 150px" }}
+        >
+          <MenuItem value="">All Employment Types</MenuItem>
+          {EMPLOYMENT_TYPES.map((type) => (
+            <MenuItem key={type} value={type}>
+              {type}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2, mt: 2 }}>
+        <DelayedTextField
+          label="Amount From"
+          type="number"
+          size="small"
+          value={rangeValue("minAmount")}
+          onCommit={range("minAmount")}
+          sx={{ flex: "1 1 130px" }}
+          slotProps={{ input: { startAdornment: "$" } }}
+        />
+        <DelayedTextField
+          label="Amount To"
+          type="number"
+          size="small"
+          value={rangeValue("maxAmount")}
+          onCommit={range("maxAmount")}
+          sx={{ flex: "1 1 130px" }}
+          slotProps={{ input: { startAdornment: "$" } }}
+        />
+        <DelayedTextField
+          label="Credit Score From"
+          type="number"
+          size="small"
+          value={rangeValue("minCreditScore")}
+          onCommit={range("minCreditScore")}
+          sx={{ flex: "1 1 130px" }}
+          slotProps={{ htmlInput: { min: 300, max: 850 } }}
+        />
+        <DelayedTextField
+          label="Credit Score To"
+          type="number"
+          size="small"
+          value={rangeValue("maxCreditScore")}
+          onCommit={range("maxCreditScore")}
+          sx={{ flex: "1 1 130px" }}
+          slotProps={{ htmlInput: { min: 300, max: 850 } }}
+        />
+        <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+          <Button onClick={handleClear} disabled={!hasCriteria(filter)}>
+            Clear Filters
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={onRefresh}
+            disabled={refreshing}
+          >
+            Refresh
+          </Button>
+        </Box>
+      </Box>
+    </Paper>
+  );
+};
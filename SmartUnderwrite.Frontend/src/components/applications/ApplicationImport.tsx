@@ -0,0 +1,555 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  ArrowBack as BackIcon,
+  Download as DownloadIcon,
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
+  UploadFile as UploadIcon,
+} from "@mui/icons-material";
+import { ImportColumns } from "@/types/application";
+import { ApiError } from "@/types/api";
+import { applicationService } from "@/services/applicationService";
+import {
+  ImportProgress,
+  loadImportProgress,
+  saveImportProgress,
+} from "@/services/importProgress";
+import { queryCache } from "@/services/queryCache";
+import { queryKeys } from "@/services/queryKeys";
+import { useAuth } from "@/contexts/AuthContext";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { toCreateApplicationRequest } from "@/utils/applicationForm";
+import {
+  IMPORT_FIELDS,
+  ImportRow,
+  Spreadsheet,
+  guessColumns,
+  prepareRows,
+  readSpreadsheet,
+} from "@/utils/applicationImport";
+import { downloadFile, toCsv } from "@/utils/csv";
+import { FieldErrors } from "@/utils/validation";
+
+// Applications created at once, and the pause between batches, so a large
+// file does not flood the API
+const BATCH_SIZE = 5;
+const BATCH_INTERVAL = 2000;
+
+// The report download has every row; the page lists the first ones
+const PREVIEW_ROWS = 50;
+
+type Stage = "select" | "map" | "review" | "import";
+
+const fieldLabel = (path: string) =>
+  IMPORT_FIELDS.find((field) => field.path === path)?.label ?? path;
+
+const describeErrors = (errors: FieldErrors) =>
+  Object.entries(errors)
+    .map(([path, message]) => `${fieldLabel(path)}: ${message}`)
+    .join("; ");
+
+const applicantName = ({ form }: ImportRow) =>
+  `${form.applicant.firstName} ${form.applicant.lastName}`.trim() || "—";
+
+const serverMessage = (err: unknown) => {
+  const apiError = (err ?? {}) as Partial<ApiError>;
+  const fieldMessages = Object.values(apiError.errors ?? {}).flat();
+  return fieldMessages.length > 0
+    ? fieldMessages.join("; ")
+    : (apiError.message ?? "The application could not be created");
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface ProblemTableProps {
+  problems: [ImportRow, string][];
+}
+
+const ProblemTable: React.FC<ProblemTableProps> = ({ problems }) => (
+  <TableContainer component={Paper} variant="outlined" sx={{ mt: 2 }}>
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Row</TableCell>
+          <TableCell>Applicant</TableCell>
+          <TableCell>Problem</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {problems.slice(0, PREVIEW_ROWS).map(([row, problem]) => (
+          <TableRow key={row.rowNumber}>
+            <TableCell>{row.rowNumber}</TableCell>
+            <TableCell>{applicantName(row)}</TableCell>
+            <TableCell>{problem}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+    {problems.length > PREVIEW_ROWS && (
+      <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+        And {problems.length - PREVIEW_ROWS} more rows; download the report for
+        all of them.
+      </Typography>
+    )}
+  </TableContainer>
+);
+
+/**
+ * Creates applications in bulk from a CSV or Excel file: the user maps the
+ * file's columns to application fields, checks the rows against the same
+ * rules as the wizard, and imports the valid ones in small batches. Imported
+ * rows are remembered, so the same file can be imported again after a pause,
+ * a closed tab or failed rows without duplicates.
+ */
+export const ApplicationImport: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { error, handleError, clearError } = useErrorHandler();
+
+  const [stage, setStage] = useState<Stage>("select");
+  const [reading, setReading] = useState(false);
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [columns, setColumns] = useState<ImportColumns>({});
+  const [rememberColumns, setRememberColumns] = useState(true);
+  const [previousImport, setPreviousImport] = useState<ImportProgress | null>(
+    null
+  );
+  // Spreadsheet row number to the created application's id
+  const [created, setCreated] = useState<Record<number, number>>({});
+  // Spreadsheet row number to the API's reason for rejecting the row
+  const [failed, setFailed] = useState<Record<number, string>>({});
+  const [running, setRunning] = useState(false);
+  const [pausing, setPausing] = useState(false);
+  const pauseRequested = useRef(false);
+
+  const { data: savedMapping } = useApiQuery(
+    queryKeys.applications.importMapping(),
+    (signal) => applicationService.getImportMapping({ signal })
+  );
+
+  const saveMapping = useApiMutation(
+    (mapping: ImportColumns) => applicationService.saveImportMapping(mapping),
+    { invalidates: [queryKeys.applications.importMapping()] }
+  );
+
+  // Leaving the page stops the import after the current batch
+  useEffect(
+    () => () => {
+      pauseRequested.current = true;
+    },
+    []
+  );
+
+  const rows = useMemo(
+    () => (sheet ? prepareRows(sheet, columns) : []),
+    [sheet, columns]
+  );
+  const validRows = rows.filter((row) => Object.keys(row.errors).length === 0);
+  const invalidRows = rows.filter((row) => Object.keys(row.errors).length > 0);
+  const createdCount = validRows.filter(
+    (row) => created[row.rowNumber] !== undefined
+  ).length;
+  const failedRows = validRows.filter(
+    (row) => failed[row.rowNumber] !== undefined
+  );
+  const waitingCount = validRows.length - createdCount - failedRows.length;
+  const missingColumns = IMPORT_FIELDS.filter(
+    (field) => field.required && !columns[field.path]
+  );
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !user) return;
+
+    setReading(true);
+    clearError();
+    try {
+      const next = await readSpreadsheet(file);
+      const progress = loadImportProgress(user.id, next.fingerprint);
+      setSheet(next);
+      setColumns(guessColumns(next.headers, savedMapping?.columns ?? {}));
+      setPreviousImport(progress);
+      setCreated(progress?.created ?? {});
+      setFailed({});
+      setStage("map");
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleColumnsConfirmed = async () => {
+    clearError();
+    setStage("review");
+    if (!rememberColumns) return;
+    try {
+      await saveMapping.mutate(columns);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const runImport = async () => {
+    if (!sheet || !user) return;
+
+    const done = { ...created };
+    const pending = validRows.filter(
+      (row) => done[row.rowNumber] === undefined
+    );
+    pauseRequested.current = false;
+    setStage("import");
+    setRunning(true);
+    setFailed({});
+    clearError();
+
+    for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+      if (start > 0) await sleep(BATCH_INTERVAL);
+      if (pauseRequested.current) break;
+
+      const batch = pending.slice(start, start + BATCH_SIZE);
+      const results = await Promise.allSettled(
+        batch.map((row) =>
+          applicationService.createApplication(
+            toCreateApplicationRequest(row.form)
+          )
+        )
+      );
+
+      const batchFailures: Record<number, string> = {};
+      results.forEach((result, index) => {
+        const { rowNumber } = batch[index];
+        if (result.status === "fulfilled") {
+          done[rowNumber] = result.value.id;
+        } else {
+          batchFailures[rowNumber] = serverMessage(result.reason);
+        }
+      });
+
+      saveImportProgress(user.id, sheet.fingerprint, {
+        fileName: sheet.fileName,
+        created: done,
+      });
+      setCreated({ ...done });
+      setFailed((prev) => ({ ...prev, ...batchFailures }));
+    }
+
+    setRunning(false);
+    setPausing(false);
+    queryCache.invalidate(queryKeys.applications.all);
+  };
+
+  const handlePause = () => {
+    pauseRequested.current = true;
+    setPausing(true);
+  };
+
+  const handleStartOver = () => {
+    setSheet(null);
+    setPreviousImport(null);
+    setCreated({});
+    setFailed({});
+    clearError();
+    setStage("select");
+  };
+
+  const downloadReport = () => {
+    if (!sheet) return;
+    const problems: string[][] = [
+      ...invalidRows.map((row) => [
+        String(row.rowNumber),
+        applicantName(row),
+        describeErrors(row.errors),
+      ]),
+      ...failedRows.map((row) => [
+        String(row.rowNumber),
+        applicantName(row),
+        failed[row.rowNumber],
+      ]),
+    ];
+    downloadFile(
+      toCsv([["Row", "Applicant", "Problem"], ...problems]),
+      `${sheet.fileName.replace(/\.\w+$/, "")}-errors.csv`
+    );
+  };
+
+  const sampleRow = sheet?.rows.find((row) => row.some(Boolean));
+  const sample = (column: string | undefined) => {
+    const index = column ? (sheet?.headers.indexOf(column) ?? -1) : -1;
+    return index >= 0 && sampleRow?.[index] ? `e.g. ${sampleRow[index]}` : "";
+  };
+
+  return (
+    <Box>
+      <Box sx={{ mb: 3, display: "flex", alignItems: "center", gap: 2 }}>
+        <Button
+          startIcon={<BackIcon />}
+          onClick={() => navigate("/applications")}
+        >
+          Back to Applications
+        </Button>
+        <Typography variant="h4" component="h1" sx={{ flexGrow: 1 }}>
+          Import Applications
+        </Typography>
+        {sheet && stage !== "select" && (
+          <Typography variant="body2" color="text.secondary">
+            {sheet.fileName}
+          </Typography>
+        )}
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {stage === "select" && (
+          <Box>
+            <Typography variant="body2" paragraph>
+              Choose a CSV or Excel (.xlsx) file with one application per row
+              and column titles in the first row. Excel files are read from
+              their first sheet.
+            </Typography>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Columns: {IMPORT_FIELDS.map((field) => field.label).join(", ")}.
+              Credit Score is optional.
+            </Typography>
+            <Button
+              variant="contained"
+              component="label"
+              startIcon={<UploadIcon />}
+              disabled={reading}
+            >
+              {reading ? "Reading..." : "Choose File"}
+              <input
+                type="file"
+                hidden
+                accept=".csv,.xlsx"
+                onChange={handleFileSelect}
+              />
+            </Button>
+          </Box>
+        )}
+
+        {stage === "map" && sheet && (
+          <Box>
+            <Typography variant="body2" paragraph>
+              Choose the column that holds each field. Columns with matching
+              titles{savedMapping?.updatedAt ? " or saved before" : ""} are
+              already chosen.
+            </Typography>
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+              {IMPORT_FIELDS.map((field) => (
+                <TextField
+                  key={field.path}
+                  select
+                  required={field.required}
+                  label={field.label}
+                  value={columns[field.path] ?? ""}
+                  onChange={(event) =>
+                    setColumns((prev) => ({
+                      ...prev,
+                      [field.path]: event.target.value,
+                    }))
+                  }
+                  helperText={
+                    field.path === "applicant.ssn"
+                      ? ""
+                      : sample(columns[field.path])
+                  }
+                  sx={{ flex: "1 1 250px" }}
+                >
+                  <MenuItem value="">
+                    <em>Not in the file</em>
+                  </MenuItem>
+                  {sheet.headers.filter(Boolean).map((title) => (
+                    <MenuItem key={title} value={title}>
+                      {title}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              ))}
+            </Box>
+            <FormControlLabel
+              sx={{ mt: 2 }}
+              control={
+                <Checkbox
+                  checked={rememberColumns}
+                  onChange={(event) => setRememberColumns(event.target.checked)}
+                />
+              }
+              label="Remember these columns for everyone at my affiliate"
+            />
+            {missingColumns.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                Choose a column for{" "}
+                {missingColumns.map((field) => field.label).join(", ")}.
+              </Alert>
+            )}
+            <Box sx={{ mt: 3, display: "flex", gap: 1 }}>
+              <Button onClick={handleStartOver}>Choose Another File</Button>
+              <Button
+                variant="contained"
+                onClick={handleColumnsConfirmed}
+                disabled={missingColumns.length > 0}
+              >
+                Check Rows
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {stage === "review" && (
+          <Box>
+            {previousImport && createdCount > 0 && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {createdCount} rows of this file were imported on{" "}
+                {new Date(previousImport.updatedAt).toLocaleString()}; they are
+                skipped.
+              </Alert>
+            )}
+            <Typography variant="body1">
+              {rows.length} rows: {validRows.length} ready to import,{" "}
+              {invalidRows.length} with errors.
+            </Typography>
+            {invalidRows.length > 0 && (
+              <>
+                <Typography variant="body2" color="text.secondary">
+                  Rows with errors are not imported. Correct them in the file
+                  and import it again; rows already imported are skipped.
+                </Typography>
+                <ProblemTable
+                  problems={invalidRows.map((row) => [
+                    row,
+                    describeErrors(row.errors),
+                  ])}
+                />
+              </>
+            )}
+            <Box sx={{ mt: 3, display: "flex", gap: 1 }}>
+              <Button onClick={() => setStage("map")}>Change Columns</Button>
+              {invalidRows.length > 0 && (
+                <Button startIcon={<DownloadIcon />} onClick={downloadReport}>
+                  Download Error Report
+                </Button>
+              )}
+              <Button
+                variant="contained"
+                onClick={runImport}
+                disabled={validRows.length === createdCount}
+              >
+                Import {validRows.length - createdCount} Applications
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {stage === "import" && (
+          <Box>
+            <LinearProgress
+              variant="determinate"
+              value={
+                validRows.length > 0
+                  ? ((createdCount + failedRows.length) / validRows.length) *
+                    100
+                  : 100
+              }
+              sx={{ mb: 2, height: 8, borderRadius: 1 }}
+            />
+            <Typography variant="body1" role="status">
+              {createdCount} of {validRows.length} applications created
+              {failedRows.length > 0 && `, ${failedRows.length} failed`}
+              {waitingCount > 0 && `, ${waitingCount} waiting`}.
+            </Typography>
+
+            {!running && waitingCount === 0 && (
+              <Alert
+                severity={failedRows.length > 0 ? "warning" : "success"}
+                sx={{ mt: 2 }}
+              >
+                {failedRows.length > 0
+                  ? "The import finished, but the API rejected some rows. Retry them, or correct them in the file and import it again."
+                  : "The import finished."}
+                {invalidRows.length > 0 &&
+                  ` ${invalidRows.length} rows with errors were not imported.`}
+              </Alert>
+            )}
+            {!running && waitingCount > 0 && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                The import is paused. Resume it now, or later by importing the
+                same file again.
+              </Alert>
+            )}
+
+            {failedRows.length > 0 && (
+              <ProblemTable
+                problems={failedRows.map((row) => [row, failed[row.rowNumber]])}
+              />
+            )}
+
+            <Box sx={{ mt: 3, display: "flex", gap: 1 }}>
+              {running ? (
+                <Button
+                  startIcon={<PauseIcon />}
+                  onClick={handlePause}
+                  disabled={pausing}
+                >
+                  {pausing ? "Pausing..." : "Pause"}
+                </Button>
+              ) : (
+                <>
+                  {(waitingCount > 0 || failedRows.length > 0) && (
+                    <Button startIcon={<ResumeIcon />} onClick={runImport}>
+                      {waitingCount > 0 ? "Resume" : "Retry Failed Rows"}
+                    </Button>
+                  )}
+                  {(failedRows.length > 0 || invalidRows.length > 0) && (
+                    <Button
+                      startIcon={<DownloadIcon />}
+                      onClick={downloadReport}
+                    >
+                      Download Error Report
+                    </Button>
+                  )}
+                  <Button onClick={handleStartOver}>Import Another File</Button>
+                  <Button
+                    variant="contained"
+                    onClick={() => navigate("/applications")}
+                  >
+                    View Applications
+                  </Button>
+                </>
+              )}
+            </Box>
+          </Box>
+        )}
+      </Paper>
+    </Box>
+  );
+};
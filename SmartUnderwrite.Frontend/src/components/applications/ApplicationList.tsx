@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useCallback } from "react";
 import {
   Box,
   Paper,
@@ -9,10 +9,9 @@ import {
   TableHead,
   TableRow,
   TablePagination,
+  TableSortLabel,
   Chip,
   IconButton,
-  TextField,
-  MenuItem,
   Button,
   Typography,
   Toolbar,
@@ -25,72 +24,152 @@ import {
 import {
   Visibility as ViewIcon,
   Add as AddIcon,
-  Search as SearchIcon,
+  UploadFile as ImportIcon,
   Person as PersonIcon,
   AttachMoney as MoneyIcon,
   Business as BusinessIcon,
 } from "@mui/icons-material";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import {
   LoanApplication,
   ApplicationStatus,
   ApplicationFilter,
+  ApplicationSortField,
+  SortDirection,
 } from "@/types/application";
 import { PagedResult } from "@/types/api";
 import { applicationService } from "@/services/applicationService";
-import { useAuth } from "@/contexts/AuthContext";
-import { UserRole } from "@/types/auth";
+import { Can } from "@/components/auth/Can";
+import { DraftList } from "@/components/applications/DraftList";
+import { ApplicationFilters } from "@/components/applications/ApplicationFilters";
+import { ColumnPicker, TableColumn } from "@/components/common/ColumnPicker";
+import { ExportButton } from "@/components/common/ExportButton";
+import { SavedViewsMenu } from "@/components/common/SavedViewsMenu";
+import { Permission } from "@/types/auth";
+import { ExportColumn } from "@/types/export";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
-import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useUrlFilter } from "@/hooks/useUrlFilter";
+import { queryKeys } from "@/services/queryKeys";
+import { ParamSchema, param } from "@/utils/queryParams";
+import { EMPLOYMENT_TYPES, PRODUCT_TYPES } from "@/validation/application";
 
 const statusColors: Record<
   ApplicationStatus,
   "default" | "primary" | "secondary" | "error" | "info" | "success" | "warning"
 > = {
   [ApplicationStatus.Submitted]: "info",
+  [ApplicationStatus.InReview]: "info",
   [ApplicationStatus.Evaluated]: "primary",
   [ApplicationStatus.Approved]: "success",
   [ApplicationStatus.Rejected]: "error",
   [ApplicationStatus.ManualReview]: "warning",
 };
 
+const DEFAULT_SORT_DIRECTION: Record<ApplicationSortField, SortDirection> = {
+  id: "desc",
+  applicant: "asc",
+  productType: "asc",
+  amount: "desc",
+  creditScore: "desc",
+  status: "asc",
+  createdAt: "desc",
+};
+
+const PAGE_SIZES = [5, 10, 25, 50];
+
+// Every column but the actions sorts by its own field
+const COLUMNS: TableColumn<ApplicationSortField>[] = [
+  { key: "id", label: "ID" },
+  { key: "applicant", label: "Applicant" },
+  { key: "productType", label: "Product" },
+  { key: "amount", label: "Amount" },
+  { key: "creditScore", label: "Credit Score" },
+  { key: "status", label: "Status" },
+  { key: "createdAt", label: "Created" },
+];
+
+// The table's columns plus the contact and underwriting details behind them
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "ID" },
+  { key: "applicant", label: "Applicant" },
+  { key: "email", label: "Email", pii: "email" },
+  { key: "phone", label: "Phone", pii: "phone" },
+  { key: "ssnHash", label: "SSN Hash", pii: "ssnHash" },
+  { key: "productType", label: "Product" },
+  { key: "amount", label: "Amount" },
+  { key: "incomeMonthly", label: "Monthly Income" },
+  { key: "employmentType", label: "Employment" },
+  { key: "creditScore", label: "Credit Score" },
+  { key: "status", label: "Status" },
+  { key: "affiliate", label: "Affiliate" },
+  { key: "createdAt", label: "Created" },
+];
+
+interface ColumnChoice {
+  columns: ApplicationSortField[];
+}
+
+const COLUMN_PARAMS: ParamSchema<ColumnChoice> = {
+  columns: param.list(param.oneOf(COLUMNS.map((column) => column.key))),
+};
+
+const DEFAULT_COLUMNS: ColumnChoice = {
+  columns: COLUMNS.map((column) => column.key),
+};
+
+const FILTER_PARAMS: ParamSchema<ApplicationFilter> = {
+  status: param.oneOf(Object.values(ApplicationStatus)),
+  affiliateId: param.integer(1),
+  fromDate: param.date,
+  toDate: param.date,
+  search: param.string,
+  productType: param.oneOf<string>(PRODUCT_TYPES),
+  employmentType: param.oneOf<string>(EMPLOYMENT_TYPES),
+  minAmount: param.number,
+  maxAmount: param.number,
+  minCreditScore: param.integer(),
+  maxCreditScore: param.integer(),
+  sortBy: param.oneOf(COLUMNS.map((column) => column.key)),
+  sortDirection: param.oneOf<SortDirection>(["asc", "desc"]),
+  pageNumber: param.integer(1),
+  pageSize: param.oneOf(PAGE_SIZES),
+};
+
+const DEFAULT_FILTER: ApplicationFilter = { pageNumber: 1, pageSize: 10 };
+
+const emptyPage: PagedResult<LoanApplication> = {
+  items: [],
+  totalCount: 0,
+  page: 1,
+  pageSize: 10,
+  totalPages: 0,
+  hasNextPage: false,
+  hasPreviousPage: false,
+};
+
 export const ApplicationList: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const theme = useTheme();
-  const { hasRole } = useAuth();
-  const { error, handleError, clearError } = useErrorHandler();
-
-  const [applications, setApplications] = useState<
-    PagedResult<LoanApplication>
-  >({
-    items: [],
-    totalCount: 0,
-    pageNumber: 1,
-    pageSize: 10,
-    totalPages: 0,
-  });
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<ApplicationFilter>({
-    pageNumber: 1,
-    pageSize: 10,
-  });
-
-  const loadApplications = async () => {
-    try {
-      setLoading(true);
-      clearError();
-      const result = await applicationService.getApplications(filter);
-      setApplications(result);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [filter, setFilter] = useUrlFilter(FILTER_PARAMS, DEFAULT_FILTER);
+  const [{ columns }, setColumns] = useUrlFilter(
+    COLUMN_PARAMS,
+    DEFAULT_COLUMNS
+  );
+  const shown = (column: ApplicationSortField) => columns.includes(column);
 
-  useEffect(() => {
-    loadApplications();
-  }, [filter]);
+  const {
+    data: applications = emptyPage,
+    error,
+    isLoading: loading,
+    isFetching,
+    refetch,
+  } = useApiQuery(
+    queryKeys.applications.list(filter),
+    (signal) => applicationService.getApplications(filter, { signal }),
+    { keepPreviousData: true }
+  );
 
   const handlePageChange = (event: unknown, newPage: number) => {
     setFilter((prev) => ({ ...prev, pageNumber: newPage + 1 }));
@@ -106,19 +185,47 @@ export const ApplicationList: React.FC = () => {
     }));
   };
 
-  const handleStatusFilterChange = (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    const status = event.target.value as ApplicationStatus | "";
-    setFilter((prev) => ({
-      ...prev,
-      status: status || undefined,
-      pageNumber: 1,
-    }));
+  const handleFilterChange = useCallback(
+    (patch: Partial<ApplicationFilter>) =>
+      setFilter((prev) => ({ ...prev, ...patch, pageNumber: 1 })),
+    [setFilter]
+  );
+
+  // A new column starts with its most useful order; the same column flips
+  const handleSort = (field: ApplicationSortField) => {
+    setFilter((prev) => {
+      const current = prev.sortBy ?? "createdAt";
+      const direction =
+        current === field
+          ? (prev.sortDirection ?? "desc") === "desc"
+            ? "asc"
+            : "desc"
+          : DEFAULT_SORT_DIRECTION[field];
+      return {
+        ...prev,
+        sortBy: field,
+        sortDirection: direction,
+        pageNumber: 1,
+      };
+    });
+  };
+
+  const sortLabel = (field: ApplicationSortField, label: string) => {
+    const active = (filter.sortBy ?? "createdAt") === field;
+    return (
+      <TableSortLabel
+        active={active}
+        direction={active ? (filter.sortDirection ?? "desc") : "asc"}
+        onClick={() => handleSort(field)}
+      >
+        {label}
+      </TableSortLabel>
+    );
   };
 
   const handleViewApplication = (id: number) => {
-    navigate(`/applications/${id}`);
+    // Lets the detail page's back button return to this page of results
+    navigate(`/applications/${id}`, { state: { listSearch: location.search } });
   };
 
   const handleCreateApplication = () => {
@@ -146,7 +253,29 @@ export const ApplicationList: React.FC = () => {
         <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
           Loan Applications
         </Typography>
-        {hasRole(UserRole.Affiliate) && (
+        <SavedViewsMenu list="applications" />
+        <ColumnPicker
+          columns={COLUMNS}
+          visible={columns}
+          onChange={(visible) => setColumns({ columns: visible })}
+        />
+        <ExportButton
+          list="applications"
+          title="Export Applications"
+          columns={EXPORT_COLUMNS}
+          initialColumns={columns}
+          onExport={(request) =>
+            applicationService.exportApplications(filter, request)
+          }
+        />
+        <Can permission={Permission.ApplicationsCreate}>
+          <Button
+            startIcon={<ImportIcon />}
+            onClick={() => navigate("/applications/import")}
+            sx={{ mx: 1 }}
+          >
+            Import
+          </Button>
           <Button
             variant="contained"
             startIcon={<AddIcon />}
@@ -154,36 +283,19 @@ export const ApplicationList: React.FC = () => {
           >
             New Application
           </Button>
-        )}
+        </Can>
       </Toolbar>
 
-      <Paper sx={{ mb: 2, p: 2 }}>
-        <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
-          <TextField
-            select
-            label="Status"
-            value={filter.status || ""}
-            onChange={handleStatusFilterChange}
-            sx={{ minWidth: 150 }}
-            size="small"
-          >
-            <MenuItem value="">All Statuses</MenuItem>
-            {Object.values(ApplicationStatus).map((status) => (
-              <MenuItem key={status} value={status}>
-                {status}
-              </MenuItem>
-            ))}
-          </TextField>
-          <Button
-            variant="outlined"
-            startIcon={<SearchIcon />}
-            onClick={loadApplications}
-            disabled={loading}
-          >
-            Refresh
-          </Button>
-        </Box>
-      </Paper>
+      <Can permission={Permission.ApplicationsCreate}>
+        <DraftList />
+      </Can>
+
+      <ApplicationFilters
+        filter={filter}
+        onChange={handleFilterChange}
+        onRefresh={refetch}
+        refreshing={isFetching}
+      />
 
       {error && (
         <Paper
@@ -194,7 +306,7 @@ export const ApplicationList: React.FC = () => {
             color: "error.contrastText",
           }}
         >
-          <Typography>{error}</Typography>
+          <Typography>{error.message}</Typography>
         </Paper>
       )}
 
@@ -202,12 +314,11 @@ export const ApplicationList: React.FC = () => {
         <Table>
           <TableHead>
             <TableRow sx={{ bgcolor: alpha(theme.palette.primary.main, 0.05) }}>
-              <TableCell sx={{ fontWeight: 600 }}>ID</TableCell>
-              <TableCell sx={{ fontWeight: 600 }}>Applicant</TableCell>
-              <TableCell sx={{ fontWeight: 600 }}>Product</TableCell>
-              <TableCell sx={{ fontWeight: 600 }}>Amount</TableCell>
-              <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
-              <TableCell sx={{ fontWeight: 600 }}>Created</TableCell>
+              {COLUMNS.filter((column) => shown(column.key)).map((column) => (
+                <TableCell key={column.key} sx={{ fontWeight: 600 }}>
+                  {sortLabel(column.key, column.label)}
+                </TableCell>
+              ))}
               <TableCell sx={{ fontWeight: 600 }}>Actions</TableCell>
             </TableRow>
           </TableHead>
@@ -226,76 +337,101 @@ export const ApplicationList: React.FC = () => {
                   }}
                   onClick={() => handleViewApplication(application.id)}
                 >
-                  <TableCell>
-                    <Typography
-                      variant="body2"
-                      sx={{
-                        fontWeight: 600,
-                        color: theme.palette.primary.main,
-                      }}
-                    >
-                      #{application.id}
-                    </Typography>
-                  </TableCell>
-                  <TableCell>
-                    <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
-                      <Avatar
+                  {shown("id") && (
+                    <TableCell>
+                      <Typography
+                        variant="body2"
                         sx={{
-                          width: 32,
-                          height: 32,
-                          bgcolor: theme.palette.secondary.main,
-                          fontSize: "0.875rem",
+                          fontWeight: 600,
+                          color: theme.palette.primary.main,
                         }}
                       >
-                        {application.applicant.firstName.charAt(0)}
-                        {application.applicant.lastName.charAt(0)}
-                      </Avatar>
-                      <Box>
-                        <Typography variant="body2" sx={{ fontWeight: 500 }}>
-                          {application.applicant.firstName}{" "}
-                          {application.applicant.lastName}
+                        #{application.id}
+                      </Typography>
+                    </TableCell>
+                  )}
+                  {shown("applicant") && (
+                    <TableCell>
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 2 }}
+                      >
+                        <Avatar
+                          sx={{
+                            width: 32,
+                            height: 32,
+                            bgcolor: theme.palette.secondary.main,
+                            fontSize: "0.875rem",
+                          }}
+                        >
+                          {application.applicant.firstName.charAt(0)}
+                          {application.applicant.lastName.charAt(0)}
+                        </Avatar>
+                        <Box>
+                          <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                            {application.applicant.firstName}{" "}
+                            {application.applicant.lastName}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {application.applicant.email}
+                          </Typography>
+                        </Box>
+                      </Box>
+                    </TableCell>
+                  )}
+                  {shown("productType") && (
+                    <TableCell>
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                      >
+                        <BusinessIcon fontSize="small" color="action" />
+                        <Typography variant="body2">
+                          {application.productType}
                         </Typography>
-                        <Typography variant="caption" color="text.secondary">
-                          {application.applicant.email}
+                      </Box>
+                    </TableCell>
+                  )}
+                  {shown("amount") && (
+                    <TableCell>
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                      >
+                        <MoneyIcon fontSize="small" color="success" />
+                        <Typography
+                          variant="body2"
+                          sx={{
+                            fontWeight: 600,
+                            color: theme.palette.success.main,
+                          }}
+                        >
+                          {formatCurrency(application.amount)}
                         </Typography>
                       </Box>
-                    </Box>
-                  </TableCell>
-                  <TableCell>
-                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
-                      <BusinessIcon fontSize="small" color="action" />
+                    </TableCell>
+                  )}
+                  {shown("creditScore") && (
+                    <TableCell>
                       <Typography variant="body2">
-                        {application.productType}
+                        {application.creditScore ?? "—"}
                       </Typography>
-                    </Box>
-                  </TableCell>
-                  <TableCell>
-                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
-                      <MoneyIcon fontSize="small" color="success" />
-                      <Typography
-                        variant="body2"
-                        sx={{
-                          fontWeight: 600,
-                          color: theme.palette.success.main,
-                        }}
-                      >
-                        {formatCurrency(application.amount)}
+                    </TableCell>
+                  )}
+                  {shown("status") && (
+                    <TableCell>
+                      <Chip
+                        label={application.status}
+                        color={statusColors[application.status]}
+                        size="small"
+                        sx={{ fontWeight: 500 }}
+                      />
+                    </TableCell>
+                  )}
+                  {shown("createdAt") && (
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        {formatDate(application.createdAt)}
                       </Typography>
-                    </Box>
-                  </TableCell>
-                  <TableCell>
-                    <Chip
-                      label={application.status}
-                      color={statusColors[application.status]}
-                      size="small"
-                      sx={{ fontWeight: 500 }}
-                    />
-                  </TableCell>
-                  <TableCell>
-                    <Typography variant="body2" color="text.secondary">
-                      {formatDate(application.createdAt)}
-                    </Typography>
-                  </TableCell>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <Tooltip title="View Details">
                       <IconButton
@@ -329,11 +465,11 @@ export const ApplicationList: React.FC = () => {
           </Box>
         )}
         <TablePagination
-          rowsPerPageOptions={[5, 10, 25, 50]}
+          rowsPerPageOptions={PAGE_SIZES}
           component="div"
           count={applications.totalCount}
           rowsPerPage={applications.pageSize}
-          page={applications.pageNumber - 1}
+          page={applications.page - 1}
           onPageChange={handlePageChange}
           onRowsPerPageChange={handleRowsPerPageChange}
         />
@@ -0,0 +1,735 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Link as RouterLink, useNavigate } from "react-router-dom";
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  MenuItem,
+  Alert,
+  Stepper,
+  Step,
+  StepLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from "@mui/material";
+import {
+  ArrowBack as BackIcon,
+  AttachFile as FileIcon,
+  CloudUpload as UploadIcon,
+  Delete as DeleteIcon,
+  Send as SubmitIcon,
+} from "@mui/icons-material";
+import {
+  ApplicationDraft,
+  ApplicationDraftData,
+  ApplicationFormData,
+  LoanApplication,
+} from "@/types/application";
+import { ApiError } from "@/types/api";
+import { applicationService } from "@/services/applicationService";
+import { queryCache } from "@/services/queryCache";
+import { queryKeys } from "@/services/queryKeys";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import {
+  FieldErrors,
+  getValue,
+  mapServerErrors,
+  validate,
+  validateField,
+} from "@/utils/validation";
+import {
+  EMPLOYMENT_TYPES,
+  PRODUCT_TYPES,
+  STEP_FIELDS,
+  applicationSchema,
+} from "@/validation/application";
+import {
+  EMPTY_APPLICATION_FORM,
+  toCreateApplicationRequest,
+} from "@/utils/applicationForm";
+
+const STEPS = [
+  "Applicant",
+  "Address",
+  "Employment & Income",
+  "Loan",
+  "Documents",
+  "Review",
+];
+const DOCUMENTS_STEP = 4;
+const REVIEW_STEP = 5;
+
+// Long enough not to save on every keystroke
+const AUTOSAVE_DELAY = 1500;
+
+type Section = keyof ApplicationFormData;
+type SaveStatus = "idle" | "saving" | "saved" | "failed";
+
+// Empty fields are the wizard's blank inputs
+const filled = <T extends object>(fields: T) =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value ?? ""])
+  ) as { [K in keyof T]: string };
+
+const fromDraft = (data: ApplicationDraftData): ApplicationFormData => ({
+  applicant: { ...filled(data.applicant), ssn: "" },
+  address: filled(data.address),
+  employment: filled(data.employment),
+  loan: filled(data.loan),
+});
+
+const toDraft = ({
+  applicant,
+  ...rest
+}: ApplicationFormData): ApplicationDraftData => ({
+  ...rest,
+  applicant: {
+    firstName: applicant.firstName,
+    lastName: applicant.lastName,
+    dateOfBirth: applicant.dateOfBirth,
+    email: applicant.email,
+    phone: applicant.phone,
+  },
+});
+
+const validateStep = (step: number, form: ApplicationFormData) =>
+  validate(applicationSchema, form, STEP_FIELDS[step] ?? []);
+
+const formatCurrency = (value: string) =>
+  value
+    ? new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+      }).format(Number(value))
+    : "—";
+
+const maskSsn = (ssn: string) =>
+  ssn ? `•••-••-${ssn.replace(/\D/g, "").slice(-4)}` : "—";
+
+interface ReviewSectionProps {
+  title: string;
+  rows: [string, string][];
+  onEdit: () => void;
+}
+
+const ReviewSection: React.FC<ReviewSectionProps> = ({
+  title,
+  rows,
+  onEdit,
+}) => (
+  <Box sx={{ mb: 2 }}>
+    <Box display="flex" alignItems="center">
+      <Typography variant="subtitle1" sx={{ flexGrow: 1, fontWeight: 600 }}>
+        {title}
+      </Typography>
+      <Button size="small" onClick={onEdit}>
+        Edit
+      </Button>
+    </Box>
+    {rows.map(([label, value]) => (
+      <Box key={label} display="flex" gap={2} py={0.5}>
+        <Typography variant="body2" color="text.secondary" sx={{ width: 160 }}>
+          {label}
+        </Typography>
+        <Typography variant="body2">{value || "—"}</Typography>
+      </Box>
+    ))}
+    <Divider sx={{ mt: 1 }} />
+  </Box>
+);
+
+interface SubmittedResult {
+  application: LoanApplication;
+  failedFiles: string[];
+}
+
+interface ApplicationWizardProps {
+  // The draft to resume, if any
+  draft?: ApplicationDraft;
+}
+
+/**
+ * Collects an application step by step and autosaves it as a server-side
+ * draft, so a closed tab loses nothing but the SSN and chosen files. Only the
+ * review step submits.
+ */
+export const ApplicationWizard: React.FC<ApplicationWizardProps> = ({
+  draft,
+}) => {
+  const navigate = useNavigate();
+  const { error, handleError, clearError } = useErrorHandler();
+
+  const [form, setForm] = useState<ApplicationFormData>(() =>
+    draft ? fromDraft(draft.data) : EMPTY_APPLICATION_FORM
+  );
+  const [activeStep, setActiveStep] = useState(() =>
+    Math.min(draft?.step ?? 0, REVIEW_STEP)
+  );
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [files, setFiles] = useState<File[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>(
+    draft ? "saved" : "idle"
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<SubmittedResult | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const draftId = useRef<number | null>(draft?.id ?? null);
+  // Saves run one after another, so only the first one creates the draft
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const closed = useRef(false);
+
+  const saveDraft = useCallback(
+    (step: number, data: ApplicationDraftData) => {
+      saveQueue.current = saveQueue.current.then(async () => {
+        if (closed.current) return;
+        setSaveStatus("saving");
+        try {
+          const request = { step, data };
+          const saved = draftId.current
+            ? await applicationService.updateDraft(draftId.current, request)
+            : await applicationService.createDraft(request);
+
+          if (!draftId.current) {
+            draftId.current = saved.id;
+            // A reload now resumes the draft
+            navigate({ search: `?draft=${saved.id}` }, { replace: true });
+          }
+          queryCache.setData(queryKeys.applications.draft(saved.id), saved);
+          queryCache.invalidate(queryKeys.applications.drafts());
+          setSaveStatus("saved");
+        } catch (err) {
+          console.warn("Saving the application draft failed:", err);
+          setSaveStatus("failed");
+        }
+      });
+      return saveQueue.current;
+    },
+    [navigate]
+  );
+
+  useEffect(() => {
+    if (!dirty) return;
+    const timer = setTimeout(
+      () => saveDraft(activeStep, toDraft(form)),
+      AUTOSAVE_DELAY
+    );
+    return () => clearTimeout(timer);
+  }, [form, activeStep, dirty, saveDraft]);
+
+  const handleChange =
+    <S extends Section>(section: S, field: keyof ApplicationFormData[S]) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.value;
+      setForm((prev) => ({
+        ...prev,
+        [section]: { ...prev[section], [field]: value },
+      }));
+      setFieldErrors((prev) => ({
+        ...prev,
+        [`${section}.${String(field)}`]: "",
+      }));
+      setDirty(true);
+    };
+
+  // Checks the field and, once they are filled in, the fields that depend
+  // on it, e.g. the ZIP code when the state changes
+  const handleBlur = (path: string) => () => {
+    const dependents = (applicationSchema[path].affects ?? []).filter(
+      (dependent) => getValue(form, dependent) !== ""
+    );
+    setFieldErrors((prev) => {
+      const next = { ...prev };
+      [path, ...dependents].forEach((field) => {
+        next[field] = validateField(applicationSchema, field, form) ?? "";
+      });
+      return next;
+    });
+  };
+
+  // Props shared by every text field of the wizard
+  const bind = <S extends Section>(
+    section: S,
+    field: keyof ApplicationFormData[S] & string,
+    helperText?: string
+  ) => ({
+    value: form[section][field] as string,
+    onChange: handleChange(section, field),
+    onBlur: handleBlur(`${section}.${field}`),
+    error: !!fieldErrors[`${section}.${field}`],
+    helperText: fieldErrors[`${section}.${field}`] || helperText,
+  });
+
+  const goToStep = (step: number) => {
+    clearError();
+    setActiveStep(step);
+    setDirty(true);
+  };
+
+  const handleNext = () => {
+    const errors = validateStep(activeStep, form);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) {
+      goToStep(activeStep + 1);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setConfirmDiscard(false);
+    closed.current = true;
+    try {
+      await saveQueue.current;
+      if (draftId.current) {
+        await applicationService.deleteDraft(draftId.current);
+        queryCache.invalidate(queryKeys.applications.drafts());
+      }
+      navigate("/applications");
+    } catch (err) {
+      closed.current = false;
+      handleError(err);
+    }
+  };
+
+  // Puts the API's validation errors next to their fields, e.g.
+  // "Applicant.Address.ZipCode" on the ZIP code
+  const showServerErrors = (err: unknown) => {
+    const { errors } = (err ?? {}) as ApiError;
+    if (!errors) return;
+    const mapped = mapServerErrors(
+      applicationSchema,
+      Object.fromEntries(
+        Object.entries(errors).map(([key, messages]) => [key, messages[0]])
+      )
+    );
+    const step = STEP_FIELDS.findIndex((fields) =>
+      fields.some((field) => mapped[field])
+    );
+    if (step >= 0) {
+      setFieldErrors(mapped);
+      setActiveStep(step);
+    }
+  };
+
+  const handleSubmit = async () => {
+    // Send the user back to the first step with a problem
+    for (let step = 0; step < DOCUMENTS_STEP; step++) {
+      const errors = validateStep(step, form);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        setActiveStep(step);
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    clearError();
+    closed.current = true;
+    try {
+      // The draft id is known once any save in progress has finished
+      await saveQueue.current;
+      const application = await applicationService.createApplication(
+        toCreateApplicationRequest(form, draftId.current)
+      );
+      queryCache.invalidate(queryKeys.applications.all);
+
+      const failedFiles: string[] = [];
+      for (const file of files) {
+        try {
+          await applicationService.uploadDocument(application.id, { file });
+        } catch (err) {
+          console.warn(`Uploading ${file.name} failed:`, err);
+          failedFiles.push(file.name);
+        }
+      }
+
+      if (failedFiles.length > 0) {
+        setSubmitted({ application, failedFiles });
+      } else {
+        navigate(`/applications/${application.id}`);
+      }
+    } catch (err) {
+      closed.current = false;
+      handleError(err);
+      showServerErrors(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    setFiles((prev) => [...prev, ...selected]);
+    event.target.value = "";
+  };
+
+  if (submitted) {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Application #{submitted.application.id} was submitted, but these
+          documents could not be uploaded: {submitted.failedFiles.join(", ")}.
+          Upload them again from the application.
+        </Alert>
+        <Button
+          variant="contained"
+          component={RouterLink}
+          to={`/applications/${submitted.application.id}`}
+        >
+          Open Application
+        </Button>
+      </Paper>
+    );
+  }
+
+  const saveMessage: Record<SaveStatus, string> = {
+    idle: "",
+    saving: "Saving draft...",
+    saved: "Draft saved",
+    failed: "The draft could not be saved",
+  };
+
+  return (
+    <Box>
+      <Box sx={{ mb: 3, display: "flex", alignItems: "center", gap: 2 }}>
+        <Button
+          startIcon={<BackIcon />}
+          onClick={() => navigate("/applications")}
+        >
+          Back to Applications
+        </Button>
+        <Typography variant="h4" component="h1" sx={{ flexGrow: 1 }}>
+          New Loan Application
+        </Typography>
+        <Typography
+          variant="body2"
+          color={saveStatus === "failed" ? "error" : "text.secondary"}
+          role="status"
+        >
+          {saveMessage[saveStatus]}
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 4 }}>
+          {STEPS.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {draft && !form.applicant.ssn && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            You are continuing a saved draft. Enter the applicant's Social
+            Security Number again before submitting; drafts never store it.
+          </Alert>
+        )}
+
+        {activeStep === 0 && (
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+            <TextField
+              required
+              label="First Name"
+              {...bind("applicant", "firstName")}
+              sx={{ flex: "1 1 250px" }}
+            />
+            <TextField
+              required
+              label="Last Name"
+              {...bind("applicant", "lastName")}
+              sx={{ flex: "1 1 250px" }}
+            />
+            <TextField
+              required
+              label="Social Security Number"
+              placeholder="XXX-XX-XXXX"
+              autoComplete="off"
+              {...bind("applicant", "ssn", "Not saved with the draft")}
+              sx={{ flex: "1 1 250px" }}
+            />
+            <TextField
+              required
+              label="Date of Birth"
+              type="date"
+              {...bind("applicant", "dateOfBirth")}
+              slotProps={{ inputLabel: { shrink: true } }}
+              sx={{ flex: "1 1 250px" }}
+            />
+            <TextField
+              required
+              label="Email"
+              type="email"
+              {...bind("applicant", "email")}
+              sx={{ flex: "1 1 250px" }}
+            />
+            <TextField
+              required
+              label="Phone"
+              placeholder="(XXX) XXX-XXXX"
+              {...bind("applicant", "phone")}
+              sx={{ flex: "1 1 250px" }}
+            />
+          </Box>
+        )}
+
+        {activeStep === 1 && (
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+            <TextField
+              required
+              fullWidth
+              label="Street Address"
+              {...bind("address", "street")}
+            />
+            <TextField
+              required
+              label="City"
+              {...bind("address", "city")}
+              sx={{ flex: "2 1 200px" }}
+            />
+            <TextField
+              required
+              label="State"
+              {...bind("address", "state")}
+              sx={{ flex: "1 1 100px" }}
+            />
+            <TextField
+              required
+              label="ZIP Code"
+              {...bind("address", "zipCode")}
+              sx={{ flex: "1 1 120px" }}
+            />
+          </Box>
+        )}
+
+        {activeStep === 2 && (
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+            <TextField
+              required
+              select
+              label="Employment Type"
+              {...bind("employment", "employmentType")}
+              sx={{ flex: "1 1 250px" }}
+            >
+              {EMPLOYMENT_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {type}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              required
+              label="Monthly Income"
+              type="number"
+              {...bind("employment", "incomeMonthly")}
+              slotProps={{ input: { startAdornment: "$" } }}
+              sx={{ flex: "1 1 250px" }}
+            />
+            <TextField
+              label="Credit Score (Optional)"
+              type="number"
+              {...bind("employment", "creditScore", "Leave blank if unknown")}
+              slotProps={{ htmlInput: { min: 300, max: 850 } }}
+              sx={{ flex: "1 1 250px" }}
+            />
+          </Box>
+        )}
+
+        {activeStep === 3 && (
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+            <TextField
+              required
+              select
+              label="Product Type"
+              {...bind("loan", "productType")}
+              sx={{ flex: "1 1 250px" }}
+            >
+              {PRODUCT_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {type}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              required
+              label="Loan Amount"
+              type="number"
+              {...bind("loan", "amount")}
+              slotProps={{ input: { startAdornment: "$" } }}
+              sx={{ flex: "1 1 250px" }}
+            />
+          </Box>
+        )}
+
+        {activeStep === DOCUMENTS_STEP && (
+          <Box>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Optional. The files are uploaded when you submit; they are not
+              saved with the draft.
+            </Typography>
+            <Button
+              variant="outlined"
+              component="label"
+              startIcon={<UploadIcon />}
+            >
+              Choose Files
+              <input
+                type="file"
+                hidden
+                multiple
+                accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                onChange={handleFileSelect}
+              />
+            </Button>
+            {files.length > 0 && (
+              <List dense>
+                {files.map((file, index) => (
+                  <ListItem
+                    key={`${file.name}-${index}`}
+                    secondaryAction={
+                      <IconButton
+                        edge="end"
+                        title="Remove"
+                        onClick={() =>
+                          setFiles((prev) => prev.filter((_, i) => i !== index))
+                        }
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    }
+                  >
+                    <ListItemIcon>
+                      <FileIcon />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={file.name}
+                      secondary={`${(file.size / 1024).toFixed(0)} KB`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Box>
+        )}
+
+        {activeStep === REVIEW_STEP && (
+          <Box>
+            <ReviewSection
+              title="Applicant"
+              onEdit={() => goToStep(0)}
+              rows={[
+                [
+                  "Name",
+                  `${form.applicant.firstName} ${form.applicant.lastName}`,
+                ],
+                ["SSN", maskSsn(form.applicant.ssn)],
+                ["Date of Birth", form.applicant.dateOfBirth],
+                ["Email", form.applicant.email],
+                ["Phone", form.applicant.phone],
+              ]}
+            />
+            <ReviewSection
+              title="Address"
+              onEdit={() => goToStep(1)}
+              rows={[
+                ["Street", form.address.street],
+                [
+                  "City",
+                  `${form.address.city}, ${form.address.state} ${form.address.zipCode}`,
+                ],
+              ]}
+            />
+            <ReviewSection
+              title="Employment & Income"
+              onEdit={() => goToStep(2)}
+              rows={[
+                ["Employment", form.employment.employmentType],
+                [
+                  "Monthly Income",
+                  formatCurrency(form.employment.incomeMonthly),
+                ],
+                ["Credit Score", form.employment.creditScore],
+              ]}
+            />
+            <ReviewSection
+              title="Loan"
+              onEdit={() => goToStep(3)}
+              rows={[
+                ["Product", form.loan.productType],
+                ["Amount", formatCurrency(form.loan.amount)],
+              ]}
+            />
+            <ReviewSection
+              title="Documents"
+              onEdit={() => goToStep(DOCUMENTS_STEP)}
+              rows={[
+                ["Files", files.map((file) => file.name).join(", ") || "None"],
+              ]}
+            />
+          </Box>
+        )}
+
+        <Box sx={{ display: "flex", gap: 2, mt: 4 }}>
+          <Button
+            color="error"
+            onClick={() => setConfirmDiscard(true)}
+            disabled={submitting}
+          >
+            Discard
+          </Button>
+          <Box sx={{ flexGrow: 1 }} />
+          <Button
+            onClick={() => goToStep(activeStep - 1)}
+            disabled={activeStep === 0 || submitting}
+          >
+            Back
+          </Button>
+          {activeStep === REVIEW_STEP ? (
+            <Button
+              variant="contained"
+              onClick={handleSubmit}
+              disabled={submitting}
+              startIcon={<SubmitIcon />}
+            >
+              {submitting ? "Submitting..." : "Submit Application"}
+            </Button>
+          ) : (
+            <Button variant="contained" onClick={handleNext}>
+              Next
+            </Button>
+          )}
+        </Box>
+      </Paper>
+
+      <Dialog open={confirmDiscard} onClose={() => setConfirmDiscard(false)}>
+        <DialogTitle>Discard Application</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Everything entered so far is deleted, including the saved draft.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDiscard(false)}>Cancel</Button>
+          <Button onClick={handleDiscard} color="error" variant="contained">
+            Discard
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,116 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Alert,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Typography,
+} from "@mui/material";
+import { Delete as DeleteIcon } from "@mui/icons-material";
+import { ApplicationDraft } from "@/types/application";
+import { applicationService } from "@/services/applicationService";
+import { queryKeys } from "@/services/queryKeys";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+const describeDraft = ({ data }: ApplicationDraft) => {
+  const name = [data.applicant.firstName, data.applicant.lastName]
+    .filter(Boolean)
+    .join(" ");
+  const loan = [
+    data.loan.productType,
+    data.loan.amount &&
+      new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+      }).format(Number(data.loan.amount)),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  return { name: name || "Unnamed applicant", loan };
+};
+
+// The user's unsubmitted applications; renders nothing when there are none
+export const DraftList: React.FC = () => {
+  const navigate = useNavigate();
+  const { error, handleError, clearError } = useErrorHandler();
+
+  const { data: drafts = [] } = useApiQuery(
+    queryKeys.applications.drafts(),
+    (signal) => applicationService.getDrafts({ signal })
+  );
+
+  const discard = useApiMutation(
+    (id: number) => applicationService.deleteDraft(id),
+    { invalidates: [queryKeys.applications.drafts()] }
+  );
+
+  const handleDiscard = async (draft: ApplicationDraft) => {
+    try {
+      clearError();
+      await discard.mutate(draft.id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ mb: 2, p: 2 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+        Drafts
+      </Typography>
+      {error && (
+        <Alert severity="error" sx={{ my: 1 }}>
+          {error}
+        </Alert>
+      )}
+      <List dense disablePadding>
+        {drafts.map((draft) => {
+          const { name, loan } = describeDraft(draft);
+          return (
+            <ListItem
+              key={draft.id}
+              divider
+              secondaryAction={
+                <>
+                  <Button
+                    size="small"
+                    onClick={() =>
+                      navigate(`/applications/create?draft=${draft.id}`)
+                    }
+                  >
+                    Resume
+                  </Button>
+                  <IconButton
+                    size="small"
+                    title="Discard Draft"
+                    onClick={() => handleDiscard(draft)}
+                    disabled={discard.isPending}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </>
+              }
+            >
+              <ListItemText
+                primary={loan ? `${name} — ${loan}` : name}
+                secondary={`Last saved ${new Date(
+                  draft.updatedAt
+                ).toLocaleString()}`}
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+    </Paper>
+  );
+};
@@ -0,0 +1,20 @@
+import React from "react";
+import { usePermission } from "@/hooks/usePermission";
+import { PermissionType } from "@/types/auth";
+
+interface CanProps {
+  // Any one of several permissions is enough
+  permission: PermissionType | PermissionType[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+// Renders its children only for users who hold the permission
+export const Can: React.FC<CanProps> = ({
+  permission,
+  children,
+  fallback = null,
+}) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Link,
+} from "@mui/material";
+import { authService } from "@/services/authService";
+import { ApiError } from "@/types/api";
+
+export const ForgotPasswordForm: React.FC = () => {
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!email.trim()) {
+      setError("Enter the email address you sign in with");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await authService.requestPasswordReset({ email: email.trim() });
+      setSubmitted(true);
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      bgcolor="grey.100"
+    >
+      <Card sx={{ maxWidth: 400, width: "100%", mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h4" component="h1" gutterBottom align="center">
+            SmartUnderwrite
+          </Typography>
+          <Typography
+            variant="h6"
+            component="h2"
+            gutterBottom
+            align="center"
+            color="text.secondary"
+          >
+            Reset Password
+          </Typography>
+
+          {submitted ? (
+            <>
+              {/* The API answers the same for unknown addresses, so neither
+                  does this message say whether the account exists */}
+              <Alert severity="success" sx={{ mb: 2 }}>
+                If an account exists for {email.trim()}, we have sent it a link
+                to reset the password. The link works once and expires after an
+                hour.
+              </Alert>
+              <Button component={RouterLink} to="/login" fullWidth>
+                Back to sign in
+              </Button>
+            </>
+          ) : (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Typography variant="body2" color="text.secondary">
+                Enter the email address you sign in with and we will send you a
+                link to choose a new password.
+              </Typography>
+
+              <Box component="form" onSubmit={handleSubmit} noValidate>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  id="email"
+                  label="Email Address"
+                  name="email"
+                  autoComplete="email"
+                  autoFocus
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <CircularProgress size={24} />
+                  ) : (
+                    "Send Reset Link"
+                  )}
+                </Button>
+                <Typography variant="body2" align="center">
+                  <Link component={RouterLink} to="/login">
+                    Back to sign in
+                  </Link>
+                </Typography>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
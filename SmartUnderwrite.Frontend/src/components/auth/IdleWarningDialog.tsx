@@ -0,0 +1,52 @@
+import React from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  LinearProgress,
+} from "@mui/material";
+
+interface IdleWarningDialogProps {
+  open: boolean;
+  remainingMs: number;
+  warningMs: number;
+  onStaySignedIn: () => void;
+  onSignOut: () => void;
+}
+
+export const IdleWarningDialog: React.FC<IdleWarningDialogProps> = ({
+  open,
+  remainingMs,
+  warningMs,
+  onStaySignedIn,
+  onSignOut,
+}) => {
+  const seconds = Math.ceil(remainingMs / 1000);
+
+  return (
+    // Closing by backdrop click or Escape would leave the timer running
+    // unnoticed, so only the buttons dismiss the dialog
+    <Dialog open={open} maxWidth="xs" fullWidth>
+      <DialogTitle>Are you still there?</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          You have been inactive for a while. For security you will be signed
+          out in {seconds} second{seconds === 1 ? "" : "s"}.
+        </DialogContentText>
+        <LinearProgress
+          variant="determinate"
+          value={Math.min(100, (remainingMs / warningMs) * 100)}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onSignOut}>Sign out</Button>
+        <Button variant="contained" onClick={onStaySignedIn} autoFocus>
+          Stay signed in
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
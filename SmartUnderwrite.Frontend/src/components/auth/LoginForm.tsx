@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { Link as RouterLink, useLocation } from "react-router-dom";
 import {
   Box,
   Card,
@@ -8,19 +9,56 @@ import {
   Typography,
   Alert,
   CircularProgress,
+  Divider,
+  Link,
 } from "@mui/material";
 import { useAuth } from "@/contexts/AuthContext";
+import { authService } from "@/services/authService";
+import { beginOidcLogin, ReturnLocation } from "@/services/oidc";
+import { queryKeys } from "@/services/queryKeys";
+import { useApiQuery } from "@/hooks/useApiQuery";
 import { LoginRequest } from "@/types/auth";
 import { ApiError } from "@/types/api";
 
+// ProtectedRoute passes the page that required the sign-in; the single
+// sign-on callback passes its MFA challenge
+interface LoginLocationState {
+  from?: ReturnLocation;
+  challengeToken?: string;
+}
+
 export const LoginForm: React.FC = () => {
-  const { login, isLoading } = useAuth();
+  const { login, verifyMfa, isLoading, signOutReason } = useAuth();
+  const location = useLocation();
+  const locationState = location.state as LoginLocationState | null;
   const [formData, setFormData] = useState<LoginRequest>({
     email: "",
     password: "",
   });
   const [error, setError] = useState<string>("");
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Set once the password is accepted and a second factor is needed
+  const [challengeToken, setChallengeToken] = useState<string | null>(
+    locationState?.challengeToken ?? null
+  );
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const { data: oidcProvider } = useApiQuery(
+    queryKeys.auth.oidcProvider(),
+    (signal) => authService.getOidcProvider({ signal })
+  );
+
+  const handleOidcLogin = async () => {
+    if (!oidcProvider) return;
+    setError("");
+
+    try {
+      await beginOidcLogin(oidcProvider, locationState?.from ?? null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -38,7 +76,10 @@ export const LoginForm: React.FC = () => {
     setFieldErrors({});
 
     try {
-      await login(formData);
+      const result = await login(formData);
+      if (result.status === "mfaRequired") {
+        setChallengeToken(result.challengeToken);
+      }
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message);
@@ -53,6 +94,33 @@ export const LoginForm: React.FC = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError("");
+
+    try {
+      await verifyMfa({ challengeToken, code, useRecoveryCode });
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  // The challenge expires after a few minutes; start over with the password
+  const handleStartOver = () => {
+    setChallengeToken(null);
+    setCode("");
+    setUseRecoveryCode(false);
+    setError("");
+    setFormData((prev) => ({ ...prev, password: "" }));
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode((prev) => !prev);
+    setCode("");
+    setError("");
+  };
+
   return (
     <Box
       display="flex"
@@ -82,47 +150,147 @@ export const LoginForm: React.FC = () => {
             </Alert>
           )}
 
-          <Box component="form" onSubmit={handleSubmit} noValidate>
-            <TextField
-              margin="normal"
-              required
-              fullWidth
-              id="email"
-              label="Email Address"
-              name="email"
-              autoComplete="email"
-              autoFocus
-              value={formData.email}
-              onChange={handleChange}
-              error={!!fieldErrors.email}
-              helperText={fieldErrors.email}
-              disabled={isLoading}
-            />
-            <TextField
-              margin="normal"
-              required
-              fullWidth
-              name="password"
-              label="Password"
-              type="password"
-              id="password"
-              autoComplete="current-password"
-              value={formData.password}
-              onChange={handleChange}
-              error={!!fieldErrors.password}
-              helperText={fieldErrors.password}
-              disabled={isLoading}
-            />
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              sx={{ mt: 3, mb: 2 }}
-              disabled={isLoading}
-            >
-              {isLoading ? <CircularProgress size={24} /> : "Sign In"}
-            </Button>
-          </Box>
+          {!error && signOutReason === "idle" && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              You were signed out after a period of inactivity. Sign in again to
+              return to where you left off.
+            </Alert>
+          )}
+
+          {!error && signOutReason === "disabled" && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Your account has been disabled. Contact your administrator if you
+              think this is a mistake.
+            </Alert>
+          )}
+
+          {challengeToken ? (
+            <Box component="form" onSubmit={handleVerify} noValidate>
+              <Typography variant="body2" color="text.secondary">
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you set up two-step verification. Each code works once."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </Typography>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                id="code"
+                label={useRecoveryCode ? "Recovery Code" : "Verification Code"}
+                name="code"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isLoading}
+                slotProps={{
+                  htmlInput: useRecoveryCode
+                    ? {}
+                    : { inputMode: "numeric", maxLength: 7 },
+                }}
+              />
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 2, mb: 2 }}
+                disabled={isLoading || !code.trim()}
+              >
+                {isLoading ? <CircularProgress size={24} /> : "Verify"}
+              </Button>
+              <Box display="flex" justifyContent="space-between">
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={toggleRecoveryCode}
+                >
+                  {useRecoveryCode
+                    ? "Use authenticator app"
+                    : "Use a recovery code"}
+                </Link>
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={handleStartOver}
+                >
+                  Start over
+                </Link>
+              </Box>
+            </Box>
+          ) : (
+            <Box component="form" onSubmit={handleSubmit} noValidate>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                id="email"
+                label="Email Address"
+                name="email"
+                autoComplete="email"
+                autoFocus
+                value={formData.email}
+                onChange={handleChange}
+                error={!!fieldErrors.email}
+                helperText={fieldErrors.email}
+                disabled={isLoading}
+              />
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                name="password"
+                label="Password"
+                type="password"
+                id="password"
+                autoComplete="current-password"
+                value={formData.password}
+                onChange={handleChange}
+                error={!!fieldErrors.password}
+                helperText={fieldErrors.password}
+                disabled={isLoading}
+              />
+              <Box textAlign="right">
+                <Link
+                  component={RouterLink}
+                  to="/forgot-password"
+                  variant="body2"
+                >
+                  Forgot password?
+                </Link>
+              </Box>
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2 }}
+                disabled={isLoading}
+              >
+                {isLoading ? <CircularProgress size={24} /> : "Sign In"}
+              </Button>
+              {oidcProvider?.enabled && (
+                <>
+                  <Divider sx={{ mb: 2 }}>or</Divider>
+                  <Button
+                    fullWidth
+                    variant="outlined"
+                    sx={{ mb: 2 }}
+                    onClick={handleOidcLogin}
+                    disabled={isLoading}
+                  >
+                    Sign in with {oidcProvider.displayName}
+                  </Button>
+                </>
+              )}
+              <Typography variant="body2" align="center">
+                New here?{" "}
+                <Link component={RouterLink} to="/register">
+                  Create an account
+                </Link>
+              </Typography>
+            </Box>
+          )}
         </CardContent>
       </Card>
     </Box>
@@ -0,0 +1,39 @@
+import React from "react";
+import { List, ListItem, ListItemIcon, ListItemText } from "@mui/material";
+import {
+  CheckCircle as MetIcon,
+  RadioButtonUnchecked as UnmetIcon,
+} from "@mui/icons-material";
+import { PASSWORD_RULES } from "@/utils/password";
+
+interface PasswordRequirementsProps {
+  password: string;
+}
+
+export const PasswordRequirements: React.FC<PasswordRequirementsProps> = ({
+  password,
+}) => (
+  <List dense disablePadding>
+    {PASSWORD_RULES.map((rule) => {
+      const met = rule.test(password);
+      return (
+        <ListItem key={rule.label} disableGutters sx={{ py: 0 }}>
+          <ListItemIcon sx={{ minWidth: 28 }}>
+            {met ? (
+              <MetIcon fontSize="small" color="success" />
+            ) : (
+              <UnmetIcon fontSize="small" color="disabled" />
+            )}
+          </ListItemIcon>
+          <ListItemText
+            primary={rule.label}
+            primaryTypographyProps={{
+              variant: "body2",
+              color: met ? "text.primary" : "text.secondary",
+            }}
+          />
+        </ListItem>
+      );
+    })}
+  </List>
+);
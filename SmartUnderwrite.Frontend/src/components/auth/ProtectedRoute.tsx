@@ -1,20 +1,23 @@
 import React from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { PermissionType } from "@/types/auth";
 import { CircularProgress, Box } from "@mui/material";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRoles?: string[];
-  requireAnyRole?: boolean; // If true, user needs ANY of the roles, if false, user needs ALL roles
+  // The user needs any one of the permissions
+  permission?: PermissionType | PermissionType[];
+  // Users whose role requires MFA must have signed in with a second factor
+  requireMfa?: boolean;
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
-  requiredRoles = [],
-  requireAnyRole = true,
+  permission = [],
+  requireMfa = false,
 }) => {
-  const { isAuthenticated, isLoading, hasRole, hasAnyRole } = useAuth();
+  const { user, isAuthenticated, isLoading, hasPermission } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -34,15 +37,16 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // Check role requirements
-  if (requiredRoles.length > 0) {
-    const hasRequiredRoles = requireAnyRole
-      ? hasAnyRole(requiredRoles)
-      : requiredRoles.every((role) => hasRole(role));
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  if (permissions.length > 0 && !permissions.some(hasPermission)) {
+    return <Navigate to="/unauthorized" replace />;
+  }
 
-    if (!hasRequiredRoles) {
-      return <Navigate to="/unauthorized" replace />;
-    }
+  // Enrolling upgrades the session, so the security page sends the user back
+  if (requireMfa && user?.mfaRequired && !user.mfaVerified) {
+    return (
+      <Navigate to="/account/security" state={{ from: location }} replace />
+    );
   }
 
   return <>{children}</>;
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Link,
+} from "@mui/material";
+import { useAuth } from "@/contexts/AuthContext";
+import { PasswordRequirements } from "@/components/auth/PasswordRequirements";
+import { meetsPasswordRequirements } from "@/utils/password";
+import { authService } from "@/services/authService";
+import { InvitationLookup, SignUpRequest } from "@/types/auth";
+import { ApiError } from "@/types/api";
+
+interface RegisterFormProps {
+  // Invitation links carry the code in the query string
+  initialInvitationCode?: string;
+}
+
+export const RegisterForm: React.FC<RegisterFormProps> = ({
+  initialInvitationCode = "",
+}) => {
+  const { signUp } = useAuth();
+  const [formData, setFormData] = useState<SignUpRequest>({
+    email: "",
+    password: "",
+    confirmPassword: "",
+    firstName: "",
+    lastName: "",
+    invitationCode: initialInvitationCode,
+  });
+  const [invitation, setInvitation] = useState<InvitationLookup | null>(null);
+  const [invitationError, setInvitationError] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
+
+  const invitationCode = formData.invitationCode?.trim() ?? "";
+
+  // Looks the code up once typing pauses so the user sees which affiliate
+  // they are joining before submitting
+  useEffect(() => {
+    setInvitation(null);
+    setInvitationError("");
+    if (!invitationCode) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const lookup = await authService.lookupInvitation(invitationCode, {
+          signal: controller.signal,
+        });
+        setInvitation(lookup);
+        if (lookup.email) {
+          setFormData((prev) =>
+            prev.email ? prev : { ...prev, email: lookup.email ?? "" }
+          );
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setInvitationError((err as ApiError).message);
+        }
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [invitationCode]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    // Clear field error when user starts typing
+    if (fieldErrors[name]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: "" }));
+    }
+  };
+
+  const validate = (): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    if (!formData.firstName.trim()) errors.firstName = "First name is required";
+    if (!formData.lastName.trim()) errors.lastName = "Last name is required";
+    if (!formData.email.trim()) errors.email = "Email is required";
+    if (!meetsPasswordRequirements(formData.password)) {
+      errors.password = "Password does not meet the requirements";
+    }
+    if (formData.confirmPassword !== formData.password) {
+      errors.confirmPassword = "Passwords do not match";
+    }
+    return errors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const errors = validate();
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0 || invitationError) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await signUp({
+        ...formData,
+        invitationCode: invitationCode || null,
+      });
+      setRegisteredEmail(response.email);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message);
+
+      if (apiError.errors) {
+        const errors: Record<string, string> = {};
+        Object.entries(apiError.errors).forEach(([field, messages]) => {
+          const name = field.charAt(0).toLowerCase() + field.slice(1);
+          errors[name] = messages[0];
+        });
+        setFieldErrors(errors);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      bgcolor="grey.100"
+    >
+      <Card sx={{ maxWidth: 480, width: "100%", mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h4" component="h1" gutterBottom align="center">
+            SmartUnderwrite
+          </Typography>
+          <Typography
+            variant="h6"
+            component="h2"
+            gutterBottom
+            align="center"
+            color="text.secondary"
+          >
+            Create an Account
+          </Typography>
+
+          {registeredEmail ? (
+            <>
+              <Alert severity="success" sx={{ mb: 2 }}>
+                We sent a confirmation link to {registeredEmail}. Follow it to
+                verify your email address.
+              </Alert>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                An administrator reviews every new account after the address is
+                confirmed. We will email you once you can sign in.
+              </Typography>
+              <Button component={RouterLink} to="/login" fullWidth>
+                Back to sign in
+              </Button>
+            </>
+          ) : (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Box component="form" onSubmit={handleSubmit} noValidate>
+                <TextField
+                  margin="normal"
+                  fullWidth
+                  id="invitationCode"
+                  label="Invitation Code"
+                  name="invitationCode"
+                  value={formData.invitationCode ?? ""}
+                  onChange={handleChange}
+                  error={!!invitationError || !!fieldErrors.invitationCode}
+                  helperText={
+                    invitationError ||
+                    fieldErrors.invitationCode ||
+                    (invitation
+                      ? `You are joining ${invitation.affiliateName}`
+                      : "Affiliate staff: enter the code from your invitation")
+                  }
+                  disabled={isSubmitting}
+                />
+                <Box display="flex" gap={2}>
+                  <TextField
+                    margin="normal"
+                    required
+                    fullWidth
+                    id="firstName"
+                    label="First Name"
+                    name="firstName"
+                    autoComplete="given-name"
+                    value={formData.firstName}
+                    onChange={handleChange}
+                    error={!!fieldErrors.firstName}
+                    helperText={fieldErrors.firstName}
+                    disabled={isSubmitting}
+                  />
+                  <TextField
+                    margin="normal"
+                    required
+                    fullWidth
+                    id="lastName"
+                    label="Last Name"
+                    name="lastName"
+                    autoComplete="family-name"
+                    value={formData.lastName}
+                    onChange={handleChange}
+                    error={!!fieldErrors.lastName}
+                    helperText={fieldErrors.lastName}
+                    disabled={isSubmitting}
+                  />
+                </Box>
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  id="email"
+                  label="Email Address"
+                  name="email"
+                  autoComplete="email"
+                  value={formData.email}
+                  onChange={handleChange}
+                  error={!!fieldErrors.email}
+                  helperText={fieldErrors.email}
+                  disabled={isSubmitting}
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="password"
+                  label="Password"
+                  type="password"
+                  id="password"
+                  autoComplete="new-password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  error={!!fieldErrors.password}
+                  helperText={fieldErrors.password}
+                  disabled={isSubmitting}
+                />
+                <PasswordRequirements password={formData.password} />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="confirmPassword"
+                  label="Confirm Password"
+                  type="password"
+                  id="confirmPassword"
+                  autoComplete="new-password"
+                  value={formData.confirmPassword}
+                  onChange={handleChange}
+                  error={!!fieldErrors.confirmPassword}
+                  helperText={fieldErrors.confirmPassword}
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <CircularProgress size={24} />
+                  ) : (
+                    "Create Account"
+                  )}
+                </Button>
+                <Typography variant="body2" align="center">
+                  Already have an account?{" "}
+                  <Link component={RouterLink} to="/login">
+                    Sign in
+                  </Link>
+                </Typography>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Link,
+} from "@mui/material";
+import { authService } from "@/services/authService";
+import { PasswordRequirements } from "@/components/auth/PasswordRequirements";
+import { meetsPasswordRequirements } from "@/utils/password";
+import { ApiError } from "@/types/api";
+
+interface ResetPasswordFormProps {
+  email: string;
+  token: string;
+}
+
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({
+  email,
+  token,
+}) => {
+  const [formData, setFormData] = useState({
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>(
+    email && token ? "" : "This password reset link is incomplete."
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isReset, setIsReset] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    // Clear field error when user starts typing
+    if (fieldErrors[name]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: "" }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const errors: Record<string, string> = {};
+    if (!meetsPasswordRequirements(formData.newPassword)) {
+      errors.newPassword = "Password does not meet the requirements";
+    }
+    if (formData.confirmPassword !== formData.newPassword) {
+      errors.confirmPassword = "Passwords do not match";
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await authService.resetPassword({ email, token, ...formData });
+      setIsReset(true);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message);
+
+      if (apiError.errors) {
+        const errors: Record<string, string> = {};
+        Object.entries(apiError.errors).forEach(([field, messages]) => {
+          const name = field.charAt(0).toLowerCase() + field.slice(1);
+          errors[name] = messages[0];
+        });
+        setFieldErrors(errors);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      bgcolor="grey.100"
+    >
+      <Card sx={{ maxWidth: 400, width: "100%", mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h4" component="h1" gutterBottom align="center">
+            SmartUnderwrite
+          </Typography>
+          <Typography
+            variant="h6"
+            component="h2"
+            gutterBottom
+            align="center"
+            color="text.secondary"
+          >
+            Choose a New Password
+          </Typography>
+
+          {isReset ? (
+            <>
+              <Alert severity="success" sx={{ mb: 2 }}>
+                Your password has been reset and any other sessions have been
+                signed out. You can now sign in with the new password.
+              </Alert>
+              <Button
+                component={RouterLink}
+                to="/login"
+                variant="contained"
+                fullWidth
+              >
+                Sign in
+              </Button>
+            </>
+          ) : (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {error}{" "}
+                  <Link component={RouterLink} to="/forgot-password">
+                    Request a new link
+                  </Link>
+                </Alert>
+              )}
+
+              <Box component="form" onSubmit={handleSubmit} noValidate>
+                <TextField
+                  margin="normal"
+                  fullWidth
+                  id="email"
+                  label="Email Address"
+                  value={email}
+                  disabled
+                />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="newPassword"
+                  label="New Password"
+                  type="password"
+                  id="newPassword"
+                  autoComplete="new-password"
+                  autoFocus
+                  value={formData.newPassword}
+                  onChange={handleChange}
+                  error={!!fieldErrors.newPassword}
+                  helperText={fieldErrors.newPassword}
+                  disabled={isSubmitting}
+                />
+                <PasswordRequirements password={formData.newPassword} />
+                <TextField
+                  margin="normal"
+                  required
+                  fullWidth
+                  name="confirmPassword"
+                  label="Confirm Password"
+                  type="password"
+                  id="confirmPassword"
+                  autoComplete="new-password"
+                  value={formData.confirmPassword}
+                  onChange={handleChange}
+                  error={!!fieldErrors.confirmPassword}
+                  helperText={fieldErrors.confirmPassword}
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  sx={{ mt: 3, mb: 2 }}
+                  disabled={isSubmitting || !email || !token}
+                >
+                  {isSubmitting ? (
+                    <CircularProgress size={24} />
+                  ) : (
+                    "Reset Password"
+                  )}
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+} from "@mui/material";
+import { ViewColumn as ColumnsIcon } from "@mui/icons-material";
+
+export interface TableColumn<K extends string> {
+  key: K;
+  label: string;
+}
+
+interface ColumnPickerProps<K extends string> {
+  columns: TableColumn<K>[];
+  visible: K[];
+  onChange: (visible: K[]) => void;
+}
+
+// Shows or hides a table's columns; the last visible one cannot be hidden
+export const ColumnPicker = <K extends string>({
+  columns,
+  visible,
+  onChange,
+}: ColumnPickerProps<K>) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const handleToggle = (key: K) => {
+    const next = visible.includes(key)
+      ? visible.filter((column) => column !== key)
+      : [...visible, key];
+    // Kept in table order, whatever order they were picked in
+    onChange(
+      columns
+        .map((column) => column.key)
+        .filter((column) => next.includes(column))
+    );
+  };
+
+  return (
+    <>
+      <Button
+        startIcon={<ColumnsIcon />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+      >
+        Columns
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+      >
+        {columns.map((column) => {
+          const checked = visible.includes(column.key);
+          return (
+            <MenuItem
+              key={column.key}
+              dense
+              onClick={() => handleToggle(column.key)}
+              disabled={checked && visible.length === 1}
+            >
+              <ListItemIcon>
+                <Checkbox
+                  edge="start"
+                  size="small"
+                  checked={checked}
+                  tabIndex={-1}
+                  disableRipple
+                />
+              </ListItemIcon>
+              <ListItemText primary={column.label} />
+            </MenuItem>
+          );
+        })}
+      </Menu>
+    </>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Typography,
+} from "@mui/material";
+import { Download as ExportIcon } from "@mui/icons-material";
+import {
+  ExportColumn,
+  ExportFormat,
+  ExportPii,
+  ExportRequest,
+} from "@/types/export";
+import { Permission } from "@/types/auth";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { usePermission } from "@/hooks/usePermission";
+import { downloadFile } from "@/utils/csv";
+import { exportFileName } from "@/utils/export";
+
+const PII_LABELS: Record<ExportPii, string> = {
+  email: "Mask email addresses",
+  phone: "Mask phone numbers",
+  ssnHash: "Mask SSN hashes",
+};
+
+interface ExportButtonProps {
+  // Names the downloaded file, e.g. applications-20240131-0930.csv
+  list: string;
+  title: string;
+  columns: ExportColumn[];
+  // Ticked when the dialog opens; every column when not given
+  initialColumns?: string[];
+  onExport: (request: ExportRequest) => Promise<Blob>;
+}
+
+/**
+ * Downloads every row matching a list's current filter, not only the page on
+ * screen, in the chosen format and columns. Personal data is masked unless
+ * a user with Permission.PiiExport unticks it.
+ */
+export const ExportButton: React.FC<ExportButtonProps> = ({
+  list,
+  title,
+  columns,
+  initialColumns,
+  onExport,
+}) => {
+  const { error, handleError, clearError } = useErrorHandler();
+  const canUnmask = usePermission(Permission.PiiExport);
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [masked, setMasked] = useState<Record<ExportPii, boolean>>({
+    email: true,
+    phone: true,
+    ssnHash: true,
+  });
+  const [exporting, setExporting] = useState(false);
+
+  // Masking is always back on when the dialog reopens
+  const handleOpen = () => {
+    setSelected(initialColumns ?? columns.map((column) => column.key));
+    setMasked({ email: true, phone: true, ssnHash: true });
+    clearError();
+    setOpen(true);
+  };
+
+  const handleToggle = (key: string) => {
+    const next = selected.includes(key)
+      ? selected.filter((column) => column !== key)
+      : [...selected, key];
+    // Kept in the list's order, whatever order they were picked in
+    setSelected(
+      columns
+        .map((column) => column.key)
+        .filter((column) => next.includes(column))
+    );
+  };
+
+  const selectedPii = columns.flatMap((column) =>
+    column.pii && selected.includes(column.key) ? [column.pii] : []
+  );
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      clearError();
+      const blob = await onExport({
+        format,
+        columns: selected,
+        maskSsnHash: masked.ssnHash,
+        maskPhone: masked.phone,
+        maskEmail: masked.email,
+      });
+      downloadFile(blob, exportFileName(list, format), blob.type);
+      setOpen(false);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button startIcon={<ExportIcon />} onClick={handleOpen}>
+        Export
+      </Button>
+      <Dialog
+        open={open}
+        onClose={() => setOpen(false)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Every row matching the current filters is exported, not only the
+            page on screen. Each export is recorded in the audit log.
+          </Typography>
+
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <Box>
+              <FormLabel>Format</FormLabel>
+              <RadioGroup
+                row
+                value={format}
+                onChange={(event) =>
+                  setFormat(event.target.value as ExportFormat)
+                }
+              >
+                <FormControlLabel value="csv" control={<Radio />} label="CSV" />
+                <FormControlLabel
+                  value="xlsx"
+                  control={<Radio />}
+                  label="Excel (.xlsx)"
+                />
+              </RadioGroup>
+            </Box>
+
+            <Box>
+              <FormLabel>Columns</FormLabel>
+              <FormGroup>
+                {columns.map((column) => {
+                  const checked = selected.includes(column.key);
+                  return (
+                    <FormControlLabel
+                      key={column.key}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={checked}
+                          onChange={() => handleToggle(column.key)}
+                          disabled={checked && selected.length === 1}
+                        />
+                      }
+                      label={column.label}
+                    />
+                  );
+                })}
+              </FormGroup>
+            </Box>
+
+            {canUnmask && selectedPii.length > 0 && (
+              <Box>
+                <FormLabel>Personal data</FormLabel>
+                <FormGroup>
+                  {selectedPii.map((pii) => (
+                    <FormControlLabel
+                      key={pii}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={masked[pii]}
+                          onChange={(event) =>
+                            setMasked((prev) => ({
+                              ...prev,
+                              [pii]: event.target.checked,
+                            }))
+                          }
+                        />
+                      }
+                      label={PII_LABELS[pii]}
+                    />
+                  ))}
+                </FormGroup>
+              </Box>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleExport}
+            disabled={selected.length === 0 || exporting}
+          >
+            {exporting ? "Exporting…" : "Export"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
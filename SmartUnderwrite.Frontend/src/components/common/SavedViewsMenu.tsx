@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import {
+  Bookmarks as ViewsIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+  Star as DefaultIcon,
+  StarBorder as NotDefaultIcon,
+} from "@mui/icons-material";
+import { SavedView, SavedViewList, SaveViewRequest } from "@/types/savedView";
+import { savedViewService } from "@/services/savedViewService";
+import { queryKeys } from "@/services/queryKeys";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+// A view never holds the page number, so it always opens on the first page.
+// Parameters are sorted so the same choices always compare equal.
+const toViewQuery = (params: URLSearchParams) => {
+  const query = new URLSearchParams(params);
+  query.delete("pageNumber");
+  query.sort();
+  return query.toString();
+};
+
+interface SaveViewChoices {
+  name: string;
+  isShared: boolean;
+  makeDefault: boolean;
+}
+
+interface SaveViewDialogProps {
+  open: boolean;
+  views: SavedView[];
+  // The open view, offered for overwriting when it is the user's own
+  current?: SavedView;
+  onClose: () => void;
+  onSave: (choices: SaveViewChoices) => Promise<void>;
+}
+
+const SaveViewDialog: React.FC<SaveViewDialogProps> = ({
+  open,
+  views,
+  current,
+  onClose,
+  onSave,
+}) => {
+  const { error, fieldErrors, handleError, clearError, clearFieldError } =
+    useErrorHandler();
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const own = current?.isOwner ? current : undefined;
+    setName(own?.name ?? "");
+    setIsShared(own?.isShared ?? false);
+    setMakeDefault(own?.isDefault ?? false);
+    clearError();
+  }, [open, current, clearError]);
+
+  const replaces = views.find(
+    (view) =>
+      view.isOwner && view.name.toLowerCase() === name.trim().toLowerCase()
+  );
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await onSave({ name: name.trim(), isShared, makeDefault });
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Save View</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 1, mt: 1 }}>
+          <TextField
+            autoFocus
+            required
+            fullWidth
+            label="Name"
+            value={name}
+            onChange={(event) => {
+              setName(event.target.value);
+              clearFieldError("name");
+            }}
+            error={!!fieldErrors.name}
+            helperText={
+              fieldErrors.name ||
+              (replaces && "Replaces your view with this name") ||
+              "The current filters, sorting, page size and columns"
+            }
+            slotProps={{ htmlInput: { maxLength: 100 } }}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={isShared}
+                onChange={(event) => setIsShared(event.target.checked)}
+              />
+            }
+            label="Share with my team"
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={makeDefault}
+                onChange={(event) => setMakeDefault(event.target.checked)}
+              />
+            }
+            label="Open the list with this view"
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!name.trim() || saving}
+        >
+          {replaces ? "Replace" : "Save"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface SavedViewsMenuProps {
+  list: SavedViewList;
+}
+
+/**
+ * Saves and reopens a list's query string: its filters, sorting, page size
+ * and columns, as kept there by useUrlFilter. Opening the list without any
+ * query applies the user's default view.
+ */
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ list }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { error, handleError, clearError } = useErrorHandler();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  // The view open when the dialog was, so refetching cannot reset the form;
+  // null while the dialog is closed
+  const [dialogView, setDialogView] = useState<SavedView | undefined | null>(
+    null
+  );
+  const defaultApplied = useRef(false);
+
+  const { data: views } = useApiQuery(
+    queryKeys.savedViews.list(list),
+    (signal) => savedViewService.getSavedViews(list, { signal })
+  );
+
+  const invalidates = [queryKeys.savedViews.list(list)];
+  const remove = useApiMutation(
+    (id: number) => savedViewService.deleteSavedView(id),
+    { invalidates }
+  );
+  const toggleDefault = useApiMutation(
+    (view: SavedView) =>
+      view.isDefault
+        ? savedViewService.clearDefaultView(view.id)
+        : savedViewService.setDefaultView(view.id),
+    { invalidates }
+  );
+  const save = useApiMutation(
+    async ({
+      request,
+      replaces,
+      makeDefault,
+    }: {
+      request: SaveViewRequest;
+      replaces?: SavedView;
+      makeDefault: boolean;
+    }) => {
+      const view = replaces
+        ? await savedViewService.updateSavedView(replaces.id, request)
+        : await savedViewService.createSavedView(list, request);
+      if (makeDefault !== view.isDefault) {
+        await (makeDefault
+          ? savedViewService.setDefaultView(view.id)
+          : savedViewService.clearDefaultView(view.id));
+      }
+    },
+    { invalidates }
+  );
+
+  const query = toViewQuery(searchParams);
+  const current = views?.find(
+    (view) => toViewQuery(new URLSearchParams(view.query)) === query
+  );
+  const ownViews = views?.filter((view) => view.isOwner) ?? [];
+  const sharedViews = views?.filter((view) => !view.isOwner) ?? [];
+
+  // Only once, so clearing every filter afterwards does not bring it back
+  useEffect(() => {
+    if (!views || defaultApplied.current) return;
+    defaultApplied.current = true;
+    const defaultView = views.find((view) => view.isDefault);
+    if (defaultView && searchParams.toString() === "") {
+      setSearchParams(new URLSearchParams(defaultView.query), {
+        replace: true,
+      });
+    }
+  }, [views, searchParams, setSearchParams]);
+
+  const handleOpen = (view: SavedView) => {
+    setSearchParams(new URLSearchParams(view.query));
+    setAnchorEl(null);
+  };
+
+  const handleAction =
+    (action: () => Promise<unknown>) => async (event: React.MouseEvent) => {
+      event.stopPropagation();
+      try {
+        clearError();
+        await action();
+      } catch (err) {
+        handleError(err);
+      }
+    };
+
+  const handleSave = async ({
+    name,
+    isShared,
+    makeDefault,
+  }: SaveViewChoices) => {
+    const replaces = ownViews.find(
+      (view) => view.name.toLowerCase() === name.toLowerCase()
+    );
+    await save.mutate({
+      request: { name, query, isShared },
+      replaces,
+      makeDefault,
+    });
+    setDialogView(null);
+  };
+
+  const renderView = (view: SavedView) => (
+    <MenuItem
+      key={view.id}
+      selected={view.id === current?.id}
+      onClick={() => handleOpen(view)}
+    >
+      <ListItemText
+        primary={view.name}
+        secondary={
+          view.isOwner
+            ? view.isShared
+              ? "Shared with your team"
+              : undefined
+            : `Shared by ${view.ownerName}`
+        }
+        sx={{ mr: 2 }}
+      />
+      <Tooltip title={view.isDefault ? "Opened by default" : "Open by default"}>
+        <IconButton
+          size="small"
+          onClick={handleAction(() => toggleDefault.mutate(view))}
+          disabled={toggleDefault.isPending}
+        >
+          {view.isDefault ? (
+            <DefaultIcon fontSize="small" color="warning" />
+          ) : (
+            <NotDefaultIcon fontSize="small" />
+          )}
+        </IconButton>
+      </Tooltip>
+      {view.isOwner && (
+        <Tooltip title="Delete View">
+          <IconButton
+            size="small"
+            onClick={handleAction(() => remove.mutate(view.id))}
+            disabled={remove.isPending}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+    </MenuItem>
+  );
+
+  return (
+    <>
+      <Button
+        startIcon={<ViewsIcon />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+      >
+        {current ? current.name : "Views"}
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+        slotProps={{ list: { dense: true, sx: { minWidth: 280 } } }}
+      >
+        {error && (
+          <Alert severity="error" sx={{ mx: 1, mb: 1 }}>
+            {error}
+          </Alert>
+        )}
+        {ownViews.length > 0 && <ListSubheader>My Views</ListSubheader>}
+        {ownViews.map(renderView)}
+        {sharedViews.length > 0 && (
+          <ListSubheader>Shared With Me</ListSubheader>
+        )}
+        {sharedViews.map(renderView)}
+        {views?.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary="No saved views yet" />
+          </MenuItem>
+        )}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            setDialogView(current);
+          }}
+        >
+          <SaveIcon fontSize="small" sx={{ mr: 1 }} />
+          Save Current View…
+        </MenuItem>
+      </Menu>
+      <SaveViewDialog
+        open={dialogView !== null}
+        views={views ?? []}
+        current={dialogView ?? undefined}
+        onClose={() => setDialogView(null)}
+        onSave={handleSave}
+      />
+    </>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React from "react";
 import {
   Box,
   Paper,
@@ -29,12 +29,18 @@ import {
   DecisionResponse,
   DecisionOutcome,
   DecisionFilter,
-  DecisionSummary,
 } from "@/types/decision";
 import { PagedResult } from "@/types/api";
+import { ExportColumn } from "@/types/export";
 import { decisionService } from "@/services/decisionService";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
-import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { ColumnPicker, TableColumn } from "@/components/common/ColumnPicker";
+import { ExportButton } from "@/components/common/ExportButton";
+import { SavedViewsMenu } from "@/components/common/SavedViewsMenu";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useUrlFilter } from "@/hooks/useUrlFilter";
+import { queryKeys } from "@/services/queryKeys";
+import { ParamSchema, param } from "@/utils/queryParams";
 
 const outcomeColors: Record<
   DecisionOutcome,
@@ -45,44 +51,92 @@ const outcomeColors: Record<
   [DecisionOutcome.ManualReview]: "warning",
 };
 
+const PAGE_SIZES = [5, 10, 25, 50];
+
+type DecisionColumn =
+  | "id"
+  | "applicationId"
+  | "outcome"
+  | "score"
+  | "type"
+  | "decidedBy"
+  | "decidedAt";
+
+const COLUMNS: TableColumn<DecisionColumn>[] = [
+  { key: "id", label: "Decision ID" },
+  { key: "applicationId", label: "Application ID" },
+  { key: "outcome", label: "Outcome" },
+  { key: "score", label: "Score" },
+  { key: "type", label: "Type" },
+  { key: "decidedBy", label: "Decided By" },
+  { key: "decidedAt", label: "Date" },
+];
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  ...COLUMNS,
+  { key: "reasons", label: "Reasons" },
+];
+
+interface ColumnChoice {
+  columns: DecisionColumn[];
+}
+
+const COLUMN_PARAMS: ParamSchema<ColumnChoice> = {
+  columns: param.list(param.oneOf(COLUMNS.map((column) => column.key))),
+};
+
+const DEFAULT_COLUMNS: ColumnChoice = {
+  columns: COLUMNS.map((column) => column.key),
+};
+
+const FILTER_PARAMS: ParamSchema<DecisionFilter> = {
+  outcome: param.oneOf(Object.values(DecisionOutcome)),
+  isManual: param.boolean,
+  fromDate: param.date,
+  toDate: param.date,
+  pageNumber: param.integer(1),
+  pageSize: param.oneOf(PAGE_SIZES),
+};
+
+const DEFAULT_FILTER: DecisionFilter = { pageNumber: 1, pageSize: 10 };
+
+const emptyPage: PagedResult<DecisionResponse> = {
+  items: [],
+  totalCount: 0,
+  page: 1,
+  pageSize: 10,
+  totalPages: 0,
+  hasNextPage: false,
+  hasPreviousPage: false,
+};
+
 export const DecisionList: React.FC = () => {
   const navigate = useNavigate();
-  const { error, handleError, clearError } = useErrorHandler();
+  const [filter, setFilter] = useUrlFilter(FILTER_PARAMS, DEFAULT_FILTER);
+  const [{ columns }, setColumns] = useUrlFilter(
+    COLUMN_PARAMS,
+    DEFAULT_COLUMNS
+  );
+  const shown = (column: DecisionColumn) => columns.includes(column);
 
-  const [decisions, setDecisions] = useState<PagedResult<DecisionResponse>>({
-    items: [],
-    totalCount: 0,
-    pageNumber: 1,
-    pageSize: 10,
-    totalPages: 0,
-  });
-  const [summary, setSummary] = useState<DecisionSummary | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<DecisionFilter>({
-    pageNumber: 1,
-    pageSize: 10,
-  });
+  const decisionsQuery = useApiQuery(
+    queryKeys.decisions.list(filter),
+    (signal) => decisionService.getDecisions(filter, { signal }),
+    { keepPreviousData: true }
+  );
+  const summaryQuery = useApiQuery(queryKeys.decisions.summary(), (signal) =>
+    decisionService.getDecisionSummary({ signal })
+  );
 
-  const loadDecisions = async () => {
-    try {
-      setLoading(true);
-      clearError();
-      const [decisionsResult, summaryResult] = await Promise.all([
-        decisionService.getDecisions(filter),
-        decisionService.getDecisionSummary(),
-      ]);
-      setDecisions(decisionsResult);
-      setSummary(summaryResult);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const decisions = decisionsQuery.data ?? emptyPage;
+  const summary = summaryQuery.data;
+  const loading = decisionsQuery.isLoading;
+  const error = decisionsQuery.error ?? summaryQuery.error;
 
-  useEffect(() => {
-    loadDecisions();
-  }, [filter]);
+  const loadDecisions = () => {
+    decisionsQuery.refetch();
+    summaryQuery.refetch();
+  };
 
   const handlePageChange = (event: unknown, newPage: number) => {
     setFilter((prev) => ({ ...prev, pageNumber: newPage + 1 }));
@@ -142,8 +196,24 @@ export const DecisionList: React.FC = () => {
         <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
           Decision History
         </Typography>
+        <SavedViewsMenu list="decisions" />
+        <ColumnPicker
+          columns={COLUMNS}
+          visible={columns}
+          onChange={(visible) => setColumns({ columns: visible })}
+        />
+        <ExportButton
+          list="decisions"
+          title="Export Decisions"
+          columns={EXPORT_COLUMNS}
+          initialColumns={columns}
+          onExport={(request) =>
+            decisionService.exportDecisions(filter, request)
+          }
+        />
         <Button
           variant="contained"
+          sx={{ ml: 1 }}
           startIcon={<DecisionIcon />}
           onClick={handleMakeDecisions}
         >
@@ -245,7 +315,7 @@ export const DecisionList: React.FC = () => {
             variant="outlined"
             startIcon={<SearchIcon />}
             onClick={loadDecisions}
-            disabled={loading}
+            disabled={decisionsQuery.isFetching}
           >
             Refresh
           </Button>
@@ -261,7 +331,7 @@ export const DecisionList: React.FC = () => {
             color: "error.contrastText",
           }}
         >
-          <Typography>{error}</Typography>
+          <Typography>{error.message}</Typography>
         </Paper>
       )}
 
@@ -269,43 +339,49 @@ export const DecisionList: React.FC = () => {
         <Table>
           <TableHead>
             <TableRow>
-              <TableCell>Decision ID</TableCell>
-              <TableCell>Application ID</TableCell>
-              <TableCell>Outcome</TableCell>
-              <TableCell>Score</TableCell>
-              <TableCell>Type</TableCell>
-              <TableCell>Decided By</TableCell>
-              <TableCell>Date</TableCell>
+              {COLUMNS.filter((column) => shown(column.key)).map((column) => (
+                <TableCell key={column.key}>{column.label}</TableCell>
+              ))}
               <TableCell>Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {decisions.items.map((decision) => (
               <TableRow key={decision.id} hover>
-                <TableCell>{decision.id}</TableCell>
-                <TableCell>{decision.applicationId}</TableCell>
-                <TableCell>
-                  <Chip
-                    label={decision.outcome}
-                    color={outcomeColors[decision.outcome]}
-                    size="small"
-                  />
-                </TableCell>
-                <TableCell>{decision.score}</TableCell>
-                <TableCell>
-                  <Chip
-                    label={decision.isManual ? "Manual" : "Automated"}
-                    variant={decision.isManual ? "filled" : "outlined"}
-                    size="small"
-                  />
-                </TableCell>
-                <TableCell>{decision.decidedByUser}</TableCell>
-                <TableCell>{formatDate(decision.decidedAt)}</TableCell>
+                {shown("id") && <TableCell>{decision.id}</TableCell>}
+                {shown("applicationId") && (
+                  <TableCell>{decision.loanApplicationId}</TableCell>
+                )}
+                {shown("outcome") && (
+                  <TableCell>
+                    <Chip
+                      label={decision.outcome}
+                      color={outcomeColors[decision.outcome]}
+                      size="small"
+                    />
+                  </TableCell>
+                )}
+                {shown("score") && <TableCell>{decision.score}</TableCell>}
+                {shown("type") && (
+                  <TableCell>
+                    <Chip
+                      label={decision.isAutomated ? "Automated" : "Manual"}
+                      variant={decision.isAutomated ? "outlined" : "filled"}
+                      size="small"
+                    />
+                  </TableCell>
+                )}
+                {shown("decidedBy") && (
+                  <TableCell>{decision.decidedByUserName}</TableCell>
+                )}
+                {shown("decidedAt") && (
+                  <TableCell>{formatDate(decision.decidedAt)}</TableCell>
+                )}
                 <TableCell>
                   <IconButton
                     size="small"
                     onClick={() =>
-                      handleViewApplication(decision.applicationId)
+                      handleViewApplication(decision.loanApplicationId)
                     }
                     title="View Application"
                   >
@@ -322,11 +398,11 @@ export const DecisionList: React.FC = () => {
           </Box>
         )}
         <TablePagination
-          rowsPerPageOptions={[5, 10, 25, 50]}
+          rowsPerPageOptions={PAGE_SIZES}
           component="div"
           count={decisions.totalCount}
           rowsPerPage={decisions.pageSize}
-          page={decisions.pageNumber - 1}
+          page={decisions.page - 1}
           onPageChange={handlePageChange}
           onRowsPerPageChange={handleRowsPerPageChange}
         />
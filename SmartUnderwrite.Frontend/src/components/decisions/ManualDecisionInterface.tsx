@@ -21,14 +21,22 @@ import {
   HourglassEmpty as ReviewIcon,
   Save as SaveIcon,
 } from "@mui/icons-material";
-import { LoanApplication, ApplicationStatus } from "@/types/application";
+import {
+  LoanApplication,
+  ApplicationStatus,
+  Decision,
+} from "@/types/application";
 import { DecisionRequest, DecisionOutcome } from "@/types/decision";
+import { HIGH_VALUE_AMOUNT, Permission } from "@/types/auth";
 import { decisionService } from "@/services/decisionService";
+import { usePermission } from "@/hooks/usePermission";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { queryKeys } from "@/services/queryKeys";
 
 interface ManualDecisionInterfaceProps {
   application: LoanApplication;
-  onDecisionMade?: (application: LoanApplication) => void;
+  onDecisionMade?: (decision: Decision) => void;
 }
 
 const commonReasons = {
@@ -63,6 +71,7 @@ const statusColors: Record<
   "default" | "primary" | "secondary" | "error" | "info" | "success" | "warning"
 > = {
   [ApplicationStatus.Submitted]: "info",
+  [ApplicationStatus.InReview]: "info",
   [ApplicationStatus.Evaluated]: "primary",
   [ApplicationStatus.Approved]: "success",
   [ApplicationStatus.Rejected]: "error",
@@ -73,7 +82,14 @@ export const ManualDecisionInterface: React.FC<
   ManualDecisionInterfaceProps
 > = ({ application, onDecisionMade }) => {
   const { error, handleError, clearError } = useErrorHandler();
-  const [submitting, setSubmitting] = useState(false);
+  const submit = useApiMutation(
+    (request: DecisionRequest) => decisionService.makeDecision(request),
+    { invalidates: [queryKeys.applications.all, queryKeys.decisions.all] }
+  );
+  const submitting = submit.isPending;
+  const canApprove =
+    usePermission(Permission.DecisionsApproveHighValue) ||
+    application.amount < HIGH_VALUE_AMOUNT;
   const [decision, setDecision] = useState<{
     outcome: DecisionOutcome | "";
     reasons: string[];
@@ -117,7 +133,6 @@ export const ManualDecisionInterface: React.FC<
     }
 
     try {
-      setSubmitting(true);
       clearError();
 
       const request: DecisionRequest = {
@@ -127,15 +142,13 @@ export const ManualDecisionInterface: React.FC<
         notes: decision.notes || undefined,
       };
 
-      const updatedApplication = await decisionService.makeDecision(request);
+      const result = await submit.mutate(request);
 
       if (onDecisionMade) {
-        onDecisionMade(updatedApplication);
+        onDecisionMade(result);
       }
     } catch (err) {
       handleError(err);
-    } finally {
-      setSubmitting(false);
     }
   };
 
@@ -255,6 +268,7 @@ export const ManualDecisionInterface: React.FC<
               color="success"
               startIcon={<ApproveIcon />}
               onClick={() => handleOutcomeChange(DecisionOutcome.Approve)}
+              disabled={!canApprove}
             >
               Approve
             </Button>
@@ -283,6 +297,12 @@ export const ManualDecisionInterface: React.FC<
               Needs Review
             </Button>
           </Box>
+          {!canApprove && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              Approving applications of {formatCurrency(HIGH_VALUE_AMOUNT)} or
+              more needs a senior approver. Mark it for review instead.
+            </Typography>
+          )}
         </Box>
 
         {/* Reasons Selection */}
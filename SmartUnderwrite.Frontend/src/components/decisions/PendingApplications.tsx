@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import {
   Box,
   Paper,
@@ -16,65 +16,58 @@ import {
   Gavel as DecisionIcon,
 } from "@mui/icons-material";
 import { useNavigate } from "react-router-dom";
-import { LoanApplication } from "@/types/application";
+import { LoanApplication, Decision } from "@/types/application";
 import { PagedResult } from "@/types/api";
 import { decisionService } from "@/services/decisionService";
 import { ManualDecisionInterface } from "./ManualDecisionInterface";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
-import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { queryCache } from "@/services/queryCache";
+import { queryKeys } from "@/services/queryKeys";
+
+const emptyPage: PagedResult<LoanApplication> = {
+  items: [],
+  totalCount: 0,
+  page: 1,
+  pageSize: 10,
+  totalPages: 0,
+  hasNextPage: false,
+  hasPreviousPage: false,
+};
 
 export const PendingApplications: React.FC = () => {
   const navigate = useNavigate();
-  const { error, handleError, clearError } = useErrorHandler();
-
-  const [applications, setApplications] = useState<
-    PagedResult<LoanApplication>
-  >({
-    items: [],
-    totalCount: 0,
-    pageNumber: 1,
-    pageSize: 10,
-    totalPages: 0,
-  });
-  const [loading, setLoading] = useState(true);
   const [selectedApplication, setSelectedApplication] =
     useState<LoanApplication | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
 
-  const loadPendingApplications = async () => {
-    try {
-      setLoading(true);
-      clearError();
-      const result = await decisionService.getPendingApplications();
-      setApplications(result);
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadPendingApplications();
-  }, []);
+  const {
+    data: applications = emptyPage,
+    error,
+    isLoading: loading,
+  } = useApiQuery(queryKeys.applications.pending(), (signal) =>
+    decisionService.getPendingApplications({ signal })
+  );
 
   const handleSelectApplication = (application: LoanApplication) => {
     setSelectedApplication(application);
   };
 
-  const handleDecisionMade = (updatedApplication: LoanApplication) => {
-    // Remove the application from the pending list
-    setApplications((prev) => ({
-      ...prev,
-      items: prev.items.filter((app) => app.id !== updatedApplication.id),
-      totalCount: prev.totalCount - 1,
-    }));
+  const handleDecisionMade = (decision: Decision) => {
+    // Remove the application from the pending list until the refetch lands
+    queryCache.setData<PagedResult<LoanApplication>>(
+      queryKeys.applications.pending(),
+      (prev = emptyPage) => ({
+        ...prev,
+        items: prev.items.filter(
+          (app) => app.id !== decision.loanApplicationId
+        ),
+        totalCount: prev.totalCount - 1,
+      })
+    );
 
     // Clear selection
     setSelectedApplication(null);
-
-    // Show success message
-    clearError();
   };
 
   const handleBackToList = () => {
@@ -129,7 +122,7 @@ export const PendingApplications: React.FC = () => {
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {error}
+          {error.message}
         </Alert>
       )}
 
@@ -34,10 +34,14 @@ import {
   AdminPanelSettings,
   Business,
   History,
+  PersonAdd,
+  Security,
+  Devices,
 } from "@mui/icons-material";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { UserRole } from "@/types/auth";
+import { Permission, PermissionType } from "@/types/auth";
+import { ImpersonationBanner } from "@/components/layout/ImpersonationBanner";
 
 const drawerWidth = 240;
 
@@ -49,7 +53,7 @@ interface NavigationItem {
   text: string;
   icon: React.ReactElement;
   path: string;
-  roles?: string[];
+  permission?: PermissionType;
 }
 
 const navigationItems: NavigationItem[] = [
@@ -67,32 +71,38 @@ const navigationItems: NavigationItem[] = [
     text: "Decisions",
     icon: <Gavel />,
     path: "/decisions",
-    roles: [UserRole.Underwriter, UserRole.Admin],
+    permission: Permission.DecisionsView,
   },
   {
     text: "Rules",
     icon: <Settings />,
     path: "/admin/rules",
-    roles: [UserRole.Admin],
+    permission: Permission.RulesView,
   },
   {
     text: "Affiliates",
     icon: <Business />,
     path: "/admin/affiliates",
-    roles: [UserRole.Admin],
+    permission: Permission.AffiliatesManage,
+  },
+  {
+    text: "Registrations",
+    icon: <PersonAdd />,
+    path: "/admin/registrations",
+    permission: Permission.UsersManage,
   },
   {
     text: "Audit Logs",
     icon: <History />,
     path: "/admin/audit",
-    roles: [UserRole.Admin],
+    permission: Permission.AuditView,
   },
 ];
 
 export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const [mobileOpen, setMobileOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
-  const { user, logout, hasAnyRole } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const theme = useTheme();
@@ -115,14 +125,24 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     navigate("/login");
   };
 
+  const handleSecurity = () => {
+    handleProfileMenuClose();
+    navigate("/account/security");
+  };
+
+  const handleSessions = () => {
+    handleProfileMenuClose();
+    navigate("/account/sessions");
+  };
+
   const handleNavigation = (path: string) => {
     navigate(path);
     setMobileOpen(false);
   };
 
   const filteredNavigationItems = navigationItems.filter((item) => {
-    if (!item.roles) return true;
-    return hasAnyRole(item.roles);
+    if (!item.permission) return true;
+    return hasPermission(item.permission);
   });
 
   const drawer = (
@@ -384,6 +404,7 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         }}
       >
         <Toolbar />
+        <ImpersonationBanner />
         {children}
       </Box>
       <Menu
@@ -400,6 +421,18 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           horizontal: "right",
         }}
       >
+        <MenuItem onClick={handleSecurity}>
+          <ListItemIcon>
+            <Security fontSize="small" />
+          </ListItemIcon>
+          Account Security
+        </MenuItem>
+        <MenuItem onClick={handleSessions}>
+          <ListItemIcon>
+            <Devices fontSize="small" />
+          </ListItemIcon>
+          My Sessions
+        </MenuItem>
         <MenuItem onClick={handleLogout}>
           <ListItemIcon>
             <Logout fontSize="small" />
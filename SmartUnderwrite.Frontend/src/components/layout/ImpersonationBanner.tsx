@@ -0,0 +1,50 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Alert, Button } from "@mui/material";
+import { Visibility as ViewAsIcon } from "@mui/icons-material";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Shown on every page while an admin views the app as another user
+export const ImpersonationBanner: React.FC = () => {
+  const { user, impersonation, stopImpersonating } = useAuth();
+  const navigate = useNavigate();
+  const [isReturning, setIsReturning] = useState(false);
+
+  if (!user?.impersonator || !impersonation) return null;
+
+  const handleReturn = async () => {
+    const { returnTo } = impersonation;
+    setIsReturning(true);
+    try {
+      await stopImpersonating();
+      navigate(returnTo);
+    } finally {
+      setIsReturning(false);
+    }
+  };
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<ViewAsIcon />}
+      sx={{ mb: 3 }}
+      action={
+        <Button
+          color="inherit"
+          size="small"
+          onClick={handleReturn}
+          disabled={isReturning}
+        >
+          Return to my account
+        </Button>
+      }
+    >
+      Viewing as{" "}
+      <strong>
+        {user.firstName} {user.lastName}
+      </strong>{" "}
+      ({user.email}). Changes are blocked. This view ends at{" "}
+      {new Date(impersonation.expiresAt).toLocaleTimeString()}.
+    </Alert>
+  );
+};
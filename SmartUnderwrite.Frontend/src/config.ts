@@ -0,0 +1,73 @@
+/**
+ * Runtime configuration read from Vite environment variables.
+ */
+
+import { UserRole, UserRoleType } from "@/types/auth";
+
+export type ResponseValidationMode = "strict" | "warn" | "off";
+
+const RESPONSE_VALIDATION_MODES: ResponseValidationMode[] = [
+  "strict",
+  "warn",
+  "off",
+];
+
+const parseResponseValidation = (
+  value: string | undefined
+): ResponseValidationMode => {
+  if (RESPONSE_VALIDATION_MODES.includes(value as ResponseValidationMode)) {
+    return value as ResponseValidationMode;
+  }
+  // Fail loudly while developing, but never break a production page over a
+  // field the UI may not even read.
+  return import.meta.env.PROD ? "warn" : "strict";
+};
+
+export type TokenStorage = "memory" | "localStorage";
+
+const parseTokenStorage = (value: string | undefined): TokenStorage =>
+  value === "localStorage" ? "localStorage" : "memory";
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+export const config = {
+  // See services/sessionStore.ts
+  tokenStorage: parseTokenStorage(import.meta.env.VITE_TOKEN_STORAGE),
+  responseValidation: parseResponseValidation(
+    import.meta.env.VITE_RESPONSE_VALIDATION
+  ),
+  // Default policy for retrying transient failures (see services/retry.ts)
+  retry: {
+    maxRetries: parseNumber(import.meta.env.VITE_API_MAX_RETRIES, 3),
+    baseDelayMs: parseNumber(import.meta.env.VITE_API_RETRY_BASE_DELAY_MS, 500),
+    maxDelayMs: 10 * 1000,
+  },
+  // Inactivity before an automatic sign-out. Users with several roles get
+  // the shortest timeout among them.
+  idle: {
+    timeoutMinutes: {
+      [UserRole.Admin]: parseNumber(
+        import.meta.env.VITE_IDLE_TIMEOUT_ADMIN_MINUTES,
+        15
+      ),
+      [UserRole.Underwriter]: parseNumber(
+        import.meta.env.VITE_IDLE_TIMEOUT_UNDERWRITER_MINUTES,
+        15
+      ),
+      [UserRole.Affiliate]: parseNumber(
+        import.meta.env.VITE_IDLE_TIMEOUT_AFFILIATE_MINUTES,
+        30
+      ),
+    } as Record<UserRoleType, number>,
+    // Length of the countdown shown before signing out
+    warningSeconds: 60,
+  },
+  // How often the signed-in user is re-read from /api/auth/me, so role
+  // changes and disabled accounts take effect without a new login
+  userRevalidationMinutes: 5,
+};
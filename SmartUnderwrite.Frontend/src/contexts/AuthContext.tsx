@@ -3,17 +3,58 @@ import React, {
   useContext,
   useReducer,
   useEffect,
+  useCallback,
+  useState,
   ReactNode,
 } from "react";
-import { User, AuthState, LoginRequest, RegisterRequest } from "@/types/auth";
+import {
+  User,
+  AuthState,
+  LoginRequest,
+  LoginResponse,
+  LoginResult,
+  MfaLoginRequest,
+  OidcLoginRequest,
+  PermissionType,
+  SignOutReason,
+  SignUpRequest,
+  SignUpResponse,
+  StartImpersonationRequest,
+  UserRoleType,
+} from "@/types/auth";
+import { ApiError } from "@/types/api";
 import { authService } from "@/services/authService";
+import { isCancelledRequest } from "@/services/apiClient";
+import { queryCache } from "@/services/queryCache";
+import { sessionChannel } from "@/services/sessionChannel";
+import { useIdleTimer } from "@/hooks/useIdleTimer";
+import { IdleWarningDialog } from "@/components/auth/IdleWarningDialog";
+import { config } from "@/config";
 
 interface AuthContextType extends AuthState {
-  login: (credentials: LoginRequest) => Promise<void>;
-  register: (userData: RegisterRequest) => Promise<void>;
+  login: (credentials: LoginRequest) => Promise<LoginResult>;
+  verifyMfa: (request: MfaLoginRequest) => Promise<void>;
+  loginWithOidc: (request: OidcLoginRequest) => Promise<LoginResult>;
+  enableMfa: (code: string) => Promise<string[]>;
+  disableMfa: (code: string) => Promise<void>;
+  signUp: (request: SignUpRequest) => Promise<SignUpResponse>;
   logout: () => Promise<void>;
+  // Set while an admin views the app as another user in this tab
+  impersonation: Impersonation | null;
+  impersonate: (
+    request: StartImpersonationRequest,
+    returnTo: string
+  ) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
   hasRole: (role: string) => boolean;
   hasAnyRole: (roles: string[]) => boolean;
+  hasPermission: (permission: PermissionType) => boolean;
+}
+
+interface Impersonation {
+  expiresAt: string;
+  // Where the admin started from, to go back to afterwards
+  returnTo: string;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -21,9 +62,9 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 type AuthAction =
   | { type: "SET_LOADING"; payload: boolean }
   | { type: "SET_USER"; payload: { user: User; token: string } }
-  | { type: "CLEAR_USER" }
+  | { type: "CLEAR_USER"; payload?: { reason: SignOutReason } }
   | {
-      type: "INITIALIZE";
+      type: "INITIALIZE" | "SYNC_SESSION";
       payload: { user: User | null; token: string | null };
     };
 
@@ -38,6 +79,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         token: action.payload.token,
         isAuthenticated: true,
         isLoading: false,
+        signOutReason: null,
       };
     case "CLEAR_USER":
       return {
@@ -45,9 +87,12 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         token: null,
         isAuthenticated: false,
         isLoading: false,
+        signOutReason: action.payload?.reason ?? null,
       };
     case "INITIALIZE":
+    case "SYNC_SESSION":
       return {
+        ...state,
         user: action.payload.user,
         token: action.payload.token,
         isAuthenticated: !!(action.payload.user && action.payload.token),
@@ -63,6 +108,25 @@ const initialState: AuthState = {
   token: null,
   isAuthenticated: false,
   isLoading: true,
+  signOutReason: null,
+};
+
+const IDLE_WARNING_MS = config.idle.warningSeconds * 1000;
+
+const USER_REVALIDATION_MS = config.userRevalidationMinutes * 60 * 1000;
+
+// /auth/me answers 403 for unapproved users and deactivated affiliates
+const isAccountDisabled = (error: unknown): boolean =>
+  (error as ApiError | undefined)?.statusCode === 403;
+
+// The strictest timeout among the user's roles applies; unknown roles fall
+// back to the strictest one configured
+const getIdleTimeoutMs = (user: User | null): number => {
+  const minutes = (user?.roles ?? [])
+    .map((role) => config.idle.timeoutMinutes[role as UserRoleType])
+    .filter((value) => value !== undefined);
+  const fallback = Object.values(config.idle.timeoutMinutes);
+  return Math.min(...(minutes.length > 0 ? minutes : fallback)) * 60 * 1000;
 };
 
 interface AuthProviderProps {
@@ -71,73 +135,265 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(
+    null
+  );
+
+  const endSession = useCallback(
+    async (reason?: SignOutReason): Promise<void> => {
+      dispatch({ type: "SET_LOADING", payload: true });
+      try {
+        await authService.logout(reason);
+      } finally {
+        // Cached responses belong to the user who is signing out
+        queryCache.clear();
+        setImpersonation(null);
+        dispatch({
+          type: "CLEAR_USER",
+          payload: reason ? { reason } : undefined,
+        });
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    // The server, not the stored copy, decides who is signed in and with
+    // which roles
+    const controller = new AbortController();
+    authService.restoreSession({ signal: controller.signal }).then(
+      (user) => {
+        dispatch({
+          type: "INITIALIZE",
+          payload: { user, token: authService.getToken() },
+        });
+      },
+      (error) => {
+        if (isCancelledRequest(error)) return;
+        if (isAccountDisabled(error)) {
+          endSession("disabled");
+          return;
+        }
+        // API unreachable: continue with the stored user until the next check
+        dispatch({
+          type: "INITIALIZE",
+          payload: {
+            user: authService.getCurrentUser(),
+            token: authService.getToken(),
+          },
+        });
+      }
+    );
+    return () => controller.abort();
+  }, [endSession]);
 
   useEffect(() => {
-    // Initialize auth state from localStorage
-    const user = authService.getCurrentUser();
-    const token = authService.getToken();
+    // Pick up role changes and disabled accounts during long sessions
+    if (!state.isAuthenticated) return;
 
+    const controller = new AbortController();
+    const timer = setInterval(() => {
+      authService.getMe({ signal: controller.signal }).then(
+        (user) => {
+          dispatch({
+            type: "SYNC_SESSION",
+            payload: { user, token: authService.getToken() },
+          });
+        },
+        (error) => {
+          if (isAccountDisabled(error)) {
+            endSession("disabled");
+          }
+          // Anything else is retried at the next interval
+        }
+      );
+    }, USER_REVALIDATION_MS);
+
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [state.isAuthenticated, endSession]);
+
+  useEffect(() => {
+    // Mirror logins, logouts and refreshes made in other tabs. A logout
+    // clears the user, so ProtectedRoute sends this tab to /login as well.
+    return sessionChannel.subscribe((event) => {
+      if (event.type === "logout" || event.type === "login") {
+        // Cached responses may belong to a different user
+        queryCache.clear();
+      }
+
+      if (event.type === "logout") {
+        setImpersonation(null);
+        dispatch({
+          type: "CLEAR_USER",
+          payload: event.reason ? { reason: event.reason } : undefined,
+        });
+      } else if (!authService.isImpersonating()) {
+        // While impersonating, this tab shows another user than the event's
+        dispatch({
+          type: "SYNC_SESSION",
+          payload: { user: event.user, token: authService.getToken() },
+        });
+      }
+    });
+  }, []);
+
+  const stopImpersonating = useCallback(async (): Promise<void> => {
+    const user = await authService.stopImpersonation();
+    // Cached responses were scoped to the impersonated user
+    queryCache.clear();
+    setImpersonation(null);
     dispatch({
-      type: "INITIALIZE",
-      payload: { user, token },
+      type: "SYNC_SESSION",
+      payload: { user, token: authService.getToken() },
     });
   }, []);
 
-  const login = async (credentials: LoginRequest): Promise<void> => {
+  useEffect(() => {
+    // The impersonation token cannot be refreshed, so the view ends with it
+    if (!impersonation) return;
+
+    const timer = setTimeout(
+      () => stopImpersonating().catch(console.error),
+      Date.parse(impersonation.expiresAt) - Date.now()
+    );
+    return () => clearTimeout(timer);
+  }, [impersonation, stopImpersonating]);
+
+  const startSession = (response: LoginResponse) =>
+    dispatch({
+      type: "SET_USER",
+      payload: { user: response.user, token: response.accessToken },
+    });
+
+  // Password and single sign-on logins end the same way
+  const completeLogin = async (
+    signIn: () => Promise<LoginResponse>
+  ): Promise<LoginResult> => {
     dispatch({ type: "SET_LOADING", payload: true });
     try {
-      const response = await authService.login(credentials);
-      dispatch({
-        type: "SET_USER",
-        payload: { user: response.user, token: response.accessToken },
-      });
+      const response = await signIn();
+      if (response.mfaChallengeToken) {
+        dispatch({ type: "SET_LOADING", payload: false });
+        return {
+          status: "mfaRequired",
+          challengeToken: response.mfaChallengeToken,
+        };
+      }
+      startSession(response);
+      return { status: "signedIn" };
     } catch (error) {
       dispatch({ type: "SET_LOADING", payload: false });
       throw error;
     }
   };
 
-  const register = async (userData: RegisterRequest): Promise<void> => {
+  const login = (credentials: LoginRequest): Promise<LoginResult> =>
+    completeLogin(() => authService.login(credentials));
+
+  const loginWithOidc = (request: OidcLoginRequest): Promise<LoginResult> =>
+    completeLogin(() => authService.loginWithOidc(request));
+
+  const verifyMfa = async (request: MfaLoginRequest): Promise<void> => {
     dispatch({ type: "SET_LOADING", payload: true });
     try {
-      const response = await authService.register(userData);
-      dispatch({
-        type: "SET_USER",
-        payload: { user: response.user, token: response.accessToken },
-      });
+      startSession(await authService.verifyMfaLogin(request));
     } catch (error) {
       dispatch({ type: "SET_LOADING", payload: false });
       throw error;
     }
   };
 
-  const logout = async (): Promise<void> => {
-    dispatch({ type: "SET_LOADING", payload: true });
-    try {
-      await authService.logout();
-    } finally {
-      dispatch({ type: "CLEAR_USER" });
-    }
+  // Enrolling counts as verifying, so the session is replaced with one that
+  // passes requireMfa routes
+  const enableMfa = async (code: string): Promise<string[]> => {
+    const response = await authService.enableMfa(code);
+    startSession(response.session);
+    return response.recoveryCodes;
   };
 
+  const disableMfa = async (code: string): Promise<void> => {
+    await authService.disableMfa(code);
+    const user = await authService.getMe();
+    dispatch({
+      type: "SYNC_SESSION",
+      payload: { user, token: authService.getToken() },
+    });
+  };
+
+  // New accounts cannot sign in until they are confirmed, so signing up
+  // leaves the session untouched
+  const signUp = (request: SignUpRequest): Promise<SignUpResponse> =>
+    authService.signUp(request);
+
+  const logout = (): Promise<void> => endSession();
+
+  const impersonate = async (
+    request: StartImpersonationRequest,
+    returnTo: string
+  ): Promise<void> => {
+    const response = await authService.startImpersonation(request);
+    queryCache.clear();
+    setImpersonation({ expiresAt: response.expiresAt, returnTo });
+    dispatch({
+      type: "SYNC_SESSION",
+      payload: { user: response.user, token: authService.getToken() },
+    });
+  };
+
+  // Signs out unattended sessions. Clearing the user makes ProtectedRoute
+  // redirect to /login with the current location, so the user lands back on
+  // the same page after signing in again.
+  const { remainingMs, stayActive } = useIdleTimer({
+    enabled: state.isAuthenticated,
+    timeoutMs: getIdleTimeoutMs(state.user),
+    warningMs: IDLE_WARNING_MS,
+    onIdle: () => endSession("idle"),
+  });
+
   const hasRole = (role: string): boolean => {
-    return authService.hasRole(role);
+    return state.user?.roles.includes(role) ?? false;
   };
 
   const hasAnyRole = (roles: string[]): boolean => {
-    return authService.hasAnyRole(roles);
+    return roles.some((role) => hasRole(role));
+  };
+
+  const hasPermission = (permission: PermissionType): boolean => {
+    return state.user?.permissions.includes(permission) ?? false;
   };
 
   const value: AuthContextType = {
     ...state,
     login,
-    register,
+    verifyMfa,
+    loginWithOidc,
+    enableMfa,
+    disableMfa,
+    signUp,
     logout,
+    impersonation,
+    impersonate,
+    stopImpersonating,
     hasRole,
     hasAnyRole,
+    hasPermission,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <IdleWarningDialog
+        open={remainingMs !== null}
+        remainingMs={remainingMs ?? 0}
+        warningMs={IDLE_WARNING_MS}
+        onStaySignedIn={stayActive}
+        onSignOut={logout}
+      />
+    </AuthContext.Provider>
+  );
 };
 
 export const useAuth = (): AuthContextType => {
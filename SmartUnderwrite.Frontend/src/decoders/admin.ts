@@ -0,0 +1,130 @@
+import * as d from "@/utils/decoders";
+import {
+  Affiliate,
+  AffiliateUser,
+  AuditLog,
+  Invitation,
+  PendingRegistration,
+  ReportData,
+  Rule,
+  RuleValidationResult,
+  RuleVersion,
+} from "@/types/admin";
+
+export const ruleDecoder = d.object<Rule>({
+  id: d.number,
+  name: d.string,
+  description: d.string,
+  ruleDefinition: d.string,
+  isActive: d.boolean,
+  priority: d.number,
+  createdAt: d.dateString,
+  updatedAt: d.nullable(d.dateString),
+});
+
+export const ruleValidationResultDecoder = d.object<RuleValidationResult>({
+  isValid: d.boolean,
+  errors: d.array(d.string),
+  warnings: d.array(d.string),
+});
+
+export const ruleVersionDecoder = d.object<RuleVersion>({
+  id: d.number,
+  originalRuleId: d.number,
+  name: d.string,
+  description: d.string,
+  ruleDefinition: d.string,
+  priority: d.number,
+  isActive: d.boolean,
+  version: d.number,
+  createdAt: d.dateString,
+  createdBy: d.string,
+  changeReason: d.string,
+});
+
+export const affiliateDecoder = d.object<Affiliate>({
+  id: d.number,
+  name: d.string,
+  externalId: d.string,
+  isActive: d.boolean,
+  createdAt: d.dateString,
+  updatedAt: d.nullable(d.dateString),
+  userCount: d.number,
+  applicationCount: d.number,
+});
+
+export const affiliateUserDecoder = d.object<AffiliateUser>({
+  id: d.number,
+  email: d.string,
+  firstName: d.string,
+  lastName: d.string,
+  fullName: d.nullable(d.string),
+  roles: d.array(d.string),
+  createdAt: d.dateString,
+  lastLoginAt: d.nullable(d.dateString),
+  isActive: d.boolean,
+});
+
+export const pendingRegistrationDecoder = d.object<PendingRegistration>({
+  id: d.number,
+  email: d.string,
+  firstName: d.string,
+  lastName: d.string,
+  roles: d.array(d.string),
+  affiliateId: d.nullable(d.number),
+  affiliateName: d.nullable(d.string),
+  emailConfirmed: d.boolean,
+  createdAt: d.dateString,
+});
+
+export const invitationDecoder = d.object<Invitation>({
+  id: d.number,
+  code: d.string,
+  affiliateId: d.number,
+  affiliateName: d.string,
+  email: d.nullable(d.string),
+  expiresAt: d.dateString,
+  usedAt: d.nullable(d.dateString),
+  createdAt: d.dateString,
+});
+
+export const auditLogDecoder = d.object<AuditLog>({
+  id: d.number,
+  userId: d.number,
+  userName: d.string,
+  action: d.string,
+  entityType: d.string,
+  entityId: d.string,
+  oldValues: d.optional(d.nullable(d.string)),
+  newValues: d.optional(d.nullable(d.string)),
+  timestamp: d.dateString,
+  ipAddress: d.string,
+  userAgent: d.string,
+});
+
+export const reportDataDecoder = d.object<ReportData>({
+  totalApplications: d.number,
+  approvedApplications: d.number,
+  rejectedApplications: d.number,
+  pendingApplications: d.number,
+  averageProcessingTime: d.number,
+  approvalRate: d.number,
+  totalLoanAmount: d.number,
+  averageLoanAmount: d.number,
+  topAffiliates: d.array(
+    d.object<ReportData["topAffiliates"][number]>({
+      affiliateId: d.number,
+      affiliateName: d.string,
+      applicationCount: d.number,
+      approvalRate: d.number,
+    })
+  ),
+  dailyStats: d.array(
+    d.object<ReportData["dailyStats"][number]>({
+      date: d.string,
+      applications: d.number,
+      approvals: d.number,
+      rejections: d.number,
+    })
+  ),
+});
@@ -0,0 +1,15 @@
+import * as d from "@/utils/decoders";
+import { PagedResult } from "@/types/api";
+
+export const pagedResultDecoder = <T>(
+  itemDecoder: d.Decoder<T>
+): d.Decoder<PagedResult<T>> =>
+  d.object<PagedResult<T>>({
+    items: d.array(itemDecoder),
+    totalCount: d.number,
+    page: d.number,
+    pageSize: d.number,
+    totalPages: d.number,
+    hasNextPage: d.boolean,
+    hasPreviousPage: d.boolean,
+  });
@@ -0,0 +1,116 @@
+import * as d from "@/utils/decoders";
+import {
+  Address,
+  Applicant,
+  ApplicationDraft,
+  ApplicationDraftData,
+  ApplicationStatus,
+  ImportMapping,
+  Decision,
+  DecisionOutcome,
+  Document,
+  LoanApplication,
+  UploadedDocument,
+} from "@/types/application";
+
+export const addressDecoder = d.object<Address>({
+  street: d.string,
+  city: d.string,
+  state: d.string,
+  zipCode: d.string,
+});
+
+export const applicantDecoder = d.object<Applicant>({
+  id: d.number,
+  firstName: d.string,
+  lastName: d.string,
+  fullName: d.nullable(d.string),
+  dateOfBirth: d.dateString,
+  address: addressDecoder,
+  phone: d.string,
+  email: d.string,
+});
+
+export const documentDecoder = d.object<Document>({
+  id: d.number,
+  fileName: d.string,
+  fileSize: d.number,
+  contentType: d.string,
+  uploadedAt: d.dateString,
+});
+
+export const uploadedDocumentDecoder = d.object<UploadedDocument>({
+  id: d.number,
+  fileName: d.string,
+  fileSize: d.number,
+  contentType: d.string,
+  uploadedAt: d.dateString,
+  description: d.nullable(d.string),
+});
+
+export const decisionDecoder = d.object<Decision>({
+  id: d.number,
+  loanApplicationId: d.number,
+  outcome: d.enumValue(DecisionOutcome),
+  score: d.number,
+  reasons: d.array(d.string),
+  decidedByUserId: d.nullable(d.number),
+  decidedByUserName: d.nullable(d.string),
+  decidedAt: d.dateString,
+  isAutomated: d.boolean,
+});
+
+export const loanApplicationDecoder = d.object<LoanApplication>({
+  id: d.number,
+  affiliateId: d.number,
+  affiliateName: d.string,
+  applicant: applicantDecoder,
+  productType: d.string,
+  amount: d.number,
+  incomeMonthly: d.number,
+  employmentType: d.string,
+  creditScore: d.nullable(d.number),
+  status: d.enumValue(ApplicationStatus),
+  createdAt: d.dateString,
+  updatedAt: d.nullable(d.dateString),
+  documents: d.array(documentDecoder),
+  decisions: d.array(decisionDecoder),
+});
+
+const applicationDraftDataDecoder = d.object<ApplicationDraftData>({
+  applicant: d.object<ApplicationDraftData["applicant"]>({
+    firstName: d.nullable(d.string),
+    lastName: d.nullable(d.string),
+    dateOfBirth: d.nullable(d.string),
+    email: d.nullable(d.string),
+    phone: d.nullable(d.string),
+  }),
+  address: d.object<ApplicationDraftData["address"]>({
+    street: d.nullable(d.string),
+    city: d.nullable(d.string),
+    state: d.nullable(d.string),
+    zipCode: d.nullable(d.string),
+  }),
+  employment: d.object<ApplicationDraftData["employment"]>({
+    employmentType: d.nullable(d.string),
+    incomeMonthly: d.nullable(d.string),
+    creditScore: d.nullable(d.string),
+  }),
+  loan: d.object<ApplicationDraftData["loan"]>({
+    productType: d.nullable(d.string),
+    amount: d.nullable(d.string),
+  }),
+});
+
+export const applicationDraftDecoder = d.object<ApplicationDraft>({
+  id: d.number,
+  step: d.number,
+  data: applicationDraftDataDecoder,
+  createdAt: d.dateString,
+  updatedAt: d.dateString,
+});
+
+export const importMappingDecoder = d.object<ImportMapping>({
+  columns: d.record(d.string),
+  updatedAt: d.nullable(d.dateString),
+});
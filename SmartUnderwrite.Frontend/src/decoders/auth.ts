@@ -0,0 +1,100 @@
+import * as d from "@/utils/decoders";
+import {
+  ImpersonationResponse,
+  Impersonator,
+  InvitationLookup,
+  LoginResponse,
+  MfaEnableResponse,
+  MfaSetup,
+  MfaStatus,
+  OidcProvider,
+  RecoveryCodesResponse,
+  RegistrationStatus,
+  Session,
+  SignUpResponse,
+  User,
+} from "@/types/auth";
+
+const impersonatorDecoder = d.object<Impersonator>({
+  id: d.number,
+  email: d.string,
+  firstName: d.string,
+  lastName: d.string,
+});
+
+export const userDecoder = d.object<User>({
+  id: d.number,
+  email: d.string,
+  firstName: d.string,
+  lastName: d.string,
+  roles: d.array(d.string),
+  permissions: d.array(d.string),
+  affiliateId: d.nullable(d.number),
+  mfaEnabled: d.boolean,
+  mfaRequired: d.boolean,
+  mfaVerified: d.boolean,
+  impersonator: d.nullable(impersonatorDecoder),
+});
+
+export const loginResponseDecoder = d.object<LoginResponse>({
+  accessToken: d.string,
+  refreshToken: d.string,
+  user: userDecoder,
+  expiresAt: d.dateString,
+  mfaChallengeToken: d.nullable(d.string),
+});
+
+export const impersonationResponseDecoder = d.object<ImpersonationResponse>({
+  accessToken: d.string,
+  expiresAt: d.dateString,
+  user: userDecoder,
+});
+
+export const oidcProviderDecoder = d.object<OidcProvider>({
+  enabled: d.boolean,
+  displayName: d.nullable(d.string),
+  authorizationEndpoint: d.nullable(d.string),
+  clientId: d.nullable(d.string),
+  scope: d.nullable(d.string),
+});
+
+export const sessionDecoder = d.object<Session>({
+  id: d.number,
+  userAgent: d.nullable(d.string),
+  ipAddress: d.nullable(d.string),
+  createdAt: d.dateString,
+  lastUsedAt: d.dateString,
+  expiresAt: d.dateString,
+  isCurrent: d.boolean,
+});
+
+export const mfaStatusDecoder = d.object<MfaStatus>({
+  enabled: d.boolean,
+  required: d.boolean,
+  recoveryCodesLeft: d.number,
+});
+
+export const mfaSetupDecoder = d.object<MfaSetup>({
+  sharedKey: d.string,
+  authenticatorUri: d.string,
+});
+
+export const mfaEnableResponseDecoder = d.object<MfaEnableResponse>({
+  recoveryCodes: d.array(d.string),
+  session: loginResponseDecoder,
+});
+
+export const recoveryCodesDecoder = d.object<RecoveryCodesResponse>({
+  recoveryCodes: d.array(d.string),
+});
+
+export const signUpResponseDecoder = d.object<SignUpResponse>({
+  email: d.string,
+  status: d.enumValue(RegistrationStatus),
+});
+
+export const invitationLookupDecoder = d.object<InvitationLookup>({
+  affiliateName: d.string,
+  email: d.nullable(d.string),
+  expiresAt: d.dateString,
+});
@@ -0,0 +1,14 @@
+import * as d from "@/utils/decoders";
+import { DecisionSummary } from "@/types/decision";
+
+export { decisionDecoder as decisionResponseDecoder } from "./application";
+
+export const decisionSummaryDecoder = d.object<DecisionSummary>({
+  totalDecisions: d.number,
+  approvedCount: d.number,
+  rejectedCount: d.number,
+  manualReviewCount: d.number,
+  averageScore: d.number,
+  manualDecisionCount: d.number,
+  automatedDecisionCount: d.number,
+});
@@ -0,0 +1,14 @@
+import * as d from "@/utils/decoders";
+import { SavedView } from "@/types/savedView";
+
+export const savedViewDecoder = d.object<SavedView>({
+  id: d.number,
+  list: d.string,
+  name: d.string,
+  query: d.string,
+  isShared: d.boolean,
+  isOwner: d.boolean,
+  ownerName: d.string,
+  isDefault: d.boolean,
+  updatedAt: d.dateString,
+});
@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from "react";
+import { QueryKey, queryCache } from "@/services/queryCache";
+
+interface UseApiMutationOptions<TResult> {
+  // Key prefixes to mark stale once the mutation succeeds
+  invalidates?: QueryKey[];
+  onSuccess?: (result: TResult) => void;
+}
+
+export const useApiMutation = <TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>,
+  { invalidates = [], onSuccess }: UseApiMutationOptions<TResult> = {}
+) => {
+  const [isPending, setIsPending] = useState(false);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  // Rejects with the original error so callers keep their own error handling
+  const mutate = async (variables: TVariables): Promise<TResult> => {
+    setIsPending(true);
+    try {
+      const result = await mutationFn(variables);
+      invalidates.forEach((key) => queryCache.invalidate(key));
+      onSuccess?.(result);
+      return result;
+    } finally {
+      // The component may have navigated away while the request ran
+      if (mounted.current) {
+        setIsPending(false);
+      }
+    }
+  };
+
+  return { mutate, isPending };
+};
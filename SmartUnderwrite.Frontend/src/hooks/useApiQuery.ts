@@ -0,0 +1,85 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import { ApiError } from "@/types/api";
+import {
+  QueryFetcher,
+  QueryKey,
+  hashKey,
+  queryCache,
+} from "@/services/queryCache";
+
+interface UseApiQueryOptions {
+  enabled?: boolean;
+  // How long cached data is served without a background refetch
+  staleTime?: number;
+  // Keep showing the previous key's data while a new key loads (pagination)
+  keepPreviousData?: boolean;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+export const useApiQuery = <T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  {
+    enabled = true,
+    staleTime = DEFAULT_STALE_TIME,
+    keepPreviousData = false,
+  }: UseApiQueryOptions = {}
+) => {
+  // Callers pass fresh key arrays each render; only their contents matter
+  const hash = hashKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(stableKey, listener),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(
+    () => queryCache.getState<T>(stableKey),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Failures are stored on the cache entry and surfaced through `error`
+  const refetch = useCallback(
+    () =>
+      queryCache
+        .fetch(stableKey, (signal) => fetcherRef.current(signal))
+        .then(
+          () => undefined,
+          () => undefined
+        ),
+    [stableKey]
+  );
+
+  useEffect(() => {
+    if (enabled && queryCache.isStale(stableKey, staleTime)) {
+      refetch();
+    }
+  }, [enabled, stableKey, staleTime, refetch]);
+
+  const previousData = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) {
+    previousData.current = state.data;
+  }
+  const data =
+    state.data ?? (keepPreviousData ? previousData.current : undefined);
+
+  return {
+    data,
+    error: state.error as ApiError | null,
+    // True only until the first response for this key arrives
+    isLoading: enabled && data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
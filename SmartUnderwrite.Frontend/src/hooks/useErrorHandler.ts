@@ -1,5 +1,6 @@
 import { useState, useCallback } from "react";
 import { ApiError } from "@/types/api";
+import { toFieldPath } from "@/utils/validation";
 
 interface ErrorState {
   message: string;
@@ -19,7 +20,8 @@ export const useErrorHandler = () => {
 
       if (apiError.errors) {
         Object.entries(apiError.errors).forEach(([field, messages]) => {
-          fieldErrors[field.toLowerCase()] = messages[0];
+          // "Address.ZipCode" is read as fieldErrors["address.zipCode"]
+          fieldErrors[toFieldPath(field)] = messages[0];
         });
       }
 
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Shared through localStorage so activity in any open tab keeps all of them
+// signed in
+const LAST_ACTIVITY_KEY = "lastActivity";
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+  "wheel",
+];
+
+// Limits how often mouse movement is written to storage
+const ACTIVITY_THROTTLE_MS = 5 * 1000;
+
+const TICK_MS = 1000;
+
+interface UseIdleTimerOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  // How long before the timeout the warning starts
+  warningMs: number;
+  onIdle: () => void;
+}
+
+const readLastActivity = (): number =>
+  Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+const writeLastActivity = (timestamp: number) =>
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(timestamp));
+
+/**
+ * Tracks user inactivity. Returns the milliseconds left before `onIdle`
+ * while the warning period is running, otherwise null. Activity during the
+ * warning does not count: the user has to confirm with `stayActive`.
+ */
+export const useIdleTimer = ({
+  enabled,
+  timeoutMs,
+  warningMs,
+  onIdle,
+}: UseIdleTimerOptions) => {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const isWarning = useRef(false);
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled) {
+      isWarning.current = false;
+      setRemainingMs(null);
+      return;
+    }
+
+    let lastWrite = Date.now();
+    writeLastActivity(lastWrite);
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (isWarning.current || now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      writeLastActivity(now);
+    };
+
+    const tick = () => {
+      const remaining = readLastActivity() + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        clearInterval(timer);
+        onIdleRef.current();
+        return;
+      }
+      // Activity in another tab also ends the warning here
+      isWarning.current = remaining <= warningMs;
+      setRemainingMs(isWarning.current ? remaining : null);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    const timer = setInterval(tick, TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const stayActive = useCallback(() => {
+    isWarning.current = false;
+    writeLastActivity(Date.now());
+    setRemainingMs(null);
+  }, []);
+
+  return { remainingMs, stayActive };
+};
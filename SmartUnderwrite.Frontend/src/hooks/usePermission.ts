@@ -0,0 +1,15 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { PermissionType } from "@/types/auth";
+
+/**
+ * Whether the signed-in user holds the permission, or any of several.
+ * Permissions come from the API with the user, so this is the one place the
+ * client asks "may the user do this"; the API enforces the same table.
+ */
+export const usePermission = (
+  permission: PermissionType | PermissionType[]
+): boolean => {
+  const { hasPermission } = useAuth();
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  return permissions.some(hasPermission);
+};
@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ParamSchema, parseParams, toParams } from "@/utils/queryParams";
+
+type FilterUpdate<T> = T | ((prev: T) => T);
+
+interface SetFilterOptions {
+  // Updates the current history entry instead of adding one, e.g. for a
+  // field that filters as the user types
+  replace?: boolean;
+}
+
+/**
+ * Keeps a list's filter, page and sort in the query string instead of
+ * component state, so a reload, a bookmark or a shared link shows the same
+ * list, and Back returns to it as it was left. Each change adds a history
+ * entry unless told to replace the current one. Like useState it returns the
+ * value and a setter that also takes an updater. `schema` and `defaults`
+ * should be module constants.
+ */
+export const useUrlFilter = <T extends object>(
+  schema: ParamSchema<T>,
+  defaults: T
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = searchParams.toString();
+  const filter = useMemo(
+    () => parseParams(schema, new URLSearchParams(query), defaults),
+    [schema, defaults, query]
+  );
+
+  const setFilter = useCallback(
+    (update: FilterUpdate<T>, { replace = false }: SetFilterOptions = {}) =>
+      setSearchParams(
+        (prev) => {
+          const next =
+            typeof update === "function"
+              ? (update as (prev: T) => T)(parseParams(schema, prev, defaults))
+              : update;
+          return toParams(schema, next, defaults, prev);
+        },
+        { replace }
+      ),
+    [schema, defaults, setSearchParams]
+  );
+
+  return [filter, setFilter] as const;
+};
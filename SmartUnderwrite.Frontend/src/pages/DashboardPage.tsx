@@ -24,10 +24,10 @@ import {
   ArrowForward,
 } from "@mui/icons-material";
 import { useAuth } from "@/contexts/AuthContext";
-import { UserRole } from "@/types/auth";
+import { Permission } from "@/types/auth";
 
 export const DashboardPage: React.FC = () => {
-  const { user, hasRole } = useAuth();
+  const { user, hasPermission } = useAuth();
   const theme = useTheme();
 
   const getDashboardCards = () => {
@@ -43,7 +43,7 @@ export const DashboardPage: React.FC = () => {
       },
     ];
 
-    if (hasRole(UserRole.Underwriter) || hasRole(UserRole.Admin)) {
+    if (hasPermission(Permission.DecisionsView)) {
       cards.push({
         title: "Decisions",
         description: "Review and make manual decisions",
@@ -55,37 +55,35 @@ export const DashboardPage: React.FC = () => {
       });
     }
 
-    if (hasRole(UserRole.Admin)) {
-      cards.push(
-        {
-          title: "Rules Management",
-          description: "Configure underwriting rules",
-          action: "Manage Rules",
-          path: "/admin/rules",
-          icon: Settings,
-          color: theme.palette.warning.main,
-          show: true,
-        },
-        {
-          title: "Affiliates",
-          description: "Manage affiliate organizations",
-          action: "Manage Affiliates",
-          path: "/admin/affiliates",
-          icon: Business,
-          color: theme.palette.info.main,
-          show: true,
-        },
-        {
-          title: "Audit Logs",
-          description: "View system audit trail",
-          action: "View Logs",
-          path: "/admin/audit",
-          icon: History,
-          color: theme.palette.success.main,
-          show: true,
-        }
-      );
-    }
+    cards.push(
+      {
+        title: "Rules Management",
+        description: "Configure underwriting rules",
+        action: "Manage Rules",
+        path: "/admin/rules",
+        icon: Settings,
+        color: theme.palette.warning.main,
+        show: hasPermission(Permission.RulesView),
+      },
+      {
+        title: "Affiliates",
+        description: "Manage affiliate organizations",
+        action: "Manage Affiliates",
+        path: "/admin/affiliates",
+        icon: Business,
+        color: theme.palette.info.main,
+        show: hasPermission(Permission.AffiliatesManage),
+      },
+      {
+        title: "Audit Logs",
+        description: "View system audit trail",
+        action: "View Logs",
+        path: "/admin/audit",
+        icon: History,
+        color: theme.palette.success.main,
+        show: hasPermission(Permission.AuditView),
+      }
+    );
 
     return cards.filter((card) => card.show);
   };
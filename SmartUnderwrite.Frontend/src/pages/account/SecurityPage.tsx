@@ -0,0 +1,27 @@
+import React from "react";
+import { Location, useLocation, useNavigate } from "react-router-dom";
+import { Box, Typography } from "@mui/material";
+import { MfaSettings } from "@/components/account/MfaSettings";
+
+export const SecurityPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // ProtectedRoute sends users here when a page needs MFA they have not set
+  // up; return them once they have
+  const from = (location.state as { from?: Location } | null)?.from;
+  const handleEnabled = () => {
+    if (from) {
+      navigate(`${from.pathname}${from.search ?? ""}`, { replace: true });
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Account Security
+      </Typography>
+      <MfaSettings onEnabled={handleEnabled} />
+    </Box>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from "@mui/material";
+import { Session } from "@/types/auth";
+import { useAuth } from "@/contexts/AuthContext";
+import { authService } from "@/services/authService";
+import { queryKeys } from "@/services/queryKeys";
+import { SessionList } from "@/components/account/SessionList";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useApiQuery } from "@/hooks/useApiQuery";
+import { useApiMutation } from "@/hooks/useApiMutation";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+export const SessionsPage: React.FC = () => {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const { error, handleError, clearError } = useErrorHandler();
+  const [confirmSignOutAll, setConfirmSignOutAll] = useState(false);
+
+  const {
+    data: sessions = [],
+    error: loadError,
+    isLoading,
+  } = useApiQuery(queryKeys.account.sessions(), (signal) =>
+    authService.getSessions({ signal })
+  );
+
+  const revoke = useApiMutation((id: number) => authService.revokeSession(id), {
+    invalidates: [queryKeys.account.all],
+  });
+
+  const revokeAll = useApiMutation(() => authService.revokeAllSessions());
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      clearError();
+      await revoke.mutate(session.id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleSignOutAll = async () => {
+    try {
+      clearError();
+      await revokeAll.mutate(undefined);
+      // This device was signed out with the rest
+      await logout();
+      navigate("/login");
+    } catch (err) {
+      setConfirmSignOutAll(false);
+      handleError(err);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading sessions..." />;
+  }
+
+  return (
+    <Box>
+      <Typography variant="h4" component="h1" gutterBottom>
+        My Sessions
+      </Typography>
+
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" alignItems="center" gap={2} mb={1}>
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+            Signed-In Devices
+          </Typography>
+          <Button
+            color="error"
+            variant="outlined"
+            onClick={() => setConfirmSignOutAll(true)}
+            disabled={sessions.length === 0}
+          >
+            Sign Out Everywhere
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          If you don't recognise a device, sign it out and change your password.
+        </Typography>
+
+        {(error || loadError) && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error || loadError?.message}
+          </Alert>
+        )}
+
+        <SessionList
+          sessions={sessions}
+          onRevoke={handleRevoke}
+          disabled={revoke.isPending}
+        />
+      </Paper>
+
+      <Dialog
+        open={confirmSignOutAll}
+        onClose={() => setConfirmSignOutAll(false)}
+      >
+        <DialogTitle>Sign Out Everywhere</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Every device, including this one, is signed out. You will need to
+            sign in again.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmSignOutAll(false)}>Cancel</Button>
+          <Button
+            onClick={handleSignOutAll}
+            color="error"
+            variant="contained"
+            disabled={revokeAll.isPending}
+          >
+            Sign Out Everywhere
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
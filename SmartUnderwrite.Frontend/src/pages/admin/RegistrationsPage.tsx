@@ -0,0 +1,14 @@
+import React from "react";
+import { Box, Typography } from "@mui/material";
+import { RegistrationsManagement } from "@/components/admin/RegistrationsManagement";
+
+export const RegistrationsPage: React.FC = () => {
+  return (
+    <Box>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Registrations
+      </Typography>
+      <RegistrationsManagement />
+    </Box>
+  );
+};
@@ -1,6 +1,39 @@
-import React from "react";
-import { SimpleCreateApplicationForm } from "@/components/applications/SimpleCreateApplicationForm";
+import React, { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Alert } from "@mui/material";
+import { ApplicationWizard } from "@/components/applications/ApplicationWizard";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { applicationService } from "@/services/applicationService";
+import { queryKeys } from "@/services/queryKeys";
+import { useApiQuery } from "@/hooks/useApiQuery";
 
 export const CreateApplicationPage: React.FC = () => {
-  return <SimpleCreateApplicationForm />;
+  const [searchParams] = useSearchParams();
+  // The wizard adds ?draft= once it first saves; only the initial value
+  // decides which draft to resume
+  const [draftId] = useState(() => Number(searchParams.get("draft")) || null);
+
+  const {
+    data: draft,
+    error,
+    isLoading,
+  } = useApiQuery(
+    queryKeys.applications.draft(draftId ?? 0),
+    (signal) => applicationService.getDraft(draftId ?? 0, { signal }),
+    { enabled: draftId !== null }
+  );
+
+  if (draftId === null) {
+    return <ApplicationWizard />;
+  }
+
+  if (error) {
+    return <Alert severity="error">{error.message}</Alert>;
+  }
+
+  if (isLoading || !draft) {
+    return <LoadingSpinner message="Loading draft..." />;
+  }
+
+  return <ApplicationWizard draft={draft} />;
 };
@@ -0,0 +1,6 @@
+import React from "react";
+import { ApplicationImport } from "@/components/applications/ApplicationImport";
+
+export const ImportApplicationsPage: React.FC = () => {
+  return <ApplicationImport />;
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from "react";
+import { Link as RouterLink, useSearchParams } from "react-router-dom";
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  Button,
+  CircularProgress,
+} from "@mui/material";
+import { authService } from "@/services/authService";
+import { isCancelledRequest } from "@/services/apiClient";
+import { RegistrationStatus, RegistrationStatusType } from "@/types/auth";
+import { ApiError } from "@/types/api";
+
+export const ConfirmEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const userId = Number(searchParams.get("userId"));
+  const token = searchParams.get("token") ?? "";
+  const [status, setStatus] = useState<RegistrationStatusType | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!userId || !token) {
+      setError("This confirmation link is incomplete.");
+      return;
+    }
+
+    const controller = new AbortController();
+    authService
+      .confirmEmail({ userId, token }, { signal: controller.signal })
+      .then((response) => setStatus(response.status))
+      .catch((err) => {
+        if (!isCancelledRequest(err)) {
+          setError((err as ApiError).message);
+        }
+      });
+
+    return () => controller.abort();
+  }, [userId, token]);
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      bgcolor="grey.100"
+    >
+      <Card sx={{ maxWidth: 400, width: "100%", mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h4" component="h1" gutterBottom align="center">
+            SmartUnderwrite
+          </Typography>
+          <Typography
+            variant="h6"
+            component="h2"
+            gutterBottom
+            align="center"
+            color="text.secondary"
+          >
+            Confirm Email
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {!error && !status && (
+            <Box display="flex" justifyContent="center" py={2}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {status === RegistrationStatus.PendingApproval && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Thanks, your email address is confirmed. Your account is awaiting
+              approval by an administrator; we will email you when you can sign
+              in.
+            </Alert>
+          )}
+
+          {status === RegistrationStatus.Active && (
+            <Alert severity="success" sx={{ mb: 2 }}>
+              Your email address is confirmed and your account is ready.
+            </Alert>
+          )}
+
+          <Button component={RouterLink} to="/login" fullWidth>
+            Go to sign in
+          </Button>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
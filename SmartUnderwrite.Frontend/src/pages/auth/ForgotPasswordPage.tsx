@@ -0,0 +1,6 @@
+import React from "react";
+import { ForgotPasswordForm } from "@/components/auth/ForgotPasswordForm";
+
+export const ForgotPasswordPage: React.FC = () => {
+  return <ForgotPasswordForm />;
+};
@@ -10,8 +10,11 @@ export const LoginPage: React.FC = () => {
 
   useEffect(() => {
     if (isAuthenticated) {
-      const from = (location.state as any)?.from?.pathname || "/dashboard";
-      navigate(from, { replace: true });
+      // Return to the page that required the sign-in, query string included
+      const from = (location.state as any)?.from;
+      navigate(from ? `${from.pathname}${from.search ?? ""}` : "/dashboard", {
+        replace: true,
+      });
     }
   }, [isAuthenticated, navigate, location]);
 
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Link as RouterLink,
+  useNavigate,
+  useSearchParams,
+} from "react-router-dom";
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  Button,
+  CircularProgress,
+} from "@mui/material";
+import { useAuth } from "@/contexts/AuthContext";
+import { takeOidcCallback } from "@/services/oidc";
+import { ApiError } from "@/types/api";
+
+// The identity provider sends the user back here with an authorization code
+export const OidcCallbackPage: React.FC = () => {
+  const { loginWithOidc } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string>("");
+  // The code can be redeemed only once, so the effect must not run twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    let callback;
+    try {
+      callback = takeOidcCallback(searchParams);
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+
+    const { request, from } = callback;
+    loginWithOidc(request).then(
+      (result) => {
+        if (result.status === "mfaRequired") {
+          navigate("/login", {
+            replace: true,
+            state: { from, challengeToken: result.challengeToken },
+          });
+          return;
+        }
+        navigate(from ? `${from.pathname}${from.search ?? ""}` : "/dashboard", {
+          replace: true,
+        });
+      },
+      (err) => setError((err as ApiError).message)
+    );
+  }, [searchParams, loginWithOidc, navigate]);
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      bgcolor="grey.100"
+    >
+      <Card sx={{ maxWidth: 400, width: "100%", mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h4" component="h1" gutterBottom align="center">
+            SmartUnderwrite
+          </Typography>
+          <Typography
+            variant="h6"
+            component="h2"
+            gutterBottom
+            align="center"
+            color="text.secondary"
+          >
+            Single Sign-On
+          </Typography>
+
+          {error ? (
+            <>
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+              <Button component={RouterLink} to="/login" fullWidth>
+                Back to sign in
+              </Button>
+            </>
+          ) : (
+            <Box display="flex" justifyContent="center" py={2}>
+              <CircularProgress />
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
@@ -0,0 +1,20 @@
+import React, { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { RegisterForm } from "@/components/auth/RegisterForm";
+import { useAuth } from "@/contexts/AuthContext";
+
+export const RegisterPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      navigate("/dashboard", { replace: true });
+    }
+  }, [isAuthenticated, navigate]);
+
+  return (
+    <RegisterForm initialInvitationCode={searchParams.get("code") ?? ""} />
+  );
+};
@@ -0,0 +1,15 @@
+import React from "react";
+import { useSearchParams } from "react-router-dom";
+import { ResetPasswordForm } from "@/components/auth/ResetPasswordForm";
+
+// Opened from the link in the reset email: /reset-password?email=...&token=...
+export const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+
+  return (
+    <ResetPasswordForm
+      email={searchParams.get("email") ?? ""}
+      token={searchParams.get("token") ?? ""}
+    />
+  );
+};
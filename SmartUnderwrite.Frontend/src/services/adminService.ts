@@ -1,82 +1,314 @@
 import { apiClient } from "./apiClient";
+import { api } from "./api";
 import {
   Rule,
   CreateRuleRequest,
   UpdateRuleRequest,
+  RuleValidationResult,
+  RuleVersion,
   Affiliate,
+  AffiliateUser,
   CreateAffiliateRequest,
   UpdateAffiliateRequest,
+  InviteAffiliateUserRequest,
   AuditLog,
   AuditLogFilter,
+  CreateInvitationRequest,
+  Invitation,
+  PendingRegistration,
   ReportData,
 } from "@/types/admin";
-import { PagedResult } from "@/types/api";
+import { Session } from "@/types/auth";
+import { CallOptions, PagedResult } from "@/types/api";
+import { ExportRequest } from "@/types/export";
+import { pagedResultDecoder } from "@/decoders/api";
+import {
+  affiliateDecoder,
+  affiliateUserDecoder,
+  auditLogDecoder,
+  invitationDecoder,
+  pendingRegistrationDecoder,
+  reportDataDecoder,
+  ruleDecoder,
+  ruleValidationResultDecoder,
+  ruleVersionDecoder,
+} from "@/decoders/admin";
+import { sessionDecoder } from "@/decoders/auth";
+import * as d from "@/utils/decoders";
+import { toExportQuery } from "@/utils/export";
+
+const auditLogPageDecoder = pagedResultDecoder(auditLogDecoder);
 
 export class AdminService {
   // Rules Management
-  async getRules(): Promise<Rule[]> {
-    return await apiClient.get<Rule[]>("/rules");
+  async getRules(options: CallOptions = {}): Promise<Rule[]> {
+    return await api.rules.get({ decoder: d.array(ruleDecoder), ...options });
+  }
+
+  async getActiveRules(options: CallOptions = {}): Promise<Rule[]> {
+    return await api.rules.getActive({
+      decoder: d.array(ruleDecoder),
+      ...options,
+    });
+  }
+
+  async getRule(id: number, options: CallOptions = {}): Promise<Rule> {
+    return await api.rules.getById(id, { decoder: ruleDecoder, ...options });
+  }
+
+  async createRule(
+    request: CreateRuleRequest,
+    options: CallOptions = {}
+  ): Promise<Rule> {
+    return await api.rules.post(request, { decoder: ruleDecoder, ...options });
   }
 
-  async getRule(id: number): Promise<Rule> {
-    return await apiClient.get<Rule>(`/rules/${id}`);
+  async updateRule(
+    request: UpdateRuleRequest,
+    options: CallOptions = {}
+  ): Promise<Rule> {
+    return await api.rules.putById(
+      request.id,
+      {
+        name: request.name,
+        description: request.description,
+        ruleDefinition: request.ruleDefinition,
+        priority: request.priority,
+      },
+      { decoder: ruleDecoder, ...options }
+    );
   }
 
-  async createRule(request: CreateRuleRequest): Promise<Rule> {
-    return await apiClient.post<Rule>("/rules", request);
+  async deleteRule(id: number, options: CallOptions = {}): Promise<void> {
+    return await api.rules.deleteById(id, options);
   }
 
-  async updateRule(request: UpdateRuleRequest): Promise<Rule> {
-    return await apiClient.put<Rule>(`/rules/${request.id}`, request);
+  async activateRule(id: number, options: CallOptions = {}): Promise<Rule> {
+    return await api.rules.postByIdActivate(id, {
+      decoder: ruleDecoder,
+      ...options,
+    });
   }
 
-  async deleteRule(id: number): Promise<void> {
-    return await apiClient.delete<void>(`/rules/${id}`);
+  async deactivateRule(id: number, options: CallOptions = {}): Promise<Rule> {
+    return await api.rules.postByIdDeactivate(id, {
+      decoder: ruleDecoder,
+      ...options,
+    });
   }
 
   async validateRule(
-    conditions: string,
-    actions: string
-  ): Promise<{ isValid: boolean; errors: string[] }> {
-    return await apiClient.post<{ isValid: boolean; errors: string[] }>(
-      "/rules/validate",
-      {
-        conditions,
-        actions,
-      }
+    ruleDefinition: string,
+    options: CallOptions = {}
+  ): Promise<RuleValidationResult> {
+    // Validation has no side effects, so the POST is safe to retry
+    return await api.rules.postValidate(
+      { ruleDefinition },
+      { decoder: ruleValidationResultDecoder, retry: true, ...options }
     );
   }
 
+  async getRuleHistory(
+    id: number,
+    options: CallOptions = {}
+  ): Promise<RuleVersion[]> {
+    return await api.rules.getByIdHistory(id, {
+      decoder: d.array(ruleVersionDecoder),
+      ...options,
+    });
+  }
+
   // Affiliates Management
-  async getAffiliates(): Promise<Affiliate[]> {
-    return await apiClient.get<Affiliate[]>("/affiliates");
+  async getAffiliates(options: CallOptions = {}): Promise<Affiliate[]> {
+    return await api.affiliates.get({
+      decoder: d.array(affiliateDecoder),
+      ...options,
+    });
   }
 
-  async getAffiliate(id: number): Promise<Affiliate> {
-    return await apiClient.get<Affiliate>(`/affiliates/${id}`);
+  async getAffiliate(
+    id: number,
+    options: CallOptions = {}
+  ): Promise<Affiliate> {
+    return await api.affiliates.getById(id, {
+      decoder: affiliateDecoder,
+      ...options,
+    });
   }
 
-  async createAffiliate(request: CreateAffiliateRequest): Promise<Affiliate> {
-    return await apiClient.post<Affiliate>("/affiliates", request);
+  async createAffiliate(
+    request: CreateAffiliateRequest,
+    options: CallOptions = {}
+  ): Promise<Affiliate> {
+    return await api.affiliates.post(request, {
+      decoder: affiliateDecoder,
+      ...options,
+    });
   }
 
   async updateAffiliate(
-    request: UpdateAffiliateRequest & { id: number }
+    request: UpdateAffiliateRequest & { id: number },
+    options: CallOptions = {}
+  ): Promise<Affiliate> {
+    return await api.affiliates.putById(
+      request.id,
+      {
+        name: request.name,
+        externalId: request.externalId,
+        isActive: request.isActive,
+      },
+      { decoder: affiliateDecoder, ...options }
+    );
+  }
+
+  async deleteAffiliate(
+    id: number,
+    options: CallOptions = {}
   ): Promise<Affiliate> {
-    return await apiClient.put<Affiliate>(`/affiliates/${request.id}`, {
-      name: request.name,
-      externalId: request.externalId,
-      isActive: request.isActive,
+    return await api.affiliates.postByIdDeactivate(id, {
+      decoder: affiliateDecoder,
+      ...options,
     });
   }
 
-  async deleteAffiliate(id: number): Promise<Affiliate> {
-    return await apiClient.post<Affiliate>(`/affiliates/${id}/deactivate`);
+  async activateAffiliate(
+    id: number,
+    options: CallOptions = {}
+  ): Promise<Affiliate> {
+    return await api.affiliates.postByIdActivate(id, {
+      decoder: affiliateDecoder,
+      ...options,
+    });
+  }
+
+  async getAffiliateUsers(
+    affiliateId: number,
+    options: CallOptions = {}
+  ): Promise<AffiliateUser[]> {
+    return await api.affiliates.getByIdUsers(affiliateId, {
+      decoder: d.array(affiliateUserDecoder),
+      ...options,
+    });
+  }
+
+  // Creates the account and emails the user a link to choose a password
+  async inviteAffiliateUser(
+    affiliateId: number,
+    request: InviteAffiliateUserRequest,
+    options: CallOptions = {}
+  ): Promise<AffiliateUser> {
+    return await api.affiliates.postByIdUsersInvite(affiliateId, request, {
+      decoder: affiliateUserDecoder,
+      ...options,
+    });
+  }
+
+  // Also ends the user's sessions, which carry the affiliate in their claims
+  async removeAffiliateUser(
+    affiliateId: number,
+    userId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    return await api.affiliates.deleteByIdUsersByUserId(
+      affiliateId,
+      userId,
+      options
+    );
+  }
+
+  async resetAffiliateUserPassword(
+    affiliateId: number,
+    userId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.affiliates.postByIdUsersByUserIdResetPassword(
+      affiliateId,
+      userId,
+      options
+    );
+  }
+
+  // User Sessions
+  async getUserSessions(
+    userId: number,
+    options: CallOptions = {}
+  ): Promise<Session[]> {
+    return await api.users.getByUserIdSessions(userId, {
+      decoder: d.array(sessionDecoder),
+      ...options,
+    });
+  }
+
+  async revokeUserSession(
+    userId: number,
+    sessionId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.users.deleteByUserIdSessionsBySessionId(
+      userId,
+      sessionId,
+      options
+    );
+  }
+
+  async revokeAllUserSessions(
+    userId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.users.deleteByUserIdSessions(userId, options);
+  }
+
+  // Registrations
+  async getPendingRegistrations(
+    options: CallOptions = {}
+  ): Promise<PendingRegistration[]> {
+    return await api.registrations.get({
+      decoder: d.array(pendingRegistrationDecoder),
+      ...options,
+    });
+  }
+
+  async approveRegistration(
+    userId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.registrations.postByUserIdApprove(userId, options);
+  }
+
+  async rejectRegistration(
+    userId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.registrations.postByUserIdReject(userId, options);
+  }
+
+  async getInvitations(options: CallOptions = {}): Promise<Invitation[]> {
+    return await api.registrations.getInvitations({
+      decoder: d.array(invitationDecoder),
+      ...options,
+    });
+  }
+
+  async createInvitation(
+    request: CreateInvitationRequest,
+    options: CallOptions = {}
+  ): Promise<Invitation> {
+    return await api.registrations.postInvitations(request, {
+      decoder: invitationDecoder,
+      ...options,
+    });
+  }
+
+  async revokeInvitation(id: number, options: CallOptions = {}): Promise<void> {
+    return await api.registrations.deleteInvitationsById(id, options);
   }
 
   // Audit Logs
+  // The published spec still describes the pre-pagination audit endpoint, so
+  // the paged list is requested directly until the spec is regenerated.
   async getAuditLogs(
-    filter: AuditLogFilter = {}
+    filter: AuditLogFilter = {},
+    options: CallOptions = {}
   ): Promise<PagedResult<AuditLog>> {
     const params = new URLSearchParams();
 
@@ -92,11 +324,37 @@ export class AdminService {
     const queryString = params.toString();
     const url = `/audit${queryString ? `?${queryString}` : ""}`;
 
-    return await apiClient.get<PagedResult<AuditLog>>(url);
+    return await apiClient.get<PagedResult<AuditLog>>(url, {
+      decoder: auditLogPageDecoder,
+      ...options,
+    });
+  }
+
+  // Every entry matching the filter, not only the current page
+  async exportAuditLogs(
+    filter: AuditLogFilter,
+    request: ExportRequest,
+    options: CallOptions = {}
+  ): Promise<Blob> {
+    return (await api.audit.getExport(
+      {
+        UserId: filter.userId,
+        Action: filter.action,
+        EntityType: filter.entityType,
+        FromDate: filter.fromDate,
+        ToDate: filter.toDate,
+        ...toExportQuery(request),
+      },
+      { responseType: "blob", ...options }
+    )) as Blob;
   }
 
-  // Reports
-  async getReportData(fromDate?: string, toDate?: string): Promise<ReportData> {
+  // Reports (not yet covered by openapi-spec.json)
+  async getReportData(
+    fromDate?: string,
+    toDate?: string,
+    options: CallOptions = {}
+  ): Promise<ReportData> {
     const params = new URLSearchParams();
     if (fromDate) params.append("fromDate", fromDate);
     if (toDate) params.append("toDate", toDate);
@@ -104,7 +362,10 @@ export class AdminService {
     const queryString = params.toString();
     const url = `/reports/dashboard${queryString ? `?${queryString}` : ""}`;
 
-    return await apiClient.get<ReportData>(url);
+    return await apiClient.get<ReportData>(url, {
+      decoder: reportDataDecoder,
+      ...options,
+    });
   }
 }
 
@@ -0,0 +1,5 @@
+import { createApi } from "@/api/client";
+import { apiClient } from "./apiClient";
+
+// Typed client generated from openapi-spec.json (see scripts/generate-api.mjs)
+export const api = createApi(apiClient);
@@ -4,20 +4,38 @@ import axios, {
   AxiosError,
   AxiosRequestConfig,
 } from "axios";
-import { ApiError, ApiClient } from "@/types/api";
+import {
+  ApiError,
+  ApiClient,
+  RequestOptions,
+  RetryPolicy,
+  RetryState,
+} from "@/types/api";
+import { DecodeError } from "@/utils/decoders";
+import { config } from "@/config";
+import { getRetryDelay, isRetriableError, wait } from "./retry";
+import { tokenManager } from "./tokenManager";
+import { sessionChannel } from "./sessionChannel";
 
-// Extend AxiosRequestConfig to include _retry flag
+// Extend AxiosRequestConfig to include _retry flag and the retry policy
 interface ExtendedAxiosRequestConfig extends AxiosRequestConfig {
   _retry?: boolean;
+  // Null when the request must not be retried (non-idempotent methods)
+  retryPolicy?: RetryPolicy | null;
+  retryCount?: number;
+  onRetry?: (state: RetryState) => void;
 }
 
+const readJsonBlob = async (blob: Blob): Promise<unknown> => {
+  try {
+    return JSON.parse(await blob.text());
+  } catch {
+    return undefined;
+  }
+};
+
 class ApiClientImpl implements ApiClient {
   private client: AxiosInstance;
-  private isRefreshing = false;
-  private failedQueue: Array<{
-    resolve: (value?: any) => void;
-    reject: (error?: any) => void;
-  }> = [];
 
   constructor() {
     this.client = axios.create({
@@ -30,26 +48,26 @@ class ApiClientImpl implements ApiClient {
     this.setupInterceptors();
   }
 
-  private processQueue(error: any, token: string | null = null) {
-    this.failedQueue.forEach(({ resolve, reject }) => {
-      if (error) {
-        reject(error);
-      } else {
-        resolve(token);
-      }
-    });
-
-    this.failedQueue = [];
+  // The session cannot be recovered: sign out this tab and every other one
+  private endSession() {
+    tokenManager.clear();
+    sessionChannel.post({ type: "logout" });
+    window.location.href = "/login";
   }
 
   private setupInterceptors() {
     // Request interceptor to add auth token
     this.client.interceptors.request.use(
-      (config) => {
-        const token = localStorage.getItem("token");
+      async (config) => {
+        // Refreshes first when the token is about to expire
+        const token = await tokenManager.getValidToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        // Let the browser set the multipart boundary for form uploads
+        if (config.data instanceof FormData) {
+          config.headers.delete("Content-Type");
+        }
         return config;
       },
       (error) => Promise.reject(error)
@@ -59,6 +77,12 @@ class ApiClientImpl implements ApiClient {
     this.client.interceptors.response.use(
       (response: AxiosResponse) => response,
       async (error: AxiosError) => {
+        // Aborted requests are passed through untouched so callers can tell
+        // them apart with isCancelledRequest()
+        if (error.code === AxiosError.ERR_CANCELED) {
+          return Promise.reject(error);
+        }
+
         const originalRequest = error.config as ExtendedAxiosRequestConfig;
 
         if (
@@ -66,54 +90,21 @@ class ApiClientImpl implements ApiClient {
           originalRequest &&
           !originalRequest._retry
         ) {
-          // Prevent infinite loops by marking the request as retried
-          originalRequest._retry = true;
-
-          // If we're already refreshing, queue this request
-          if (this.isRefreshing) {
-            return new Promise((resolve, reject) => {
-              this.failedQueue.push({ resolve, reject });
-            })
-              .then((token) => {
-                if (originalRequest.headers) {
-                  originalRequest.headers.Authorization = `Bearer ${token}`;
-                }
-                return this.client.request(originalRequest);
-              })
-              .catch((err) => {
-                return Promise.reject(err);
-              });
+          // A view-as session cannot be refreshed; reloading returns to the
+          // admin's own session
+          if (tokenManager.isImpersonating()) {
+            tokenManager.endImpersonation();
+            window.location.href = "/dashboard";
+            return Promise.reject(error);
           }
 
-          const refreshToken = localStorage.getItem("refreshToken");
-          const currentToken = localStorage.getItem("token");
-
-          if (refreshToken && currentToken) {
-            this.isRefreshing = true;
+          // Prevent infinite loops by marking the request as retried
+          originalRequest._retry = true;
 
+          if (tokenManager.hasSession()) {
             try {
-              // Create a new axios instance to avoid interceptor loops
-              const refreshResponse = await axios.post(
-                "/api/auth/refresh",
-                {
-                  refreshToken,
-                },
-                {
-                  headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${currentToken}`,
-                  },
-                }
-              );
-
-              const { accessToken, refreshToken: newRefreshToken } =
-                refreshResponse.data;
-
-              localStorage.setItem("token", accessToken);
-              localStorage.setItem("refreshToken", newRefreshToken);
-
-              // Process the failed queue
-              this.processQueue(null, accessToken);
+              // Shared with any other request that hit a 401 meanwhile
+              const accessToken = await tokenManager.refresh();
 
               // Retry the original request
               if (originalRequest.headers) {
@@ -121,32 +112,52 @@ class ApiClientImpl implements ApiClient {
               }
               return this.client.request(originalRequest);
             } catch (refreshError) {
-              // Process the failed queue with error
-              this.processQueue(refreshError, null);
-
               // Clear tokens and redirect to login
-              localStorage.removeItem("token");
-              localStorage.removeItem("refreshToken");
-              window.location.href = "/login";
+              this.endSession();
 
               return Promise.reject(refreshError);
-            } finally {
-              this.isRefreshing = false;
             }
           } else {
             // No refresh token, redirect to login
-            localStorage.removeItem("token");
-            localStorage.removeItem("refreshToken");
-            window.location.href = "/login";
+            this.endSession();
           }
         }
 
+        const retryPolicy = originalRequest?.retryPolicy;
+        if (retryPolicy && isRetriableError(error)) {
+          const attempt = (originalRequest.retryCount ?? 0) + 1;
+          const delayMs =
+            attempt <= retryPolicy.maxRetries
+              ? getRetryDelay(
+                  attempt,
+                  retryPolicy,
+                  error.response?.headers["retry-after"]
+                )
+              : null;
+
+          if (delayMs !== null) {
+            originalRequest.retryCount = attempt;
+            originalRequest.onRetry?.({
+              attempt,
+              maxRetries: retryPolicy.maxRetries,
+              delayMs,
+              statusCode: error.response?.status ?? 0,
+            });
+            await wait(delayMs, originalRequest.signal as AbortSignal);
+            return this.client.request(originalRequest);
+          }
+        }
+
+        // A failed download still explains itself in JSON, read as a Blob
+        const data =
+          error.response?.data instanceof Blob
+            ? await readJsonBlob(error.response.data)
+            : error.response?.data;
+
         const apiError: ApiError = {
           message:
-            (error.response?.data as any)?.message ||
-            error.message ||
-            "An error occurred",
-          errors: (error.response?.data as any)?.errors,
+            (data as any)?.message || error.message || "An error occurred",
+          errors: (data as any)?.errors,
           statusCode: error.response?.status || 500,
         };
 
@@ -155,27 +166,101 @@ class ApiClientImpl implements ApiClient {
     );
   }
 
-  async get<T>(url: string): Promise<T> {
-    const response = await this.client.get<T>(url);
-    return response.data;
+  private requestConfig<T>(
+    method: "get" | "post" | "put" | "delete",
+    options?: RequestOptions<T>
+  ): ExtendedAxiosRequestConfig {
+    // Only GETs are assumed idempotent; other methods opt in with `retry`
+    const retry = options?.retry ?? method === "get";
+    return {
+      signal: options?.signal,
+      retryPolicy:
+        retry === false
+          ? null
+          : { ...config.retry, ...(retry === true ? {} : retry) },
+      onRetry: options?.onRetry,
+      responseType: options?.responseType,
+    };
+  }
+
+  // Runs the response body through the request's decoder, if any. Strict mode
+  // rejects with an ApiError; warn mode logs and passes the raw body through.
+  private decode<T>(
+    url: string,
+    response: AxiosResponse<T>,
+    options?: RequestOptions<T>
+  ): T {
+    const mode = config.responseValidation;
+    if (!options?.decoder || mode === "off") {
+      return response.data;
+    }
+
+    try {
+      return options.decoder(response.data);
+    } catch (error) {
+      if (!(error instanceof DecodeError)) throw error;
+
+      if (mode === "warn") {
+        console.warn(`Unexpected response from ${url}:`, error.message);
+        return response.data;
+      }
+
+      const apiError: ApiError = {
+        message: `Unexpected response from ${url}: ${error.message}`,
+        statusCode: response.status,
+        path: error.path,
+      };
+      throw apiError;
+    }
+  }
+
+  async get<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    const response = await this.client.get<T>(
+      url,
+      this.requestConfig("get", options)
+    );
+    return this.decode(url, response, options);
   }
 
-  async post<T>(url: string, data?: any): Promise<T> {
-    const response = await this.client.post<T>(url, data);
-    return response.data;
+  async post<T>(
+    url: string,
+    data?: any,
+    options?: RequestOptions<T>
+  ): Promise<T> {
+    const response = await this.client.post<T>(
+      url,
+      data,
+      this.requestConfig("post", options)
+    );
+    return this.decode(url, response, options);
   }
 
-  async put<T>(url: string, data?: any): Promise<T> {
-    const response = await this.client.put<T>(url, data);
-    return response.data;
+  async put<T>(
+    url: string,
+    data?: any,
+    options?: RequestOptions<T>
+  ): Promise<T> {
+    const response = await this.client.put<T>(
+      url,
+      data,
+      this.requestConfig("put", options)
+    );
+    return this.decode(url, response, options);
   }
 
-  async delete<T>(url: string): Promise<T> {
-    const response = await this.client.delete<T>(url);
-    return response.data;
+  async delete<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    const response = await this.client.delete<T>(
+      url,
+      this.requestConfig("delete", options)
+    );
+    return this.decode(url, response, options);
   }
 }
 
 export const apiClient = new ApiClientImpl();
 
+export const isCancelledRequest = (error: unknown): boolean =>
+  axios.isCancel(error) ||
+  (error instanceof DOMException && error.name === "AbortError");
+
 // Force bundle refresh - v2.0
@@ -1,81 +1,226 @@
-import { apiClient } from "./apiClient";
+import { api } from "./api";
+import { tokenManager } from "./tokenManager";
 import {
   LoanApplication,
   CreateApplicationRequest,
   ApplicationFilter,
+  ApplicationDraft,
+  SaveApplicationDraftRequest,
+  ImportColumns,
+  ImportMapping,
   DocumentUploadRequest,
-  Document,
+  UploadedDocument,
+  Decision,
 } from "@/types/application";
-import { PagedResult } from "@/types/api";
+import { CallOptions, PagedResult } from "@/types/api";
+import { ExportRequest } from "@/types/export";
+import { pagedResultDecoder } from "@/decoders/api";
+import {
+  applicationDraftDecoder,
+  decisionDecoder,
+  importMappingDecoder,
+  loanApplicationDecoder,
+  uploadedDocumentDecoder,
+} from "@/decoders/application";
+import * as d from "@/utils/decoders";
+import { toExportQuery } from "@/utils/export";
+
+const applicationPageDecoder = pagedResultDecoder(loanApplicationDecoder);
+
+// The list's filters and sorting, as the API names them
+const toApplicationQuery = (filter: ApplicationFilter) => ({
+  Status: filter.status,
+  AffiliateId: filter.affiliateId,
+  CreatedAfter: filter.fromDate,
+  CreatedBefore: filter.toDate,
+  Search: filter.search,
+  ProductType: filter.productType,
+  EmploymentType: filter.employmentType,
+  MinAmount: filter.minAmount,
+  MaxAmount: filter.maxAmount,
+  MinCreditScore: filter.minCreditScore,
+  MaxCreditScore: filter.maxCreditScore,
+  SortBy: filter.sortBy,
+  SortDirection: filter.sortDirection,
+});
 
 export class ApplicationService {
   async getApplications(
-    filter: ApplicationFilter = {}
+    filter: ApplicationFilter = {},
+    options: CallOptions = {}
   ): Promise<PagedResult<LoanApplication>> {
-    const params = new URLSearchParams();
-
-    if (filter.status) params.append("status", filter.status);
-    if (filter.affiliateId)
-      params.append("affiliateId", filter.affiliateId.toString());
-    if (filter.fromDate) params.append("fromDate", filter.fromDate);
-    if (filter.toDate) params.append("toDate", filter.toDate);
-    if (filter.pageNumber)
-      params.append("pageNumber", filter.pageNumber.toString());
-    if (filter.pageSize) params.append("pageSize", filter.pageSize.toString());
-
-    const queryString = params.toString();
-    const url = `/applications${queryString ? `?${queryString}` : ""}`;
+    return await api.applications.get(
+      {
+        ...toApplicationQuery(filter),
+        Page: filter.pageNumber,
+        PageSize: filter.pageSize,
+      },
+      { decoder: applicationPageDecoder, ...options }
+    );
+  }
 
-    return await apiClient.get<PagedResult<LoanApplication>>(url);
+  // Every application matching the filter, not only the current page
+  async exportApplications(
+    filter: ApplicationFilter,
+    request: ExportRequest,
+    options: CallOptions = {}
+  ): Promise<Blob> {
+    return (await api.applications.getExport(
+      { ...toApplicationQuery(filter), ...toExportQuery(request) },
+      { responseType: "blob", ...options }
+    )) as Blob;
   }
 
-  async getApplication(id: number): Promise<LoanApplication> {
-    return await apiClient.get<LoanApplication>(`/applications/${id}`);
+  async getApplication(
+    id: number,
+    options: CallOptions = {}
+  ): Promise<LoanApplication> {
+    return await api.applications.getById(id, {
+      decoder: loanApplicationDecoder,
+      ...options,
+    });
   }
 
   async createApplication(
-    request: CreateApplicationRequest
+    request: CreateApplicationRequest,
+    options: CallOptions = {}
   ): Promise<LoanApplication> {
-    return await apiClient.post<LoanApplication>("/applications", request);
+    const { applicant, ...loan } = request;
+    return await api.applications.post(
+      {
+        firstName: applicant.firstName,
+        lastName: applicant.lastName,
+        ssn: applicant.ssn,
+        dateOfBirth: applicant.dateOfBirth,
+        phone: applicant.phone,
+        email: applicant.email,
+        address: applicant.address,
+        productType: loan.productType,
+        amount: loan.amount,
+        incomeMonthly: loan.incomeMonthly,
+        employmentType: loan.employmentType,
+        creditScore: loan.creditScore ?? null,
+        draftId: loan.draftId ?? null,
+      },
+      { decoder: loanApplicationDecoder, ...options }
+    );
+  }
+
+  async getDrafts(options: CallOptions = {}): Promise<ApplicationDraft[]> {
+    return await api.applicationDrafts.get({
+      decoder: d.array(applicationDraftDecoder),
+      ...options,
+    });
+  }
+
+  async getDraft(
+    id: number,
+    options: CallOptions = {}
+  ): Promise<ApplicationDraft> {
+    return await api.applicationDrafts.getById(id, {
+      decoder: applicationDraftDecoder,
+      ...options,
+    });
+  }
+
+  async createDraft(
+    request: SaveApplicationDraftRequest,
+    options: CallOptions = {}
+  ): Promise<ApplicationDraft> {
+    return await api.applicationDrafts.post(request, {
+      decoder: applicationDraftDecoder,
+      ...options,
+    });
+  }
+
+  async updateDraft(
+    id: number,
+    request: SaveApplicationDraftRequest,
+    options: CallOptions = {}
+  ): Promise<ApplicationDraft> {
+    return await api.applicationDrafts.putById(id, request, {
+      decoder: applicationDraftDecoder,
+      ...options,
+    });
+  }
+
+  async deleteDraft(id: number, options: CallOptions = {}): Promise<void> {
+    await api.applicationDrafts.deleteById(id, options);
+  }
+
+  // Shared by the users of the signed-in user's affiliate
+  async getImportMapping(options: CallOptions = {}): Promise<ImportMapping> {
+    return await api.importMapping.get({
+      decoder: importMappingDecoder,
+      ...options,
+    });
+  }
+
+  async saveImportMapping(
+    columns: ImportColumns,
+    options: CallOptions = {}
+  ): Promise<ImportMapping> {
+    return await api.importMapping.put(
+      { columns },
+      { decoder: importMappingDecoder, ...options }
+    );
   }
 
   async uploadDocument(
     applicationId: number,
-    request: DocumentUploadRequest
-  ): Promise<Document> {
+    request: DocumentUploadRequest,
+    options: CallOptions = {}
+  ): Promise<UploadedDocument> {
     const formData = new FormData();
     formData.append("file", request.file);
     if (request.description) {
       formData.append("description", request.description);
     }
 
-    // Override content type for file upload
+    return await api.applications.postByIdDocuments(applicationId, formData, {
+      decoder: uploadedDocumentDecoder,
+      ...options,
+    });
+  }
+
+  async getDocuments(
+    applicationId: number,
+    options: CallOptions = {}
+  ): Promise<UploadedDocument[]> {
+    return await api.applications.getByApplicationIdDocuments(applicationId, {
+      decoder: d.array(uploadedDocumentDecoder),
+      ...options,
+    });
+  }
+
+  async deleteDocument(
+    applicationId: number,
+    documentId: number,
+    options: CallOptions = {}
+  ): Promise<void> {
+    return await api.applications.deleteByApplicationIdDocumentsByDocumentId(
+      applicationId,
+      documentId,
+      options
+    );
+  }
+
+  async downloadDocument(
+    applicationId: number,
+    documentId: number,
+    options: CallOptions = {}
+  ): Promise<Blob> {
+    const token = await tokenManager.getValidToken();
     const response = await fetch(
-      `/api/applications/${applicationId}/documents`,
+      `/api/applications/${applicationId}/documents/${documentId}/download`,
       {
-        method: "POST",
         headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          Authorization: `Bearer ${token}`,
         },
-        body: formData,
+        signal: options.signal,
       }
     );
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw error;
-    }
-
-    return await response.json();
-  }
-
-  async downloadDocument(documentId: number): Promise<Blob> {
-    const response = await fetch(`/api/documents/${documentId}`, {
-      headers: {
-        Authorization: `Bearer ${localStorage.getItem("token")}`,
-      },
-    });
-
     if (!response.ok) {
       throw new Error("Failed to download document");
     }
@@ -83,10 +228,14 @@ export class ApplicationService {
     return await response.blob();
   }
 
-  async evaluateApplication(applicationId: number): Promise<LoanApplication> {
-    return await apiClient.post<LoanApplication>(
-      `/applications/${applicationId}/evaluate`
-    );
+  async evaluateApplication(
+    applicationId: number,
+    options: CallOptions = {}
+  ): Promise<Decision> {
+    return await api.applications.postByIdEvaluate(applicationId, {
+      decoder: decisionDecoder,
+      ...options,
+    });
   }
 }
 
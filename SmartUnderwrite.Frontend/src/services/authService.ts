@@ -1,74 +1,398 @@
-import { apiClient } from "./apiClient";
+import { isAxiosError } from "axios";
+import { api } from "./api";
+import { ApiError, CallOptions } from "@/types/api";
 import {
+  ConfirmEmailRequest,
+  ForgotPasswordRequest,
+  ImpersonationResponse,
+  InvitationLookup,
   LoginRequest,
   LoginResponse,
-  RefreshTokenRequest,
+  MfaEnableResponse,
+  MfaLoginRequest,
+  MfaSetup,
+  MfaStatus,
+  OidcLoginRequest,
+  OidcProvider,
   RegisterRequest,
+  ResetPasswordRequest,
+  Session,
+  SessionEvent,
+  SignOutReason,
+  SignUpRequest,
+  SignUpResponse,
+  StartImpersonationRequest,
   User,
 } from "@/types/auth";
+import {
+  impersonationResponseDecoder,
+  invitationLookupDecoder,
+  loginResponseDecoder,
+  mfaEnableResponseDecoder,
+  mfaSetupDecoder,
+  mfaStatusDecoder,
+  oidcProviderDecoder,
+  recoveryCodesDecoder,
+  sessionDecoder,
+  signUpResponseDecoder,
+  userDecoder,
+} from "@/decoders/auth";
+import * as d from "@/utils/decoders";
+import { tokenManager } from "./tokenManager";
+import { sessionChannel } from "./sessionChannel";
+import { sessionStore, usesRefreshCookie } from "./sessionStore";
+
+const USER_KEY = "user";
+
+// Tabs only share storage in localStorage mode; in memory mode the access
+// token travels with the event instead
+const shareSession = (response: LoginResponse) =>
+  usesRefreshCookie
+    ? {
+        session: {
+          accessToken: response.accessToken,
+          expiresAt: response.expiresAt,
+        },
+      }
+    : {};
 
 export class AuthService {
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
-    const response = await apiClient.post<LoginResponse>(
-      "/auth/login",
-      credentials
-    );
+  constructor() {
+    // Refresh responses carry the latest user profile as well
+    tokenManager.onRefresh((response) => {
+      sessionStore.setItem(USER_KEY, JSON.stringify(response.user));
+      sessionChannel.post({
+        type: "refresh",
+        user: response.user,
+        ...shareSession(response),
+      });
+    });
+
+    // Another tab changed the session; follow its refresh schedule
+    sessionChannel.subscribe((event) => {
+      if (usesRefreshCookie) {
+        this.mirrorSession(event);
+      }
+      tokenManager.resync();
+    });
+  }
+
+  private storeSession(response: LoginResponse) {
+    tokenManager.setSession(response);
+    sessionStore.setItem(USER_KEY, JSON.stringify(response.user));
+    sessionChannel.post({
+      type: "login",
+      user: response.user,
+      ...shareSession(response),
+    });
+  }
+
+  // Copies a change made in another tab into this tab's memory store
+  private mirrorSession(event: SessionEvent) {
+    if (event.type === "logout") {
+      this.clearTokens();
+      return;
+    }
+    if (event.type !== "user" && event.session) {
+      tokenManager.adopt(event.session);
+    }
+    sessionStore.setItem(USER_KEY, JSON.stringify(event.user));
+  }
+
+  async login(
+    credentials: LoginRequest,
+    options: CallOptions = {}
+  ): Promise<LoginResponse> {
+    const response = await api.auth.postLogin(credentials, {
+      decoder: loginResponseDecoder,
+      ...options,
+    });
+
+    // With MFA on, the response is a challenge for verifyMfaLogin and
+    // carries no tokens yet
+    if (!response.mfaChallengeToken) {
+      this.storeSession(response);
+    }
+
+    return response;
+  }
+
+  async verifyMfaLogin(
+    request: MfaLoginRequest,
+    options: CallOptions = {}
+  ): Promise<LoginResponse> {
+    const response = await api.auth.postLoginMfa(request, {
+      decoder: loginResponseDecoder,
+      ...options,
+    });
+
+    this.storeSession(response);
+
+    return response;
+  }
+
+  async getOidcProvider(options: CallOptions = {}): Promise<OidcProvider> {
+    return await api.auth.getOidc({ decoder: oidcProviderDecoder, ...options });
+  }
 
-    // Store tokens in localStorage
-    localStorage.setItem("token", response.accessToken);
-    localStorage.setItem("refreshToken", response.refreshToken);
-    localStorage.setItem("user", JSON.stringify(response.user));
+  // Like login, the response may be an MFA challenge instead of a session
+  async loginWithOidc(
+    request: OidcLoginRequest,
+    options: CallOptions = {}
+  ): Promise<LoginResponse> {
+    const response = await api.auth.postOidcLogin(request, {
+      decoder: loginResponseDecoder,
+      ...options,
+    });
+
+    if (!response.mfaChallengeToken) {
+      this.storeSession(response);
+    }
 
     return response;
   }
 
-  async register(userData: RegisterRequest): Promise<LoginResponse> {
-    const response = await apiClient.post<LoginResponse>(
-      "/auth/register",
-      userData
+  async getMfaStatus(options: CallOptions = {}): Promise<MfaStatus> {
+    return await api.auth.getMfa({ decoder: mfaStatusDecoder, ...options });
+  }
+
+  // Creates the authenticator key on first use
+  async setupMfa(options: CallOptions = {}): Promise<MfaSetup> {
+    return await api.auth.postMfaSetup({
+      decoder: mfaSetupDecoder,
+      ...options,
+    });
+  }
+
+  // The server upgrades the session once the first code checks out
+  async enableMfa(
+    code: string,
+    options: CallOptions = {}
+  ): Promise<MfaEnableResponse> {
+    const response = await api.auth.postMfaEnable(
+      { code },
+      { decoder: mfaEnableResponseDecoder, ...options }
     );
 
-    // Store tokens in localStorage
-    localStorage.setItem("token", response.accessToken);
-    localStorage.setItem("refreshToken", response.refreshToken);
-    localStorage.setItem("user", JSON.stringify(response.user));
+    this.storeSession(response.session);
 
     return response;
   }
 
-  async refreshToken(refreshToken: string): Promise<LoginResponse> {
-    const request: RefreshTokenRequest = { refreshToken };
-    const response = await apiClient.post<LoginResponse>(
-      "/auth/refresh",
-      request
+  async disableMfa(code: string, options: CallOptions = {}): Promise<void> {
+    await api.auth.postMfaDisable({ code }, options);
+  }
+
+  // The previous recovery codes stop working
+  async regenerateRecoveryCodes(
+    code: string,
+    options: CallOptions = {}
+  ): Promise<string[]> {
+    const response = await api.auth.postMfaRecoveryCodes(
+      { code },
+      { decoder: recoveryCodesDecoder, ...options }
     );
+    return response.recoveryCodes;
+  }
 
-    // Update stored tokens
-    localStorage.setItem("token", response.accessToken);
-    localStorage.setItem("refreshToken", response.refreshToken);
-    localStorage.setItem("user", JSON.stringify(response.user));
+  async getSessions(options: CallOptions = {}): Promise<Session[]> {
+    return await api.auth.getSessions({
+      decoder: d.array(sessionDecoder),
+      ...options,
+    });
+  }
+
+  // The device can no longer refresh; its access token runs out within minutes
+  async revokeSession(id: number, options: CallOptions = {}): Promise<void> {
+    await api.auth.deleteSessionsById(id, options);
+  }
+
+  // Includes this device, so the caller signs out locally afterwards
+  async revokeAllSessions(options: CallOptions = {}): Promise<void> {
+    await api.auth.deleteSessions(options);
+  }
+
+  // Admins create accounts for other people, so the session is left alone
+  async register(
+    userData: RegisterRequest,
+    options: CallOptions = {}
+  ): Promise<LoginResponse> {
+    return await api.auth.postRegister(userData, {
+      decoder: loginResponseDecoder,
+      ...options,
+    });
+  }
+
+  // Self-service registration; the account stays inactive until the email
+  // address is confirmed and, where needed, an admin approves it
+  async signUp(
+    request: SignUpRequest,
+    options: CallOptions = {}
+  ): Promise<SignUpResponse> {
+    return await api.auth.postSignup(request, {
+      decoder: signUpResponseDecoder,
+      ...options,
+    });
+  }
+
+  async confirmEmail(
+    request: ConfirmEmailRequest,
+    options: CallOptions = {}
+  ): Promise<SignUpResponse> {
+    return await api.auth.postConfirmEmail(request, {
+      decoder: signUpResponseDecoder,
+      ...options,
+    });
+  }
+
+  async lookupInvitation(
+    code: string,
+    options: CallOptions = {}
+  ): Promise<InvitationLookup> {
+    return await api.auth.getInvitationsByCode(code, {
+      decoder: invitationLookupDecoder,
+      ...options,
+    });
+  }
+
+  // Succeeds whether or not the address has an account
+  async requestPasswordReset(
+    request: ForgotPasswordRequest,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.auth.postForgotPassword(request, options);
+  }
+
+  // Also ends every session signed in with the old password
+  async resetPassword(
+    request: ResetPasswordRequest,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await api.auth.postResetPassword(request, options);
+  }
+
+  // Starts a read-only session as another user in this tab. The admin's own
+  // tokens stay in place, and keep being refreshed, for the way back.
+  async startImpersonation(
+    request: StartImpersonationRequest,
+    options: CallOptions = {}
+  ): Promise<ImpersonationResponse> {
+    const response = await api.auth.postImpersonation(request, {
+      decoder: impersonationResponseDecoder,
+      ...options,
+    });
+
+    tokenManager.startImpersonation(response);
 
     return response;
   }
 
-  async logout(): Promise<void> {
+  // Resolves to the admin's own user
+  async stopImpersonation(): Promise<User> {
+    await this.endImpersonation();
+
     try {
-      await apiClient.post("/auth/logout");
+      return await this.getMe();
+    } catch (error) {
+      // The stored user is the admin's, as impersonation never replaces it
+      const storedUser = this.getCurrentUser();
+      if (!storedUser) throw error;
+      return storedUser;
+    }
+  }
+
+  isImpersonating(): boolean {
+    return tokenManager.isImpersonating();
+  }
+
+  private async endImpersonation(): Promise<void> {
+    try {
+      await api.auth.deleteImpersonation();
+    } catch (error) {
+      // The token may have expired already; the session ends either way
+      console.warn("Ending impersonation failed:", error);
+    } finally {
+      tokenManager.endImpersonation();
+    }
+  }
+
+  // Refreshes through the token manager so it is shared with the API client
+  async refreshToken(): Promise<string> {
+    return await tokenManager.refresh();
+  }
+
+  async logout(reason?: SignOutReason): Promise<void> {
+    // The admin's own session is the one to end
+    if (tokenManager.isImpersonating()) {
+      await this.endImpersonation();
+    }
+
+    try {
+      // Without an access token there is no server session to end
+      if (tokenManager.getToken()) {
+        await api.auth.postLogout({
+          refreshToken: tokenManager.getRefreshToken() ?? "",
+        });
+      }
     } catch (error) {
       // Even if logout fails on server, clear local storage
       console.error("Logout error:", error);
     } finally {
       this.clearTokens();
+      sessionChannel.post({ type: "logout", reason });
     }
   }
 
+  async getMe(options: CallOptions = {}): Promise<User> {
+    const user = await api.auth.getMe({ decoder: userDecoder, ...options });
+
+    // Keep the stored profile, and every open tab, up to date. An
+    // impersonated user is this tab's business only.
+    if (!tokenManager.isImpersonating()) {
+      sessionStore.setItem(USER_KEY, JSON.stringify(user));
+      sessionChannel.post({ type: "user", user });
+    }
+
+    return user;
+  }
+
+  /**
+   * Restores the session after a page load and loads the user from /auth/me
+   * rather than trusting the stored copy. In memory mode nothing survived the
+   * reload, so a new access token is obtained with the refresh cookie first.
+   * Resolves to null without a session; rejects when /auth/me fails.
+   */
+  async restoreSession(options: CallOptions = {}): Promise<User | null> {
+    if (usesRefreshCookie) {
+      try {
+        await tokenManager.refresh();
+      } catch (error) {
+        this.clearTokens();
+        // The refresh goes around apiClient, so report a disabled account
+        // the same way /auth/me would
+        if (isAxiosError(error) && error.response?.status === 403) {
+          const apiError: ApiError = {
+            message: "Account is disabled",
+            statusCode: 403,
+          };
+          throw apiError;
+        }
+        return null;
+      }
+    } else if (!this.getToken()) {
+      return null;
+    }
+
+    return await this.getMe(options);
+  }
+
   getCurrentUser(): User | null {
-    const userStr = localStorage.getItem("user");
+    const userStr = sessionStore.getItem(USER_KEY);
     if (userStr) {
       try {
         return JSON.parse(userStr);
       } catch (error) {
-        console.error("Error parsing user from localStorage:", error);
+        console.error("Error parsing stored user:", error);
         this.clearTokens();
       }
     }
@@ -76,7 +400,7 @@ export class AuthService {
   }
 
   getToken(): string | null {
-    return localStorage.getItem("token");
+    return tokenManager.getToken();
   }
 
   isAuthenticated(): boolean {
@@ -85,33 +409,13 @@ export class AuthService {
     return !!(token && user);
   }
 
-  hasRole(role: string): boolean {
-    const user = this.getCurrentUser();
-    return user?.roles?.includes(role) || false;
-  }
-
-  hasAnyRole(roles: string[]): boolean {
-    const user = this.getCurrentUser();
-    return roles.some((role) => user?.roles?.includes(role)) || false;
-  }
-
   clearTokens(): void {
-    localStorage.removeItem("token");
-    localStorage.removeItem("refreshToken");
-    localStorage.removeItem("user");
+    tokenManager.clear();
+    sessionStore.removeItem(USER_KEY);
   }
 
   isTokenExpired(): boolean {
-    const token = this.getToken();
-    if (!token) return true;
-
-    try {
-      const payload = JSON.parse(atob(token.split(".")[1]));
-      const currentTime = Date.now() / 1000;
-      return payload.exp < currentTime;
-    } catch (error) {
-      return true;
-    }
+    return tokenManager.isExpired();
   }
 }
 
@@ -1,24 +1,50 @@
 import { apiClient } from "./apiClient";
+import { api } from "./api";
 import {
   DecisionRequest,
   DecisionResponse,
   DecisionFilter,
   DecisionSummary,
 } from "@/types/decision";
-import { PagedResult } from "@/types/api";
-import { LoanApplication } from "@/types/application";
+import { CallOptions, PagedResult } from "@/types/api";
+import { ExportRequest } from "@/types/export";
+import {
+  ApplicationStatus,
+  Decision,
+  LoanApplication,
+} from "@/types/application";
+import { pagedResultDecoder } from "@/decoders/api";
+import { loanApplicationDecoder } from "@/decoders/application";
+import {
+  decisionResponseDecoder,
+  decisionSummaryDecoder,
+} from "@/decoders/decision";
+import { appendExportParams } from "@/utils/export";
+
+const decisionPageDecoder = pagedResultDecoder(decisionResponseDecoder);
+
+// The list's filters, without the page
+const toDecisionParams = (filter: DecisionFilter) => {
+  const params = new URLSearchParams();
+
+  if (filter.outcome) params.append("outcome", filter.outcome);
+  if (filter.isManual !== undefined)
+    params.append("isManual", filter.isManual.toString());
+  if (filter.fromDate) params.append("fromDate", filter.fromDate);
+  if (filter.toDate) params.append("toDate", filter.toDate);
+
+  return params;
+};
 
 export class DecisionService {
+  // The decision list and summary endpoints are not yet part of
+  // openapi-spec.json, so they are requested directly.
   async getDecisions(
-    filter: DecisionFilter = {}
+    filter: DecisionFilter = {},
+    options: CallOptions = {}
   ): Promise<PagedResult<DecisionResponse>> {
-    const params = new URLSearchParams();
+    const params = toDecisionParams(filter);
 
-    if (filter.outcome) params.append("outcome", filter.outcome);
-    if (filter.isManual !== undefined)
-      params.append("isManual", filter.isManual.toString());
-    if (filter.fromDate) params.append("fromDate", filter.fromDate);
-    if (filter.toDate) params.append("toDate", filter.toDate);
     if (filter.pageNumber)
       params.append("pageNumber", filter.pageNumber.toString());
     if (filter.pageSize) params.append("pageSize", filter.pageSize.toString());
@@ -26,24 +52,59 @@ export class DecisionService {
     const queryString = params.toString();
     const url = `/decisions${queryString ? `?${queryString}` : ""}`;
 
-    return await apiClient.get<PagedResult<DecisionResponse>>(url);
+    return await apiClient.get<PagedResult<DecisionResponse>>(url, {
+      decoder: decisionPageDecoder,
+      ...options,
+    });
   }
 
-  async getDecision(id: number): Promise<DecisionResponse> {
-    return await apiClient.get<DecisionResponse>(`/decisions/${id}`);
+  // Every decision matching the filter, not only the current page
+  async exportDecisions(
+    filter: DecisionFilter,
+    request: ExportRequest,
+    options: CallOptions = {}
+  ): Promise<Blob> {
+    const params = toDecisionParams(filter);
+    appendExportParams(params, request);
+
+    return await apiClient.get<Blob>(`/decisions/export?${params}`, {
+      responseType: "blob",
+      ...options,
+    });
   }
 
-  async makeDecision(request: DecisionRequest): Promise<LoanApplication> {
-    return await apiClient.post<LoanApplication>("/decisions", request);
+  async makeDecision(
+    request: DecisionRequest,
+    options: CallOptions = {}
+  ): Promise<Decision> {
+    return await api.applications.postByIdDecision(
+      request.applicationId,
+      {
+        outcome: request.outcome,
+        reasons: request.reasons,
+        justification: request.notes ?? null,
+      },
+      { decoder: decisionResponseDecoder, ...options }
+    );
   }
 
-  async getDecisionSummary(): Promise<DecisionSummary> {
-    return await apiClient.get<DecisionSummary>("/decisions/summary");
+  async getDecisionSummary(
+    options: CallOptions = {}
+  ): Promise<DecisionSummary> {
+    return await apiClient.get<DecisionSummary>("/decisions/summary", {
+      decoder: decisionSummaryDecoder,
+      ...options,
+    });
   }
 
-  async getPendingApplications(): Promise<PagedResult<LoanApplication>> {
-    return await apiClient.get<PagedResult<LoanApplication>>(
-      "/applications?status=ManualReview"
+  async getPendingApplications(
+    options: CallOptions = {}
+  ): Promise<PagedResult<LoanApplication>> {
+    return await api.applications.get(
+      {
+        Status: ApplicationStatus.ManualReview,
+      },
+      { decoder: pagedResultDecoder(loanApplicationDecoder), ...options }
     );
   }
 }
@@ -0,0 +1,63 @@
+/**
+ * Remembers which rows of an import file became applications, so importing
+ * the same file again, after closing the tab or a failure, skips them
+ * instead of creating duplicates. Kept in localStorage per user and file
+ * content; only row numbers and application ids are stored, never applicant
+ * data.
+ */
+
+const KEY_PREFIX = "applicationImport:";
+
+// Older entries are dropped whenever an import is saved
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface ImportProgress {
+  fileName: string;
+  // Spreadsheet row number to the id of the application created from it
+  created: Record<number, number>;
+  updatedAt: string;
+}
+
+const storageKey = (userId: number, fingerprint: string) =>
+  `${KEY_PREFIX}${userId}:${fingerprint}`;
+
+const parse = (json: string | null): ImportProgress | null => {
+  try {
+    const progress = json ? JSON.parse(json) : null;
+    return progress && typeof progress.created === "object" ? progress : null;
+  } catch {
+    return null;
+  }
+};
+
+const removeExpired = () => {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(KEY_PREFIX))
+    .forEach((key) => {
+      const progress = parse(localStorage.getItem(key));
+      if (
+        !progress ||
+        Date.now() - Date.parse(progress.updatedAt) > MAX_AGE_MS
+      ) {
+        localStorage.removeItem(key);
+      }
+    });
+};
+
+export const loadImportProgress = (
+  userId: number,
+  fingerprint: string
+): ImportProgress | null =>
+  parse(localStorage.getItem(storageKey(userId, fingerprint)));
+
+export const saveImportProgress = (
+  userId: number,
+  fingerprint: string,
+  progress: Omit<ImportProgress, "updatedAt">
+) => {
+  removeExpired();
+  localStorage.setItem(
+    storageKey(userId, fingerprint),
+    JSON.stringify({ ...progress, updatedAt: new Date().toISOString() })
+  );
+};
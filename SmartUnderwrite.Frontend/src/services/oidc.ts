@@ -0,0 +1,114 @@
+import { OidcLoginRequest, OidcProvider } from "@/types/auth";
+
+/**
+ * The browser half of the OpenID Connect authorization code flow with PKCE.
+ * The verifier, state and nonce must survive the round trip through the
+ * identity provider, so they are kept in sessionStorage, which is per tab,
+ * and removed as soon as the callback reads them.
+ */
+
+const PENDING_LOGIN_KEY = "oidcPendingLogin";
+
+export const OIDC_CALLBACK_PATH = "/auth/callback";
+
+// Where to go after signing in, like ProtectedRoute's `from`
+export interface ReturnLocation {
+  pathname: string;
+  search?: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  from: ReturnLocation | null;
+}
+
+export interface OidcCallback {
+  request: OidcLoginRequest;
+  from: ReturnLocation | null;
+}
+
+const base64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const randomString = (): string =>
+  base64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier)
+  );
+  return base64Url(new Uint8Array(digest));
+};
+
+const getRedirectUri = () => `${window.location.origin}${OIDC_CALLBACK_PATH}`;
+
+/** Leaves the app for the identity provider's sign-in page. */
+export const beginOidcLogin = async (
+  provider: OidcProvider,
+  from: ReturnLocation | null
+): Promise<void> => {
+  if (!provider.authorizationEndpoint || !provider.clientId) {
+    throw new Error("Single sign-on is not available");
+  }
+
+  const pending: PendingLogin = {
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(),
+    from,
+  };
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+  const url = new URL(provider.authorizationEndpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: getRedirectUri(),
+    scope: provider.scope ?? "openid profile email",
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: "S256",
+  }).toString();
+
+  window.location.assign(url.toString());
+};
+
+/**
+ * Reads the identity provider's answer from the callback URL. Throws with a
+ * message for the user when sign-in was refused or the answer does not belong
+ * to the sign-in this tab started.
+ */
+export const takeOidcCallback = (params: URLSearchParams): OidcCallback => {
+  const stored = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+  const error = params.get("error");
+  if (error) {
+    throw new Error(
+      params.get("error_description") ?? `Single sign-on failed (${error})`
+    );
+  }
+
+  const pending = stored ? (JSON.parse(stored) as PendingLogin) : null;
+  const code = params.get("code");
+  if (!pending || !code || params.get("state") !== pending.state) {
+    throw new Error("This sign-in link has expired. Please sign in again.");
+  }
+
+  return {
+    request: {
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: getRedirectUri(),
+      nonce: pending.nonce,
+    },
+    from: pending.from,
+  };
+};
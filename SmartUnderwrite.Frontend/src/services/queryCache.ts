@@ -0,0 +1,204 @@
+import { ApiError } from "@/types/api";
+
+/**
+ * Keyed cache for API reads, shared by useApiQuery and useApiMutation.
+ *
+ * Keys are arrays such as `["applications", "list", filter]`; two keys with
+ * equal JSON refer to the same entry. Invalidating a key prefix marks every
+ * matching entry stale and refetches the ones currently on screen. A request
+ * is aborted as soon as no component is subscribed to its key any more.
+ */
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: ApiError | null;
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+type Listener = () => void;
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<Listener>;
+  fetcher?: QueryFetcher<unknown>;
+  inFlight?: InFlightRequest;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Entries nobody has subscribed to for this long are dropped
+const GC_TIME = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const toApiError = (err: unknown): ApiError => {
+  if (err && typeof err === "object" && "message" in err) {
+    return err as ApiError;
+  }
+  return { message: "An unexpected error occurred", statusCode: 0 };
+};
+
+class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  private getEntry(key: QueryKey): CacheEntry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: EMPTY_STATE, listeners: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState(entry: CacheEntry, patch: Partial<QueryState<unknown>>) {
+    // A new object each time so useSyncExternalStore sees the change
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  // Aborts the entry's request; its eventual result is ignored
+  private cancel(entry: CacheEntry) {
+    if (!entry.inFlight) return;
+    entry.inFlight.controller.abort();
+    entry.inFlight = undefined;
+    entry.state = { ...entry.state, isFetching: false };
+  }
+
+  private scheduleGc(hash: string, entry: CacheEntry) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.inFlight) {
+        this.entries.delete(hash);
+      }
+    }, GC_TIME);
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(hashKey(key));
+    return (entry?.state ?? EMPTY_STATE) as QueryState<T>;
+  }
+
+  subscribe(key: QueryKey, listener: Listener): () => void {
+    const hash = hashKey(key);
+    const entry = this.getEntry(key);
+    clearTimeout(entry.gcTimer);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        // Nobody is waiting for the response: the key changed or the
+        // component unmounted
+        this.cancel(entry);
+        this.scheduleGc(hash, entry);
+      }
+    };
+  }
+
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const { updatedAt } = this.getState(key);
+    return Date.now() - updatedAt >= staleTime;
+  }
+
+  /**
+   * Runs the fetcher for a key, sharing the request with any caller that
+   * asks for the same key while it is still in flight.
+   */
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+    const entry = this.getEntry(key);
+    entry.fetcher = fetcher;
+
+    if (entry.inFlight) {
+      return entry.inFlight.promise as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    const isCurrent = () => entry.inFlight?.controller === controller;
+
+    this.setState(entry, { isFetching: true });
+
+    const promise = fetcher(controller.signal).then(
+      (data) => {
+        if (isCurrent()) {
+          entry.inFlight = undefined;
+          this.setState(entry, {
+            data,
+            error: null,
+            isFetching: false,
+            updatedAt: Date.now(),
+          });
+        }
+        return data;
+      },
+      (err) => {
+        if (isCurrent()) {
+          entry.inFlight = undefined;
+          this.setState(entry, { error: toApiError(err), isFetching: false });
+        }
+        throw err;
+      }
+    );
+
+    entry.inFlight = { promise, controller };
+    return promise;
+  }
+
+  setData<T>(key: QueryKey, updater: T | ((current: T | undefined) => T)) {
+    const entry = this.getEntry(key);
+    const data =
+      typeof updater === "function"
+        ? (updater as (current: T | undefined) => T)(entry.state.data as T)
+        : updater;
+    this.setState(entry, { data, error: null, updatedAt: Date.now() });
+  }
+
+  /**
+   * Marks every entry whose key starts with `prefix` as stale. Entries that
+   * are currently rendered are refetched in the background.
+   */
+  invalidate(prefix: QueryKey) {
+    this.entries.forEach((entry) => {
+      const matches = prefix.every(
+        (part, index) => hashKey([part]) === hashKey([entry.key[index]])
+      );
+      if (!matches) return;
+
+      entry.state = { ...entry.state, updatedAt: 0 };
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        // A request started before the mutation may return outdated data
+        this.cancel(entry);
+        this.fetch(entry.key, entry.fetcher).catch(() => {
+          // The error is stored on the entry for the subscribed component
+        });
+      }
+    });
+  }
+
+  clear() {
+    this.entries.forEach((entry) => {
+      this.cancel(entry);
+      clearTimeout(entry.gcTimer);
+    });
+    this.entries.clear();
+  }
+}
+
+export const queryCache = new QueryCache();
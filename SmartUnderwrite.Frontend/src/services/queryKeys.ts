@@ -0,0 +1,59 @@
+import { ApplicationFilter } from "@/types/application";
+import { DecisionFilter } from "@/types/decision";
+import { AuditLogFilter } from "@/types/admin";
+import { SavedViewList } from "@/types/savedView";
+
+// Query keys are grouped so a mutation can invalidate a whole resource with
+// its `all` prefix, e.g. `queryCache.invalidate(queryKeys.rules.all)`.
+export const queryKeys = {
+  applications: {
+    all: ["applications"] as const,
+    list: (filter: ApplicationFilter) =>
+      ["applications", "list", filter] as const,
+    detail: (id: number) => ["applications", "detail", id] as const,
+    pending: () => ["applications", "pending"] as const,
+    drafts: () => ["applications", "drafts", "list"] as const,
+    draft: (id: number) => ["applications", "drafts", "detail", id] as const,
+    importMapping: () => ["applications", "importMapping"] as const,
+  },
+  decisions: {
+    all: ["decisions"] as const,
+    list: (filter: DecisionFilter) => ["decisions", "list", filter] as const,
+    summary: () => ["decisions", "summary"] as const,
+  },
+  rules: {
+    all: ["rules"] as const,
+    list: () => ["rules", "list"] as const,
+  },
+  affiliates: {
+    all: ["affiliates"] as const,
+    list: () => ["affiliates", "list"] as const,
+    users: (id: number) => ["affiliates", "users", id] as const,
+  },
+  users: {
+    all: ["users"] as const,
+    sessions: (id: number) => ["users", "sessions", id] as const,
+  },
+  registrations: {
+    all: ["registrations"] as const,
+    pending: () => ["registrations", "pending"] as const,
+    invitations: () => ["registrations", "invitations"] as const,
+  },
+  auth: {
+    all: ["auth"] as const,
+    oidcProvider: () => ["auth", "oidcProvider"] as const,
+  },
+  account: {
+    all: ["account"] as const,
+    mfa: () => ["account", "mfa"] as const,
+    sessions: () => ["account", "sessions"] as const,
+  },
+  savedViews: {
+    all: ["savedViews"] as const,
+    list: (list: SavedViewList) => ["savedViews", "list", list] as const,
+  },
+  auditLogs: {
+    all: ["auditLogs"] as const,
+    list: (filter: AuditLogFilter) => ["auditLogs", "list", filter] as const,
+  },
+};
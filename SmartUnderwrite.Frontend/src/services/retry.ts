@@ -0,0 +1,75 @@
+import { AxiosError, CanceledError } from "axios";
+import { RetryPolicy } from "@/types/api";
+
+// Gateway errors and throttling are usually gone a moment later
+const RETRIABLE_STATUS_CODES = new Set([408, 429, 502, 503, 504]);
+
+// A Retry-After longer than this is treated as "not worth waiting for"
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+export const isRetriableError = (error: AxiosError): boolean => {
+  if (!error.response) {
+    // Network failure or timeout; cancellations never reach this point
+    return error.code !== AxiosError.ERR_CANCELED;
+  }
+  return RETRIABLE_STATUS_CODES.has(error.response.status);
+};
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ * Returns the delay in milliseconds, or null when absent or unparseable.
+ */
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== "string" || value.trim() === "") return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Delay before the given retry (1-based): the server's Retry-After when it
+ * sent one, otherwise exponential backoff with jitter so clients that failed
+ * together do not retry together. Returns null when the server asked for a
+ * longer wait than the client is willing to make.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter: unknown
+): number | null => {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== null) {
+    return serverDelay <= MAX_RETRY_AFTER_MS ? serverDelay : null;
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+// Resolves after `ms`, or rejects as a cancellation if the signal fires first
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
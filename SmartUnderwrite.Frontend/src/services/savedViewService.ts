@@ -0,0 +1,54 @@
+import { api } from "./api";
+import { CallOptions } from "@/types/api";
+import { SavedView, SavedViewList, SaveViewRequest } from "@/types/savedView";
+import { savedViewDecoder } from "@/decoders/savedView";
+import * as d from "@/utils/decoders";
+
+export class SavedViewService {
+  // The user's own views first, then the ones their team shares
+  async getSavedViews(
+    list: SavedViewList,
+    options: CallOptions = {}
+  ): Promise<SavedView[]> {
+    return await api.savedViews.get(
+      { list },
+      { decoder: d.array(savedViewDecoder), ...options }
+    );
+  }
+
+  async createSavedView(
+    list: SavedViewList,
+    request: SaveViewRequest,
+    options: CallOptions = {}
+  ): Promise<SavedView> {
+    return await api.savedViews.post(
+      { list, ...request },
+      { decoder: savedViewDecoder, ...options }
+    );
+  }
+
+  async updateSavedView(
+    id: number,
+    request: SaveViewRequest,
+    options: CallOptions = {}
+  ): Promise<SavedView> {
+    return await api.savedViews.putById(id, request, {
+      decoder: savedViewDecoder,
+      ...options,
+    });
+  }
+
+  async deleteSavedView(id: number, options: CallOptions = {}): Promise<void> {
+    await api.savedViews.deleteById(id, options);
+  }
+
+  async setDefaultView(id: number, options: CallOptions = {}): Promise<void> {
+    await api.savedViews.putByIdDefault(id, options);
+  }
+
+  async clearDefaultView(id: number, options: CallOptions = {}): Promise<void> {
+    await api.savedViews.deleteByIdDefault(id, options);
+  }
+}
+
+export const savedViewService = new SavedViewService();
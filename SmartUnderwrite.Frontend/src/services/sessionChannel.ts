@@ -0,0 +1,32 @@
+import { SessionEvent } from "@/types/auth";
+
+const CHANNEL_NAME = "smartunderwrite-session";
+
+type SessionListener = (event: SessionEvent) => void;
+
+/**
+ * Broadcasts session changes to the other open tabs of the app. These
+ * events tell each tab to update its in-memory state (AuthContext, refresh
+ * timer) to match, and carry the access token when it is not shared through
+ * localStorage (see sessionStore).
+ * Events are never delivered back to the tab that posted them.
+ */
+class SessionChannel {
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel === "undefined"
+      ? null
+      : new BroadcastChannel(CHANNEL_NAME);
+
+  post(event: SessionEvent) {
+    this.channel?.postMessage(event);
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    const handler = (message: MessageEvent<SessionEvent>) =>
+      listener(message.data);
+    this.channel?.addEventListener("message", handler);
+    return () => this.channel?.removeEventListener("message", handler);
+  }
+}
+
+export const sessionChannel = new SessionChannel();
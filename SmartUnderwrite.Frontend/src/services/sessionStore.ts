@@ -0,0 +1,38 @@
+import { config } from "@/config";
+
+/**
+ * Where the client keeps the access token and the signed-in user.
+ *
+ * In "memory" mode (the default) nothing survives a page load: the refresh
+ * token lives in an httpOnly cookie set by the API, and the session is
+ * restored from it on startup. "localStorage" mode keeps everything,
+ * including the refresh token, in localStorage for local development
+ * against an API that is not served from the same origin.
+ */
+export interface SessionStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+class MemoryStore implements SessionStore {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+export const usesRefreshCookie = config.tokenStorage === "memory";
+
+export const sessionStore: SessionStore = usesRefreshCookie
+  ? new MemoryStore()
+  : localStorage;
@@ -0,0 +1,204 @@
+import axios from "axios";
+import { LoginResponse, SharedSession } from "@/types/auth";
+import { loginResponseDecoder } from "@/decoders/auth";
+import { sessionStore, usesRefreshCookie } from "./sessionStore";
+
+const TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const EXPIRES_AT_KEY = "tokenExpiresAt";
+
+// Refresh this long before the access token lapses
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+type RefreshListener = (response: LoginResponse) => void;
+
+/**
+ * Owns the access/refresh token pair: stores it with its expiry, refreshes it
+ * shortly before it lapses and shares a single refresh between all callers.
+ * Every network path asks for its bearer token through getValidToken().
+ * In cookie mode (see sessionStore) the refresh token never reaches this
+ * class; the browser sends it to /api/auth/refresh on its own.
+ */
+class TokenManager {
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private listeners = new Set<RefreshListener>();
+  // A "view as user" session whose token is sent instead of the signed-in
+  // user's. Kept in this tab's memory only, so other tabs and a page load
+  // stay with the admin's own session.
+  private impersonation: SharedSession | null = null;
+
+  constructor() {
+    // Resume the schedule for a session stored by a previous page load
+    this.scheduleRefresh();
+  }
+
+  getToken(): string | null {
+    return sessionStore.getItem(TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return usesRefreshCookie ? null : sessionStore.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  /** Whether a session exists that a refresh could extend. */
+  hasSession(): boolean {
+    return !!this.getToken() && (usesRefreshCookie || !!this.getRefreshToken());
+  }
+
+  /** Expiry of the access token in epoch milliseconds, if known. */
+  getExpiresAt(): number | null {
+    const stored = Number(sessionStore.getItem(EXPIRES_AT_KEY));
+    if (stored) return stored;
+
+    // Sessions stored before the expiry was persisted: read the JWT claim
+    const token = this.getToken();
+    if (!token) return null;
+    try {
+      const payload = JSON.parse(atob(token.split(".")[1]));
+      return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
+
+  isExpired(): boolean {
+    const expiresAt = this.getExpiresAt();
+    return !this.getToken() || (expiresAt !== null && expiresAt <= Date.now());
+  }
+
+  setSession(response: LoginResponse) {
+    if (!usesRefreshCookie) {
+      sessionStore.setItem(REFRESH_TOKEN_KEY, response.refreshToken);
+    }
+    this.adopt(response);
+  }
+
+  /** Takes over an access token obtained elsewhere, e.g. by another tab. */
+  adopt(session: SharedSession) {
+    sessionStore.setItem(TOKEN_KEY, session.accessToken);
+    sessionStore.setItem(EXPIRES_AT_KEY, String(Date.parse(session.expiresAt)));
+    this.scheduleRefresh();
+  }
+
+  /** Sends the impersonation token until endImpersonation() is called. */
+  startImpersonation(session: SharedSession) {
+    this.impersonation = session;
+  }
+
+  endImpersonation() {
+    this.impersonation = null;
+  }
+
+  isImpersonating(): boolean {
+    return this.impersonation !== null;
+  }
+
+  clear() {
+    clearTimeout(this.refreshTimer);
+    this.refreshPromise = null;
+    this.impersonation = null;
+    sessionStore.removeItem(TOKEN_KEY);
+    sessionStore.removeItem(REFRESH_TOKEN_KEY);
+    sessionStore.removeItem(EXPIRES_AT_KEY);
+  }
+
+  /** Notifies the listener after every successful refresh. */
+  onRefresh(listener: RefreshListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Returns an access token that is not about to expire, refreshing it first
+   * when needed. Falls back to the current token if the refresh fails so the
+   * request can still go out and the 401 handling takes over.
+   */
+  async getValidToken(): Promise<string | null> {
+    // Cannot be refreshed; the admin's own token keeps its refresh schedule
+    if (this.impersonation) return this.impersonation.accessToken;
+
+    const token = this.getToken();
+    if (!this.hasSession()) return token;
+
+    const expiresAt = this.getExpiresAt();
+    if (expiresAt === null || expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return token;
+    }
+
+    try {
+      return await this.refresh();
+    } catch {
+      return this.getToken();
+    }
+  }
+
+  /** Exchanges the refresh token; concurrent callers share one request. */
+  refresh(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestRefresh(): Promise<string> {
+    const refreshToken = this.getRefreshToken();
+    const currentToken = this.getToken();
+    if (!usesRefreshCookie && (!refreshToken || !currentToken)) {
+      throw new Error("No session to refresh");
+    }
+
+    let response;
+    try {
+      // Plain axios rather than apiClient to stay clear of its interceptors.
+      // In cookie mode the body stays empty and the token may be missing
+      // altogether when the session is restored after a page load.
+      response = await axios.post(
+        "/api/auth/refresh",
+        usesRefreshCookie ? {} : { refreshToken },
+        {
+          headers: {
+            "Content-Type": "application/json",
+            ...(currentToken && { Authorization: `Bearer ${currentToken}` }),
+          },
+        }
+      );
+    } catch (error) {
+      // Another tab rotated the refresh cookie first and shared its token
+      const latestToken = this.getToken();
+      if (usesRefreshCookie && latestToken && latestToken !== currentToken) {
+        return latestToken;
+      }
+      throw error;
+    }
+    const session = loginResponseDecoder(response.data);
+
+    this.setSession(session);
+    this.listeners.forEach((listener) => listener(session));
+    return session.accessToken;
+  }
+
+  /** Re-reads the stored session after another tab changed it. */
+  resync() {
+    this.scheduleRefresh();
+  }
+
+  private scheduleRefresh() {
+    clearTimeout(this.refreshTimer);
+
+    const expiresAt = this.getExpiresAt();
+    if (expiresAt === null || !this.hasSession()) return;
+
+    const delay = Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.refresh().catch((error) => {
+        // Left to the 401 handling of the next request
+        console.warn("Scheduled token refresh failed:", error);
+      });
+    }, delay);
+  }
+}
+
+export const tokenManager = new TokenManager();
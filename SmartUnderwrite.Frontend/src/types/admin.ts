@@ -2,21 +2,17 @@ export interface Rule {
   id: number;
   name: string;
   description: string;
-  conditions: string;
-  actions: string;
+  ruleDefinition: string;
   isActive: boolean;
   priority: number;
   createdAt: string;
-  updatedAt: string;
-  createdBy: string;
+  updatedAt: string | null;
 }
 
 export interface CreateRuleRequest {
   name: string;
   description: string;
-  conditions: string;
-  actions: string;
-  isActive: boolean;
+  ruleDefinition: string;
   priority: number;
 }
 
@@ -24,13 +20,33 @@ export interface UpdateRuleRequest extends CreateRuleRequest {
   id: number;
 }
 
+export interface RuleValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RuleVersion {
+  id: number;
+  originalRuleId: number;
+  name: string;
+  description: string;
+  ruleDefinition: string;
+  priority: number;
+  isActive: boolean;
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  changeReason: string;
+}
+
 export interface Affiliate {
   id: number;
   name: string;
   externalId: string;
   isActive: boolean;
   createdAt: string;
-  updatedAt: string;
+  updatedAt: string | null;
   userCount: number;
   applicationCount: number;
 }
@@ -47,6 +63,54 @@ export interface UpdateAffiliateRequest {
   isActive: boolean;
 }
 
+export interface AffiliateUser {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  fullName: string | null;
+  roles: string[];
+  createdAt: string;
+  lastLoginAt: string | null;
+  isActive: boolean;
+}
+
+export interface InviteAffiliateUserRequest {
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+export interface PendingRegistration {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  roles: string[];
+  affiliateId: number | null;
+  affiliateName: string | null;
+  emailConfirmed: boolean;
+  createdAt: string;
+}
+
+export interface Invitation {
+  id: number;
+  code: string;
+  affiliateId: number;
+  affiliateName: string;
+  email: string | null;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateInvitationRequest {
+  affiliateId: number;
+  email?: string | null;
+  expiresInDays: number;
+}
+
 export interface AuditLog {
   id: number;
   userId: number;
@@ -54,8 +118,8 @@ export interface AuditLog {
   action: string;
   entityType: string;
   entityId: string;
-  oldValues?: string;
-  newValues?: string;
+  oldValues?: string | null;
+  newValues?: string | null;
   timestamp: string;
   ipAddress: string;
   userAgent: string;
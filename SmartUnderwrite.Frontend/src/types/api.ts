@@ -1,3 +1,5 @@
+import type { Decoder } from "@/utils/decoders";
+
 export interface ApiResponse<T = any> {
   data: T;
   success: boolean;
@@ -8,19 +10,55 @@ export interface ApiError {
   message: string;
   errors?: Record<string, string[]>;
   statusCode: number;
+  // Set when a response failed validation: path to the offending field
+  path?: string;
 }
 
 export interface PagedResult<T> {
   items: T[];
   totalCount: number;
-  pageNumber: number;
+  page: number;
   pageSize: number;
   totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryState {
+  // 1 for the first retry
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  // Status code that triggered the retry, or 0 for a network failure
+  statusCode: number;
+}
+
+// Options every service method accepts and forwards to the ApiClient
+export interface CallOptions {
+  // Aborts the request; the promise then rejects with a cancellation error
+  signal?: AbortSignal;
+  // Called before each retry of a failed request
+  onRetry?: (state: RetryState) => void;
+}
+
+export interface RequestOptions<T> extends CallOptions {
+  // Validates the response body before it is returned
+  decoder?: Decoder<T>;
+  // GETs retry by default; other methods only when this is set
+  retry?: boolean | Partial<RetryPolicy>;
+  // "blob" returns the body as a Blob, e.g. for a file download
+  responseType?: "json" | "blob";
 }
 
 export interface ApiClient {
-  get<T>(url: string): Promise<T>;
-  post<T>(url: string, data?: any): Promise<T>;
-  put<T>(url: string, data?: any): Promise<T>;
-  delete<T>(url: string): Promise<T>;
+  get<T>(url: string, options?: RequestOptions<T>): Promise<T>;
+  post<T>(url: string, data?: any, options?: RequestOptions<T>): Promise<T>;
+  put<T>(url: string, data?: any, options?: RequestOptions<T>): Promise<T>;
+  delete<T>(url: string, options?: RequestOptions<T>): Promise<T>;
 }
@@ -1,8 +1,12 @@
+import { ApplicationStatus, DecisionOutcome } from "@/api/models";
+
+export { ApplicationStatus, DecisionOutcome };
+
 export interface Applicant {
   id: number;
   firstName: string;
   lastName: string;
-  ssnHash: string;
+  fullName: string | null;
   dateOfBirth: string;
   address: Address;
   phone: string;
@@ -19,27 +23,30 @@ export interface Address {
 export interface LoanApplication {
   id: number;
   affiliateId: number;
+  affiliateName: string;
   applicant: Applicant;
   productType: string;
   amount: number;
   incomeMonthly: number;
   employmentType: string;
-  creditScore?: number;
+  creditScore: number | null;
   status: ApplicationStatus;
   createdAt: string;
-  updatedAt: string;
+  updatedAt: string | null;
   documents: Document[];
   decisions: Decision[];
 }
 
 export interface Document {
   id: number;
-  loanApplicationId: number;
   fileName: string;
   fileSize: number;
   contentType: string;
   uploadedAt: string;
-  uploadedBy: string;
+}
+
+export interface UploadedDocument extends Document {
+  description: string | null;
 }
 
 export interface Decision {
@@ -48,24 +55,10 @@ export interface Decision {
   outcome: DecisionOutcome;
   score: number;
   reasons: string[];
-  decidedByUserId?: number;
-  decidedByUser?: string;
+  decidedByUserId: number | null;
+  decidedByUserName: string | null;
   decidedAt: string;
-  isManual: boolean;
-}
-
-export enum ApplicationStatus {
-  Submitted = "Submitted",
-  Evaluated = "Evaluated",
-  Approved = "Approved",
-  Rejected = "Rejected",
-  ManualReview = "ManualReview",
-}
-
-export enum DecisionOutcome {
-  Approve = "Approve",
-  Reject = "Reject",
-  ManualReview = "ManualReview",
+  isAutomated: boolean;
 }
 
 export interface CreateApplicationRequest {
@@ -75,6 +68,8 @@ export interface CreateApplicationRequest {
   incomeMonthly: number;
   employmentType: string;
   creditScore?: number;
+  // Deleted by the API once the application is created
+  draftId?: number;
 }
 
 export interface CreateApplicantRequest {
@@ -87,11 +82,95 @@ export interface CreateApplicantRequest {
   email: string;
 }
 
+// The application wizard's fields as typed; numbers are parsed on submit
+export interface ApplicantFields {
+  firstName: string;
+  lastName: string;
+  ssn: string;
+  dateOfBirth: string;
+  email: string;
+  phone: string;
+}
+
+export interface EmploymentFields {
+  employmentType: string;
+  incomeMonthly: string;
+  creditScore: string;
+}
+
+export interface LoanFields {
+  productType: string;
+  amount: string;
+}
+
+export interface ApplicationFormData {
+  applicant: ApplicantFields;
+  address: Address;
+  employment: EmploymentFields;
+  loan: LoanFields;
+}
+
+// Drafts are stored by the API, which never keeps an unhashed SSN. A field
+// the user has not filled in yet may be null.
+export type DraftFields<T> = { [K in keyof T]: T[K] | null };
+
+export interface ApplicationDraftData {
+  applicant: DraftFields<Omit<ApplicantFields, "ssn">>;
+  address: DraftFields<Address>;
+  employment: DraftFields<EmploymentFields>;
+  loan: DraftFields<LoanFields>;
+}
+
+export interface ApplicationDraft {
+  id: number;
+  // The wizard step to resume at
+  step: number;
+  data: ApplicationDraftData;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveApplicationDraftRequest {
+  step: number;
+  data: ApplicationDraftData;
+}
+
+// Field path, e.g. "applicant.firstName", to the column title in the file
+export type ImportColumns = Record<string, string>;
+
+export interface ImportMapping {
+  columns: ImportColumns;
+  updatedAt: string | null; // Null until the affiliate saves a mapping
+}
+
+export type ApplicationSortField =
+  | "id"
+  | "applicant"
+  | "productType"
+  | "amount"
+  | "creditScore"
+  | "status"
+  | "createdAt";
+
+export type SortDirection = "asc" | "desc";
+
 export interface ApplicationFilter {
   status?: ApplicationStatus;
   affiliateId?: number;
   fromDate?: string;
   toDate?: string;
+  // Part of the applicant's name or email, or the application id
+  search?: string;
+  productType?: string;
+  employmentType?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  // Applications without a credit score are left out of a credit score range
+  minCreditScore?: number;
+  maxCreditScore?: number;
+  // Newest first when not set
+  sortBy?: ApplicationSortField;
+  sortDirection?: SortDirection;
   pageNumber?: number;
   pageSize?: number;
 }
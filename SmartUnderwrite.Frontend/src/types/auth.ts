@@ -4,7 +4,23 @@ export interface User {
   firstName: string;
   lastName: string;
   roles: string[];
-  affiliateId?: number;
+  // Granted through the roles by the server's policy table
+  permissions: string[];
+  affiliateId: number | null;
+  mfaEnabled: boolean;
+  // One of the user's roles requires a second factor
+  mfaRequired: boolean;
+  // The current session was signed in with a second factor
+  mfaVerified: boolean;
+  // The admin viewing the app as this user, in an impersonation session
+  impersonator: Impersonator | null;
+}
+
+export interface Impersonator {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
 }
 
 export interface LoginRequest {
@@ -17,6 +33,81 @@ export interface LoginResponse {
   refreshToken: string;
   user: User;
   expiresAt: string;
+  // Set instead of the tokens when a second factor is still needed
+  mfaChallengeToken: string | null;
+}
+
+export interface MfaLoginRequest {
+  challengeToken: string;
+  code: string;
+  useRecoveryCode?: boolean;
+}
+
+// Single sign-on; disabled unless the API is configured for an identity
+// provider
+export interface OidcProvider {
+  enabled: boolean;
+  displayName: string | null;
+  authorizationEndpoint: string | null;
+  clientId: string | null;
+  scope: string | null;
+}
+
+// Completes the authorization code flow started by beginOidcLogin
+export interface OidcLoginRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+// What a sign-in attempt led to; the second step goes to verifyMfa
+export type LoginResult =
+  { status: "signedIn" } | { status: "mfaRequired"; challengeToken: string };
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface MfaSetup {
+  sharedKey: string;
+  authenticatorUri: string;
+}
+
+export interface MfaEnableResponse {
+  recoveryCodes: string[];
+  session: LoginResponse;
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface StartImpersonationRequest {
+  userId: number;
+  // Recorded in the audit log
+  reason: string;
+}
+
+// A read-only session as another user; it cannot be refreshed
+export interface ImpersonationResponse {
+  accessToken: string;
+  expiresAt: string;
+  user: User;
+}
+
+// A device the user is signed in on, i.e. one refresh token
+export interface Session {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  // The session making the request
+  isCurrent: boolean;
 }
 
 export interface RefreshTokenRequest {
@@ -26,18 +117,105 @@ export interface RefreshTokenRequest {
 export interface RegisterRequest {
   email: string;
   password: string;
+  confirmPassword: string;
   firstName: string;
   lastName: string;
-  affiliateId?: number;
+  role: UserRoleType;
+  affiliateId?: number | null;
 }
 
+export interface SignUpRequest {
+  email: string;
+  password: string;
+  confirmPassword: string;
+  firstName: string;
+  lastName: string;
+  invitationCode?: string | null;
+}
+
+export const RegistrationStatus = {
+  PendingEmailConfirmation: "PendingEmailConfirmation",
+  PendingApproval: "PendingApproval",
+  Active: "Active",
+} as const;
+
+export type RegistrationStatusType =
+  (typeof RegistrationStatus)[keyof typeof RegistrationStatus];
+
+export interface SignUpResponse {
+  email: string;
+  status: RegistrationStatusType;
+}
+
+export interface ConfirmEmailRequest {
+  userId: number;
+  token: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  email: string;
+  token: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+// What an invitation code reveals before signing up
+export interface InvitationLookup {
+  affiliateName: string;
+  email: string | null;
+  expiresAt: string;
+}
+
+// Access token handed to other tabs when it is only kept in memory
+export interface SharedSession {
+  accessToken: string;
+  expiresAt: string;
+}
+
+// Session changes shared between browser tabs
+export type SessionEvent =
+  | { type: "login"; user: User; session?: SharedSession }
+  | { type: "refresh"; user: User; session?: SharedSession }
+  | { type: "user"; user: User }
+  | { type: "logout"; reason?: SignOutReason };
+
+// Why the session ended when the user did not sign out themselves
+export type SignOutReason = "idle" | "disabled";
+
 export interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  signOutReason: SignOutReason | null;
 }
 
+// Names match the Permissions constants in the API
+export const Permission = {
+  ApplicationsCreate: "applications.create",
+  DecisionsView: "decisions.view",
+  DecisionsMake: "decisions.make",
+  DecisionsApproveHighValue: "decisions.approve.highValue",
+  RulesView: "rules.view",
+  RulesEdit: "rules.edit",
+  AffiliatesManage: "affiliates.manage",
+  UsersManage: "users.manage",
+  ReportsView: "reports.view",
+  AuditView: "audit.view",
+  AuditExport: "audit.export",
+  PiiExport: "pii.export",
+} as const;
+
+export type PermissionType = (typeof Permission)[keyof typeof Permission];
+
+// Approving this amount or more needs Permission.DecisionsApproveHighValue;
+// matches RolePermissions.HighValueAmount in the API
+export const HIGH_VALUE_AMOUNT = 100_000;
+
 export const UserRole = {
   Admin: "Admin",
   Underwriter: "Underwriter",
@@ -1,28 +1,15 @@
-export interface DecisionRequest {
-  applicationId: number;
-  outcome: DecisionOutcome;
-  reasons: string[];
-  notes?: string;
-}
+import { Decision, DecisionOutcome } from "@/types/application";
+
+export { DecisionOutcome };
 
-export interface DecisionResponse {
-  id: number;
+export interface DecisionRequest {
   applicationId: number;
   outcome: DecisionOutcome;
-  score: number;
   reasons: string[];
   notes?: string;
-  decidedByUserId: number;
-  decidedByUser: string;
-  decidedAt: string;
-  isManual: boolean;
 }
 
-export enum DecisionOutcome {
-  Approve = "Approve",
-  Reject = "Reject",
-  ManualReview = "ManualReview",
-}
+export type DecisionResponse = Decision;
 
 export interface DecisionFilter {
   outcome?: DecisionOutcome;
@@ -0,0 +1,18 @@
+export type ExportFormat = "csv" | "xlsx";
+
+// Personal data the API masks in an export unless asked not to
+export type ExportPii = "ssnHash" | "phone" | "email";
+
+export interface ExportColumn {
+  key: string; // As the API names it
+  label: string;
+  pii?: ExportPii;
+}
+
+export interface ExportRequest {
+  format: ExportFormat;
+  columns: string[]; // In the list's order
+  maskSsnHash: boolean;
+  maskPhone: boolean;
+  maskEmail: boolean;
+}
@@ -0,0 +1,22 @@
+// The lists a view can be saved for, named as the API names them
+export type SavedViewList = "applications" | "decisions";
+
+export interface SavedView {
+  id: number;
+  list: string;
+  name: string;
+  // The list's query string without the page number: its filters, sorting,
+  // page size and visible columns
+  query: string;
+  isShared: boolean; // With the owner's affiliate, or with all internal staff
+  isOwner: boolean; // Only the owner may change or delete it
+  ownerName: string;
+  isDefault: boolean; // The list opens with it
+  updatedAt: string;
+}
+
+export interface SaveViewRequest {
+  name: string;
+  query: string;
+  isShared: boolean;
+}
@@ -0,0 +1,37 @@
+import {
+  ApplicationFormData,
+  CreateApplicationRequest,
+} from "@/types/application";
+
+export const EMPTY_APPLICATION_FORM: ApplicationFormData = {
+  applicant: {
+    firstName: "",
+    lastName: "",
+    ssn: "",
+    dateOfBirth: "",
+    email: "",
+    phone: "",
+  },
+  address: { street: "", city: "", state: "", zipCode: "" },
+  employment: { employmentType: "", incomeMonthly: "", creditScore: "" },
+  loan: { productType: "", amount: "" },
+};
+
+// Parses the numbers of a form that passed applicationSchema
+export const toCreateApplicationRequest = (
+  form: ApplicationFormData,
+  draftId: number | null = null
+): CreateApplicationRequest => ({
+  applicant: {
+    ...form.applicant,
+    address: form.address,
+  },
+  productType: form.loan.productType,
+  amount: parseFloat(form.loan.amount),
+  incomeMonthly: parseFloat(form.employment.incomeMonthly),
+  employmentType: form.employment.employmentType,
+  creditScore: form.employment.creditScore
+    ? parseInt(form.employment.creditScore)
+    : undefined,
+  draftId: draftId ?? undefined,
+});
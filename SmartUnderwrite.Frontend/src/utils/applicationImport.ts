@@ -0,0 +1,260 @@
+import { readSheet } from "read-excel-file/browser";
+import { ApplicationFormData, ImportColumns } from "@/types/application";
+import { EMPTY_APPLICATION_FORM } from "@/utils/applicationForm";
+import { parseCsv } from "@/utils/csv";
+import { FieldErrors, validate } from "@/utils/validation";
+import {
+  EMPLOYMENT_TYPES,
+  PRODUCT_TYPES,
+  applicationSchema,
+} from "@/validation/application";
+
+export interface ImportField {
+  path: string;
+  label: string;
+  required: boolean;
+  // Column titles recognised without a saved mapping, compared ignoring
+  // case, spaces and punctuation
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  {
+    path: "applicant.firstName",
+    label: "First Name",
+    required: true,
+    aliases: ["firstname", "givenname", "first"],
+  },
+  {
+    path: "applicant.lastName",
+    label: "Last Name",
+    required: true,
+    aliases: ["lastname", "surname", "familyname", "last"],
+  },
+  {
+    path: "applicant.ssn",
+    label: "SSN",
+    required: true,
+    aliases: ["ssn", "socialsecuritynumber", "socialsecurity"],
+  },
+  {
+    path: "applicant.dateOfBirth",
+    label: "Date of Birth",
+    required: true,
+    aliases: ["dateofbirth", "dob", "birthdate", "birthday"],
+  },
+  {
+    path: "applicant.email",
+    label: "Email",
+    required: true,
+    aliases: ["email", "emailaddress"],
+  },
+  {
+    path: "applicant.phone",
+    label: "Phone",
+    required: true,
+    aliases: ["phone", "phonenumber", "telephone", "mobile"],
+  },
+  {
+    path: "address.street",
+    label: "Street",
+    required: true,
+    aliases: ["street", "streetaddress", "address", "address1"],
+  },
+  {
+    path: "address.city",
+    label: "City",
+    required: true,
+    aliases: ["city", "town"],
+  },
+  {
+    path: "address.state",
+    label: "State",
+    required: true,
+    aliases: ["state", "st"],
+  },
+  {
+    path: "address.zipCode",
+    label: "ZIP Code",
+    required: true,
+    aliases: ["zipcode", "zip", "postalcode", "postcode"],
+  },
+  {
+    path: "employment.employmentType",
+    label: "Employment Type",
+    required: true,
+    aliases: ["employmenttype", "employment", "employmentstatus"],
+  },
+  {
+    path: "employment.incomeMonthly",
+    label: "Monthly Income",
+    required: true,
+    aliases: ["incomemonthly", "monthlyincome", "income"],
+  },
+  {
+    path: "employment.creditScore",
+    label: "Credit Score",
+    required: false,
+    aliases: ["creditscore", "fico", "score"],
+  },
+  {
+    path: "loan.productType",
+    label: "Product Type",
+    required: true,
+    aliases: ["producttype", "product", "loantype"],
+  },
+  {
+    path: "loan.amount",
+    label: "Loan Amount",
+    required: true,
+    aliases: ["amount", "loanamount", "requestedamount"],
+  },
+];
+
+export interface Spreadsheet {
+  fileName: string;
+  // Identifies the file's content, so a re-selected file resumes its import
+  fingerprint: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  rowNumber: number; // As the spreadsheet numbers it, the header being 1
+  form: ApplicationFormData;
+  errors: FieldErrors;
+}
+
+const normalize = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Excel dates are read as midnight UTC
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) {
+    return `${cell.getUTCFullYear()}-${pad(cell.getUTCMonth() + 1)}-${pad(
+      cell.getUTCDate()
+    )}`;
+  }
+  return String(cell).trim();
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+/** Reads the first sheet of an .xlsx file, or a .csv file. */
+export const readSpreadsheet = async (file: File): Promise<Spreadsheet> => {
+  const content = await file.arrayBuffer();
+  const isXlsx = /\.xlsx$/i.test(file.name);
+
+  const cells: string[][] = isXlsx
+    ? (await readSheet(file)).map((row) => row.map(cellToString))
+    : parseCsv(new TextDecoder().decode(content)).map((row) =>
+        row.map(cellToString)
+      );
+
+  const [headers = [], ...rows] = cells;
+  if (headers.every((title) => !title)) {
+    throw new Error("The file is empty or its first row has no column titles");
+  }
+
+  return {
+    fileName: file.name,
+    fingerprint: toHex(await crypto.subtle.digest("SHA-256", content)),
+    headers,
+    rows,
+  };
+};
+
+/**
+ * Picks a column for each field: the saved mapping's column when the file
+ * has it, otherwise a column whose title is one of the field's aliases.
+ */
+export const guessColumns = (
+  headers: string[],
+  saved: ImportColumns
+): ImportColumns => {
+  const columns: ImportColumns = {};
+  IMPORT_FIELDS.forEach(({ path, aliases }) => {
+    const column =
+      headers.find((title) => title === saved[path]) ??
+      headers.find((title) => aliases.includes(normalize(title)));
+    if (column) columns[path] = column;
+  });
+  return columns;
+};
+
+// "personal loan" and "Full time" are accepted for "Personal Loan" and
+// "Full-time"
+const matchOption = (value: string, options: readonly string[]) =>
+  options.find((option) => normalize(option) === normalize(value)) ?? value;
+
+const toIsoDate = (value: string) => {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  return match ? `${match[3]}-${pad(+match[1])}-${pad(+match[2])}` : value;
+};
+
+const toAmount = (value: string) => value.replace(/[$,\s]/g, "");
+
+/** Turns a row into the wizard's fields, tidying the usual spreadsheet formats. */
+export const toApplicationForm = (
+  row: string[],
+  headers: string[],
+  columns: ImportColumns
+): ApplicationFormData => {
+  const cell = (path: string) => {
+    const index = columns[path] ? headers.indexOf(columns[path]) : -1;
+    return index >= 0 ? (row[index] ?? "") : "";
+  };
+
+  return {
+    applicant: {
+      ...EMPTY_APPLICATION_FORM.applicant,
+      firstName: cell("applicant.firstName"),
+      lastName: cell("applicant.lastName"),
+      ssn: cell("applicant.ssn"),
+      dateOfBirth: toIsoDate(cell("applicant.dateOfBirth")),
+      email: cell("applicant.email"),
+      phone: cell("applicant.phone"),
+    },
+    address: {
+      street: cell("address.street"),
+      city: cell("address.city"),
+      state: cell("address.state").toUpperCase(),
+      zipCode: cell("address.zipCode"),
+    },
+    employment: {
+      employmentType: matchOption(
+        cell("employment.employmentType"),
+        EMPLOYMENT_TYPES
+      ),
+      incomeMonthly: toAmount(cell("employment.incomeMonthly")),
+      creditScore: cell("employment.creditScore"),
+    },
+    loan: {
+      productType: matchOption(cell("loan.productType"), PRODUCT_TYPES),
+      amount: toAmount(cell("loan.amount")),
+    },
+  };
+};
+
+/** Converts and validates every non-blank row of the sheet. */
+export const prepareRows = (
+  sheet: Spreadsheet,
+  columns: ImportColumns
+): ImportRow[] =>
+  sheet.rows.flatMap((row, index) => {
+    if (row.every((cell) => !cell)) return [];
+    const form = toApplicationForm(row, sheet.headers, columns);
+    return [
+      {
+        rowNumber: index + 2,
+        form,
+        errors: validate(applicationSchema, form),
+      },
+    ];
+  });
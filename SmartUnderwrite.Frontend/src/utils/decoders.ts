@@ -0,0 +1,132 @@
+/**
+ * Minimal runtime decoders for API payloads.
+ *
+ * A decoder checks an unknown value against the shape of a TypeScript type and
+ * returns it typed, or throws a DecodeError naming the offending field path
+ * (e.g. `$.items[3].applicant.email`).
+ */
+
+export type Decoder<T> = (value: unknown, path?: string) => T;
+
+export class DecodeError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value);
+    super(`${path}: expected ${expected}, received ${received}`);
+    this.name = "DecodeError";
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const ROOT = "$";
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string "${value.slice(0, 40)}"`;
+  return typeof value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const string: Decoder<string> = (value, path = ROOT) => {
+  if (typeof value !== "string") throw new DecodeError(path, "string", value);
+  return value;
+};
+
+export const number: Decoder<number> = (value, path = ROOT) => {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new DecodeError(path, "number", value);
+  }
+  return value;
+};
+
+export const boolean: Decoder<boolean> = (value, path = ROOT) => {
+  if (typeof value !== "boolean") throw new DecodeError(path, "boolean", value);
+  return value;
+};
+
+/** Accepts any value; for payloads the client never inspects. */
+export const unknownValue: Decoder<unknown> = (value) => value;
+
+/** ISO-8601 date string as serialized by System.Text.Json. */
+export const dateString: Decoder<string> = (value, path = ROOT) => {
+  const result = string(value, path);
+  if (Number.isNaN(Date.parse(result))) {
+    throw new DecodeError(path, "ISO date string", value);
+  }
+  return result;
+};
+
+export const nullable =
+  <T>(decoder: Decoder<T>): Decoder<T | null> =>
+  (value, path = ROOT) =>
+    value === null ? null : decoder(value, path);
+
+export const optional =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path = ROOT) =>
+    value === undefined ? undefined : decoder(value, path);
+
+export const array =
+  <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (value, path = ROOT) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, "array", value);
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+  };
+
+export const record =
+  <T>(decoder: Decoder<T>): Decoder<Record<string, T>> =>
+  (value, path = ROOT) => {
+    if (!isRecord(value)) throw new DecodeError(path, "object", value);
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        decoder(item, `${path}.${key}`),
+      ])
+    );
+  };
+
+export const oneOf =
+  <T extends string>(values: readonly T[]): Decoder<T> =>
+  (value, path = ROOT) => {
+    if (typeof value !== "string" || !values.includes(value as T)) {
+      throw new DecodeError(path, values.join(" | "), value);
+    }
+    return value as T;
+  };
+
+/** Decodes a member of a string enum, e.g. `enumValue(ApplicationStatus)`. */
+export const enumValue = <E extends Record<string, string>>(
+  enumObject: E
+): Decoder<E[keyof E]> => oneOf(Object.values(enumObject) as E[keyof E][]);
+
+// Every key of T needs a decoder; optional keys take an optional() decoder.
+type DecoderShape<T> = { [K in keyof Required<T>]: Decoder<T[K]> };
+
+/**
+ * Decodes an object field by field. Unknown fields are dropped so the result
+ * only carries what the TypeScript type declares.
+ */
+export const object =
+  <T>(shape: DecoderShape<T>): Decoder<T> =>
+  (value, path = ROOT) => {
+    if (!isRecord(value)) throw new DecodeError(path, "object", value);
+    const result: Partial<T> = {};
+    (Object.keys(shape) as Array<keyof T>).forEach((key) => {
+      const decoded = shape[key](
+        value[key as string],
+        `${path}.${String(key)}`
+      );
+      if (decoded !== undefined) {
+        result[key] = decoded;
+      }
+    });
+    return result as T;
+  };
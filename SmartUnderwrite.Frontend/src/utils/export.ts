@@ -0,0 +1,31 @@
+import { ExportFormat, ExportRequest } from "@/types/export";
+
+/** The parameters every list's export endpoint reads besides its filter. */
+export const toExportQuery = (request: ExportRequest) => ({
+  Format: request.format,
+  Columns: request.columns,
+  MaskSsnHash: request.maskSsnHash,
+  MaskPhone: request.maskPhone,
+  MaskEmail: request.maskEmail,
+});
+
+/** Adds an export's parameters to a list's filter parameters. */
+export const appendExportParams = (
+  params: URLSearchParams,
+  request: ExportRequest
+) => {
+  Object.entries(toExportQuery(request)).forEach(([key, value]) =>
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      params.append(key, String(item))
+    )
+  );
+};
+
+/** E.g. applications-20240131-0930.csv, in local time. */
+export const exportFileName = (list: string, format: ExportFormat) => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+  const time = `${pad(now.getHours())}${pad(now.getMinutes())}`;
+  return `${list}-${date}-${time}.${format}`;
+};
@@ -0,0 +1,16 @@
+// Mirrors the Identity password options configured in the API
+export const PASSWORD_RULES = [
+  {
+    label: "At least 8 characters",
+    test: (value: string) => value.length >= 8,
+  },
+  {
+    label: "An uppercase letter",
+    test: (value: string) => /[A-Z]/.test(value),
+  },
+  { label: "A lowercase letter", test: (value: string) => /[a-z]/.test(value) },
+  { label: "A number", test: (value: string) => /\d/.test(value) },
+];
+
+export const meetsPasswordRequirements = (password: string): boolean =>
+  PASSWORD_RULES.every((rule) => rule.test(password));
@@ -0,0 +1,138 @@
+/**
+ * Typed query string parameters. A codec turns one value into text and back;
+ * text it cannot read, e.g. a hand-edited or outdated link, parses as
+ * undefined so the default applies instead.
+ */
+
+export interface ParamCodec<V> {
+  parse: (raw: string) => V | undefined;
+  format: (value: V) => string;
+}
+
+// One codec per field, so a filter type and its schema cannot drift apart
+export type ParamSchema<T> = {
+  [K in keyof T]-?: ParamCodec<NonNullable<T[K]>>;
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// Date.parse rolls days like 2024-02-30 over, so the day is checked by
+// reading it back
+const isValidDate = (raw: string, format: RegExp) => {
+  if (!format.test(raw)) return false;
+  const day = raw.slice(0, 10);
+  const date = new Date(`${day}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(day);
+};
+
+export const param = {
+  string: {
+    parse: (raw) => raw || undefined,
+    format: (value) => value,
+  } as ParamCodec<string>,
+
+  integer: (min = -Infinity, max = Infinity): ParamCodec<number> => ({
+    parse: (raw) => {
+      const value = Number(raw);
+      return raw !== "" &&
+        Number.isInteger(value) &&
+        value >= min &&
+        value <= max
+        ? value
+        : undefined;
+    },
+    format: String,
+  }),
+
+  number: {
+    parse: (raw) => {
+      const value = Number(raw);
+      return raw !== "" && Number.isFinite(value) ? value : undefined;
+    },
+    format: String,
+  } as ParamCodec<number>,
+
+  boolean: {
+    parse: (raw) =>
+      raw === "true" ? true : raw === "false" ? false : undefined,
+    format: String,
+  } as ParamCodec<boolean>,
+
+  // A calendar day as date inputs report it, e.g. 2024-03-31
+  date: {
+    parse: (raw) => (isValidDate(raw, DATE) ? raw : undefined),
+    format: (value) => value,
+  } as ParamCodec<string>,
+
+  // Local date and time as datetime-local inputs report it, e.g.
+  // 2024-03-31T09:30
+  dateTime: {
+    parse: (raw) => (isValidDate(raw, DATE_TIME) ? raw : undefined),
+    format: (value) => value,
+  } as ParamCodec<string>,
+
+  oneOf: <V extends string | number>(values: readonly V[]): ParamCodec<V> => ({
+    parse: (raw) => values.find((value) => String(value) === raw),
+    format: String,
+  }),
+
+  // Comma-separated; items the codec cannot read are dropped
+  list: <V>(item: ParamCodec<V>): ParamCodec<V[]> => ({
+    parse: (raw) => {
+      const values = raw
+        .split(",")
+        .map(item.parse)
+        .filter((value): value is V => value !== undefined);
+      return values.length > 0 ? values : undefined;
+    },
+    format: (values) => values.map(item.format).join(","),
+  }),
+};
+
+/** Reads the schema's fields from the query string, falling back to defaults. */
+export const parseParams = <T extends object>(
+  schema: ParamSchema<T>,
+  params: URLSearchParams,
+  defaults: T
+): T => {
+  const value = { ...defaults } as Record<string, unknown>;
+  (Object.keys(schema) as (keyof T & string)[]).forEach((key) => {
+    const raw = params.get(key);
+    const parsed = raw === null ? undefined : schema[key].parse(raw);
+    if (parsed !== undefined) value[key] = parsed;
+  });
+  return value as T;
+};
+
+/**
+ * Writes the schema's fields into a copy of the query string. Fields that
+ * are unset or at their default are left out, so links stay short, and
+ * parameters the schema does not know are kept.
+ */
+export const toParams = <T extends object>(
+  schema: ParamSchema<T>,
+  value: T,
+  defaults: T,
+  base = new URLSearchParams()
+): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  (Object.keys(schema) as (keyof T & string)[]).forEach((key) => {
+    const codec = schema[key] as ParamCodec<unknown>;
+    const fieldValue = value[key];
+    const defaultValue = defaults[key];
+    params.delete(key);
+    if (fieldValue === undefined || fieldValue === null) return;
+
+    // Compared as text, so lists equal to their default are left out too
+    const formatted = codec.format(fieldValue);
+    if (
+      defaultValue === undefined ||
+      defaultValue === null ||
+      formatted !== codec.format(defaultValue)
+    ) {
+      params.set(key, formatted);
+    }
+  });
+  return params;
+};
@@ -0,0 +1,142 @@
+/**
+ * A small declarative form validator. A schema maps each field path, such as
+ * "address.zipCode", to rules that return an error message or undefined.
+ * Rules receive all values, so one field can be checked against another.
+ */
+
+// Keyed by field path, e.g. "applicant.firstName"
+export type FieldErrors = Record<string, string>;
+
+export type Rule<T> = (value: string, values: T) => string | undefined;
+
+export interface FieldSchema<T> {
+  rules: Rule<T>[];
+  // Fields whose rules read this one, so they are checked again when it
+  // changes
+  affects?: string[];
+}
+
+export type Schema<T> = Record<string, FieldSchema<T>>;
+
+export const getValue = (values: unknown, path: string): string => {
+  const value = path
+    .split(".")
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === "object"
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      values
+    );
+  return value === undefined || value === null ? "" : String(value);
+};
+
+export const required =
+  <T>(message = "Required"): Rule<T> =>
+  (value) =>
+    value.trim() ? undefined : message;
+
+// The remaining rules pass empty values; combine them with required()
+export const maxLength =
+  <T>(max: number): Rule<T> =>
+  (value) =>
+    value.length > max ? `At most ${max} characters` : undefined;
+
+export const pattern =
+  <T>(regex: RegExp, message: string): Rule<T> =>
+  (value) =>
+    !value || regex.test(value.trim()) ? undefined : message;
+
+export const numberRange =
+  <T>(
+    min: number,
+    max: number,
+    message = `Must be between ${min} and ${max}`
+  ): Rule<T> =>
+  (value) => {
+    if (!value) return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) && number >= min && number <= max
+      ? undefined
+      : message;
+  };
+
+export const oneOf =
+  <T>(
+    options: readonly string[],
+    message = "Choose a value from the list"
+  ): Rule<T> =>
+  (value) =>
+    !value || options.includes(value) ? undefined : message;
+
+/** The first error of one field, or undefined when it is valid. */
+export const validateField = <T>(
+  schema: Schema<T>,
+  path: string,
+  values: T
+): string | undefined => {
+  const value = getValue(values, path);
+  for (const rule of schema[path]?.rules ?? []) {
+    const message = rule(value, values);
+    if (message) return message;
+  }
+  return undefined;
+};
+
+/** Errors of the given fields, or of every field in the schema. */
+export const validate = <T>(
+  schema: Schema<T>,
+  values: T,
+  paths: string[] = Object.keys(schema)
+): FieldErrors => {
+  const errors: FieldErrors = {};
+  paths.forEach((path) => {
+    const message = validateField(schema, path, values);
+    if (message) errors[path] = message;
+  });
+  return errors;
+};
+
+/**
+ * Turns a server validation key into a field path: ASP.NET reports
+ * "Applicant.Address.ZipCode" for model errors and "$.address.zipCode" for
+ * JSON errors; both become "applicant.address.zipCode".
+ */
+export const toFieldPath = (key: string): string =>
+  key
+    .replace(/^\$\.?/, "")
+    .replace(/\[\d+\]/g, "")
+    .split(".")
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toLowerCase() + part.slice(1))
+    .join(".");
+
+/**
+ * Places server errors on the schema's fields. A server path matches the
+ * field with the same path, or else the one that ends with it or with its
+ * last segments, because request and form may nest fields differently, e.g.
+ * "applicant.address.zipCode" and "address.zipCode".
+ */
+export const mapServerErrors = <T>(
+  schema: Schema<T>,
+  errors: FieldErrors
+): FieldErrors => {
+  const fields = Object.keys(schema);
+  const mapped: FieldErrors = {};
+
+  Object.entries(errors).forEach(([key, message]) => {
+    const parts = toFieldPath(key).split(".");
+    for (let start = 0; start < parts.length; start++) {
+      const suffix = parts.slice(start).join(".");
+      const matches = fields.filter(
+        (field) => field === suffix || field.endsWith(`.${suffix}`)
+      );
+      if (matches.length === 1) {
+        mapped[matches[0]] ??= message;
+        return;
+      }
+    }
+  });
+
+  return mapped;
+};
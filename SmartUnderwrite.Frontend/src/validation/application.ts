@@ -0,0 +1,266 @@
+import { ApplicationFormData } from "@/types/application";
+import {
+  Rule,
+  Schema,
+  maxLength,
+  numberRange,
+  oneOf,
+  pattern,
+  required,
+} from "@/utils/validation";
+
+type ApplicationRule = Rule<ApplicationFormData>;
+
+export const EMPLOYMENT_TYPES = [
+  "Full-time",
+  "Part-time",
+  "Self-employed",
+  "Contract",
+  "Unemployed",
+  "Retired",
+] as const;
+
+// The API accepts $1,000 to $1,000,000 for any product; each product has its
+// own narrower range
+export const PRODUCT_LIMITS: Record<string, { min: number; max: number }> = {
+  "Personal Loan": { min: 1_000, max: 50_000 },
+  "Auto Loan": { min: 2_500, max: 100_000 },
+  "Home Loan": { min: 50_000, max: 1_000_000 },
+  "Business Loan": { min: 10_000, max: 500_000 },
+};
+
+export const PRODUCT_TYPES = Object.keys(PRODUCT_LIMITS);
+
+export const MINIMUM_APPLICANT_AGE = 18;
+
+// The first three digits of the ZIP codes USPS assigns to each state
+const ZIP_PREFIXES: Record<string, [number, number][]> = {
+  AL: [[350, 369]],
+  AK: [[995, 999]],
+  AZ: [[850, 865]],
+  AR: [[716, 729]],
+  CA: [[900, 961]],
+  CO: [[800, 816]],
+  CT: [[60, 69]],
+  DE: [[197, 199]],
+  DC: [
+    [200, 200],
+    [202, 205],
+    [569, 569],
+  ],
+  FL: [[320, 349]],
+  GA: [
+    [300, 319],
+    [398, 399],
+  ],
+  HI: [[967, 968]],
+  ID: [[832, 838]],
+  IL: [[600, 629]],
+  IN: [[460, 479]],
+  IA: [[500, 528]],
+  KS: [[660, 679]],
+  KY: [[400, 427]],
+  LA: [[700, 714]],
+  ME: [[39, 49]],
+  MD: [[206, 219]],
+  MA: [
+    [10, 27],
+    [55, 55],
+  ],
+  MI: [[480, 499]],
+  MN: [[550, 567]],
+  MS: [[386, 397]],
+  MO: [[630, 658]],
+  MT: [[590, 599]],
+  NE: [[680, 693]],
+  NV: [[889, 898]],
+  NH: [[30, 38]],
+  NJ: [[70, 89]],
+  NM: [[870, 884]],
+  NY: [
+    [5, 5],
+    [100, 149],
+  ],
+  NC: [[270, 289]],
+  ND: [[580, 588]],
+  OH: [[430, 459]],
+  OK: [[730, 749]],
+  OR: [[970, 979]],
+  PA: [[150, 196]],
+  PR: [
+    [6, 7],
+    [9, 9],
+  ],
+  RI: [[28, 29]],
+  SC: [[290, 299]],
+  SD: [[570, 577]],
+  TN: [[370, 385]],
+  TX: [
+    [750, 799],
+    [885, 885],
+  ],
+  UT: [[840, 847]],
+  VT: [[50, 59]],
+  VA: [
+    [201, 201],
+    [220, 246],
+  ],
+  WA: [[980, 994]],
+  WV: [[247, 268]],
+  WI: [[530, 549]],
+  WY: [[820, 831]],
+};
+
+export const STATE_CODES = Object.keys(ZIP_PREFIXES).sort();
+
+// Area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+const validSsn: ApplicationRule = (value) => {
+  if (!value) return undefined;
+  const match = /^(\d{3})-?(\d{2})-?(\d{4})$/.exec(value.trim());
+  if (!match) return "Enter 9 digits, e.g. 123-45-6789";
+  const [, area, group, serial] = match;
+  return area === "000" ||
+    area === "666" ||
+    area.startsWith("9") ||
+    group === "00" ||
+    serial === "0000"
+    ? "This is not a valid Social Security Number"
+    : undefined;
+};
+
+const adultBirthDate: ApplicationRule = (value) => {
+  if (!value) return undefined;
+  const birthDate = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(birthDate.getTime())) return "Enter a valid date";
+
+  const today = new Date();
+  const adultFrom = new Date(
+    birthDate.getFullYear() + MINIMUM_APPLICANT_AGE,
+    birthDate.getMonth(),
+    birthDate.getDate()
+  );
+  if (adultFrom > today) {
+    return `The applicant must be at least ${MINIMUM_APPLICANT_AGE}`;
+  }
+  return birthDate.getFullYear() < today.getFullYear() - 120
+    ? "Enter a valid date"
+    : undefined;
+};
+
+const zipMatchesState: ApplicationRule = (value, { address }) => {
+  const ranges = ZIP_PREFIXES[address.state.trim().toUpperCase()];
+  if (!value || !ranges || !/^\d{5}/.test(value)) return undefined;
+  const prefix = Number(value.slice(0, 3));
+  return ranges.some(([from, to]) => prefix >= from && prefix <= to)
+    ? undefined
+    : `This ZIP code is not in ${address.state.toUpperCase()}`;
+};
+
+const formatDollars = (amount: number) =>
+  amount.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+
+const amountWithinProductLimits: ApplicationRule = (value, values) => {
+  const { productType } = values.loan;
+  const limits = PRODUCT_LIMITS[productType];
+  if (!limits) return undefined;
+  return numberRange<ApplicationFormData>(
+    limits.min,
+    limits.max,
+    `${productType} amounts are ${formatDollars(limits.min)} to ${formatDollars(limits.max)}`
+  )(value, values);
+};
+
+/**
+ * The application wizard's rules. They cover what the API checks and the
+ * business rules the API leaves to the client, such as per-product limits.
+ */
+export const applicationSchema: Schema<ApplicationFormData> = {
+  "applicant.firstName": { rules: [required(), maxLength(100)] },
+  "applicant.lastName": { rules: [required(), maxLength(100)] },
+  "applicant.ssn": { rules: [required(), validSsn] },
+  "applicant.dateOfBirth": { rules: [required(), adultBirthDate] },
+  "applicant.email": {
+    rules: [
+      required(),
+      pattern(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, "Enter a valid email address"),
+    ],
+  },
+  "applicant.phone": {
+    rules: [
+      required(),
+      pattern(
+        /^(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/,
+        "Enter a 10-digit US phone number"
+      ),
+    ],
+  },
+  "address.street": { rules: [required(), maxLength(200)] },
+  "address.city": { rules: [required(), maxLength(100)] },
+  "address.state": {
+    rules: [
+      required(),
+      (value) =>
+        !value || STATE_CODES.includes(value.trim().toUpperCase())
+          ? undefined
+          : "Enter a two-letter state code, e.g. CA",
+    ],
+    affects: ["address.zipCode"],
+  },
+  "address.zipCode": {
+    rules: [
+      required(),
+      pattern(/^\d{5}(-\d{4})?$/, "Enter 5 digits or ZIP+4"),
+      zipMatchesState,
+    ],
+  },
+  "employment.employmentType": {
+    rules: [required(), oneOf(EMPLOYMENT_TYPES)],
+  },
+  "employment.incomeMonthly": {
+    rules: [
+      required(),
+      numberRange(0, Number.MAX_VALUE, "Enter an amount of $0 or more"),
+    ],
+  },
+  "employment.creditScore": {
+    rules: [pattern(/^\d+$/, "Enter a whole number"), numberRange(300, 850)],
+  },
+  "loan.productType": {
+    rules: [required(), oneOf(PRODUCT_TYPES)],
+    affects: ["loan.amount"],
+  },
+  "loan.amount": {
+    rules: [
+      required(),
+      numberRange(
+        1_000,
+        1_000_000,
+        "Enter an amount from $1,000 to $1,000,000"
+      ),
+      amountWithinProductLimits,
+    ],
+  },
+};
+
+// The fields each wizard step collects, in the order they are shown
+export const STEP_FIELDS: string[][] = [
+  [
+    "applicant.firstName",
+    "applicant.lastName",
+    "applicant.ssn",
+    "applicant.dateOfBirth",
+    "applicant.email",
+    "applicant.phone",
+  ],
+  ["address.street", "address.city", "address.state", "address.zipCode"],
+  [
+    "employment.employmentType",
+    "employment.incomeMonthly",
+    "employment.creditScore",
+  ],
+  ["loan.productType", "loan.amount"],
+];
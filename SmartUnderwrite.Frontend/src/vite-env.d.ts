@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_RESPONSE_VALIDATION?: "strict" | "warn" | "off";
+  readonly VITE_TOKEN_STORAGE?: "memory" | "localStorage";
+  readonly VITE_API_MAX_RETRIES?: string;
+  readonly VITE_API_RETRY_BASE_DELAY_MS?: string;
+  readonly VITE_IDLE_TIMEOUT_ADMIN_MINUTES?: string;
+  readonly VITE_IDLE_TIMEOUT_UNDERWRITER_MINUTES?: string;
+  readonly VITE_IDLE_TIMEOUT_AFFILIATE_MINUTES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -29,6 +29,12 @@ public class SmartUnderwriteDbContext : IdentityDbContext<User, Role, int>
     public DbSet<Rule> Rules { get; set; }
     public DbSet<RuleVersion> RuleVersions { get; set; }
     public DbSet<AuditLog> AuditLogs { get; set; }
+    public DbSet<Invitation> Invitations { get; set; }
+    public DbSet<UserSession> UserSessions { get; set; }
+    public DbSet<ApplicationDraft> ApplicationDrafts { get; set; }
+    public DbSet<ImportMapping> ImportMappings { get; set; }
+    public DbSet<SavedView> SavedViews { get; set; }
+    public DbSet<DefaultSavedView> DefaultSavedViews { get; set; }
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -44,6 +50,11 @@ public class SmartUnderwriteDbContext : IdentityDbContext<User, Role, int>
         ConfigureRuleEntity(modelBuilder);
         ConfigureRuleVersionEntity(modelBuilder);
         ConfigureAuditLogEntity(modelBuilder);
+        ConfigureInvitationEntity(modelBuilder);
+        ConfigureUserSessionEntity(modelBuilder);
+        ConfigureApplicationDraftEntity(modelBuilder);
+        ConfigureImportMappingEntity(modelBuilder);
+        ConfigureSavedViewEntities(modelBuilder);
     }
 
     private static void ConfigureAffiliateEntity(ModelBuilder modelBuilder)
@@ -64,6 +75,9 @@ public class SmartUnderwriteDbContext : IdentityDbContext<User, Role, int>
         {
             entity.Property(e => e.FirstName).HasMaxLength(100);
             entity.Property(e => e.LastName).HasMaxLength(100);
+            // EF leaves a value equal to the sentinel to the database default, so the
+            // sentinel must be true or an unapproved sign-up would be saved as approved
+            entity.Property(e => e.IsApproved).HasDefaultValue(true).HasSentinel(true);
             entity.HasOne(e => e.Affiliate)
                   .WithMany(a => a.Users)
                   .HasForeignKey(e => e.AffiliateId)
@@ -213,4 +227,108 @@ public class SmartUnderwriteDbContext : IdentityDbContext<User, Role, int>
             entity.HasIndex(e => e.Timestamp);
         });
     }
+
+    private static void ConfigureInvitationEntity(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<Invitation>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Code).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.Email).HasMaxLength(255);
+            entity.Property(e => e.ExpiresAt).IsRequired();
+
+            entity.HasOne(e => e.Affiliate)
+                  .WithMany()
+                  .HasForeignKey(e => e.AffiliateId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => e.Code).IsUnique();
+        });
+    }
+
+    private static void ConfigureUserSessionEntity(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<UserSession>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TokenHash).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.UserAgent).HasMaxLength(512);
+            entity.Property(e => e.IpAddress).HasMaxLength(45);
+            entity.Property(e => e.ExpiresAt).IsRequired();
+
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => e.TokenHash).IsUnique();
+            entity.HasIndex(e => e.UserId);
+        });
+    }
+
+    private static void ConfigureApplicationDraftEntity(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<ApplicationDraft>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Data).IsRequired().HasColumnType("text");
+
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => e.UserId);
+        });
+    }
+
+    private static void ConfigureImportMappingEntity(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<ImportMapping>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Columns).IsRequired().HasColumnType("text");
+
+            entity.HasOne(e => e.Affiliate)
+                  .WithMany()
+                  .HasForeignKey(e => e.AffiliateId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => e.AffiliateId).IsUnique();
+        });
+    }
+
+    private static void ConfigureSavedViewEntities(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<SavedView>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.List).IsRequired().HasMaxLength(50);
+            entity.Property(e => e.Name).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.Query).IsRequired().HasMaxLength(2000);
+
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.UserId, e.List, e.Name }).IsUnique();
+        });
+
+        modelBuilder.Entity<DefaultSavedView>(entity =>
+        {
+            entity.HasKey(e => new { e.UserId, e.List });
+            entity.Property(e => e.List).HasMaxLength(50);
+
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.SavedView)
+                  .WithMany()
+                  .HasForeignKey(e => e.SavedViewId)
+                  .OnDelete(DeleteBehavior.Cascade);
+        });
+    }
 }
\ No newline at end of file
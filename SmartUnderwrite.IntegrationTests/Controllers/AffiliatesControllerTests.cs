@@ -0,0 +1,272 @@
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.AspNetCore.TestHost;
+using Microsoft.Extensions.DependencyInjection;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Affiliates;
+using SmartUnderwrite.Api.Models.Auth;
+using SmartUnderwrite.Api.Services;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+using System.Net;
+using System.Net.Http.Json;
+using System.Text.Json;
+
+namespace SmartUnderwrite.IntegrationTests.Controllers;
+
+public class AffiliatesControllerTests : IClassFixture<TestWebApplicationFactory>
+{
+    private readonly TestWebApplicationFactory _factory;
+    private readonly HttpClient _client;
+
+    public AffiliatesControllerTests(TestWebApplicationFactory factory)
+    {
+        _factory = factory;
+        _client = _factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task InviteAffiliateUser_AsAdmin_AddsUserWithRole()
+    {
+        // Arrange
+        await SeedAdminUserAsync();
+        var affiliateId = await SeedAffiliateAsync("INVITE001");
+        await AuthenticateAsAdminAsync();
+
+        var request = new InviteAffiliateUserRequest
+        {
+            Email = "invited@example.com",
+            FirstName = "Invited",
+            LastName = "User",
+            Role = Roles.Affiliate
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync($"/api/affiliates/{affiliateId}/users/invite", request);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var users = await GetAffiliateUsersAsync(affiliateId);
+        var invited = Assert.Single(users);
+        Assert.Equal("invited@example.com", invited.Email);
+        Assert.Equal(new[] { Roles.Affiliate }, invited.Roles);
+        Assert.Null(invited.LastLoginAt);
+    }
+
+    [Fact]
+    public async Task InviteAffiliateUser_WithAdminRole_ReturnsBadRequest()
+    {
+        // Arrange
+        await SeedAdminUserAsync();
+        var affiliateId = await SeedAffiliateAsync("INVITE002");
+        await AuthenticateAsAdminAsync();
+
+        var request = new InviteAffiliateUserRequest
+        {
+            Email = "not-an-admin@example.com",
+            FirstName = "Not",
+            LastName = "Admin",
+            Role = Roles.Admin
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync($"/api/affiliates/{affiliateId}/users/invite", request);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task InviteAffiliateUser_WhenEmailFails_RemovesTheUser()
+    {
+        // Arrange
+        var factory = _factory.WithWebHostBuilder(builder => builder.ConfigureTestServices(services =>
+            services.AddSingleton<IAccountEmailService, FailingAccountEmailService>()));
+        var client = factory.CreateClient();
+        await SeedAdminUserAsync(factory);
+        var affiliateId = await SeedAffiliateAsync("INVITE003", factory);
+        await AuthenticateAsAdminAsync(client);
+
+        var request = new InviteAffiliateUserRequest
+        {
+            Email = "unreachable@example.com",
+            FirstName = "Unreachable",
+            LastName = "User",
+            Role = Roles.Affiliate
+        };
+
+        // Act
+        var response = await client.PostAsJsonAsync($"/api/affiliates/{affiliateId}/users/invite", request);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.InternalServerError, response.StatusCode);
+
+        using var scope = factory.Services.CreateScope();
+        var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+        Assert.Null(await userManager.FindByEmailAsync("unreachable@example.com"));
+    }
+
+    [Fact]
+    public async Task GetAffiliateUsers_AfterUserSignsIn_ReturnsLastLogin()
+    {
+        // Arrange
+        await SeedAdminUserAsync();
+        var affiliateId = await SeedAffiliateAsync("LOGIN001");
+        await SeedAffiliateUserAsync(affiliateId, "member@example.com", "MemberPassword123!");
+
+        var login = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = "member@example.com",
+            Password = "MemberPassword123!"
+        });
+        Assert.Equal(HttpStatusCode.OK, login.StatusCode);
+
+        await AuthenticateAsAdminAsync();
+
+        // Act
+        var users = await GetAffiliateUsersAsync(affiliateId);
+
+        // Assert
+        var member = Assert.Single(users);
+        Assert.NotNull(member.LastLoginAt);
+    }
+
+    [Fact]
+    public async Task ResetAffiliateUserPassword_ForUserOfAnotherAffiliate_ReturnsNotFound()
+    {
+        // Arrange
+        await SeedAdminUserAsync();
+        var affiliateId = await SeedAffiliateAsync("RESET001");
+        var otherAffiliateId = await SeedAffiliateAsync("RESET002");
+        var userId = await SeedAffiliateUserAsync(otherAffiliateId, "other-member@example.com", "MemberPassword123!");
+        await AuthenticateAsAdminAsync();
+
+        // Act
+        var response = await _client.PostAsync($"/api/affiliates/{affiliateId}/users/{userId}/reset-password", null);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+    }
+
+    private async Task<List<AffiliateUserDto>> GetAffiliateUsersAsync(int affiliateId)
+    {
+        var response = await _client.GetAsync($"/api/affiliates/{affiliateId}/users");
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var content = await response.Content.ReadAsStringAsync();
+        return JsonSerializer.Deserialize<List<AffiliateUserDto>>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+    }
+
+    private async Task AuthenticateAsAdminAsync(HttpClient? client = null)
+    {
+        client ??= _client;
+
+        var loginRequest = new LoginRequest
+        {
+            Email = "admin@example.com",
+            Password = "AdminPassword123!"
+        };
+
+        var response = await client.PostAsJsonAsync("/api/auth/login", loginRequest);
+        var content = await response.Content.ReadAsStringAsync();
+        var loginResponse = JsonSerializer.Deserialize<LoginResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+
+        client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+    }
+
+    private async Task<int> SeedAffiliateAsync(string externalId, WebApplicationFactory<Program>? factory = null)
+    {
+        using var scope = (factory ?? _factory).Services.CreateScope();
+        var roleManager = scope.ServiceProvider.GetRequiredService<RoleManager<Role>>();
+        var context = scope.ServiceProvider.GetRequiredService<SmartUnderwriteDbContext>();
+
+        await context.Database.EnsureCreatedAsync();
+
+        if (!await roleManager.RoleExistsAsync(Roles.Affiliate))
+        {
+            await roleManager.CreateAsync(new Role(Roles.Affiliate));
+        }
+
+        var affiliate = new Affiliate
+        {
+            Name = $"Affiliate {externalId}",
+            ExternalId = externalId,
+            IsActive = true
+        };
+        context.Affiliates.Add(affiliate);
+        await context.SaveChangesAsync();
+
+        return affiliate.Id;
+    }
+
+    private async Task<int> SeedAffiliateUserAsync(int affiliateId, string email, string password)
+    {
+        using var scope = _factory.Services.CreateScope();
+        var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+
+        var user = new User
+        {
+            UserName = email,
+            Email = email,
+            FirstName = "Affiliate",
+            LastName = "Member",
+            AffiliateId = affiliateId,
+            EmailConfirmed = true
+        };
+
+        await userManager.CreateAsync(user, password);
+        await userManager.AddToRoleAsync(user, Roles.Affiliate);
+
+        return user.Id;
+    }
+
+    private async Task SeedAdminUserAsync(WebApplicationFactory<Program>? factory = null)
+    {
+        using var scope = (factory ?? _factory).Services.CreateScope();
+        var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+        var roleManager = scope.ServiceProvider.GetRequiredService<RoleManager<Role>>();
+        var context = scope.ServiceProvider.GetRequiredService<SmartUnderwriteDbContext>();
+
+        await context.Database.EnsureCreatedAsync();
+
+        if (!await roleManager.RoleExistsAsync(Roles.Admin))
+        {
+            await roleManager.CreateAsync(new Role(Roles.Admin));
+        }
+
+        if (await userManager.FindByEmailAsync("admin@example.com") != null)
+        {
+            return;
+        }
+
+        var user = new User
+        {
+            UserName = "admin@example.com",
+            Email = "admin@example.com",
+            FirstName = "Admin",
+            LastName = "User",
+            EmailConfirmed = true
+        };
+
+        await userManager.CreateAsync(user, "AdminPassword123!");
+        await userManager.AddToRoleAsync(user, Roles.Admin);
+    }
+
+    private class FailingAccountEmailService : IAccountEmailService
+    {
+        public Task SendConfirmationEmailAsync(User user) => throw new InvalidOperationException("Mail server unavailable");
+
+        public Task SendPasswordResetEmailAsync(User user) => throw new InvalidOperationException("Mail server unavailable");
+
+        public Task SendAccountSetupEmailAsync(User user, string affiliateName) =>
+            throw new InvalidOperationException("Mail server unavailable");
+    }
+}
@@ -247,6 +247,197 @@ public class ApplicationsControllerTests : IClassFixture<TestWebApplicationFacto
         Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
     }
 
+    [Fact]
+    public async Task SubmitApplication_FromDraft_DeletesDraft()
+    {
+        // Arrange: save a draft, then resume it on a later step
+        await SeedAffiliateUserAsync();
+        var loginResponse = await LoginAffiliateUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        var draftRequest = new SaveApplicationDraftRequest
+        {
+            Step = 0,
+            Data = new ApplicationDraftData
+            {
+                Applicant = new DraftApplicant { FirstName = "Jane", LastName = "Draft" }
+            }
+        };
+        var createResponse = await _client.PostAsJsonAsync("/api/applicationdrafts", draftRequest);
+        Assert.Equal(HttpStatusCode.Created, createResponse.StatusCode);
+        var draft = (await createResponse.Content.ReadFromJsonAsync<ApplicationDraftDto>())!;
+
+        draftRequest.Step = 3;
+        draftRequest.Data.Loan.Amount = "15000";
+        var updateResponse = await _client.PutAsJsonAsync($"/api/applicationdrafts/{draft.Id}", draftRequest);
+        Assert.Equal(HttpStatusCode.OK, updateResponse.StatusCode);
+
+        var resumed = await _client.GetFromJsonAsync<ApplicationDraftDto>($"/api/applicationdrafts/{draft.Id}");
+        Assert.Equal(3, resumed!.Step);
+        Assert.Equal("Jane", resumed.Data.Applicant.FirstName);
+        Assert.Equal("15000", resumed.Data.Loan.Amount);
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/applications", new CreateApplicationRequest
+        {
+            FirstName = "Jane",
+            LastName = "Draft",
+            Ssn = "123456789",
+            DateOfBirth = new DateTime(1985, 5, 5),
+            Phone = "555-1234",
+            Email = "jane.draft@example.com",
+            Address = new AddressDto
+            {
+                Street = "1 Draft Way",
+                City = "Anytown",
+                State = "CA",
+                ZipCode = "12345"
+            },
+            ProductType = "Personal Loan",
+            Amount = 15000,
+            IncomeMonthly = 5000,
+            EmploymentType = "Full-time",
+            DraftId = draft.Id
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Created, response.StatusCode);
+
+        var draftResponse = await _client.GetAsync($"/api/applicationdrafts/{draft.Id}");
+        Assert.Equal(HttpStatusCode.NotFound, draftResponse.StatusCode);
+    }
+
+    [Fact]
+    public async Task CreateDraft_AsUnderwriter_ReturnsForbidden()
+    {
+        // Arrange
+        await SeedUnderwriterUserAsync();
+        var loginResponse = await LoginUnderwriterUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/applicationdrafts", new SaveApplicationDraftRequest());
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task SaveImportMapping_AsAffiliate_IsReturnedOnTheNextImport()
+    {
+        // Arrange
+        await SeedAffiliateUserAsync();
+        var loginResponse = await LoginAffiliateUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        var request = new SaveImportMappingRequest
+        {
+            Columns = new Dictionary<string, string>
+            {
+                ["applicant.firstName"] = "Given Name",
+                ["loan.amount"] = "Requested $"
+            }
+        };
+
+        // Act
+        var saveResponse = await _client.PutAsJsonAsync("/api/importmapping", request);
+        var mapping = await _client.GetFromJsonAsync<ImportMappingDto>("/api/importmapping");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, saveResponse.StatusCode);
+        Assert.NotNull(mapping!.UpdatedAt);
+        Assert.Equal("Given Name", mapping.Columns["applicant.firstName"]);
+        Assert.Equal("Requested $", mapping.Columns["loan.amount"]);
+    }
+
+    [Fact]
+    public async Task GetImportMapping_AsUnderwriter_ReturnsForbidden()
+    {
+        // Arrange
+        await SeedUnderwriterUserAsync();
+        var loginResponse = await LoginUnderwriterUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync("/api/importmapping");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task ExportApplications_AsAffiliate_ReturnsEveryRowWithContactDetailsMasked()
+    {
+        // Arrange
+        await SeedAffiliateUserAsync();
+        var loginResponse = await LoginAffiliateUserAsync();
+        var firstId = await CreateTestApplicationAsync(loginResponse.AccessToken);
+        var secondId = await CreateTestApplicationAsync(loginResponse.AccessToken);
+
+        _client.DefaultRequestHeaders.Authorization = 
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync(
+            "/api/applications/export?format=csv&columns=id&columns=email&columns=phone&pageSize=1");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+        Assert.Equal("text/csv", response.Content.Headers.ContentType?.MediaType);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var lines = content.TrimStart('\uFEFF').Split("\r\n", StringSplitOptions.RemoveEmptyEntries);
+        Assert.Equal("ID,Email,Phone", lines[0]);
+        Assert.Contains($"{firstId},t***@example.com,***-***-9876", lines);
+        Assert.Contains($"{secondId},t***@example.com,***-***-9876", lines);
+
+        using var scope = _factory.Services.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<SmartUnderwriteDbContext>();
+        Assert.Contains(context.AuditLogs, a => a.EntityType == "Export" && a.EntityId == "applications" && a.Action == "EXPORT");
+    }
+
+    [Fact]
+    public async Task ExportApplications_WithUnknownColumn_ReturnsBadRequest()
+    {
+        // Arrange
+        await SeedAffiliateUserAsync();
+        var loginResponse = await LoginAffiliateUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization = 
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync("/api/applications/export?format=csv&columns=salary");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task ExportApplications_UnmaskedAsAffiliate_ReturnsForbidden()
+    {
+        // Arrange
+        await SeedAffiliateUserAsync();
+        var loginResponse = await LoginAffiliateUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization = 
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync("/api/applications/export?format=csv&columns=id&columns=email&maskEmail=false");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
     private async Task SeedAffiliateUserAsync()
     {
         using var scope = _factory.Services.CreateScope();
@@ -1,10 +1,12 @@
 using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.AspNetCore.TestHost;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using SmartUnderwrite.Core.Entities;
 using SmartUnderwrite.Api.Models.Auth;
 using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Services;
 using SmartUnderwrite.Infrastructure.Data;
 using System.Net.Http.Json;
 using System.Net;
@@ -86,6 +88,191 @@ public class AuthControllerTests : IClassFixture<TestWebApplicationFactory>
         Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
     }
 
+    [Fact]
+    public async Task SignUp_WithValidData_CreatesAccountPendingConfirmation()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        var signUpRequest = new SignUpRequest
+        {
+            Email = "signup@example.com",
+            Password = "SignUpPassword123!",
+            ConfirmPassword = "SignUpPassword123!",
+            FirstName = "Sign",
+            LastName = "Up"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/signup", signUpRequest);
+        var loginResponse = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = signUpRequest.Email,
+            Password = signUpRequest.Password
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var signUpResponse = JsonSerializer.Deserialize<SignUpResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        });
+
+        Assert.NotNull(signUpResponse);
+        Assert.Equal(RegistrationStatus.PendingEmailConfirmation, signUpResponse.Status);
+
+        // The account cannot be used before confirmation and approval
+        Assert.Equal(HttpStatusCode.Forbidden, loginResponse.StatusCode);
+    }
+
+    [Fact]
+    public async Task SignUp_WithUnknownInvitationCode_ReturnsBadRequest()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        var signUpRequest = new SignUpRequest
+        {
+            Email = "invited@example.com",
+            Password = "SignUpPassword123!",
+            ConfirmPassword = "SignUpPassword123!",
+            FirstName = "Invited",
+            LastName = "User",
+            InvitationCode = "NOTACODE00"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/signup", signUpRequest);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task ForgotPassword_WithUnknownEmail_ReturnsOk()
+    {
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/forgot-password",
+            new ForgotPasswordRequest { Email = "nobody@example.com" });
+
+        // Assert: the response must not reveal whether the account exists
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task ResetPassword_WithValidToken_ChangesPasswordOnce()
+    {
+        // Arrange: a separate user so changing its password does not affect other tests
+        await SeedTestUserAsync();
+        string token;
+        using (var scope = _factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            var user = await userManager.FindByEmailAsync("reset@example.com");
+            if (user == null)
+            {
+                user = new User
+                {
+                    UserName = "reset@example.com",
+                    Email = "reset@example.com",
+                    FirstName = "Reset",
+                    LastName = "User",
+                    EmailConfirmed = true
+                };
+                await userManager.CreateAsync(user, "TestPassword123!");
+                await userManager.AddToRoleAsync(user, Roles.Underwriter);
+            }
+            token = await userManager.GeneratePasswordResetTokenAsync(user);
+        }
+
+        var resetRequest = new ResetPasswordRequest
+        {
+            Email = "reset@example.com",
+            Token = token,
+            NewPassword = "NewPassword456!",
+            ConfirmPassword = "NewPassword456!"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/reset-password", resetRequest);
+        var reuseResponse = await _client.PostAsJsonAsync("/api/auth/reset-password", resetRequest);
+        var loginResponse = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = "reset@example.com",
+            Password = "NewPassword456!"
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+        Assert.Equal(HttpStatusCode.BadRequest, reuseResponse.StatusCode);
+        Assert.Equal(HttpStatusCode.OK, loginResponse.StatusCode);
+    }
+
+    [Fact]
+    public async Task Login_WithMfaEnabled_ReturnsChallengeWithoutTokens()
+    {
+        // Arrange
+        await SeedMfaUserAsync();
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = "mfa@example.com",
+            Password = "TestPassword123!"
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+        Assert.False(response.Headers.Contains("Set-Cookie"));
+
+        var loginResponse = await response.Content.ReadFromJsonAsync<LoginResponse>();
+        Assert.NotNull(loginResponse);
+        Assert.False(string.IsNullOrEmpty(loginResponse.MfaChallengeToken));
+        Assert.Empty(loginResponse.AccessToken);
+        Assert.Empty(loginResponse.RefreshToken);
+    }
+
+    [Fact]
+    public async Task VerifyMfaLogin_WithAuthenticatorCode_ReturnsVerifiedSession()
+    {
+        // Arrange
+        await SeedMfaUserAsync();
+        var loginResponse = await (await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = "mfa@example.com",
+            Password = "TestPassword123!"
+        })).Content.ReadFromJsonAsync<LoginResponse>();
+
+        string code;
+        using (var scope = _factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            var user = await userManager.FindByEmailAsync("mfa@example.com");
+            code = await userManager.GenerateTwoFactorTokenAsync(user!, TokenOptions.DefaultAuthenticatorProvider);
+        }
+
+        // Act
+        var wrongCodeResponse = await _client.PostAsJsonAsync("/api/auth/login/mfa", new MfaLoginRequest
+        {
+            ChallengeToken = loginResponse!.MfaChallengeToken!,
+            Code = code == "000000" ? "111111" : "000000"
+        });
+        var response = await _client.PostAsJsonAsync("/api/auth/login/mfa", new MfaLoginRequest
+        {
+            ChallengeToken = loginResponse.MfaChallengeToken!,
+            Code = code
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Unauthorized, wrongCodeResponse.StatusCode);
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var session = await response.Content.ReadFromJsonAsync<LoginResponse>();
+        Assert.NotNull(session);
+        Assert.NotEmpty(session.AccessToken);
+        Assert.True(session.User.MfaVerified);
+    }
+
     [Fact]
     public async Task RefreshToken_WithValidToken_ReturnsNewTokens()
     {
@@ -139,6 +326,51 @@ public class AuthControllerTests : IClassFixture<TestWebApplicationFactory>
         Assert.Equal(HttpStatusCode.Unauthorized, response.StatusCode);
     }
 
+    [Fact]
+    public async Task RefreshToken_WithCookieOnly_ReturnsNewTokens()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        var loginResponse = await LoginTestUserAsync();
+
+        // Act: no body token and no access token, as after a page reload
+        var response = await _client.PostAsJsonAsync("/api/auth/refresh", new { });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+        Assert.Contains(response.Headers.GetValues("Set-Cookie"),
+            cookie => cookie.StartsWith("refreshToken=") && cookie.Contains("httponly"));
+
+        var content = await response.Content.ReadAsStringAsync();
+        var newLoginResponse = JsonSerializer.Deserialize<LoginResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        });
+
+        Assert.NotNull(newLoginResponse);
+        Assert.Equal(loginResponse.User.Id, newLoginResponse.User.Id);
+        Assert.NotEqual(loginResponse.RefreshToken, newLoginResponse.RefreshToken);
+    }
+
+    [Fact]
+    public async Task RefreshToken_WithRevokedToken_ReturnsUnauthorized()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        var loginResponse = await LoginTestUserAsync();
+        var refreshRequest = new RefreshTokenRequest
+        {
+            RefreshToken = loginResponse.RefreshToken
+        };
+        await _client.PostAsJsonAsync("/api/auth/refresh", refreshRequest);
+
+        // Act: the first refresh rotated the token
+        var response = await _client.PostAsJsonAsync("/api/auth/refresh", refreshRequest);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Unauthorized, response.StatusCode);
+    }
+
     [Fact]
     public async Task Logout_WithValidToken_ReturnsSuccess()
     {
@@ -177,6 +409,110 @@ public class AuthControllerTests : IClassFixture<TestWebApplicationFactory>
         Assert.Equal(HttpStatusCode.Unauthorized, response.StatusCode);
     }
 
+    [Fact]
+    public async Task RevokeSession_FromAnotherDevice_EndsThatSessionOnly()
+    {
+        // Arrange: sign in on two devices
+        await SeedTestUserAsync();
+        var laptop = await LoginTestUserAsync();
+        var phone = await LoginTestUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", laptop.AccessToken);
+        var laptopSessions = await _client.GetFromJsonAsync<List<SessionDto>>("/api/auth/sessions");
+        var laptopSessionId = Assert.Single(laptopSessions!, session => session.IsCurrent).Id;
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", phone.AccessToken);
+
+        // Act
+        var response = await _client.DeleteAsync($"/api/auth/sessions/{laptopSessionId}");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.NoContent, response.StatusCode);
+
+        var phoneSessions = await _client.GetFromJsonAsync<List<SessionDto>>("/api/auth/sessions");
+        Assert.DoesNotContain(phoneSessions!, session => session.Id == laptopSessionId);
+        Assert.Single(phoneSessions!, session => session.IsCurrent);
+
+        var laptopRefresh = await _client.PostAsJsonAsync("/api/auth/refresh",
+            new RefreshTokenRequest { RefreshToken = laptop.RefreshToken });
+        Assert.Equal(HttpStatusCode.Unauthorized, laptopRefresh.StatusCode);
+
+        var phoneRefresh = await _client.PostAsJsonAsync("/api/auth/refresh",
+            new RefreshTokenRequest { RefreshToken = phone.RefreshToken });
+        Assert.Equal(HttpStatusCode.OK, phoneRefresh.StatusCode);
+    }
+
+    [Fact]
+    public async Task RevokeAllSessions_EndsEverySession()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        var laptop = await LoginTestUserAsync();
+        var phone = await LoginTestUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", phone.AccessToken);
+
+        // Act
+        var response = await _client.DeleteAsync("/api/auth/sessions");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.NoContent, response.StatusCode);
+
+        foreach (var refreshToken in new[] { laptop.RefreshToken, phone.RefreshToken })
+        {
+            var refreshResponse = await _client.PostAsJsonAsync("/api/auth/refresh",
+                new RefreshTokenRequest { RefreshToken = refreshToken });
+            Assert.Equal(HttpStatusCode.Unauthorized, refreshResponse.StatusCode);
+        }
+    }
+
+    [Fact]
+    public async Task RevokeUserSessions_AsAdmin_EndsTheUsersSessions()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        await SeedAdminUserAsync();
+        var userLoginResponse = await LoginTestUserAsync();
+        var adminLoginResponse = await LoginAdminUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", adminLoginResponse.AccessToken);
+
+        // Act
+        var response = await _client.DeleteAsync($"/api/users/{userLoginResponse.User.Id}/sessions");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.NoContent, response.StatusCode);
+
+        var sessions = await _client.GetFromJsonAsync<List<SessionDto>>(
+            $"/api/users/{userLoginResponse.User.Id}/sessions");
+        Assert.Empty(sessions!);
+
+        var refreshResponse = await _client.PostAsJsonAsync("/api/auth/refresh",
+            new RefreshTokenRequest { RefreshToken = userLoginResponse.RefreshToken });
+        Assert.Equal(HttpStatusCode.Unauthorized, refreshResponse.StatusCode);
+    }
+
+    [Fact]
+    public async Task GetUserSessions_AsUnderwriter_ReturnsForbidden()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        var loginResponse = await LoginTestUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync($"/api/users/{loginResponse.User.Id}/sessions");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
     [Fact]
     public async Task GetCurrentUser_WithValidToken_ReturnsUserInfo()
     {
@@ -203,6 +539,61 @@ public class AuthControllerTests : IClassFixture<TestWebApplicationFactory>
         Assert.Equal("test@example.com", userInfo.Email);
         Assert.Equal("Test", userInfo.FirstName);
         Assert.Equal("User", userInfo.LastName);
+        Assert.Contains(Permissions.DecisionsMake, userInfo.Permissions);
+        Assert.DoesNotContain(Permissions.RulesEdit, userInfo.Permissions);
+    }
+
+    [Fact]
+    public async Task GetCurrentUser_WithDisabledAccount_ReturnsForbidden()
+    {
+        // Arrange: a separate user so disabling it does not affect other tests
+        var session = await LoginSeparateUserAsync("disabled@example.com");
+
+        using (var scope = _factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            var user = await userManager.FindByEmailAsync("disabled@example.com");
+            user!.IsApproved = false;
+            await userManager.UpdateAsync(user);
+        }
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", session.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync("/api/auth/me");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task GetCurrentUser_WhileLockedOut_KeepsTheSession()
+    {
+        // Arrange: failed passwords lock out new sign-ins only
+        var session = await LoginSeparateUserAsync("lockedout@example.com");
+
+        using (var scope = _factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            var user = await userManager.FindByEmailAsync("lockedout@example.com");
+            await userManager.SetLockoutEndDateAsync(user!, DateTimeOffset.MaxValue);
+        }
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", session.AccessToken);
+
+        // Act
+        var response = await _client.GetAsync("/api/auth/me");
+        var loginResponse = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = "lockedout@example.com",
+            Password = "TestPassword123!"
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+        Assert.Equal(HttpStatusCode.Unauthorized, loginResponse.StatusCode);
     }
 
     [Fact]
@@ -307,6 +698,261 @@ public class AuthControllerTests : IClassFixture<TestWebApplicationFactory>
         Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
     }
 
+    [Fact]
+    public async Task StartImpersonation_AsAdmin_ReturnsReadOnlySessionAsUser()
+    {
+        // Arrange
+        await SeedTestUserAsync();
+        await SeedAdminUserAsync();
+        var adminLoginResponse = await LoginAdminUserAsync();
+
+        int userId;
+        using (var scope = _factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            userId = (await userManager.FindByEmailAsync("test@example.com"))!.Id;
+        }
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", adminLoginResponse.AccessToken);
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/impersonation", new StartImpersonationRequest
+        {
+            UserId = userId,
+            Reason = "Support ticket 42"
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var content = await response.Content.ReadAsStringAsync();
+        var session = JsonSerializer.Deserialize<ImpersonationResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", session.AccessToken);
+
+        var meContent = await _client.GetStringAsync("/api/auth/me");
+        var userInfo = JsonSerializer.Deserialize<UserInfo>(meContent, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+        Assert.Equal("test@example.com", userInfo.Email);
+        Assert.Equal("admin@example.com", userInfo.Impersonator?.Email);
+
+        // Mutations are refused, except ending the session
+        var logoutResponse = await _client.PostAsJsonAsync("/api/auth/logout", new RefreshTokenRequest());
+        Assert.Equal(HttpStatusCode.Forbidden, logoutResponse.StatusCode);
+
+        var endResponse = await _client.DeleteAsync("/api/auth/impersonation");
+        Assert.Equal(HttpStatusCode.NoContent, endResponse.StatusCode);
+    }
+
+    [Fact]
+    public async Task StartImpersonation_OfAdmin_ReturnsBadRequest()
+    {
+        // Arrange
+        await SeedAdminUserAsync();
+        var adminLoginResponse = await LoginAdminUserAsync();
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", adminLoginResponse.AccessToken);
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/auth/impersonation", new StartImpersonationRequest
+        {
+            UserId = adminLoginResponse.User.Id,
+            Reason = "Checking my own view"
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task OidcLogin_WithMappedGroup_CreatesUserOnce()
+    {
+        // Arrange
+        var identity = new OidcIdentity
+        {
+            Subject = "idp-subject-1",
+            Email = "sso@example.com",
+            EmailVerified = true,
+            FirstName = "Sso",
+            LastName = "User",
+            Roles = new List<string> { Roles.Underwriter }
+        };
+        var (factory, client) = CreateOidcClient(identity);
+        await SeedRoleAsync(factory, Roles.Underwriter);
+
+        var request = new OidcLoginRequest
+        {
+            Code = "code",
+            CodeVerifier = "verifier",
+            RedirectUri = "http://localhost:3000/auth/callback",
+            Nonce = "nonce"
+        };
+
+        // Act
+        var firstResponse = await client.PostAsJsonAsync("/api/auth/oidc/login", request);
+        var secondResponse = await client.PostAsJsonAsync("/api/auth/oidc/login", request);
+
+        // Assert
+        Assert.Equal(HttpStatusCode.OK, firstResponse.StatusCode);
+        Assert.Equal(HttpStatusCode.OK, secondResponse.StatusCode);
+
+        var first = await ReadLoginResponseAsync(firstResponse);
+        var second = await ReadLoginResponseAsync(secondResponse);
+        Assert.False(string.IsNullOrEmpty(first.AccessToken));
+        Assert.Equal(first.User.Id, second.User.Id);
+        Assert.Equal(new[] { Roles.Underwriter }, second.User.Roles);
+    }
+
+    [Fact]
+    public async Task OidcLogin_WithoutMappedGroup_ReturnsForbidden()
+    {
+        // Arrange
+        var identity = new OidcIdentity
+        {
+            Subject = "idp-subject-2",
+            Email = "no-access@example.com",
+            EmailVerified = true
+        };
+        var (_, client) = CreateOidcClient(identity);
+
+        // Act
+        var response = await client.PostAsJsonAsync("/api/auth/oidc/login", new OidcLoginRequest
+        {
+            Code = "code",
+            CodeVerifier = "verifier",
+            RedirectUri = "http://localhost:3000/auth/callback",
+            Nonce = "nonce"
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task OidcLogin_WithMfaEnabled_SyncsRolesOnlyAfterSecondFactor()
+    {
+        // Arrange
+        var identity = new OidcIdentity
+        {
+            Subject = "idp-subject-3",
+            Email = "sso-mfa@example.com",
+            EmailVerified = true,
+            FirstName = "Sso",
+            LastName = "Mfa",
+            Roles = new List<string> { Roles.Admin }
+        };
+        var (factory, client) = CreateOidcClient(identity);
+        await SeedRoleAsync(factory, Roles.Underwriter);
+        await SeedRoleAsync(factory, Roles.Admin);
+
+        using (var scope = factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            var user = new User
+            {
+                UserName = identity.Email,
+                Email = identity.Email,
+                FirstName = identity.FirstName,
+                LastName = identity.LastName,
+                EmailConfirmed = true
+            };
+
+            await userManager.CreateAsync(user);
+            await userManager.AddToRoleAsync(user, Roles.Underwriter);
+            await userManager.ResetAuthenticatorKeyAsync(user);
+            await userManager.SetTwoFactorEnabledAsync(user, true);
+        }
+
+        // Act
+        var loginResponse = await ReadLoginResponseAsync(await client.PostAsJsonAsync("/api/auth/oidc/login", new OidcLoginRequest
+        {
+            Code = "code",
+            CodeVerifier = "verifier",
+            RedirectUri = "http://localhost:3000/auth/callback",
+            Nonce = "nonce"
+        }));
+
+        IList<string> rolesBeforeMfa;
+        string code;
+        using (var scope = factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            var user = await userManager.FindByEmailAsync(identity.Email);
+            rolesBeforeMfa = await userManager.GetRolesAsync(user!);
+            code = await userManager.GenerateTwoFactorTokenAsync(user!, TokenOptions.DefaultAuthenticatorProvider);
+        }
+
+        var response = await client.PostAsJsonAsync("/api/auth/login/mfa", new MfaLoginRequest
+        {
+            ChallengeToken = loginResponse.MfaChallengeToken!,
+            Code = code
+        });
+
+        // Assert
+        Assert.Equal(new[] { Roles.Underwriter }, rolesBeforeMfa);
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var session = await ReadLoginResponseAsync(response);
+        Assert.Equal(new[] { Roles.Admin }, session.User.Roles);
+    }
+
+    // The identity provider is replaced by one that vouches for the given user
+    private (WebApplicationFactory<Program>, HttpClient) CreateOidcClient(OidcIdentity identity)
+    {
+        var factory = _factory.WithWebHostBuilder(builder => builder.ConfigureTestServices(services =>
+            services.AddSingleton<IOidcService>(new FakeOidcService(identity))));
+        return (factory, factory.CreateClient());
+    }
+
+    private static async Task SeedRoleAsync(WebApplicationFactory<Program> factory, string role)
+    {
+        using var scope = factory.Services.CreateScope();
+        var roleManager = scope.ServiceProvider.GetRequiredService<RoleManager<Role>>();
+        var context = scope.ServiceProvider.GetRequiredService<SmartUnderwriteDbContext>();
+
+        await context.Database.EnsureCreatedAsync();
+
+        if (!await roleManager.RoleExistsAsync(role))
+        {
+            await roleManager.CreateAsync(new Role(role));
+        }
+    }
+
+    private static async Task<LoginResponse> ReadLoginResponseAsync(HttpResponseMessage response)
+    {
+        var content = await response.Content.ReadAsStringAsync();
+        return JsonSerializer.Deserialize<LoginResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+    }
+
+    private class FakeOidcService : IOidcService
+    {
+        private readonly OidcIdentity _identity;
+
+        public FakeOidcService(OidcIdentity identity)
+        {
+            _identity = identity;
+        }
+
+        public bool IsEnabled => true;
+
+        public Task<OidcProviderResponse> GetProviderAsync(CancellationToken cancellationToken = default) =>
+            Task.FromResult(new OidcProviderResponse { Enabled = true });
+
+        public Task<OidcIdentity?> ExchangeCodeAsync(OidcLoginRequest request, CancellationToken cancellationToken = default) =>
+            Task.FromResult<OidcIdentity?>(_identity);
+    }
+
     private async Task SeedTestUserAsync()
     {
         using var scope = _factory.Services.CreateScope();
@@ -379,6 +1025,71 @@ public class AuthControllerTests : IClassFixture<TestWebApplicationFactory>
         await userManager.AddToRoleAsync(user, Roles.Admin);
     }
 
+    private async Task SeedMfaUserAsync()
+    {
+        // Creates the database and the role
+        await SeedTestUserAsync();
+
+        using var scope = _factory.Services.CreateScope();
+        var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+
+        if (await userManager.FindByEmailAsync("mfa@example.com") != null)
+        {
+            return;
+        }
+
+        var user = new User
+        {
+            UserName = "mfa@example.com",
+            Email = "mfa@example.com",
+            FirstName = "Mfa",
+            LastName = "User",
+            EmailConfirmed = true
+        };
+
+        await userManager.CreateAsync(user, "TestPassword123!");
+        await userManager.AddToRoleAsync(user, Roles.Underwriter);
+        await userManager.ResetAuthenticatorKeyAsync(user);
+        await userManager.SetTwoFactorEnabledAsync(user, true);
+    }
+
+    // Signs in an underwriter of its own, for tests that change the account
+    private async Task<LoginResponse> LoginSeparateUserAsync(string email)
+    {
+        // Creates the database and the role
+        await SeedTestUserAsync();
+
+        using (var scope = _factory.Services.CreateScope())
+        {
+            var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+            if (await userManager.FindByEmailAsync(email) == null)
+            {
+                var user = new User
+                {
+                    UserName = email,
+                    Email = email,
+                    FirstName = "Separate",
+                    LastName = "User",
+                    EmailConfirmed = true
+                };
+                await userManager.CreateAsync(user, "TestPassword123!");
+                await userManager.AddToRoleAsync(user, Roles.Underwriter);
+            }
+        }
+
+        var response = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = email,
+            Password = "TestPassword123!"
+        });
+        var content = await response.Content.ReadAsStringAsync();
+
+        return JsonSerializer.Deserialize<LoginResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+    }
+
     private async Task<LoginResponse> LoginTestUserAsync()
     {
         var loginRequest = new LoginRequest
@@ -0,0 +1,226 @@
+using Microsoft.AspNetCore.Identity;
+using Microsoft.Extensions.DependencyInjection;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Auth;
+using SmartUnderwrite.Api.Models.SavedViews;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+using System.Net;
+using System.Net.Http.Json;
+using System.Text.Json;
+
+namespace SmartUnderwrite.IntegrationTests.Controllers;
+
+public class SavedViewsControllerTests : IClassFixture<TestWebApplicationFactory>
+{
+    private const string Password = "MemberPassword123!";
+
+    private readonly TestWebApplicationFactory _factory;
+    private readonly HttpClient _client;
+
+    public SavedViewsControllerTests(TestWebApplicationFactory factory)
+    {
+        _factory = factory;
+        _client = _factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task CreateSavedView_Shared_IsVisibleToTeammatesOnly()
+    {
+        // Arrange
+        var affiliateId = await SeedAffiliateAsync("VIEWS001");
+        var otherAffiliateId = await SeedAffiliateAsync("VIEWS002");
+        await SeedAffiliateUserAsync(affiliateId, "views-owner@example.com");
+        await SeedAffiliateUserAsync(affiliateId, "views-teammate@example.com");
+        await SeedAffiliateUserAsync(otherAffiliateId, "views-outsider@example.com");
+
+        await AuthenticateAsync("views-owner@example.com");
+        var response = await _client.PostAsJsonAsync("/api/savedviews", new CreateSavedViewRequest
+        {
+            List = "applications",
+            Name = "Large personal loans",
+            Query = "productType=Personal+Loan&minAmount=20000&sortBy=amount",
+            IsShared = true
+        });
+        Assert.Equal(HttpStatusCode.Created, response.StatusCode);
+
+        // Act
+        await AuthenticateAsync("views-teammate@example.com");
+        var teammateViews = await GetSavedViewsAsync("applications");
+
+        await AuthenticateAsync("views-outsider@example.com");
+        var outsiderViews = await GetSavedViewsAsync("applications");
+
+        // Assert
+        var shared = Assert.Single(teammateViews);
+        Assert.Equal("Large personal loans", shared.Name);
+        Assert.Equal("productType=Personal+Loan&minAmount=20000&sortBy=amount", shared.Query);
+        Assert.False(shared.IsOwner);
+        Assert.Empty(outsiderViews);
+    }
+
+    [Fact]
+    public async Task UpdateSavedView_AsTeammate_ReturnsNotFound()
+    {
+        // Arrange
+        var affiliateId = await SeedAffiliateAsync("VIEWS003");
+        await SeedAffiliateUserAsync(affiliateId, "views-author@example.com");
+        await SeedAffiliateUserAsync(affiliateId, "views-colleague@example.com");
+
+        await AuthenticateAsync("views-author@example.com");
+        var view = await CreateSavedViewAsync("Rejected", "status=Rejected", isShared: true);
+
+        await AuthenticateAsync("views-colleague@example.com");
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/api/savedviews/{view.Id}", new UpdateSavedViewRequest
+        {
+            Name = "Renamed",
+            Query = view.Query,
+            IsShared = false
+        });
+
+        // Assert
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task SetDefaultSavedView_ReplacesThePreviousDefault()
+    {
+        // Arrange
+        var affiliateId = await SeedAffiliateAsync("VIEWS004");
+        await SeedAffiliateUserAsync(affiliateId, "views-default@example.com");
+
+        await AuthenticateAsync("views-default@example.com");
+        var first = await CreateSavedViewAsync("Approved", "status=Approved", isShared: false);
+        var second = await CreateSavedViewAsync("Manual review", "status=ManualReview", isShared: false);
+        await _client.PutAsync($"/api/savedviews/{first.Id}/default", null);
+
+        // Act
+        var response = await _client.PutAsync($"/api/savedviews/{second.Id}/default", null);
+        var views = await GetSavedViewsAsync("applications");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.NoContent, response.StatusCode);
+        Assert.Equal(new[] { second.Id }, views.Where(v => v.IsDefault).Select(v => v.Id));
+    }
+
+    [Fact]
+    public async Task CreateAndUpdateSavedView_WithBlankName_ReturnBadRequest()
+    {
+        // Arrange
+        var affiliateId = await SeedAffiliateAsync("VIEWS005");
+        await SeedAffiliateUserAsync(affiliateId, "views-blank@example.com");
+
+        await AuthenticateAsync("views-blank@example.com");
+        var view = await CreateSavedViewAsync("Submitted", "status=Submitted", isShared: false);
+
+        // Act
+        var createResponse = await _client.PostAsJsonAsync("/api/savedviews", new CreateSavedViewRequest
+        {
+            List = "applications",
+            Name = "   ",
+            Query = "status=Approved",
+            IsShared = false
+        });
+        var updateResponse = await _client.PutAsJsonAsync($"/api/savedviews/{view.Id}", new UpdateSavedViewRequest
+        {
+            Name = "   ",
+            Query = view.Query,
+            IsShared = false
+        });
+        var views = await GetSavedViewsAsync("applications");
+
+        // Assert
+        Assert.Equal(HttpStatusCode.BadRequest, createResponse.StatusCode);
+        Assert.Equal(HttpStatusCode.BadRequest, updateResponse.StatusCode);
+        Assert.Equal(new[] { "Submitted" }, views.Select(v => v.Name));
+    }
+
+    private async Task<SavedViewDto> CreateSavedViewAsync(string name, string query, bool isShared)
+    {
+        var response = await _client.PostAsJsonAsync("/api/savedviews", new CreateSavedViewRequest
+        {
+            List = "applications",
+            Name = name,
+            Query = query,
+            IsShared = isShared
+        });
+        Assert.Equal(HttpStatusCode.Created, response.StatusCode);
+
+        return (await response.Content.ReadFromJsonAsync<SavedViewDto>())!;
+    }
+
+    private async Task<List<SavedViewDto>> GetSavedViewsAsync(string list)
+    {
+        var response = await _client.GetAsync($"/api/savedviews?list={list}");
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var content = await response.Content.ReadAsStringAsync();
+        return JsonSerializer.Deserialize<List<SavedViewDto>>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+    }
+
+    private async Task AuthenticateAsync(string email)
+    {
+        var response = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest
+        {
+            Email = email,
+            Password = Password
+        });
+        var content = await response.Content.ReadAsStringAsync();
+        var loginResponse = JsonSerializer.Deserialize<LoginResponse>(content, new JsonSerializerOptions
+        {
+            PropertyNameCaseInsensitive = true
+        })!;
+
+        _client.DefaultRequestHeaders.Authorization =
+            new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+    }
+
+    private async Task<int> SeedAffiliateAsync(string externalId)
+    {
+        using var scope = _factory.Services.CreateScope();
+        var roleManager = scope.ServiceProvider.GetRequiredService<RoleManager<Role>>();
+        var context = scope.ServiceProvider.GetRequiredService<SmartUnderwriteDbContext>();
+
+        await context.Database.EnsureCreatedAsync();
+
+        if (!await roleManager.RoleExistsAsync(Roles.Affiliate))
+        {
+            await roleManager.CreateAsync(new Role(Roles.Affiliate));
+        }
+
+        var affiliate = new Affiliate
+        {
+            Name = $"Affiliate {externalId}",
+            ExternalId = externalId,
+            IsActive = true
+        };
+        context.Affiliates.Add(affiliate);
+        await context.SaveChangesAsync();
+
+        return affiliate.Id;
+    }
+
+    private async Task SeedAffiliateUserAsync(int affiliateId, string email)
+    {
+        using var scope = _factory.Services.CreateScope();
+        var userManager = scope.ServiceProvider.GetRequiredService<UserManager<User>>();
+
+        var user = new User
+        {
+            UserName = email,
+            Email = email,
+            FirstName = "Affiliate",
+            LastName = "Member",
+            AffiliateId = affiliateId,
+            EmailConfirmed = true
+        };
+
+        await userManager.CreateAsync(user, Password);
+        await userManager.AddToRoleAsync(user, Roles.Affiliate);
+    }
+}
\ No newline at end of file
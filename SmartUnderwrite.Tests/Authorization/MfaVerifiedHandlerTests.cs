@@ -0,0 +1,77 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+using SmartUnderwrite.Api.Authorization;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models;
+using System.Security.Claims;
+using Xunit;
+
+namespace SmartUnderwrite.Tests.Authorization;
+
+public class MfaVerifiedHandlerTests
+{
+    private readonly MfaVerifiedHandler _handler;
+
+    public MfaVerifiedHandlerTests()
+    {
+        var settings = Options.Create(new MfaSettings { RequiredRoles = { Roles.Admin } });
+        _handler = new MfaVerifiedHandler(settings, new Mock<ILogger<MfaVerifiedHandler>>().Object);
+    }
+
+    [Fact]
+    public async Task HandleAsync_AdminWithoutVerifiedMfa_Fails()
+    {
+        // Arrange
+        var context = CreateContext(Roles.Admin, mfaVerified: false);
+
+        // Act
+        await _handler.HandleAsync(context);
+
+        // Assert
+        Assert.False(context.HasSucceeded);
+    }
+
+    [Fact]
+    public async Task HandleAsync_AdminWithVerifiedMfa_Succeeds()
+    {
+        // Arrange
+        var context = CreateContext(Roles.Admin, mfaVerified: true);
+
+        // Act
+        await _handler.HandleAsync(context);
+
+        // Assert
+        Assert.True(context.HasSucceeded);
+    }
+
+    [Fact]
+    public async Task HandleAsync_RoleWithoutMfaRequirement_Succeeds()
+    {
+        // Arrange
+        var context = CreateContext(Roles.Underwriter, mfaVerified: false);
+
+        // Act
+        await _handler.HandleAsync(context);
+
+        // Assert
+        Assert.True(context.HasSucceeded);
+    }
+
+    private static AuthorizationHandlerContext CreateContext(string role, bool mfaVerified)
+    {
+        var claims = new List<Claim>
+        {
+            new(ClaimTypes.NameIdentifier, "1"),
+            new(ClaimTypes.Role, role)
+        };
+        if (mfaVerified)
+        {
+            claims.Add(new Claim(AppClaimTypes.MfaVerified, "true"));
+        }
+
+        var user = new ClaimsPrincipal(new ClaimsIdentity(claims, "Test"));
+        return new AuthorizationHandlerContext(new[] { new MfaVerifiedRequirement() }, user, null);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using SmartUnderwrite.Core.Entities;
+using SmartUnderwrite.Infrastructure.Data;
+using Xunit;
+
+namespace SmartUnderwrite.Tests.Data;
+
+// Runs against SQLite rather than the in-memory provider, which ignores database defaults
+public class SmartUnderwriteDbContextTests : IDisposable
+{
+    private readonly SqliteConnection _connection;
+    private readonly DbContextOptions<SmartUnderwriteDbContext> _options;
+
+    public SmartUnderwriteDbContextTests()
+    {
+        _connection = new SqliteConnection("DataSource=:memory:");
+        _connection.Open();
+
+        _options = new DbContextOptionsBuilder<SmartUnderwriteDbContext>()
+            .UseSqlite(_connection)
+            .Options;
+
+        using var context = new SmartUnderwriteDbContext(_options);
+        context.Database.EnsureCreated();
+    }
+
+    [Fact]
+    public async Task SaveChanges_UserWhoSignedUp_StaysUnapproved()
+    {
+        // Arrange
+        var user = CreateUser("signed-up@example.com");
+        user.IsApproved = false;
+
+        // Act
+        var isApproved = await SaveAndReadIsApprovedAsync(user);
+
+        // Assert
+        Assert.False(isApproved);
+    }
+
+    [Fact]
+    public async Task SaveChanges_UserCreatedByAnAdmin_IsApproved()
+    {
+        // Arrange
+        var user = CreateUser("invited@example.com");
+
+        // Act
+        var isApproved = await SaveAndReadIsApprovedAsync(user);
+
+        // Assert
+        Assert.True(isApproved);
+    }
+
+    private async Task<bool> SaveAndReadIsApprovedAsync(User user)
+    {
+        await using (var context = new SmartUnderwriteDbContext(_options))
+        {
+            context.Users.Add(user);
+            await context.SaveChangesAsync();
+        }
+
+        // A new context reads the row, not the tracked entity
+        await using var readContext = new SmartUnderwriteDbContext(_options);
+        return await readContext.Users
+            .Where(u => u.Id == user.Id)
+            .Select(u => u.IsApproved)
+            .SingleAsync();
+    }
+
+    private static User CreateUser(string email)
+    {
+        return new User
+        {
+            UserName = email,
+            NormalizedUserName = email.ToUpperInvariant(),
+            Email = email,
+            NormalizedEmail = email.ToUpperInvariant(),
+            FirstName = "Test",
+            LastName = "User"
+        };
+    }
+
+    public void Dispose()
+    {
+        _connection.Dispose();
+    }
+}
\ No newline at end of file
@@ -181,6 +181,61 @@ public class ApplicationServiceTests : IDisposable
         });
     }
 
+    [Fact]
+    public async Task GetApplicationsAsync_WithSearchAndCreditScoreRange_ReturnsMatchingApplications()
+    {
+        // Arrange
+        var adminUser = CreateClaimsPrincipal("admin@test.com", new[] { "Admin" });
+        var filter = new ApplicationFilter
+        {
+            Search = "TEST USER2",
+            ProductType = "Auto Loan",
+            MinAmount = 20000,
+            MaxCreditScore = 700,
+            Page = 1,
+            PageSize = 10
+        };
+
+        // Act
+        var result = await _service.GetApplicationsAsync(filter, adminUser);
+
+        // Assert
+        var application = Assert.Single(result.Items);
+        Assert.Equal(2, application.Id);
+
+        filter.MaxCreditScore = 650;
+        var none = await _service.GetApplicationsAsync(filter, adminUser);
+        Assert.Empty(none.Items);
+    }
+
+    [Fact]
+    public async Task GetApplicationsAsync_SortedByAmount_ReturnsApplicationsInOrder()
+    {
+        // Arrange
+        var adminUser = CreateClaimsPrincipal("admin@test.com", new[] { "Admin" });
+        var filter = new ApplicationFilter { SortBy = "amount", SortDirection = "asc", Page = 1, PageSize = 10 };
+
+        // Act
+        var ascending = await _service.GetApplicationsAsync(filter, adminUser);
+        filter.SortDirection = "desc";
+        var descending = await _service.GetApplicationsAsync(filter, adminUser);
+
+        // Assert
+        Assert.Equal(new[] { 1, 2 }, ascending.Items.Select(a => a.Id));
+        Assert.Equal(new[] { 2, 1 }, descending.Items.Select(a => a.Id));
+    }
+
+    [Fact]
+    public async Task GetApplicationsAsync_UnknownSortField_ThrowsArgumentException()
+    {
+        // Arrange
+        var adminUser = CreateClaimsPrincipal("admin@test.com", new[] { "Admin" });
+        var filter = new ApplicationFilter { SortBy = "ssnHash" };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => _service.GetApplicationsAsync(filter, adminUser));
+    }
+
     [Fact]
     public async Task GetApplicationsAsync_AffiliateUser_OnlyReturnsOwnApplications()
     {
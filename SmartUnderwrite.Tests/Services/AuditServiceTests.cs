@@ -249,6 +249,45 @@ public class AuditServiceTests : IDisposable
         Assert.Equal(1000, result.Count()); // Should be limited to 1000
     }
 
+    [Fact]
+    public async Task GetAuditLogsAsync_ShouldFilterByUserAndActionBeforeLimiting_WhenProvided()
+    {
+        // Arrange
+        var auditLogs = new List<AuditLog>();
+        for (int i = 0; i < 1500; i++) // More than the 1000 limit, newer than the entry searched for
+        {
+            auditLogs.Add(new AuditLog
+            {
+                EntityType = "TestEntity",
+                EntityId = i.ToString(),
+                Action = "CREATE",
+                Changes = "{}",
+                UserId = "1",
+                Timestamp = DateTime.UtcNow.AddMinutes(-i)
+            });
+        }
+
+        auditLogs.Add(new AuditLog
+        {
+            EntityType = "User",
+            EntityId = "2",
+            Action = "MFA_DISABLED",
+            Changes = "{}",
+            UserId = "2",
+            Timestamp = DateTime.UtcNow.AddDays(-30)
+        });
+
+        _context.AuditLogs.AddRange(auditLogs);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _auditService.GetAuditLogsAsync(userId: 2, action: "mfa");
+
+        // Assert
+        var auditLog = Assert.Single(result);
+        Assert.Equal("MFA_DISABLED", auditLog.Action);
+    }
+
     [Fact]
     public async Task GetAuditLogsAsync_ShouldReturnOrderedByTimestamp_WhenMultipleLogsExist()
     {
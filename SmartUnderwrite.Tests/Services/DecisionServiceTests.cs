@@ -1,6 +1,7 @@
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Moq;
+using SmartUnderwrite.Api.Constants;
 using SmartUnderwrite.Api.Models.Application;
 using SmartUnderwrite.Api.Services;
 using SmartUnderwrite.Core.Entities;
@@ -704,6 +705,61 @@ public class DecisionServiceTests : IDisposable
         Assert.Contains("does not have permission to make decisions", exception.Message);
     }
 
+    [Fact]
+    public async Task MakeManualDecisionAsync_WithHighValueApprovalByUnderwriter_ThrowsUnauthorizedAccessException()
+    {
+        // Arrange
+        var affiliate = new Affiliate { Id = 1, Name = "Test Affiliate", ExternalId = "TEST001", IsActive = true };
+        var applicant = new Applicant
+        {
+            Id = 1,
+            FirstName = "John",
+            LastName = "Doe",
+            SsnHash = "hashedssn",
+            DateOfBirth = new DateTime(1990, 1, 1),
+            Phone = "555-1234",
+            Email = "john@example.com",
+            Address = new Address { Street = "123 Main St", City = "Anytown", State = "CA", ZipCode = "12345" }
+        };
+        var application = new LoanApplication
+        {
+            Id = 1,
+            AffiliateId = 1,
+            ApplicantId = 1,
+            ProductType = "Personal Loan",
+            Amount = RolePermissions.HighValueAmount,
+            IncomeMonthly = 15000,
+            EmploymentType = "Full-time",
+            CreditScore = 780,
+            Status = ApplicationStatus.InReview,
+            Affiliate = affiliate,
+            Applicant = applicant
+        };
+
+        _context.Affiliates.Add(affiliate);
+        _context.Applicants.Add(applicant);
+        _context.LoanApplications.Add(application);
+        await _context.SaveChangesAsync();
+
+        var userClaims = new ClaimsPrincipal(new ClaimsIdentity(new[]
+        {
+            new Claim(ClaimTypes.NameIdentifier, "1"),
+            new Claim(ClaimTypes.Role, "Underwriter")
+        }));
+
+        var request = new ManualDecisionRequest
+        {
+            Outcome = DecisionOutcome.Approve,
+            Reasons = new[] { "Strong credit profile" }
+        };
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<UnauthorizedAccessException>(
+            () => _decisionService.MakeManualDecisionAsync(1, request, userClaims));
+
+        Assert.Contains(Permissions.DecisionsApproveHighValue, exception.Message);
+    }
+
     [Fact]
     public async Task GetLatestDecisionAsync_WithAffiliateUserAccessingOwnApplication_ReturnsDecision()
     {
@@ -840,6 +896,72 @@ public class DecisionServiceTests : IDisposable
         Assert.Contains("does not have permission to view this application", exception.Message);
     }
 
+    [Fact]
+    public async Task GetDecisionsAsync_WithOutcomeAndManualFilter_ReturnsMatchingDecisionsOnly()
+    {
+        // Arrange
+        var affiliate = new Affiliate { Id = 1, Name = "Test Affiliate", ExternalId = "TEST001", IsActive = true };
+        var applicant = new Applicant
+        {
+            Id = 1,
+            FirstName = "John",
+            LastName = "Doe",
+            SsnHash = "hashedssn",
+            DateOfBirth = new DateTime(1990, 1, 1),
+            Phone = "555-1234",
+            Email = "john@example.com",
+            Address = new Address { Street = "123 Main St", City = "Anytown", State = "CA", ZipCode = "12345" }
+        };
+        var underwriter = new User
+        {
+            Id = 1,
+            FirstName = "Under",
+            LastName = "Writer",
+            UserName = "underwriter@test.com",
+            Email = "underwriter@test.com"
+        };
+        var application = new LoanApplication
+        {
+            Id = 1,
+            AffiliateId = 1,
+            ApplicantId = 1,
+            ProductType = "Personal Loan",
+            Amount = 10000,
+            IncomeMonthly = 5000,
+            EmploymentType = "Full-time",
+            CreditScore = 720,
+            Status = ApplicationStatus.Approved,
+            Affiliate = affiliate,
+            Applicant = applicant
+        };
+
+        _context.Affiliates.Add(affiliate);
+        _context.Applicants.Add(applicant);
+        _context.Users.Add(underwriter);
+        _context.LoanApplications.Add(application);
+        _context.Decisions.AddRange(
+            new Decision { Id = 1, LoanApplicationId = 1, Outcome = DecisionOutcome.Approve, Score = 750 },
+            new Decision { Id = 2, LoanApplicationId = 1, Outcome = DecisionOutcome.Approve, Score = 700, DecidedByUserId = 1 },
+            new Decision { Id = 3, LoanApplicationId = 1, Outcome = DecisionOutcome.Reject, Score = 400, DecidedByUserId = 1 });
+        await _context.SaveChangesAsync();
+
+        var userClaims = new ClaimsPrincipal(new ClaimsIdentity(new[]
+        {
+            new Claim(ClaimTypes.NameIdentifier, "1"),
+            new Claim(ClaimTypes.Role, "Underwriter")
+        }));
+
+        // Act
+        var result = await _decisionService.GetDecisionsAsync(
+            new DecisionFilter { Outcome = DecisionOutcome.Approve, IsManual = true },
+            userClaims);
+
+        // Assert
+        var decision = Assert.Single(result.Items);
+        Assert.Equal(2, decision.Id);
+        Assert.Equal(1, result.TotalCount);
+    }
+
     public void Dispose()
     {
         _context.Dispose();
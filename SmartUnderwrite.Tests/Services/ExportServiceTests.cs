@@ -0,0 +1,228 @@
+using Microsoft.Extensions.Logging;
+using Moq;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models.Export;
+using SmartUnderwrite.Api.Services;
+using System.IO.Compression;
+using System.Security.Claims;
+using System.Text;
+using System.Xml.Linq;
+using Xunit;
+
+namespace SmartUnderwrite.Tests.Services;
+
+public class ExportServiceTests
+{
+    private record Row(int Id, string Name, string Email, string Phone, string SsnHash, decimal Amount);
+
+    private static readonly IReadOnlyList<ExportColumn<Row>> Columns = new List<ExportColumn<Row>>
+    {
+        new("id", "ID", r => r.Id),
+        new("name", "Name", r => r.Name),
+        new("email", "Email", r => r.Email, ExportPii.Email),
+        new("phone", "Phone", r => r.Phone, ExportPii.Phone),
+        new("ssnHash", "SSN Hash", r => r.SsnHash, ExportPii.SsnHash),
+        new("amount", "Amount", r => r.Amount)
+    };
+
+    private static readonly Row[] Rows =
+    {
+        new(1, "Doe, John", "john@example.com", "(555) 123-4567", "c2FsdGVkaGFzaA==", 12500.50m),
+        new(2, "=HYPERLINK(\"http://evil\")", "jane@example.com", "555-9876", "b3RoZXJoYXNo", 800m)
+    };
+
+    private readonly Mock<IAuditService> _mockAuditService;
+    private readonly Mock<ICurrentUserService> _mockCurrentUserService;
+    private readonly ExportService _exportService;
+
+    public ExportServiceTests()
+    {
+        _mockAuditService = new Mock<IAuditService>();
+        _mockCurrentUserService = new Mock<ICurrentUserService>();
+        _mockCurrentUserService.Setup(x => x.GetUserId()).Returns(7);
+        _mockCurrentUserService.Setup(x => x.GetUser()).Returns(CreateUser(Roles.Admin));
+
+        _exportService = new ExportService(
+            _mockAuditService.Object,
+            _mockCurrentUserService.Object,
+            new Mock<ILogger<ExportService>>().Object);
+    }
+
+    [Fact]
+    public async Task ExportAsync_Csv_QuotesFieldsAndDefusesFormulas()
+    {
+        // Arrange
+        var request = new ExportRequest { Format = "csv", Columns = { "id", "name", "amount" } };
+
+        // Act
+        var lines = await ExportCsvAsync(request);
+
+        // Assert
+        Assert.Equal(new[]
+        {
+            "ID,Name,Amount",
+            "1,\"Doe, John\",12500.50",
+            "2,\"'=HYPERLINK(\"\"http://evil\"\")\",800"
+        }, lines);
+    }
+
+    [Fact]
+    public async Task ExportAsync_ByDefault_MasksPersonalData()
+    {
+        // Arrange
+        var request = new ExportRequest { Format = "csv", Columns = { "email", "phone", "ssnHash" } };
+
+        // Act
+        var lines = await ExportCsvAsync(request);
+
+        // Assert
+        Assert.Equal("j***@example.com,***-***-4567,***", lines[1]);
+        Assert.Equal("j***@example.com,***-***-9876,***", lines[2]);
+    }
+
+    [Fact]
+    public async Task ExportAsync_WithMaskingTurnedOff_WritesPersonalData()
+    {
+        // Arrange
+        var request = new ExportRequest
+        {
+            Format = "csv",
+            Columns = { "email", "phone" },
+            MaskEmail = false,
+            MaskPhone = false
+        };
+
+        // Act
+        var lines = await ExportCsvAsync(request);
+
+        // Assert
+        Assert.Equal("john@example.com,(555) 123-4567", lines[1]);
+    }
+
+    [Fact]
+    public async Task ExportAsync_WithMaskingTurnedOff_LogsAnUnmaskedExport()
+    {
+        // Arrange
+        var request = new ExportRequest { Format = "csv", Columns = { "id", "email" }, MaskEmail = false };
+
+        // Act
+        await ExportCsvAsync(request);
+
+        // Assert
+        _mockAuditService.Verify(x => x.LogAsync(
+            "Export",
+            "applications",
+            "EXPORT_UNMASKED",
+            It.IsAny<object>(),
+            7), Times.Once);
+    }
+
+    [Fact]
+    public async Task ExportAsync_Xlsx_WritesOneSheetRowPerRow()
+    {
+        // Arrange
+        var request = new ExportRequest { Format = "xlsx", Columns = { "id", "name" } };
+        using var output = new MemoryStream();
+
+        // Act
+        await _exportService.ExportAsync(
+            output, "applications", request, _exportService.SelectColumns(Columns, request), ToAsync(Rows), new { });
+
+        // Assert
+        output.Position = 0;
+        using var archive = new ZipArchive(output, ZipArchiveMode.Read);
+        Assert.NotNull(archive.GetEntry("[Content_Types].xml"));
+        Assert.NotNull(archive.GetEntry("xl/workbook.xml"));
+
+        using var sheetStream = archive.GetEntry("xl/worksheets/sheet1.xml")!.Open();
+        var sheet = XDocument.Load(sheetStream);
+        XNamespace ns = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+        var rows = sheet.Descendants(ns + "row").ToList();
+        Assert.Equal(3, rows.Count);
+        Assert.Equal("1", rows[1].Elements(ns + "c").First().Element(ns + "v")!.Value);
+        Assert.Equal("Doe, John", rows[1].Elements(ns + "c").Last().Descendants(ns + "t").Single().Value);
+    }
+
+    [Fact]
+    public async Task ExportAsync_LogsTheExportWithItsRowCount()
+    {
+        // Arrange
+        var request = new ExportRequest { Format = "csv", Columns = { "id", "email" } };
+
+        // Act
+        var rowCount = await _exportService.ExportAsync(
+            new MemoryStream(), "applications", request, _exportService.SelectColumns(Columns, request), ToAsync(Rows), new { });
+
+        // Assert
+        Assert.Equal(2, rowCount);
+        _mockAuditService.Verify(x => x.LogAsync(
+            "Export",
+            "applications",
+            "EXPORT",
+            It.Is<object>(changes => changes.ToString()!.Contains("RowCount = 2") && changes.ToString()!.Contains("Completed = True")),
+            7), Times.Once);
+    }
+
+    [Fact]
+    public void SelectColumns_WithUnknownColumn_ThrowsArgumentException()
+    {
+        // Arrange
+        var request = new ExportRequest { Columns = { "id", "salary" } };
+
+        // Act & Assert
+        var exception = Assert.Throws<ArgumentException>(() => _exportService.SelectColumns(Columns, request));
+        Assert.Contains("salary", exception.Message);
+    }
+
+    [Fact]
+    public void SelectColumns_UnmaskedWithoutPiiExportPermission_ThrowsUnauthorizedAccessException()
+    {
+        // Arrange
+        _mockCurrentUserService.Setup(x => x.GetUser()).Returns(CreateUser(Roles.Underwriter));
+        var request = new ExportRequest { Columns = { "id", "phone" }, MaskPhone = false };
+
+        // Act & Assert
+        var exception = Assert.Throws<UnauthorizedAccessException>(() => _exportService.SelectColumns(Columns, request));
+        Assert.Contains(Permissions.PiiExport, exception.Message);
+    }
+
+    [Fact]
+    public void SelectColumns_MaskingOffForAnUnselectedColumn_DoesNotNeedPiiExportPermission()
+    {
+        // Arrange
+        _mockCurrentUserService.Setup(x => x.GetUser()).Returns(CreateUser(Roles.Underwriter));
+        var request = new ExportRequest { Columns = { "id", "email" }, MaskPhone = false };
+
+        // Act
+        var columns = _exportService.SelectColumns(Columns, request);
+
+        // Assert
+        Assert.Equal(new[] { "id", "email" }, columns.Select(column => column.Key));
+    }
+
+    private static ClaimsPrincipal CreateUser(string role)
+    {
+        return new ClaimsPrincipal(new ClaimsIdentity(new[] { new Claim(ClaimTypes.Role, role) }, "Test"));
+    }
+
+    private async Task<string[]> ExportCsvAsync(ExportRequest request)
+    {
+        using var output = new MemoryStream();
+        await _exportService.ExportAsync(
+            output, "applications", request, _exportService.SelectColumns(Columns, request), ToAsync(Rows), new { });
+
+        var text = new UTF8Encoding(true).GetString(output.ToArray());
+        Assert.Equal('\uFEFF', text[0]);
+        return text.TrimStart('\uFEFF').Split("\r\n", StringSplitOptions.RemoveEmptyEntries);
+    }
+
+    private static async IAsyncEnumerable<T> ToAsync<T>(IEnumerable<T> items)
+    {
+        foreach (var item in items)
+        {
+            yield return item;
+        }
+
+        await Task.CompletedTask;
+    }
+}
\ No newline at end of file
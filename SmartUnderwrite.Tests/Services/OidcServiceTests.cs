@@ -0,0 +1,78 @@
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+using SmartUnderwrite.Api.Constants;
+using SmartUnderwrite.Api.Models;
+using SmartUnderwrite.Api.Services;
+using Xunit;
+
+namespace SmartUnderwrite.Tests.Services;
+
+public class OidcServiceTests
+{
+    private readonly OidcService _oidcService;
+
+    public OidcServiceTests()
+    {
+        var settings = new OidcSettings
+        {
+            Authority = "https://idp.example.com",
+            ClientId = "smartunderwrite",
+            GroupRoles = new Dictionary<string, string>
+            {
+                ["uw-team"] = Roles.Underwriter,
+                ["uw-leads"] = Roles.Underwriter,
+                ["platform-admins"] = Roles.Admin,
+                ["partners"] = Roles.Affiliate
+            }
+        };
+
+        _oidcService = new OidcService(
+            Options.Create(settings),
+            Mock.Of<IHttpClientFactory>(),
+            Mock.Of<ILogger<OidcService>>());
+    }
+
+    [Fact]
+    public void MapRoles_ShouldReturnEachMappedRoleOnce()
+    {
+        // Act
+        var roles = _oidcService.MapRoles(new[] { "uw-team", "uw-leads", "platform-admins" });
+
+        // Assert
+        Assert.Equal(new[] { Roles.Admin, Roles.Underwriter }, roles);
+    }
+
+    [Fact]
+    public void MapRoles_ShouldIgnoreUnknownGroups()
+    {
+        // Act
+        var roles = _oidcService.MapRoles(new[] { "everyone", "marketing" });
+
+        // Assert
+        Assert.Empty(roles);
+    }
+
+    [Fact]
+    public void MapRoles_ShouldNeverGrantAffiliate()
+    {
+        // Act
+        var roles = _oidcService.MapRoles(new[] { "partners" });
+
+        // Assert
+        Assert.Empty(roles);
+    }
+
+    [Fact]
+    public void IsEnabled_ShouldBeFalse_WithoutAuthority()
+    {
+        // Arrange
+        var service = new OidcService(
+            Options.Create(new OidcSettings { ClientId = "smartunderwrite" }),
+            Mock.Of<IHttpClientFactory>(),
+            Mock.Of<ILogger<OidcService>>());
+
+        // Assert
+        Assert.False(service.IsEnabled);
+    }
+}